@@ -34,6 +34,7 @@ async function main() {
         zoneName: webHostingStack.zoneName,
         hostedZoneId: webHostingStack.hostedZoneId,
         webUiDomain: webHostingStack.webSubFQDN,
+        serviceClientIds: (process.env.RAG_SERVICE_CLIENT_IDS ?? '').split(',').map(id => id.trim()).filter(Boolean),
     });
 
     
@@ -2,6 +2,7 @@
 process.env.AWS_REGION = 'us-east-1';
 process.env.DOCUMENT_BUCKET = 'test-documents-bucket';
 process.env.QUARANTINE_BUCKET = 'test-quarantine-bucket';
+process.env.DOCUMENT_TABLE = 'test-document-table';
 process.env.EVENT_BUS_NAME = 'test-event-bus';
 process.env.EVENT_SOURCE = 'rag.document-ingestion.test';
 process.env.IDENTITY_POOL_ID = 'us-east-1:test-identity-pool-id';
@@ -0,0 +1,143 @@
+import {APIGatewayProxyEventV2} from 'aws-lambda';
+import {getUserClaims, HttpError} from './http.js';
+import {JWTClaims} from './typing.js';
+
+export type Role = 'reader' | 'uploader' | 'reviewer' | 'admin';
+
+/** A signed-in person, or a machine client using the OAuth client-credentials grant. */
+export type PrincipalType = 'user' | 'service';
+
+/** Cognito groups and the role each one grants. */
+export const ROLE_BY_GROUP: Readonly<Record<string, Role>> = {
+    'odmd-rag-uploader': 'uploader',
+    'odmd-rag-reviewer': 'reviewer',
+    'odmd-rag-admin': 'admin'
+};
+
+/**
+ * Scopes a service client can be granted on the resource server, and the role each
+ * one grants. Resource-server prefixes such as `rag-ingestion/` are ignored.
+ */
+export const ROLE_BY_SCOPE: Readonly<Record<string, Role>> = {
+    'ingest:read': 'reader',
+    'ingest:write': 'uploader'
+};
+
+/** The caller of an API route, as established from the JWT the API Gateway authorizer verified. */
+export interface Caller {
+    /** Owner of the documents the caller creates: the user's `sub`, or the service's client ID. */
+    userId: string;
+    email?: string;
+    principalType: PrincipalType;
+    /** Who to record as the uploader: the user's email (or `sub`), or `service:<client id>`. */
+    principal: string;
+    groups: string[];
+    scopes: string[];
+    roles: ReadonlySet<Role>;
+}
+
+/**
+ * Reads `cognito:groups` in whichever shape it arrives. Lambda tests and direct
+ * invocations pass an array, but the HTTP API JWT authorizer flattens array claims
+ * into a string such as `[odmd-rag-uploader odmd-rag-admin]`. A JSON array string
+ * and a comma-separated list are accepted too.
+ */
+export function parseGroups(claim: unknown): string[] {
+    if (Array.isArray(claim)) {
+        return claim.filter((group): group is string => typeof group === 'string' && group.length > 0);
+    }
+    if (typeof claim !== 'string') return [];
+
+    const value = claim.trim();
+    if (value.startsWith('[') && value.endsWith(']')) {
+        try {
+            const parsed: unknown = JSON.parse(value);
+            if (Array.isArray(parsed)) return parseGroups(parsed);
+        } catch {
+            // Not JSON: the authorizer's `[a b]` form, handled below.
+        }
+    }
+    return value.replace(/^\[|\]$/g, '')
+        .split(/[\s,]+/)
+        .map(group => group.replace(/^"|"$/g, ''))
+        .filter(Boolean);
+}
+
+/** Uploaders can read what they upload, and admins hold every role. */
+function withImpliedRoles(roles: Set<Role>): Set<Role> {
+    if (roles.has('admin')) {
+        roles.add('uploader');
+        roles.add('reviewer');
+    }
+    if (roles.has('uploader')) roles.add('reader');
+    return roles;
+}
+
+/** Unknown groups grant nothing. */
+export function rolesFromGroups(groups: string[]): Set<Role> {
+    const roles = new Set<Role>();
+    for (const group of groups) {
+        const role = ROLE_BY_GROUP[group];
+        if (role) roles.add(role);
+    }
+    return withImpliedRoles(roles);
+}
+
+/** `ingest:write` implies `ingest:read`, as uploaders can read their uploads. Unknown scopes grant nothing. */
+export function rolesFromScopes(scopes: string[]): Set<Role> {
+    const roles = new Set<Role>();
+    for (const scope of scopes) {
+        const role = ROLE_BY_SCOPE[scope.slice(scope.lastIndexOf('/') + 1)];
+        if (role) roles.add(role);
+    }
+    return withImpliedRoles(roles);
+}
+
+/**
+ * A client-credentials access token has no user behind it: Cognito sets `sub` to
+ * the app client ID and issues no username. Such callers get their roles from
+ * `scope` only, never from groups.
+ */
+function isServiceToken(claims: JWTClaims): boolean {
+    return claims.token_use === 'access' && !!claims.client_id && claims.sub === claims.client_id && !claims.username;
+}
+
+export function callerFromClaims(claims: JWTClaims): Caller {
+    if (isServiceToken(claims)) {
+        const scopes = claims.scope?.split(/\s+/).filter(Boolean) ?? [];
+        return {
+            userId: claims.sub,
+            principalType: 'service',
+            principal: `service:${claims.client_id}`,
+            groups: [],
+            scopes,
+            roles: rolesFromScopes(scopes)
+        };
+    }
+
+    const groups = parseGroups(claims['cognito:groups']);
+    return {
+        userId: claims.sub,
+        ...(claims.email && {email: claims.email}),
+        principalType: 'user',
+        principal: claims.email || claims.sub,
+        groups,
+        scopes: [],
+        roles: rolesFromGroups(groups)
+    };
+}
+
+/**
+ * Resolves the caller and checks they hold at least one of `allowed`. Every API
+ * handler calls this first; a caller without a matching role gets a 403
+ * `HttpError`, which the handler's catch turns into the usual error envelope.
+ */
+export function authorize(event: APIGatewayProxyEventV2, ...allowed: Role[]): Caller {
+    const caller = callerFromClaims(getUserClaims(event));
+    if (!allowed.some(role => caller.roles.has(role))) {
+        const grants = caller.principalType === 'service' ? `scopes [${caller.scopes.join(', ')}]` : `groups [${caller.groups.join(', ')}]`;
+        console.warn(`Denied ${event.routeKey} to ${caller.principal}: ${grants} grant none of ${allowed.join(', ')}`);
+        throw new HttpError(403, `Forbidden: this action requires the ${allowed.join(' or ')} role`);
+    }
+    return caller;
+}
@@ -0,0 +1,13 @@
+import {createHash} from 'crypto';
+
+/** S3 encodes `x-amz-checksum-sha256` as the base64 of the 32-byte digest. */
+const SHA256_BASE64 = /^[A-Za-z0-9+/]{43}=$/;
+
+export function isSha256Base64(value: unknown): value is string {
+    return typeof value === 'string' && SHA256_BASE64.test(value);
+}
+
+/** The document's SHA-256 in the form S3 uses for `x-amz-checksum-sha256`. */
+export function sha256Base64(body: Uint8Array): string {
+    return createHash('sha256').update(body).digest('base64');
+}
@@ -0,0 +1,131 @@
+import {createHash, randomUUID} from 'crypto';
+import {DynamoDBDocumentClient, DeleteCommand, GetCommand, PutCommand, QueryCommand} from '@aws-sdk/lib-dynamodb';
+
+/**
+ * A named group of a user's documents, typically one knowledge base. Every user has
+ * a default collection, created the first time it is needed; uploads that name no
+ * collection go there.
+ */
+export interface CollectionRecord {
+    userId: string;
+    collectionId: string;
+    name: string;
+    description?: string;
+    isDefault?: boolean;
+    createdAt: string;
+    updatedAt: string;
+}
+
+export const DEFAULT_COLLECTION_NAME = 'Default';
+
+/** Documents are stored under `collections/{collectionId}/{documentId}`. */
+export const COLLECTION_KEY_PREFIX = 'collections/';
+
+/**
+ * The default collection's ID is derived from the user ID, so concurrent first
+ * uploads agree on it without coordinating. Collection IDs are unique across users
+ * because they appear in the shared object key space.
+ */
+export function defaultCollectionId(userId: string): string {
+    return `default-${createHash('sha256').update(userId).digest('hex').slice(0, 32)}`;
+}
+
+export function collectionObjectKey(collectionId: string, documentId: string): string {
+    return `${COLLECTION_KEY_PREFIX}${collectionId}/${documentId}`;
+}
+
+/**
+ * Splits an object key back into its document ID and collection. Keys written
+ * before collections existed are the document ID itself.
+ */
+export function parseObjectKey(key: string): {documentId: string; collectionId?: string} {
+    if (!key.startsWith(COLLECTION_KEY_PREFIX)) return {documentId: key};
+    const rest = key.slice(COLLECTION_KEY_PREFIX.length);
+    const slash = rest.indexOf('/');
+    if (slash <= 0 || slash === rest.length - 1) return {documentId: key};
+    return {collectionId: rest.slice(0, slash), documentId: rest.slice(slash + 1)};
+}
+
+/**
+ * A user's collections, keyed by user ID and collection ID.
+ */
+export class CollectionRegistry {
+    constructor(private readonly client: DynamoDBDocumentClient, private readonly tableName: string) {
+    }
+
+    async create(userId: string, fields: Pick<CollectionRecord, 'name' | 'description'>): Promise<CollectionRecord> {
+        const now = new Date().toISOString();
+        const item: CollectionRecord = {
+            userId,
+            collectionId: randomUUID(),
+            name: fields.name,
+            ...(fields.description && {description: fields.description}),
+            createdAt: now,
+            updatedAt: now
+        };
+        await this.client.send(new PutCommand({
+            TableName: this.tableName,
+            Item: item,
+            ConditionExpression: 'attribute_not_exists(collectionId)'
+        }));
+        return item;
+    }
+
+    async get(userId: string, collectionId: string): Promise<CollectionRecord | null> {
+        const response = await this.client.send(new GetCommand({
+            TableName: this.tableName,
+            Key: {userId, collectionId},
+            ConsistentRead: true
+        }));
+        return (response.Item as CollectionRecord | undefined) ?? null;
+    }
+
+    /**
+     * The user's default collection, creating it on first use. A concurrent creation
+     * loses the conditional put and reads the winner's item instead.
+     */
+    async ensureDefault(userId: string): Promise<CollectionRecord> {
+        const collectionId = defaultCollectionId(userId);
+        const existing = await this.get(userId, collectionId);
+        if (existing) return existing;
+
+        const now = new Date().toISOString();
+        const item: CollectionRecord = {userId, collectionId, name: DEFAULT_COLLECTION_NAME, isDefault: true, createdAt: now, updatedAt: now};
+        try {
+            await this.client.send(new PutCommand({
+                TableName: this.tableName,
+                Item: item,
+                ConditionExpression: 'attribute_not_exists(collectionId)'
+            }));
+            return item;
+        } catch (error) {
+            if ((error as any).name !== 'ConditionalCheckFailedException') throw error;
+            return (await this.get(userId, collectionId))!;
+        }
+    }
+
+    /** All of the user's collections, in collection ID order. */
+    async listByUser(userId: string): Promise<CollectionRecord[]> {
+        const records: CollectionRecord[] = [];
+        let exclusiveStartKey: Record<string, unknown> | undefined;
+        do {
+            const response = await this.client.send(new QueryCommand({
+                TableName: this.tableName,
+                KeyConditionExpression: '#userId = :userId',
+                ExpressionAttributeNames: {'#userId': 'userId'},
+                ExpressionAttributeValues: {':userId': userId},
+                ...(exclusiveStartKey && {ExclusiveStartKey: exclusiveStartKey})
+            }));
+            records.push(...(response.Items || []) as CollectionRecord[]);
+            exclusiveStartKey = response.LastEvaluatedKey;
+        } while (exclusiveStartKey);
+        return records;
+    }
+
+    async delete(userId: string, collectionId: string): Promise<void> {
+        await this.client.send(new DeleteCommand({
+            TableName: this.tableName,
+            Key: {userId, collectionId}
+        }));
+    }
+}
@@ -0,0 +1,118 @@
+import {APIGatewayProxyEventV2, APIGatewayProxyResultV2} from 'aws-lambda';
+import {createResponse, HttpError} from './http.js';
+import {authorize} from './authorization.js';
+import {createDocumentClient, DocumentRegistry, DocumentState} from './document-registry.js';
+import {STATUS_BY_STATE} from './document-status.js';
+import {CollectionRecord, CollectionRegistry} from './collection-registry.js';
+import {CollectionListResponse, CollectionSummary, CreateCollectionRequest} from './typing.js';
+
+const registry = new DocumentRegistry(createDocumentClient(), process.env.DOCUMENT_TABLE!);
+const collections = new CollectionRegistry(createDocumentClient(), process.env.COLLECTION_TABLE!);
+
+const MAX_NAME_LENGTH = 128;
+const MAX_DESCRIPTION_LENGTH = 1024;
+
+// Any document that has not been deleted still holds the collection open.
+const LIVE_STATES = (Object.keys(STATUS_BY_STATE) as DocumentState[]).filter(state => state !== 'deleted');
+
+function toCollectionSummary(record: CollectionRecord): CollectionSummary {
+    return {
+        collectionId: record.collectionId,
+        name: record.name,
+        ...(record.description && {description: record.description}),
+        isDefault: record.isDefault === true,
+        createdAt: record.createdAt
+    };
+}
+
+function validateCreateRequest(request: Partial<CreateCollectionRequest>): CreateCollectionRequest {
+    const name = typeof request.name === 'string' ? request.name.trim() : '';
+    if (!name) throw new HttpError(400, 'name is required');
+    if (name.length > MAX_NAME_LENGTH) throw new HttpError(400, `name must be at most ${MAX_NAME_LENGTH} characters`);
+
+    const {description} = request;
+    if (description !== undefined && (typeof description !== 'string' || description.length > MAX_DESCRIPTION_LENGTH)) {
+        throw new HttpError(400, `description must be a string of at most ${MAX_DESCRIPTION_LENGTH} characters`);
+    }
+    return {name, ...(description?.trim() && {description: description.trim()})};
+}
+
+/**
+ * The default collection is created here too, so a new user's list is never empty
+ * and the web UI always has something to preselect.
+ */
+async function listCollections(userId: string) {
+    await collections.ensureDefault(userId);
+    const records = await collections.listByUser(userId);
+    records.sort((a, b) => Number(b.isDefault === true) - Number(a.isDefault === true) || a.name.localeCompare(b.name));
+
+    const response: CollectionListResponse = {collections: records.map(toCollectionSummary)};
+    return createResponse(200, response);
+}
+
+/**
+ * Names are unique per user, ignoring case, so the collection picker never shows
+ * two entries that look the same.
+ */
+async function createCollection(event: APIGatewayProxyEventV2, userId: string) {
+    const request = validateCreateRequest(JSON.parse(event.body || '{}'));
+
+    await collections.ensureDefault(userId);
+    const existing = await collections.listByUser(userId);
+    if (existing.some(collection => collection.name.toLowerCase() === request.name.toLowerCase())) {
+        throw new HttpError(409, `A collection named ${request.name} already exists`);
+    }
+
+    const created = await collections.create(userId, request);
+    console.log(`Created collection ${created.collectionId} (${created.name}) for ${userId}`);
+    return createResponse(200, toCollectionSummary(created));
+}
+
+/**
+ * Only empty collections can be deleted: documents keep their collection ID in
+ * their object key and in downstream indexes, so they are deleted first.
+ */
+async function deleteCollection(event: APIGatewayProxyEventV2, userId: string) {
+    const collectionId = event.pathParameters?.collectionId;
+    if (!collectionId) throw new HttpError(400, 'collectionId is required in the path');
+
+    const record = await collections.get(userId, collectionId);
+    if (!record) throw new HttpError(404, `Collection ${collectionId} not found`);
+    if (record.isDefault) throw new HttpError(409, 'The default collection cannot be deleted');
+
+    const {records: remaining} = await registry.listByUser(userId, {
+        limit: 1,
+        collectionId,
+        states: LIVE_STATES
+    });
+    if (remaining.length) {
+        throw new HttpError(409, `Collection ${collectionId} still contains documents; delete them first`);
+    }
+
+    await collections.delete(userId, collectionId);
+    console.log(`Deleted collection ${collectionId} (${record.name}) for ${userId}`);
+    return createResponse(200, toCollectionSummary(record));
+}
+
+export const handler = async (event: APIGatewayProxyEventV2): Promise<APIGatewayProxyResultV2> => {
+    console.log(`[${event.requestContext.requestId}] ${event.routeKey}`, JSON.stringify(event.pathParameters || {}));
+    try {
+        switch (event.routeKey) {
+            case 'GET /collections':
+                return await listCollections(authorize(event, 'reader').userId);
+            case 'POST /collections':
+                return await createCollection(event, authorize(event, 'uploader').userId);
+            case 'DELETE /collections/{collectionId}':
+                return await deleteCollection(event, authorize(event, 'uploader').userId);
+            default:
+                return createResponse(404, undefined, `Unsupported route ${event.routeKey}`);
+        }
+    } catch (error) {
+        console.error('Collections handler error:', error);
+        if (error instanceof HttpError) {
+            return createResponse(error.statusCode, undefined, error.message);
+        }
+        const message = error instanceof Error ? error.message : 'Internal server error';
+        return createResponse(400, undefined, message);
+    }
+};
@@ -0,0 +1,73 @@
+import {DeleteCommand, DynamoDBDocumentClient, PutCommand, QueryCommand} from '@aws-sdk/lib-dynamodb';
+
+export const SUBSCRIBER_INDEX_NAME = 'documentId-connectionId-index';
+
+/** API Gateway closes WebSocket connections after two hours, so subscriptions never need to outlive that. */
+const SUBSCRIPTION_TTL_SECONDS = 2 * 60 * 60;
+
+export interface Subscription {
+    connectionId: string;
+    documentId: string;
+    userId: string;
+    subscribedAt: string;
+    /** Epoch seconds; the table's TTL removes subscriptions of connections that vanished without a `$disconnect`. */
+    expiresAt: number;
+}
+
+/**
+ * WebSocket subscriptions to document status, one item per connection and
+ * document. The table is keyed by connection so a disconnect can drop all of a
+ * connection's subscriptions, and indexed by document so a status change finds
+ * its subscribers.
+ */
+export class ConnectionRegistry {
+    constructor(private readonly client: DynamoDBDocumentClient, private readonly tableName: string) {
+    }
+
+    async subscribe(connectionId: string, userId: string, documentIds: string[], now = new Date()): Promise<void> {
+        const expiresAt = Math.floor(now.getTime() / 1000) + SUBSCRIPTION_TTL_SECONDS;
+        await Promise.all(documentIds.map(documentId => this.client.send(new PutCommand({
+            TableName: this.tableName,
+            Item: {connectionId, documentId, userId, subscribedAt: now.toISOString(), expiresAt} satisfies Subscription
+        }))));
+    }
+
+    async unsubscribe(connectionId: string, documentIds: string[]): Promise<void> {
+        await Promise.all(documentIds.map(documentId => this.client.send(new DeleteCommand({
+            TableName: this.tableName,
+            Key: {connectionId, documentId}
+        }))));
+    }
+
+    /** Drops every subscription of a closed connection. */
+    async disconnect(connectionId: string): Promise<void> {
+        const subscriptions = await this.query({
+            KeyConditionExpression: 'connectionId = :connectionId',
+            ExpressionAttributeValues: {':connectionId': connectionId}
+        });
+        await this.unsubscribe(connectionId, subscriptions.map(({documentId}) => documentId));
+    }
+
+    async subscribers(documentId: string): Promise<Subscription[]> {
+        return this.query({
+            IndexName: SUBSCRIBER_INDEX_NAME,
+            KeyConditionExpression: 'documentId = :documentId',
+            ExpressionAttributeValues: {':documentId': documentId}
+        });
+    }
+
+    private async query(input: Omit<QueryCommand['input'], 'TableName'>): Promise<Subscription[]> {
+        const subscriptions: Subscription[] = [];
+        let exclusiveStartKey: Record<string, unknown> | undefined;
+        do {
+            const result = await this.client.send(new QueryCommand({
+                TableName: this.tableName,
+                ...input,
+                ...(exclusiveStartKey && {ExclusiveStartKey: exclusiveStartKey})
+            }));
+            subscriptions.push(...(result.Items ?? []) as Subscription[]);
+            exclusiveStartKey = result.LastEvaluatedKey;
+        } while (exclusiveStartKey);
+        return subscriptions;
+    }
+}
@@ -0,0 +1,132 @@
+import {EventBridgeClient, PutEventsCommand} from '@aws-sdk/client-eventbridge';
+import {DocumentAnnotation, DocumentMetadata, DocumentMetadataSchema, DocumentUserMetadata} from './schemas/document-metadata.schema.js';
+import {DocumentDeleted, DocumentDeletedSchema} from './schemas/document-deleted.schema.js';
+import {DocumentSuperseded, DocumentSupersededSchema} from './schemas/document-superseded.schema.js';
+
+export const DEFAULT_EVENT_SOURCE = 'rag.document-ingestion';
+
+export const DOCUMENT_DELETED = 'Document Deleted';
+export const DOCUMENT_SUPERSEDED = 'Document Superseded';
+/** Published by the downstream services, not by this one; see `DocumentStageChangedSchema`. */
+export const DOCUMENT_STAGE_CHANGED = 'Document Stage Changed';
+
+export type DocumentEventType = 'Document Validated' | 'Document Quarantined' | 'Document Rejected';
+
+const VALIDATION_STATUS: Record<DocumentEventType, DocumentMetadata['validationResult']['validationStatus']> = {
+    'Document Validated': 'approved',
+    'Document Quarantined': 'quarantined',
+    'Document Rejected': 'rejected'
+};
+
+export interface DocumentEventInput {
+    documentId: string;
+    bucketName: string;
+    objectKey: string;
+    contentType: string;
+    contentLength: number;
+    lastModified?: Date;
+    eTag?: string;
+    versionId?: string;
+    checksumSha256?: string;
+    decidedAt: string;
+    reason?: string;
+    annotations?: DocumentAnnotation[];
+    ingestedAt: string;
+    collectionId?: string;
+    userMetadata?: DocumentUserMetadata;
+}
+
+/**
+ * Builds the `DocumentMetadata` record that is both the metadata sidecar and the
+ * `detail` of every lifecycle event. Quarantined documents point at their copy in
+ * the quarantine bucket, so callers pass that location.
+ */
+export function buildDocumentMetadata(type: DocumentEventType, input: DocumentEventInput): DocumentMetadata {
+    const validationStatus = VALIDATION_STATUS[type];
+    const approved = validationStatus === 'approved';
+    const comments = approved ? 'Automatically approved after passing all validation checks' : input.reason;
+
+    return DocumentMetadataSchema.parse({
+        documentId: input.documentId,
+        ...(input.collectionId && {collectionId: input.collectionId}),
+        s3Reference: {
+            bucketName: input.bucketName,
+            objectKey: input.objectKey,
+            contentType: input.contentType,
+            contentLength: input.contentLength,
+            ...(input.lastModified && {lastModified: input.lastModified.toISOString()}),
+            ...(input.eTag && {eTag: input.eTag}),
+            ...(input.versionId && {versionId: input.versionId}),
+            ...(input.checksumSha256 && {checksumSha256: input.checksumSha256})
+        },
+        validationResult: {
+            isValid: approved,
+            validationStatus,
+            validatedAt: input.decidedAt,
+            validatedBy: 'auto-validation',
+            ...(comments && {validationComments: comments}),
+            ...(!approved && input.reason && {reason: input.reason}),
+            ...(approved && input.annotations && {annotations: input.annotations})
+        },
+        s3Tags: {
+            'validation-status': validationStatus,
+            'download-approved': approved ? 'true' : 'false',
+            'validated-at': input.decidedAt,
+            'validated-by': 'auto-validation',
+            ...(comments && {'validation-comments': comments})
+        },
+        ingestedAt: input.ingestedAt,
+        processingEligible: approved,
+        ...(input.userMetadata && {userMetadata: input.userMetadata})
+    });
+}
+
+/**
+ * Publishes document lifecycle events to the service's custom event bus.
+ */
+export class DocumentEventPublisher {
+    constructor(private readonly client: EventBridgeClient,
+                private readonly eventBusName: string,
+                private readonly source: string = DEFAULT_EVENT_SOURCE) {
+    }
+
+    async publish(type: DocumentEventType, detail: DocumentMetadata): Promise<string | undefined> {
+        return this.put(type, detail.documentId, detail, [`arn:aws:s3:::${detail.s3Reference.bucketName}/${detail.s3Reference.objectKey}`]);
+    }
+
+    /**
+     * Tells downstream services to purge everything derived from the document.
+     */
+    async publishDeleted(detail: DocumentDeleted): Promise<string | undefined> {
+        const record = DocumentDeletedSchema.parse(detail);
+        const resources = record.deletedObjects.map(object => `arn:aws:s3:::${object.bucketName}/${object.objectKey}`);
+        return this.put(DOCUMENT_DELETED, record.documentId, record, [...new Set(resources)]);
+    }
+
+    /**
+     * Tells downstream services to retire what they derived from an old revision.
+     */
+    async publishSuperseded(detail: DocumentSuperseded): Promise<string | undefined> {
+        const record = DocumentSupersededSchema.parse(detail);
+        return this.put(DOCUMENT_SUPERSEDED, record.documentId, record,
+            [`arn:aws:s3:::${record.s3Reference.bucketName}/${record.s3Reference.objectKey}`]);
+    }
+
+    private async put(type: string, documentId: string, detail: object, resources: string[]): Promise<string | undefined> {
+        const response = await this.client.send(new PutEventsCommand({
+            Entries: [{
+                EventBusName: this.eventBusName,
+                Source: this.source,
+                DetailType: type,
+                Detail: JSON.stringify(detail),
+                Resources: resources
+            }]
+        }));
+
+        const entry = response.Entries?.[0];
+        if (response.FailedEntryCount || entry?.ErrorCode) {
+            throw new Error(`EventBridge rejected ${type} for ${documentId}: ${entry?.ErrorCode} ${entry?.ErrorMessage}`);
+        }
+        return entry?.EventId;
+    }
+}
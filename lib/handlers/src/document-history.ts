@@ -0,0 +1,127 @@
+import {DynamoDBDocumentClient, PutCommand, QueryCommand} from '@aws-sdk/lib-dynamodb';
+import {randomUUID} from 'crypto';
+import {Caller, PrincipalType} from './authorization.js';
+import {DocumentRecord} from './document-registry.js';
+
+export type HistoryEvent =
+    | 'upload_url_issued'
+    | 'upload_aborted'
+    | 'upload_completed'
+    | 'validation_started'
+    | 'validator_result'
+    | 'scan_pending'
+    | 'validated'
+    | 'quarantined'
+    | 'released'
+    | 'rejected'
+    | 'duplicate'
+    | 'superseded'
+    | 'deleted'
+    | 'stage_changed';
+
+/** Who caused an entry: a user or service client by principal, or a part of the system by name. */
+export interface HistoryActor {
+    type: PrincipalType | 'system';
+    id: string;
+}
+
+export interface HistoryEntry {
+    documentId: string;
+    /** `{at}#{sequence}`: sorts entries by time and keeps entries written in the same millisecond apart and in order. */
+    entryKey: string;
+    at: string;
+    event: HistoryEvent;
+    actor: HistoryActor;
+    /** Facts particular to the event, e.g. a validator's name and outcome, or the quarantine reason. */
+    details?: Record<string, unknown>;
+}
+
+export interface DocumentHistoryResponse {
+    documentId: string;
+    /** Oldest first. */
+    entries: Omit<HistoryEntry, 'entryKey'>[];
+}
+
+export const VALIDATION_ACTOR: HistoryActor = {type: 'system', id: 'validation-handler'};
+
+export function callerActor(caller: Caller): HistoryActor {
+    return {type: caller.principalType, id: caller.principal};
+}
+
+/** The principal that requested the upload; documents from before uploaders were recorded fall back to the owner. */
+export function uploaderActor(record: DocumentRecord): HistoryActor {
+    return {type: record.uploaderType ?? 'user', id: record.uploadedBy ?? record.userEmail ?? record.userId};
+}
+
+/** What an `upload_url_issued` entry records about the newly registered document. */
+export function uploadDetails(record: DocumentRecord): Record<string, unknown> {
+    return {
+        fileName: record.fileName,
+        fileType: record.fileType,
+        fileSize: record.fileSize,
+        ...(record.uploadMode && {uploadMode: record.uploadMode}),
+        ...(record.collectionId && {collectionId: record.collectionId}),
+        ...(record.batchId && {batchId: record.batchId}),
+        ...(record.replacesDocumentId && {replacesDocumentId: record.replacesDocumentId, revision: record.revision})
+    };
+}
+
+let sequence = 0;
+
+/**
+ * Append-only history of each document, keyed by document ID and `entryKey`.
+ * Entries are never updated or removed, deletion included, so the history still
+ * explains a document after it is gone.
+ */
+export class DocumentHistory {
+    constructor(private readonly client: DynamoDBDocumentClient, private readonly tableName: string) {
+    }
+
+    async append(documentId: string, event: HistoryEvent, actor: HistoryActor,
+                 details?: Record<string, unknown>, at = new Date()): Promise<HistoryEntry> {
+        const timestamp = at.toISOString();
+        const entry: HistoryEntry = {
+            documentId,
+            entryKey: `${timestamp}#${String(++sequence).padStart(8, '0')}-${randomUUID().slice(0, 8)}`,
+            at: timestamp,
+            event,
+            actor,
+            ...(details && {details})
+        };
+        await this.client.send(new PutCommand({
+            TableName: this.tableName,
+            Item: entry,
+            ConditionExpression: 'attribute_not_exists(entryKey)'
+        }));
+        return entry;
+    }
+
+    /**
+     * Appends like `append`, but logs a failure instead of throwing: a missing
+     * history entry must not undo or fail the action it describes.
+     */
+    async record(documentId: string, event: HistoryEvent, actor: HistoryActor,
+                 details?: Record<string, unknown>, at?: Date): Promise<void> {
+        try {
+            await this.append(documentId, event, actor, details, at);
+        } catch (error) {
+            console.error(`Failed to record ${event} in the history of ${documentId}:`, error);
+        }
+    }
+
+    async list(documentId: string): Promise<HistoryEntry[]> {
+        const entries: HistoryEntry[] = [];
+        let exclusiveStartKey: Record<string, unknown> | undefined;
+        do {
+            const result = await this.client.send(new QueryCommand({
+                TableName: this.tableName,
+                KeyConditionExpression: 'documentId = :documentId',
+                ExpressionAttributeValues: {':documentId': documentId},
+                ...(exclusiveStartKey && {ExclusiveStartKey: exclusiveStartKey})
+            }));
+            entries.push(...(result.Items ?? []) as HistoryEntry[]);
+            exclusiveStartKey = result.LastEvaluatedKey;
+        } while (exclusiveStartKey);
+        return entries;
+    }
+}
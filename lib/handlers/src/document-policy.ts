@@ -0,0 +1,76 @@
+/**
+ * Document type policy shared by the upload URL handler, the validation handler
+ * and (through GET /policy) the web UI.
+ *
+ * Every accepted document type is described exactly once here: the extensions it
+ * may be uploaded under, its size cap, the file signatures its bytes may carry and
+ * the content validators and structural inspection the validation handler runs
+ * against it.
+ */
+import {SignatureKind} from './file-signature.js';
+
+const MB = 1024 * 1024;
+
+export type DocumentValidatorName = 'signature' | 'utf8-text' | 'json-structure' | 'markup-structure';
+
+export interface DocumentTypePolicy {
+    mimeType: string;
+    label: string;
+    extensions: string[];
+    maxFileSize: number;
+    signatures: SignatureKind[];
+    validators: DocumentValidatorName[];
+    /** Structural inspection of the whole document, run after the validators; see `pdf-inspection.ts`. */
+    inspection?: 'pdf';
+}
+
+export interface DocumentPolicy {
+    version: number;
+    maxFileSize: number;
+    types: DocumentTypePolicy[];
+}
+
+const DOCUMENT_TYPES: DocumentTypePolicy[] = [
+    {mimeType: 'text/plain', label: 'TXT', extensions: ['txt'], maxFileSize: 20 * MB, signatures: ['text'], validators: ['signature']},
+    {mimeType: 'text/markdown', label: 'MD', extensions: ['md'], maxFileSize: 20 * MB, signatures: ['text'], validators: ['signature']},
+    {mimeType: 'text/csv', label: 'CSV', extensions: ['csv'], maxFileSize: 50 * MB, signatures: ['text'], validators: ['signature']},
+    {mimeType: 'text/tab-separated-values', label: 'TSV', extensions: ['tsv'], maxFileSize: 50 * MB, signatures: ['text'], validators: ['signature']},
+    {mimeType: 'application/json', label: 'JSON', extensions: ['json'], maxFileSize: 20 * MB, signatures: ['text'], validators: ['signature', 'utf8-text', 'json-structure']},
+    {mimeType: 'application/xml', label: 'XML', extensions: ['xml'], maxFileSize: 20 * MB, signatures: ['text'], validators: ['signature', 'markup-structure']},
+    {mimeType: 'text/html', label: 'HTML', extensions: ['html', 'htm'], maxFileSize: 20 * MB, signatures: ['text'], validators: ['signature', 'markup-structure']},
+
+    {mimeType: 'application/pdf', label: 'PDF', extensions: ['pdf'], maxFileSize: 100 * MB, signatures: ['pdf'], validators: ['signature'], inspection: 'pdf'},
+    {mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document', label: 'DOCX', extensions: ['docx'], maxFileSize: 50 * MB, signatures: ['ooxml'], validators: ['signature']},
+    {mimeType: 'application/msword', label: 'DOC', extensions: ['doc'], maxFileSize: 50 * MB, signatures: ['ole2'], validators: ['signature']},
+    {mimeType: 'application/vnd.openxmlformats-officedocument.presentationml.presentation', label: 'PPTX', extensions: ['pptx'], maxFileSize: 100 * MB, signatures: ['ooxml'], validators: ['signature']},
+    {mimeType: 'application/vnd.ms-powerpoint', label: 'PPT', extensions: ['ppt'], maxFileSize: 100 * MB, signatures: ['ole2'], validators: ['signature']},
+    {mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', label: 'XLSX', extensions: ['xlsx'], maxFileSize: 50 * MB, signatures: ['ooxml'], validators: ['signature']},
+    {mimeType: 'application/vnd.ms-excel', label: 'XLS', extensions: ['xls'], maxFileSize: 50 * MB, signatures: ['ole2'], validators: ['signature']},
+    {mimeType: 'application/vnd.oasis.opendocument.text', label: 'ODT', extensions: ['odt'], maxFileSize: 50 * MB, signatures: ['odf'], validators: ['signature']},
+    {mimeType: 'application/vnd.oasis.opendocument.presentation', label: 'ODP', extensions: ['odp'], maxFileSize: 100 * MB, signatures: ['odf'], validators: ['signature']},
+    {mimeType: 'application/vnd.oasis.opendocument.spreadsheet', label: 'ODS', extensions: ['ods'], maxFileSize: 50 * MB, signatures: ['odf'], validators: ['signature']},
+    {mimeType: 'application/rtf', label: 'RTF', extensions: ['rtf'], maxFileSize: 50 * MB, signatures: ['rtf'], validators: ['signature']},
+    {mimeType: 'application/x-iwork-pages-sffpages', label: 'Pages', extensions: ['pages'], maxFileSize: 50 * MB, signatures: ['iwork', 'zip'], validators: ['signature']},
+    {mimeType: 'application/x-iwork-numbers-sffnumbers', label: 'Numbers', extensions: ['numbers'], maxFileSize: 50 * MB, signatures: ['iwork', 'zip'], validators: ['signature']},
+    {mimeType: 'application/x-iwork-keynote-sffkey', label: 'Keynote', extensions: ['key'], maxFileSize: 100 * MB, signatures: ['iwork', 'zip'], validators: ['signature']},
+];
+
+export const DOCUMENT_POLICY: DocumentPolicy = {
+    version: 1,
+    maxFileSize: Math.max(...DOCUMENT_TYPES.map(t => t.maxFileSize)),
+    types: DOCUMENT_TYPES,
+};
+
+export function findPolicyByMimeType(mimeType: string): DocumentTypePolicy | undefined {
+    return DOCUMENT_POLICY.types.find(t => t.mimeType === mimeType);
+}
+
+export function findPolicyByExtension(extension: string): DocumentTypePolicy | undefined {
+    const normalized = extension.toLowerCase();
+    return DOCUMENT_POLICY.types.find(t => t.extensions.includes(normalized));
+}
+
+export function getFileExtension(fileName: string): string {
+    const lastDot = fileName.lastIndexOf('.');
+    return lastDot >= 0 ? fileName.slice(lastDot + 1).toLowerCase() : '';
+}
@@ -0,0 +1,405 @@
+import {DynamoDBClient} from '@aws-sdk/client-dynamodb';
+import {DynamoDBDocumentClient, GetCommand, PutCommand, QueryCommand, UpdateCommand} from '@aws-sdk/lib-dynamodb';
+import {DuplicateScope, QuarantineReasonCode} from './typing.js';
+import {DocumentAnnotation, DocumentUserMetadata} from './schemas/document-metadata.schema.js';
+import {defaultCollectionId} from './collection-registry.js';
+import {PrincipalType} from './authorization.js';
+
+/**
+ * Lifecycle of a document in the registry. `pending_upload` is written when the
+ * upload URL is issued and ends in `aborted` if the uploader abandons a multipart
+ * upload; the validation handler moves it through the rest. `duplicate` documents
+ * repeat content the same user already has validated and are not ingested again.
+ * A validated document becomes `superseded` once a newer revision of it is
+ * validated. A document waits in `scan_pending` while the malware scanner is
+ * unavailable and is validated again later. A reviewer can release a quarantined document, which sends it back
+ * through validation as approved, or reject it for good. Owners can delete a
+ * document once it has settled, which ends in `deleted`.
+ */
+export type DocumentState =
+    | 'pending_upload'
+    | 'aborted'
+    | 'validating'
+    | 'scan_pending'
+    | 'validated'
+    | 'quarantined'
+    | 'released'
+    | 'rejected'
+    | 'duplicate'
+    | 'superseded'
+    | 'deleted';
+
+const TRANSITIONS: Record<DocumentState, DocumentState[]> = {
+    pending_upload: ['validating', 'aborted', 'deleted'],
+    aborted: ['deleted'],
+    validating: ['validated', 'quarantined', 'rejected', 'duplicate', 'scan_pending'],
+    // Rejected when the object is gone before the scan could run.
+    scan_pending: ['validating', 'rejected', 'deleted'],
+    validated: ['superseded', 'deleted'],
+    quarantined: ['released', 'rejected', 'deleted'],
+    // Back to quarantined when the copy out of quarantine fails.
+    released: ['validating', 'quarantined'],
+    rejected: ['deleted'],
+    duplicate: ['deleted'],
+    superseded: ['deleted'],
+    deleted: []
+};
+
+export interface DocumentRecord {
+    documentId: string;
+    userId: string;
+    userEmail?: string;
+    /** The principal that requested the upload (a user's email, or `service:<client id>`); absent on older documents. */
+    uploadedBy?: string;
+    uploaderType?: PrincipalType;
+    fileName: string;
+    fileType: string;
+    fileSize: number;
+    bucket: string;
+    objectKey: string;
+    uploadMode?: 'single' | 'multipart';
+    multipartUploadId?: string;
+    partSize?: number;
+    /** Base64 SHA-256 the client declared; re-checked against the stored bytes during validation. */
+    checksumSha256?: string;
+    /** `${userId}#${checksumSha256}`, the partition key of the content index. */
+    contentKey?: string;
+    /** Absent on documents registered before collections; they belong to the default collection. */
+    collectionId?: string;
+    /** Set when the uploader forced a re-upload of content they already have. */
+    allowDuplicate?: boolean;
+    /** `collection` when duplicates were only to be looked for in the document's collection; absent means the user's documents. */
+    duplicateScope?: DuplicateScope;
+    duplicateOf?: string;
+    /** Document ID of the first revision; shared by every revision of the document. */
+    lineageId?: string;
+    /** 1 for the first upload, incremented by each `replacesDocumentId` upload. */
+    revision?: number;
+    replacesDocumentId?: string;
+    /** Set on documents requested together through `POST /uploads/batch`. */
+    batchId?: string;
+    supersededBy?: string;
+    supersededAt?: string;
+    /** Uploader-supplied title, tags, classification etc.; carried into the sidecar and events. */
+    userMetadata?: DocumentUserMetadata;
+    state: DocumentState;
+    createdAt: string;
+    updatedAt: string;
+    validatedAt?: string;
+    quarantinedAt?: string;
+    rejectedAt?: string;
+    deletedAt?: string;
+    quarantineKey?: string;
+    reasonCode?: QuarantineReasonCode;
+    reason?: string;
+    detectedType?: string;
+    /** Findings the document policy only notes, e.g. a PDF that needs OCR; set on validated documents. */
+    annotations?: DocumentAnnotation[];
+    /** Validations that ended in `scan_pending` because the malware scanner gave no verdict. */
+    scanAttempts?: number;
+    /** The reviewer who released or rejected the document out of quarantine, and when. */
+    reviewedBy?: string;
+    reviewedAt?: string;
+    /** The reviewer's justification for a release, or reason for a rejection. */
+    reviewNote?: string;
+}
+
+/** Attributes a transition may set alongside the new state. */
+export type DocumentTransitionUpdate = Partial<Omit<DocumentRecord, 'documentId' | 'userId' | 'state' | 'createdAt' | 'updatedAt'>>;
+
+export interface DocumentListQuery {
+    limit: number;
+    order?: 'asc' | 'desc';
+    states?: DocumentState[];
+    fileType?: string;
+    fileNamePrefix?: string;
+    collectionId?: string;
+    /** Inclusive bounds on `createdAt` (ISO-8601). */
+    createdFrom?: string;
+    createdTo?: string;
+    startKey?: Record<string, unknown>;
+}
+
+export interface DocumentPage {
+    records: DocumentRecord[];
+    lastEvaluatedKey?: Record<string, unknown>;
+}
+
+export const USER_INDEX_NAME = 'userId-createdAt-index';
+export const CONTENT_INDEX_NAME = 'contentKey-createdAt-index';
+export const LINEAGE_INDEX_NAME = 'lineageId-revision-index';
+export const BATCH_INDEX_NAME = 'batchId-createdAt-index';
+export const STATE_INDEX_NAME = 'state-updatedAt-index';
+
+export function contentKey(userId: string, checksumSha256: string): string {
+    return `${userId}#${checksumSha256}`;
+}
+
+/**
+ * Filter clause matching one of the user's collections. Documents without a
+ * collection ID predate collections and are counted in the user's default one.
+ */
+function collectionFilter(userId: string, collectionId: string, names: Record<string, string>, values: Record<string, unknown>): string {
+    names['#collectionId'] = 'collectionId';
+    values[':collectionId'] = collectionId;
+    return collectionId === defaultCollectionId(userId)
+        ? '(#collectionId = :collectionId OR attribute_not_exists(#collectionId))'
+        : '#collectionId = :collectionId';
+}
+
+export class DocumentStateConflictError extends Error {
+    constructor(readonly documentId: string, readonly to: DocumentState) {
+        super(`Document ${documentId} cannot move to ${to} from its current state`);
+        this.name = 'DocumentStateConflictError';
+    }
+}
+
+/**
+ * `DYNAMODB_ENDPOINT` points the client at DynamoDB Local for tests and local runs.
+ */
+export function createDocumentClient(): DynamoDBDocumentClient {
+    const endpoint = process.env.DYNAMODB_ENDPOINT;
+    return DynamoDBDocumentClient.from(new DynamoDBClient(endpoint ? {endpoint} : {}), {
+        marshallOptions: {removeUndefinedValues: true}
+    });
+}
+
+export function allowedSources(to: DocumentState): DocumentState[] {
+    return (Object.keys(TRANSITIONS) as DocumentState[]).filter(from => TRANSITIONS[from].includes(to));
+}
+
+/**
+ * Single source of truth for document lifecycle state, keyed by document ID.
+ */
+export class DocumentRegistry {
+    constructor(private readonly client: DynamoDBDocumentClient, private readonly tableName: string) {
+    }
+
+    async create(record: Omit<DocumentRecord, 'state' | 'createdAt' | 'updatedAt'>): Promise<DocumentRecord> {
+        const now = new Date().toISOString();
+        const item: DocumentRecord = {
+            ...record,
+            ...(record.checksumSha256 && {contentKey: contentKey(record.userId, record.checksumSha256)}),
+            lineageId: record.lineageId ?? record.documentId,
+            revision: record.revision ?? 1,
+            state: 'pending_upload',
+            createdAt: now,
+            updatedAt: now
+        };
+        await this.client.send(new PutCommand({
+            TableName: this.tableName,
+            Item: item,
+            ConditionExpression: 'attribute_not_exists(documentId)'
+        }));
+        return item;
+    }
+
+    async get(documentId: string): Promise<DocumentRecord | null> {
+        const response = await this.client.send(new GetCommand({
+            TableName: this.tableName,
+            Key: {documentId},
+            ConsistentRead: true
+        }));
+        return (response.Item as DocumentRecord | undefined) ?? null;
+    }
+
+    /**
+     * The user's documents with this content in one of `states`, oldest first.
+     * Without a collection, which only documents registered before collections
+     * lack, the match spans all of the user's documents.
+     */
+    async findByContent(userId: string, checksumSha256: string, states: DocumentState[], collectionId?: string): Promise<DocumentRecord[]> {
+        const names: Record<string, string> = {'#contentKey': 'contentKey', '#state': 'state'};
+        const values: Record<string, unknown> = {':contentKey': contentKey(userId, checksumSha256)};
+        states.forEach((state, i) => values[`:state${i}`] = state);
+        const filters = [`#state IN (${states.map((_, i) => `:state${i}`).join(', ')})`];
+        if (collectionId) {
+            filters.push(collectionFilter(userId, collectionId, names, values));
+        }
+
+        const records: DocumentRecord[] = [];
+        let exclusiveStartKey: Record<string, unknown> | undefined;
+        do {
+            const response = await this.client.send(new QueryCommand({
+                TableName: this.tableName,
+                IndexName: CONTENT_INDEX_NAME,
+                KeyConditionExpression: '#contentKey = :contentKey',
+                FilterExpression: filters.join(' AND '),
+                ExpressionAttributeNames: names,
+                ExpressionAttributeValues: values,
+                ...(exclusiveStartKey && {ExclusiveStartKey: exclusiveStartKey})
+            }));
+            records.push(...(response.Items || []) as DocumentRecord[]);
+            exclusiveStartKey = response.LastEvaluatedKey;
+        } while (exclusiveStartKey);
+        return records;
+    }
+
+    /**
+     * Every revision of a document, oldest first. Documents registered before
+     * revisions were tracked have no lineage until they are first replaced.
+     */
+    async listRevisions(lineageId: string): Promise<DocumentRecord[]> {
+        const records: DocumentRecord[] = [];
+        let exclusiveStartKey: Record<string, unknown> | undefined;
+        do {
+            const response = await this.client.send(new QueryCommand({
+                TableName: this.tableName,
+                IndexName: LINEAGE_INDEX_NAME,
+                KeyConditionExpression: '#lineageId = :lineageId',
+                ExpressionAttributeNames: {'#lineageId': 'lineageId'},
+                ExpressionAttributeValues: {':lineageId': lineageId},
+                ...(exclusiveStartKey && {ExclusiveStartKey: exclusiveStartKey})
+            }));
+            records.push(...(response.Items || []) as DocumentRecord[]);
+            exclusiveStartKey = response.LastEvaluatedKey;
+        } while (exclusiveStartKey);
+        return records;
+    }
+
+    /** Every document registered by one batch upload request, oldest first. */
+    async listBatch(batchId: string): Promise<DocumentRecord[]> {
+        const records: DocumentRecord[] = [];
+        let exclusiveStartKey: Record<string, unknown> | undefined;
+        do {
+            const response = await this.client.send(new QueryCommand({
+                TableName: this.tableName,
+                IndexName: BATCH_INDEX_NAME,
+                KeyConditionExpression: '#batchId = :batchId',
+                ExpressionAttributeNames: {'#batchId': 'batchId'},
+                ExpressionAttributeValues: {':batchId': batchId},
+                ...(exclusiveStartKey && {ExclusiveStartKey: exclusiveStartKey})
+            }));
+            records.push(...(response.Items || []) as DocumentRecord[]);
+            exclusiveStartKey = response.LastEvaluatedKey;
+        } while (exclusiveStartKey);
+        return records;
+    }
+
+    /**
+     * Pages through every user's documents in one state, least recently updated first.
+     */
+    async listByState(state: DocumentState, limit: number, startKey?: Record<string, unknown>): Promise<DocumentPage> {
+        const response = await this.client.send(new QueryCommand({
+            TableName: this.tableName,
+            IndexName: STATE_INDEX_NAME,
+            KeyConditionExpression: '#state = :state',
+            ExpressionAttributeNames: {'#state': 'state'},
+            ExpressionAttributeValues: {':state': state},
+            Limit: limit,
+            ...(startKey && {ExclusiveStartKey: startKey})
+        }));
+        return {
+            records: (response.Items || []) as DocumentRecord[],
+            ...(response.LastEvaluatedKey && {lastEvaluatedKey: response.LastEvaluatedKey})
+        };
+    }
+
+    /**
+     * Pages through a user's documents by upload time. Filters are applied by DynamoDB
+     * after the read, so a filtered page may take several queries to fill; the key of
+     * the last item returned is handed back for the next page.
+     */
+    async listByUser(userId: string, query: DocumentListQuery): Promise<DocumentPage> {
+        const names: Record<string, string> = {'#userId': 'userId'};
+        const values: Record<string, unknown> = {':userId': userId};
+        let keyCondition = '#userId = :userId';
+        if (query.createdFrom || query.createdTo) {
+            names['#createdAt'] = 'createdAt';
+            if (query.createdFrom && query.createdTo) {
+                values[':createdFrom'] = query.createdFrom;
+                values[':createdTo'] = query.createdTo;
+                keyCondition += ' AND #createdAt BETWEEN :createdFrom AND :createdTo';
+            } else if (query.createdFrom) {
+                values[':createdFrom'] = query.createdFrom;
+                keyCondition += ' AND #createdAt >= :createdFrom';
+            } else {
+                values[':createdTo'] = query.createdTo;
+                keyCondition += ' AND #createdAt <= :createdTo';
+            }
+        }
+
+        const filters: string[] = [];
+        if (query.states?.length) {
+            names['#state'] = 'state';
+            query.states.forEach((state, i) => values[`:state${i}`] = state);
+            filters.push(`#state IN (${query.states.map((_, i) => `:state${i}`).join(', ')})`);
+        }
+        if (query.fileType) {
+            names['#fileType'] = 'fileType';
+            values[':fileType'] = query.fileType;
+            filters.push('#fileType = :fileType');
+        }
+        if (query.fileNamePrefix) {
+            names['#fileName'] = 'fileName';
+            values[':fileNamePrefix'] = query.fileNamePrefix;
+            filters.push('begins_with(#fileName, :fileNamePrefix)');
+        }
+        if (query.collectionId) {
+            filters.push(collectionFilter(userId, query.collectionId, names, values));
+        }
+
+        const records: DocumentRecord[] = [];
+        let exclusiveStartKey = query.startKey;
+        do {
+            const response = await this.client.send(new QueryCommand({
+                TableName: this.tableName,
+                IndexName: USER_INDEX_NAME,
+                KeyConditionExpression: keyCondition,
+                ExpressionAttributeNames: names,
+                ExpressionAttributeValues: values,
+                ScanIndexForward: query.order !== 'desc',
+                Limit: query.limit - records.length,
+                ...(filters.length && {FilterExpression: filters.join(' AND ')}),
+                ...(exclusiveStartKey && {ExclusiveStartKey: exclusiveStartKey})
+            }));
+            records.push(...(response.Items || []) as DocumentRecord[]);
+            exclusiveStartKey = response.LastEvaluatedKey;
+        } while (exclusiveStartKey && records.length < query.limit);
+
+        return {records, ...(exclusiveStartKey && {lastEvaluatedKey: exclusiveStartKey})};
+    }
+
+    /**
+     * Moves a document to `to`, failing with DocumentStateConflictError when the
+     * stored state is not one the transition table allows (or the item is missing).
+     * Attributes in `remove` are cleared, e.g. a quarantine reason that no longer applies.
+     */
+    async transition(documentId: string, to: DocumentState, update: DocumentTransitionUpdate = {},
+                     remove: (keyof DocumentTransitionUpdate)[] = []): Promise<DocumentRecord> {
+        const names: Record<string, string> = {'#state': 'state', '#updatedAt': 'updatedAt'};
+        const values: Record<string, unknown> = {':state': to, ':updatedAt': new Date().toISOString()};
+        const assignments = ['#state = :state', '#updatedAt = :updatedAt'];
+
+        for (const [field, value] of Object.entries(update)) {
+            if (value === undefined) continue;
+            names[`#${field}`] = field;
+            values[`:${field}`] = value;
+            assignments.push(`#${field} = :${field}`);
+        }
+
+        remove.forEach(field => names[`#${field}`] = field);
+        const removal = remove.length ? ` REMOVE ${remove.map(field => `#${field}`).join(', ')}` : '';
+
+        const sources = allowedSources(to);
+        sources.forEach((from, i) => values[`:from${i}`] = from);
+
+        try {
+            const response = await this.client.send(new UpdateCommand({
+                TableName: this.tableName,
+                Key: {documentId},
+                UpdateExpression: `SET ${assignments.join(', ')}${removal}`,
+                ConditionExpression: `#state IN (${sources.map((_, i) => `:from${i}`).join(', ')})`,
+                ExpressionAttributeNames: names,
+                ExpressionAttributeValues: values,
+                ReturnValues: 'ALL_NEW'
+            }));
+            return response.Attributes as DocumentRecord;
+        } catch (error) {
+            if ((error as any).name === 'ConditionalCheckFailedException') {
+                throw new DocumentStateConflictError(documentId, to);
+            }
+            throw error;
+        }
+    }
+}
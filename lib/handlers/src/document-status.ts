@@ -0,0 +1,148 @@
+import {QuarantineReasonCode} from './typing.js';
+import {DocumentRecord, DocumentState} from './document-registry.js';
+import {DocumentAnnotation, DocumentUserMetadata} from './schemas/document-metadata.schema.js';
+import {defaultCollectionId} from './collection-registry.js';
+
+/**
+ * The client-facing view of a registry item, shared by the status and list routes.
+ */
+export interface DocumentStatus {
+    documentId: string;
+    status: 'pending' | 'aborted' | 'validated' | 'rejected' | 'quarantined' | 'duplicate' | 'superseded' | 'deleted' | 'not_found';
+    state?: DocumentState;
+    collectionId?: string;
+    fileName?: string;
+    fileType?: string;
+    fileSize?: number;
+    uploadedAt?: string;
+    /** The user's email, or `service:<client id>` for uploads by a machine client. */
+    uploadedBy?: string;
+    validatedAt?: string;
+    rejectedAt?: string;
+    quarantinedAt?: string;
+    deletedAt?: string;
+    /** When a reviewer released or rejected the document out of quarantine, and why. */
+    reviewedAt?: string;
+    reviewNote?: string;
+    errorMessage?: string;
+    reasonCode?: QuarantineReasonCode;
+    annotations?: DocumentAnnotation[];
+    duplicateOf?: string;
+    revision?: number;
+    previousRevisionId?: string;
+    supersededBy?: string;
+    supersededAt?: string;
+    /** The chain's validated revision, i.e. the one downstream stores should keep. */
+    currentRevisionId?: string;
+    revisions?: RevisionSummary[];
+    metadata?: DocumentUserMetadata;
+    location: 'documents' | 'quarantine' | 'unknown';
+    userIdentityId?: string;
+}
+
+export interface RevisionSummary {
+    documentId: string;
+    revision: number;
+    status: DocumentStatus['status'];
+    uploadedAt: string;
+}
+
+/** One page of `GET /documents`; `nextCursor` is absent on the last page. */
+export interface DocumentListResponse {
+    documents: DocumentStatus[];
+    nextCursor?: string;
+}
+
+/** Aggregated status of the documents one batch upload registered. */
+export interface BatchStatusResponse {
+    batchId: string;
+    total: number;
+    /** Documents per status; statuses no document is in are left out. */
+    counts: Partial<Record<DocumentStatus['status'], number>>;
+    /** True once no document of the batch is still pending. */
+    complete: boolean;
+    documents: DocumentStatus[];
+}
+
+export const STATUS_BY_STATE: Record<DocumentState, Pick<DocumentStatus, 'status' | 'location'>> = {
+    pending_upload: {status: 'pending', location: 'documents'},
+    aborted: {status: 'aborted', location: 'unknown'},
+    validating: {status: 'pending', location: 'documents'},
+    scan_pending: {status: 'pending', location: 'documents'},
+    validated: {status: 'validated', location: 'documents'},
+    rejected: {status: 'rejected', location: 'documents'},
+    quarantined: {status: 'quarantined', location: 'quarantine'},
+    released: {status: 'pending', location: 'quarantine'},
+    duplicate: {status: 'duplicate', location: 'unknown'},
+    superseded: {status: 'superseded', location: 'documents'},
+    deleted: {status: 'deleted', location: 'unknown'}
+};
+
+/** Registry states reported as `status`; `pending` covers the states before a decision. */
+export function statesForStatus(status: string): DocumentState[] {
+    return (Object.keys(STATUS_BY_STATE) as DocumentState[]).filter(state => STATUS_BY_STATE[state].status === status);
+}
+
+export function toDocumentStatus(record: DocumentRecord): DocumentStatus {
+    return {
+        documentId: record.documentId,
+        ...STATUS_BY_STATE[record.state],
+        state: record.state,
+        collectionId: record.collectionId ?? defaultCollectionId(record.userId),
+        fileName: record.fileName,
+        fileType: record.fileType,
+        fileSize: record.fileSize,
+        uploadedAt: record.createdAt,
+        ...(record.uploadedBy && {uploadedBy: record.uploadedBy}),
+        userIdentityId: record.userId,
+        ...(record.validatedAt && {validatedAt: record.validatedAt}),
+        ...(record.rejectedAt && {rejectedAt: record.rejectedAt}),
+        ...(record.quarantinedAt && {quarantinedAt: record.quarantinedAt}),
+        ...(record.deletedAt && {deletedAt: record.deletedAt}),
+        ...(record.reviewedAt && {reviewedAt: record.reviewedAt}),
+        ...(record.reviewNote && {reviewNote: record.reviewNote}),
+        ...(record.reason && {errorMessage: record.reason}),
+        ...(record.reasonCode && {reasonCode: record.reasonCode}),
+        ...(record.annotations && {annotations: record.annotations}),
+        ...(record.duplicateOf && {duplicateOf: record.duplicateOf}),
+        ...(record.revision && {revision: record.revision}),
+        ...(record.replacesDocumentId && {previousRevisionId: record.replacesDocumentId}),
+        ...(record.supersededBy && {supersededBy: record.supersededBy}),
+        ...(record.supersededAt && {supersededAt: record.supersededAt}),
+        ...(record.userMetadata && {metadata: record.userMetadata})
+    };
+}
+
+/** Whether a record is one of several revisions, so its chain is worth loading. */
+export function hasRevisions(record: DocumentRecord): boolean {
+    return !!(record.lineageId && (record.replacesDocumentId || record.supersededBy));
+}
+
+/**
+ * Adds the document's place in its revision chain. The current revision is the
+ * validated one; none is current while every revision is superseded, deleted or failed.
+ */
+export function withRevisions(status: DocumentStatus, chain: DocumentRecord[], includeList: boolean): DocumentStatus {
+    const current = chain.find(revision => revision.state === 'validated');
+    return {
+        ...status,
+        ...(current && {currentRevisionId: current.documentId}),
+        ...(includeList && {
+            revisions: chain.map(revision => ({
+                documentId: revision.documentId,
+                revision: revision.revision ?? 1,
+                status: STATUS_BY_STATE[revision.state].status,
+                uploadedAt: revision.createdAt
+            }))
+        })
+    };
+}
+
+export function toBatchStatus(batchId: string, records: DocumentRecord[]): BatchStatusResponse {
+    const documents = records.map(toDocumentStatus);
+    const counts: BatchStatusResponse['counts'] = {};
+    for (const {status} of documents) {
+        counts[status] = (counts[status] ?? 0) + 1;
+    }
+    return {batchId, total: documents.length, counts, complete: !counts.pending, documents};
+}
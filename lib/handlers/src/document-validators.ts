@@ -0,0 +1,74 @@
+import {DocumentTypePolicy, DocumentValidatorName} from './document-policy.js';
+import {isSignatureCompatible, SniffResult} from './file-signature.js';
+import {QuarantineReasonCode} from './typing.js';
+import {DocumentAnnotation} from './schemas/document-metadata.schema.js';
+
+export interface ValidatorContext {
+    policy: DocumentTypePolicy;
+    sniffed: SniffResult;
+    head: Uint8Array;
+    size: number;
+}
+
+export interface ValidatorFinding {
+    reasonCode: QuarantineReasonCode;
+    reason: string;
+}
+
+export type DocumentValidator = (context: ValidatorContext) => ValidatorFinding | null;
+
+/** The outcome of one validation step, kept for the document's history. */
+export interface ValidationCheck {
+    /** A policy validator's name, or one of the fixed steps such as `size`, `checksum` and `extension`. */
+    check: string;
+    passed: boolean;
+    reasonCode?: QuarantineReasonCode;
+    reason?: string;
+    /** Findings of a passed check that the policy annotates the document with. */
+    annotations?: DocumentAnnotation[];
+}
+
+/**
+ * Implementations of the validators a `DocumentTypePolicy` can name. They only see
+ * the sniffed prefix of the object, so structural checks stop at the opening token.
+ */
+export const DOCUMENT_VALIDATORS: Record<DocumentValidatorName, DocumentValidator> = {
+    'signature': ({policy, sniffed}) => isSignatureCompatible(sniffed, policy) ? null : {
+        reasonCode: 'CONTENT_TYPE_MISMATCH',
+        reason: `Document content (${sniffed.mimeType || sniffed.description}) does not match declared content type ${policy.mimeType}`
+    },
+
+    'utf8-text': ({policy, sniffed}) => sniffed.encoding === 'utf-8' ? null : {
+        reasonCode: 'MALFORMED_CONTENT',
+        reason: `${policy.label} documents must be UTF-8 encoded (found ${sniffed.encoding || sniffed.description})`
+    },
+
+    'json-structure': ({sniffed, head}) => {
+        const first = firstSignificantChar(head, sniffed);
+        return first === '{' || first === '[' ? null : {
+            reasonCode: 'MALFORMED_CONTENT',
+            reason: 'JSON document does not start with an object or array'
+        };
+    },
+
+    'markup-structure': ({policy, sniffed, head}) => firstSignificantChar(head, sniffed) === '<' ? null : {
+        reasonCode: 'MALFORMED_CONTENT',
+        reason: `${policy.label} document does not start with markup`
+    },
+};
+
+/** Runs the policy's validators in order and stops at the first finding; `onPassed` hears about each one before it. */
+export function runDocumentValidators(context: ValidatorContext,
+                                      onPassed?: (validator: DocumentValidatorName) => void): (ValidatorFinding & {validator: DocumentValidatorName}) | null {
+    for (const name of context.policy.validators) {
+        const finding = DOCUMENT_VALIDATORS[name](context);
+        if (finding) return {...finding, validator: name};
+        onPassed?.(name);
+    }
+    return null;
+}
+
+function firstSignificantChar(head: Uint8Array, sniffed: SniffResult): string | undefined {
+    const text = new TextDecoder(sniffed.encoding || 'utf-8').decode(head.subarray(0, 1024));
+    return text.trimStart()[0];
+}
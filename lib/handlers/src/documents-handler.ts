@@ -0,0 +1,305 @@
+import {APIGatewayProxyEventV2, APIGatewayProxyResultV2} from 'aws-lambda';
+import {AbortMultipartUploadCommand, DeleteObjectCommand, HeadObjectCommand, S3Client} from '@aws-sdk/client-s3';
+import {EventBridgeClient} from '@aws-sdk/client-eventbridge';
+import {createResponse, HttpError} from './http.js';
+import {authorize, Caller} from './authorization.js';
+import {
+    allowedSources,
+    createDocumentClient,
+    DocumentListQuery,
+    DocumentRecord,
+    DocumentRegistry,
+    DocumentState
+} from './document-registry.js';
+import {
+    DocumentListResponse,
+    DocumentStatus,
+    hasRevisions,
+    statesForStatus,
+    toDocumentStatus,
+    withRevisions
+} from './document-status.js';
+import {DEFAULT_EVENT_SOURCE, DocumentEventPublisher} from './document-events.js';
+import {metadataSidecarKey} from './metadata-sidecar.js';
+import {purgeVersions} from './object-versions.js';
+import {DeletedObject} from './schemas/document-deleted.schema.js';
+import {defaultCollectionId} from './collection-registry.js';
+import {STORED_STATES, UsageRegistry} from './usage-registry.js';
+import {callerActor, DocumentHistory, DocumentHistoryResponse} from './document-history.js';
+
+const DOCUMENT_BUCKET = process.env.DOCUMENT_BUCKET!;
+const QUARANTINE_BUCKET = process.env.QUARANTINE_BUCKET!;
+
+const s3 = new S3Client({});
+const registry = new DocumentRegistry(createDocumentClient(), process.env.DOCUMENT_TABLE!);
+const usage = new UsageRegistry(createDocumentClient(), process.env.USAGE_TABLE!);
+const history = new DocumentHistory(createDocumentClient(), process.env.HISTORY_TABLE!);
+const events = new DocumentEventPublisher(new EventBridgeClient({}), process.env.EVENT_BUS_NAME!,
+    process.env.EVENT_SOURCE || DEFAULT_EVENT_SOURCE);
+
+const DEFAULT_PAGE_SIZE = 25;
+const MAX_PAGE_SIZE = 100;
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Accepts either a full ISO-8601 timestamp or a bare date; a bare `to` date covers
+ * the whole day so `from=2025-01-01&to=2025-01-31` reads the way people expect.
+ */
+function parseDate(name: string, value: string | undefined, endOfDay: boolean): string | undefined {
+    if (value === undefined) return undefined;
+    const text = DATE_ONLY.test(value) ? `${value}T${endOfDay ? '23:59:59.999' : '00:00:00.000'}Z` : value;
+    const time = Date.parse(text);
+    if (Number.isNaN(time)) throw new HttpError(400, `${name} must be an ISO-8601 date or timestamp`);
+    return new Date(time).toISOString();
+}
+
+function parseStates(value: string | undefined): DocumentState[] | undefined {
+    if (value === undefined) return undefined;
+    return value.split(',').flatMap(status => {
+        const states = statesForStatus(status.trim());
+        if (!states.length) throw new HttpError(400, `Unknown status: ${status}`);
+        return states;
+    });
+}
+
+function parseLimit(value: string | undefined): number {
+    if (value === undefined) return DEFAULT_PAGE_SIZE;
+    const limit = Number(value);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+        throw new HttpError(400, `limit must be an integer between 1 and ${MAX_PAGE_SIZE}`);
+    }
+    return limit;
+}
+
+/**
+ * Cursors are the opaque, base64url-encoded DynamoDB key of the last item on the
+ * previous page. One that decodes to another user's key is refused rather than
+ * used, since it would otherwise start a query over that user's index partition.
+ */
+function encodeCursor(key: Record<string, unknown>): string {
+    return Buffer.from(JSON.stringify(key), 'utf8').toString('base64url');
+}
+
+function decodeCursor(cursor: string | undefined, userId: string): Record<string, unknown> | undefined {
+    if (cursor === undefined) return undefined;
+    let key: unknown;
+    try {
+        key = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    } catch {
+        throw new HttpError(400, 'Invalid cursor');
+    }
+    if (!key || typeof key !== 'object' || (key as Record<string, unknown>).userId !== userId) {
+        throw new HttpError(400, 'Invalid cursor');
+    }
+    return key as Record<string, unknown>;
+}
+
+/**
+ * Points each revised document at its chain's current revision. Chains are loaded
+ * once per lineage, and only for documents that have been replaced or replace another.
+ */
+async function withCurrentRevisions(records: DocumentRecord[]): Promise<DocumentStatus[]> {
+    const lineages = new Set(records.filter(hasRevisions).map(record => record.lineageId!));
+    const chains = new Map(await Promise.all([...lineages].map(async lineageId =>
+        [lineageId, await registry.listRevisions(lineageId)] as const)));
+
+    return records.map(record => {
+        const chain = record.lineageId && chains.get(record.lineageId);
+        return chain ? withRevisions(toDocumentStatus(record), chain, false) : toDocumentStatus(record);
+    });
+}
+
+async function listDocuments(event: APIGatewayProxyEventV2, userId: string) {
+    const params = event.queryStringParameters || {};
+    const order = params.order ?? 'desc';
+    if (order !== 'asc' && order !== 'desc') {
+        throw new HttpError(400, 'order must be asc or desc');
+    }
+
+    const createdFrom = parseDate('from', params.from, false);
+    const createdTo = parseDate('to', params.to, true);
+    if (createdFrom && createdTo && createdFrom > createdTo) {
+        throw new HttpError(400, 'from must not be later than to');
+    }
+    const states = parseStates(params.status);
+    const startKey = decodeCursor(params.cursor, userId);
+
+    const query: DocumentListQuery = {
+        limit: parseLimit(params.limit),
+        order,
+        ...(states && {states}),
+        ...(params.contentType && {fileType: params.contentType}),
+        ...(params.fileNamePrefix && {fileNamePrefix: params.fileNamePrefix}),
+        ...(params.collectionId && {collectionId: params.collectionId}),
+        ...(createdFrom && {createdFrom}),
+        ...(createdTo && {createdTo}),
+        ...(startKey && {startKey})
+    };
+    const page = await registry.listByUser(userId, query);
+
+    const response: DocumentListResponse = {
+        documents: await withCurrentRevisions(page.records),
+        ...(page.lastEvaluatedKey && {nextCursor: encodeCursor(page.lastEvaluatedKey)})
+    };
+    return createResponse(200, response);
+}
+
+/**
+ * The `user-id` metadata of whichever stored copy of the document still exists:
+ * the upload itself, or its quarantine copy (which carries the upload metadata over).
+ */
+async function storedOwner(record: DocumentRecord): Promise<string | undefined> {
+    const copies = [
+        {Bucket: record.bucket, Key: record.objectKey},
+        ...(record.quarantineKey ? [{Bucket: QUARANTINE_BUCKET, Key: record.quarantineKey}] : [])
+    ];
+    for (const copy of copies) {
+        try {
+            const head = await s3.send(new HeadObjectCommand(copy));
+            return head.Metadata?.['user-id'];
+        } catch (error) {
+            if ((error as Error).name !== 'NotFound') throw error;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Loads a document for its owner. Both the registry and the object's `user-id`
+ * metadata have to name the caller; anything else is reported as missing, like
+ * the status route does.
+ */
+async function loadOwnedDocument(documentId: string | undefined, userId: string): Promise<DocumentRecord> {
+    if (!documentId) throw new HttpError(400, 'documentId is required in the path');
+
+    const record = await registry.get(documentId);
+    if (!record || record.userId !== userId) {
+        throw new HttpError(404, `Document ${documentId} not found`);
+    }
+    const owner = await storedOwner(record);
+    if (owner !== undefined && owner !== userId) {
+        console.warn(`Registry owner of ${documentId} does not match the object's user-id metadata`);
+        throw new HttpError(404, `Document ${documentId} not found`);
+    }
+    return record;
+}
+
+/**
+ * Deletes the upload, its metadata sidecar and any quarantine copy. S3 deletes are
+ * idempotent, so a retried request simply goes through the same list again.
+ */
+async function purgeObjects(record: DocumentRecord): Promise<DeletedObject[]> {
+    const objects: DeletedObject[] = [
+        {bucketName: record.bucket, objectKey: record.objectKey},
+        {bucketName: DOCUMENT_BUCKET, objectKey: metadataSidecarKey(record.documentId)}
+    ];
+    for (const object of objects) {
+        await s3.send(new DeleteObjectCommand({Bucket: object.bucketName, Key: object.objectKey}));
+    }
+    if (record.quarantineKey) {
+        objects.push(...await purgeVersions(s3, QUARANTINE_BUCKET, record.quarantineKey));
+    }
+    return objects;
+}
+
+/**
+ * Stops an unfinished multipart upload so its parts cannot be assembled into an
+ * object nobody tracks. Already gone when a retried request gets here.
+ */
+async function abortPendingUpload(record: DocumentRecord): Promise<void> {
+    try {
+        await s3.send(new AbortMultipartUploadCommand({Bucket: record.bucket, Key: record.objectKey, UploadId: record.multipartUploadId}));
+        console.log(`Aborted multipart upload ${record.multipartUploadId} for ${record.objectKey}`);
+    } catch (error) {
+        if ((error as Error).name !== 'NoSuchUpload') throw error;
+    }
+}
+
+/**
+ * The registry moves to `deleted` only after the event is out: if publishing
+ * fails the document keeps its state, and retrying the request re-runs the purge
+ * and publishes again rather than leaving downstream copies behind.
+ */
+async function deleteDocument(event: APIGatewayProxyEventV2, caller: Caller) {
+    const {userId} = caller;
+    const record = await loadOwnedDocument(event.pathParameters?.documentId, userId);
+    if (!allowedSources('deleted').includes(record.state)) {
+        const reason = record.state === 'deleted' ? 'is already deleted' : `is still ${record.state}`;
+        throw new HttpError(409, `Document ${record.documentId} ${reason}`);
+    }
+
+    if (record.state === 'pending_upload' && record.multipartUploadId) {
+        await abortPendingUpload(record);
+    }
+    const deletedObjects = await purgeObjects(record);
+    console.log(`Deleted ${deletedObjects.length} object(s) for ${record.documentId}`);
+
+    const deletedAt = new Date().toISOString();
+    try {
+        const eventId = await events.publishDeleted({
+            documentId: record.documentId,
+            userId,
+            ...(record.collectionId && {collectionId: record.collectionId}),
+            previousState: record.state,
+            deletedAt,
+            deletedObjects
+        });
+        console.log(`Published "Document Deleted" for ${record.documentId} (event ${eventId})`);
+    } catch (error) {
+        console.error(`Failed to publish "Document Deleted" for ${record.documentId}:`, error);
+        throw new HttpError(502, `Document ${record.documentId} was removed from storage but the deletion could not be announced; retry the request`);
+    }
+
+    const deleted = await registry.transition(record.documentId, 'deleted', {deletedAt});
+    await history.record(record.documentId, 'deleted', callerActor(caller),
+        {previousState: record.state, deletedObjects: deletedObjects.length}, new Date(deletedAt));
+    await releaseStorage(record);
+    return createResponse(200, toDocumentStatus(deleted));
+}
+
+/**
+ * Gives a deleted document's bytes back to the user's quotas. The document is gone
+ * by now, so a failure is logged rather than failing the request.
+ */
+async function releaseStorage(record: DocumentRecord): Promise<void> {
+    if (!STORED_STATES.includes(record.state)) return;
+    try {
+        await usage.recordRemoved(record.userId, record.collectionId ?? defaultCollectionId(record.userId), record.fileSize);
+    } catch (error) {
+        console.error(`Failed to release ${record.fileSize} bytes of quota for ${record.documentId}:`, error);
+    }
+}
+
+/** The document's history, oldest first; owners only, and still available once it is deleted. */
+async function getHistory(event: APIGatewayProxyEventV2, userId: string) {
+    const record = await loadOwnedDocument(event.pathParameters?.documentId, userId);
+    const entries = await history.list(record.documentId);
+    const response: DocumentHistoryResponse = {
+        documentId: record.documentId,
+        entries: entries.map(({documentId, at, event, actor, details}) => ({documentId, at, event, actor, ...(details && {details})}))
+    };
+    return createResponse(200, response);
+}
+
+export const handler = async (event: APIGatewayProxyEventV2): Promise<APIGatewayProxyResultV2> => {
+    console.log(`[${event.requestContext.requestId}] ${event.routeKey}`, JSON.stringify(event.pathParameters || event.queryStringParameters || {}));
+    try {
+        switch (event.routeKey) {
+            case 'GET /documents':
+                return await listDocuments(event, authorize(event, 'reader').userId);
+            case 'DELETE /documents/{documentId}':
+                return await deleteDocument(event, authorize(event, 'uploader'));
+            case 'GET /documents/{documentId}/history':
+                return await getHistory(event, authorize(event, 'reader').userId);
+            default:
+                return createResponse(404, undefined, `Unsupported route ${event.routeKey}`);
+        }
+    } catch (error) {
+        console.error('Documents handler error:', error);
+        if (error instanceof HttpError) {
+            return createResponse(error.statusCode, undefined, error.message);
+        }
+        const message = error instanceof Error ? error.message : 'Internal server error';
+        return createResponse(400, undefined, message);
+    }
+};
@@ -0,0 +1,277 @@
+/**
+ * File signature (magic byte) detection for uploaded documents.
+ *
+ * Only the leading bytes of an object are inspected. Container formats (ZIP based
+ * office documents) are narrowed down from the entry names found in the local file
+ * headers that fit inside that prefix; when the prefix is not conclusive the result
+ * stays at the container level instead of guessing.
+ */
+
+export const SNIFF_BYTES = 64 * 1024;
+
+export type SignatureKind =
+    | 'empty'
+    | 'pdf'
+    | 'ooxml'
+    | 'odf'
+    | 'iwork'
+    | 'zip'
+    | 'ole2'
+    | 'rtf'
+    | 'text'
+    | 'executable'
+    | 'unknown';
+
+export type TextEncoding = 'utf-8' | 'utf-16le' | 'utf-16be';
+
+export interface SniffResult {
+    kind: SignatureKind;
+    mimeType?: string;
+    encoding?: TextEncoding;
+    description: string;
+}
+
+/**
+ * What a document type expects to find in its leading bytes; satisfied by
+ * `DocumentTypePolicy` entries.
+ */
+export interface SignatureExpectation {
+    mimeType: string;
+    signatures: SignatureKind[];
+}
+
+const OOXML_PARTS: Array<[string, string]> = [
+    ['word/', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+    ['ppt/', 'application/vnd.openxmlformats-officedocument.presentationml.presentation'],
+    ['xl/', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'],
+];
+
+const OLE2_MAGIC = [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1];
+const ZIP_LOCAL_HEADER = 0x04034b50;
+const ZIP_EMPTY_ARCHIVE = 0x06054b50;
+
+/**
+ * Signatures fixed at offset 0 are checked first, executables before anything else:
+ * a PE whose DOS stub also carries `%PDF-` is an executable, not a PDF. Readers accept
+ * a PDF header anywhere in the first 1024 bytes, so that search comes last.
+ */
+export function sniffContent(bytes: Uint8Array): SniffResult {
+    if (bytes.length === 0) {
+        return {kind: 'empty', description: 'empty file'};
+    }
+
+    const executable = detectExecutable(bytes);
+    if (executable) {
+        return {kind: 'executable', description: executable};
+    }
+
+    if (startsWith(bytes, OLE2_MAGIC)) {
+        return {kind: 'ole2', description: 'OLE2 compound file (legacy Office document)'};
+    }
+
+    if (startsWithAscii(bytes, '{\\rtf')) {
+        return {kind: 'rtf', mimeType: 'application/rtf', description: 'RTF document'};
+    }
+
+    if (bytes.length >= 4 && (readUInt32LE(bytes, 0) === ZIP_LOCAL_HEADER || readUInt32LE(bytes, 0) === ZIP_EMPTY_ARCHIVE)) {
+        return sniffZipContainer(bytes);
+    }
+
+    if (indexOfAscii(bytes, '%PDF-', 1024) >= 0) {
+        return {kind: 'pdf', mimeType: 'application/pdf', description: 'PDF document'};
+    }
+
+    const encoding = detectTextEncoding(bytes);
+    if (encoding) {
+        return {kind: 'text', encoding, description: `${encoding} text`};
+    }
+
+    return {kind: 'unknown', description: 'unrecognised binary content'};
+}
+
+/**
+ * Whether the detected signature is a plausible encoding of the expected type.
+ * Containers whose exact subtype was identified must match it exactly.
+ */
+export function isSignatureCompatible(result: SniffResult, expected: SignatureExpectation): boolean {
+    if (!expected.signatures.includes(result.kind)) {
+        return false;
+    }
+    if ((result.kind === 'ooxml' || result.kind === 'odf') && result.mimeType) {
+        return result.mimeType === expected.mimeType;
+    }
+    return true;
+}
+
+function sniffZipContainer(bytes: Uint8Array): SniffResult {
+    const entries = readZipEntryNames(bytes);
+
+    const first = entries[0];
+    if (first && first.name === 'mimetype' && first.storedContent?.startsWith('application/vnd.oasis.opendocument.')) {
+        return {kind: 'odf', mimeType: first.storedContent.trim(), description: 'OpenDocument container'};
+    }
+
+    const names = entries.map(e => e.name);
+    if (names.includes('[Content_Types].xml') || names.includes('_rels/.rels')) {
+        const part = OOXML_PARTS.find(([prefix]) => names.some(n => n.startsWith(prefix)));
+        return part
+            ? {kind: 'ooxml', mimeType: part[1], description: 'Office Open XML container'}
+            : {kind: 'ooxml', description: 'Office Open XML container (part list truncated)'};
+    }
+
+    if (names.some(n => n.startsWith('Index/') || n === 'index.xml' || n === 'index.apxl' || n.startsWith('Metadata/'))) {
+        return {kind: 'iwork', description: 'Apple iWork package'};
+    }
+
+    return {kind: 'zip', description: 'ZIP archive'};
+}
+
+interface ZipEntry {
+    name: string;
+    storedContent?: string;
+}
+
+function readZipEntryNames(bytes: Uint8Array): ZipEntry[] {
+    const entries: ZipEntry[] = [];
+    let offset = 0;
+
+    while (offset + 30 <= bytes.length && readUInt32LE(bytes, offset) === ZIP_LOCAL_HEADER) {
+        const flags = readUInt16LE(bytes, offset + 6);
+        const method = readUInt16LE(bytes, offset + 8);
+        const compressedSize = readUInt32LE(bytes, offset + 18);
+        const nameLength = readUInt16LE(bytes, offset + 26);
+        const extraLength = readUInt16LE(bytes, offset + 28);
+        const nameStart = offset + 30;
+        const dataStart = nameStart + nameLength + extraLength;
+        if (nameStart + nameLength > bytes.length) break;
+
+        const entry: ZipEntry = {name: decodeAscii(bytes.subarray(nameStart, nameStart + nameLength))};
+        if (method === 0 && compressedSize > 0 && compressedSize <= 256 && dataStart + compressedSize <= bytes.length) {
+            entry.storedContent = decodeAscii(bytes.subarray(dataStart, dataStart + compressedSize));
+        }
+        entries.push(entry);
+
+        // Bit 3: sizes live in a trailing data descriptor, so the next header cannot be located.
+        if (flags & 0x08) break;
+        offset = dataStart + compressedSize;
+    }
+
+    return entries;
+}
+
+function detectExecutable(bytes: Uint8Array): string | null {
+    if (startsWithAscii(bytes, 'MZ') && bytes.length >= 0x40) {
+        const peOffset = readUInt32LE(bytes, 0x3c);
+        if (peOffset + 4 <= bytes.length && startsWith(bytes.subarray(peOffset), [0x50, 0x45, 0x00, 0x00])) {
+            return 'Windows PE executable';
+        }
+    }
+    if (startsWith(bytes, [0x7f, 0x45, 0x4c, 0x46])) return 'ELF executable';
+    if (startsWith(bytes, [0xfe, 0xed, 0xfa, 0xce]) || startsWith(bytes, [0xfe, 0xed, 0xfa, 0xcf])
+        || startsWith(bytes, [0xce, 0xfa, 0xed, 0xfe]) || startsWith(bytes, [0xcf, 0xfa, 0xed, 0xfe])) {
+        return 'Mach-O executable';
+    }
+    if (startsWith(bytes, [0xca, 0xfe, 0xba, 0xbe])) return 'Mach-O universal binary or Java class file';
+    return null;
+}
+
+function detectTextEncoding(bytes: Uint8Array): TextEncoding | null {
+    if (startsWith(bytes, [0xef, 0xbb, 0xbf])) {
+        return isUtf8Text(bytes.subarray(3)) ? 'utf-8' : null;
+    }
+    if (startsWith(bytes, [0xff, 0xfe])) return 'utf-16le';
+    if (startsWith(bytes, [0xfe, 0xff])) return 'utf-16be';
+
+    const utf16 = guessBomlessUtf16(bytes);
+    if (utf16) return utf16;
+
+    return isUtf8Text(bytes) ? 'utf-8' : null;
+}
+
+/**
+ * BOM-less UTF-16 is recognised by the zero high bytes of mostly-ASCII text
+ * landing consistently on either the odd or the even positions.
+ */
+function guessBomlessUtf16(bytes: Uint8Array): TextEncoding | null {
+    const sample = bytes.subarray(0, Math.min(bytes.length, 512) & ~1);
+    if (sample.length < 4) return null;
+
+    let evenZeros = 0;
+    let oddZeros = 0;
+    for (let i = 0; i < sample.length; i += 2) {
+        if (sample[i] === 0) evenZeros++;
+        if (sample[i + 1] === 0) oddZeros++;
+    }
+
+    const pairs = sample.length / 2;
+    if (oddZeros / pairs > 0.7 && evenZeros / pairs < 0.05) return 'utf-16le';
+    if (evenZeros / pairs > 0.7 && oddZeros / pairs < 0.05) return 'utf-16be';
+    return null;
+}
+
+/**
+ * Validates UTF-8 and rejects control characters other than common whitespace.
+ * A multi-byte sequence cut off by the end of the sniffed prefix is tolerated.
+ */
+function isUtf8Text(bytes: Uint8Array): boolean {
+    let i = 0;
+    while (i < bytes.length) {
+        const b = bytes[i]!;
+        if (b < 0x80) {
+            if (b < 0x20 && b !== 0x09 && b !== 0x0a && b !== 0x0c && b !== 0x0d && b !== 0x1b) return false;
+            if (b === 0x7f) return false;
+            i++;
+            continue;
+        }
+
+        let continuation: number;
+        if (b >= 0xc2 && b <= 0xdf) continuation = 1;
+        else if (b >= 0xe0 && b <= 0xef) continuation = 2;
+        else if (b >= 0xf0 && b <= 0xf4) continuation = 3;
+        else return false;
+
+        if (i + continuation >= bytes.length) {
+            return bytes.subarray(i + 1).every(c => (c & 0xc0) === 0x80);
+        }
+        for (let j = 1; j <= continuation; j++) {
+            if ((bytes[i + j]! & 0xc0) !== 0x80) return false;
+        }
+        i += continuation + 1;
+    }
+    return true;
+}
+
+function startsWith(bytes: Uint8Array, prefix: number[]): boolean {
+    return bytes.length >= prefix.length && prefix.every((b, i) => bytes[i] === b);
+}
+
+function startsWithAscii(bytes: Uint8Array, prefix: string): boolean {
+    return startsWith(bytes, Array.from(prefix, c => c.charCodeAt(0)));
+}
+
+function indexOfAscii(bytes: Uint8Array, needle: string, limit: number): number {
+    const end = Math.min(bytes.length, limit) - needle.length;
+    for (let i = 0; i <= end; i++) {
+        let match = true;
+        for (let j = 0; j < needle.length; j++) {
+            if (bytes[i + j] !== needle.charCodeAt(j)) {
+                match = false;
+                break;
+            }
+        }
+        if (match) return i;
+    }
+    return -1;
+}
+
+function decodeAscii(bytes: Uint8Array): string {
+    return Buffer.from(bytes).toString('latin1');
+}
+
+function readUInt16LE(bytes: Uint8Array, offset: number): number {
+    return bytes[offset]! | (bytes[offset + 1]! << 8);
+}
+
+function readUInt32LE(bytes: Uint8Array, offset: number): number {
+    return (readUInt16LE(bytes, offset) + readUInt16LE(bytes, offset + 2) * 0x10000) >>> 0;
+}
@@ -0,0 +1,34 @@
+import {APIGatewayProxyEventV2, APIGatewayProxyResultV2} from 'aws-lambda';
+import {ApiResponse, JWTClaims} from './typing.js';
+
+/**
+ * Thrown by route logic to answer with a specific status code; handlers turn it
+ * into a `createResponse` error envelope.
+ */
+export class HttpError extends Error {
+    constructor(readonly statusCode: number, message: string) {
+        super(message);
+        this.name = 'HttpError';
+    }
+}
+
+export function getUserClaims(event: APIGatewayProxyEventV2): JWTClaims {
+    const claims = (event.requestContext as any).authorizer?.jwt?.claims;
+    if (!claims?.sub) throw new Error('No valid JWT claims found');
+    return claims as JWTClaims;
+}
+
+export function createResponse<T>(statusCode: number, data?: T, error?: string): APIGatewayProxyResultV2 {
+    const response: ApiResponse<T> = {
+        success: statusCode < 400,
+        timestamp: new Date().toISOString(),
+        ...(data && {data}),
+        ...(error && {error})
+    };
+
+    return {
+        statusCode,
+        headers: {'Content-Type': 'application/json'},
+        body: JSON.stringify(response)
+    };
+}
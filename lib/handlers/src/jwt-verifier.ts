@@ -0,0 +1,83 @@
+import {createPublicKey, JsonWebKey, KeyObject, verify} from 'node:crypto';
+import {JWTClaims} from './typing.js';
+
+interface JwtHeader {
+    alg?: string;
+    kid?: string;
+}
+
+export class InvalidTokenError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'InvalidTokenError';
+    }
+}
+
+const JWKS_TIMEOUT_MS = 5000;
+
+function decodeSegment<T>(segment: string | undefined, what: string): T {
+    if (!segment) throw new InvalidTokenError(`Token has no ${what}`);
+    try {
+        return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8')) as T;
+    } catch {
+        throw new InvalidTokenError(`Token ${what} is not valid JSON`);
+    }
+}
+
+/**
+ * Verifies Cognito-issued RS256 tokens the way the HTTP API's JWT authorizer does:
+ * signature against the user pool's JWKS, issuer, expiry, and the audience, which
+ * is `aud` on ID tokens and `client_id` on access tokens. Used where that
+ * authorizer is not available, such as the WebSocket API. Keys are fetched once
+ * and again only when a token names a key ID not seen yet, as after a rotation.
+ */
+export class JwtVerifier {
+    private keys = new Map<string, KeyObject>();
+
+    constructor(private readonly issuer: string, private readonly audiences: readonly string[]) {
+    }
+
+    async verify(token: string, now = new Date()): Promise<JWTClaims> {
+        const [headerSegment, payloadSegment, signature] = token.split('.');
+        const header = decodeSegment<JwtHeader>(headerSegment, 'header');
+        const claims = decodeSegment<JWTClaims & {iss?: string; aud?: string}>(payloadSegment, 'payload');
+        if (header.alg !== 'RS256' || !header.kid) {
+            throw new InvalidTokenError(`Unsupported token algorithm ${header.alg}`);
+        }
+
+        const key = await this.key(header.kid);
+        const signed = Buffer.from(`${headerSegment}.${payloadSegment}`);
+        if (!signature || !verify('RSA-SHA256', signed, key, Buffer.from(signature, 'base64url'))) {
+            throw new InvalidTokenError('Token signature is invalid');
+        }
+        if (claims.iss !== this.issuer) {
+            throw new InvalidTokenError(`Token was issued by ${claims.iss}`);
+        }
+        if (typeof claims.exp !== 'number' || claims.exp * 1000 <= now.getTime()) {
+            throw new InvalidTokenError('Token has expired');
+        }
+        const audience = claims.token_use === 'access' ? claims.client_id : claims.aud;
+        if (!audience || !this.audiences.includes(audience)) {
+            throw new InvalidTokenError(`Token is for ${audience ?? 'no audience'}`);
+        }
+        return claims;
+    }
+
+    private async key(kid: string): Promise<KeyObject> {
+        if (!this.keys.has(kid)) {
+            this.keys = await this.fetchKeys();
+        }
+        const key = this.keys.get(kid);
+        if (!key) throw new InvalidTokenError(`Token was signed with unknown key ${kid}`);
+        return key;
+    }
+
+    private async fetchKeys(): Promise<Map<string, KeyObject>> {
+        const response = await fetch(`${this.issuer}/.well-known/jwks.json`, {signal: AbortSignal.timeout(JWKS_TIMEOUT_MS)});
+        if (!response.ok) {
+            throw new Error(`Could not fetch signing keys from ${this.issuer}: HTTP ${response.status}`);
+        }
+        const {keys} = await response.json() as {keys: (JsonWebKey & {kid: string})[]};
+        return new Map(keys.map(jwk => [jwk.kid, createPublicKey({key: jwk, format: 'jwk'})]));
+    }
+}
@@ -0,0 +1,153 @@
+import {connect, Socket} from 'node:net';
+import {once} from 'node:events';
+
+export type ScanVerdict =
+    | {infected: false}
+    | {infected: true; signature: string};
+
+/**
+ * A malware scanner the validation handler streams each document through. The
+ * validation pipeline only depends on this interface; `ClamdScanner` is the
+ * adapter deployed by default.
+ */
+export interface MalwareScanner {
+    /** Short name for logs and the document's history, e.g. `clamd`. */
+    readonly name: string;
+    /** Resolves once the scanner answers; throws `ScannerUnavailableError` otherwise. */
+    ping(): Promise<void>;
+    /** Throws `ScannerUnavailableError` when no verdict could be had. */
+    scan(content: AsyncIterable<Uint8Array>): Promise<ScanVerdict>;
+}
+
+/**
+ * The scanner could not give a verdict: it was unreachable, timed out or answered
+ * with an error. Documents are never approved without a verdict; they wait in
+ * `scan_pending` and are scanned again later.
+ */
+export class ScannerUnavailableError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ScannerUnavailableError';
+    }
+}
+
+export interface ClamdOptions {
+    host: string;
+    port: number;
+    /** Idle time after which a connection is given up, in milliseconds. */
+    timeoutMs: number;
+}
+
+const DEFAULT_CLAMD_PORT = 3310;
+const DEFAULT_CLAMD_TIMEOUT_MS = 30_000;
+// clamd reads INSTREAM chunks into a buffer of its own; keep them well below its limits.
+const CHUNK_SIZE = 64 * 1024;
+
+/**
+ * Speaks clamd's INSTREAM protocol over TCP: `zINSTREAM\0`, then the content as
+ * chunks each prefixed with its length as a 4-byte big-endian integer, then a
+ * zero-length chunk. clamd answers `stream: OK`, `stream: <signature> FOUND` or
+ * `<message> ERROR`, terminated by a NUL byte. clamd's `StreamMaxLength` must be
+ * at least the document policy's largest file size, or large documents can never
+ * be scanned.
+ */
+export class ClamdScanner implements MalwareScanner {
+    readonly name = 'clamd';
+
+    constructor(private readonly options: ClamdOptions) {
+    }
+
+    async ping(): Promise<void> {
+        const reply = await this.exchange(socket => write(socket, Buffer.from('zPING\0')));
+        if (reply !== 'PONG') {
+            throw new ScannerUnavailableError(`clamd at ${this.address} answered PING with "${reply}"`);
+        }
+    }
+
+    async scan(content: AsyncIterable<Uint8Array>): Promise<ScanVerdict> {
+        const reply = await this.exchange(async socket => {
+            await write(socket, Buffer.from('zINSTREAM\0'));
+            for await (const part of content) {
+                for (let offset = 0; offset < part.length; offset += CHUNK_SIZE) {
+                    const chunk = part.subarray(offset, offset + CHUNK_SIZE);
+                    const length = Buffer.alloc(4);
+                    length.writeUInt32BE(chunk.length);
+                    await write(socket, length);
+                    await write(socket, chunk);
+                }
+            }
+            await write(socket, Buffer.alloc(4));
+        });
+        return parseClamdReply(reply, this.address);
+    }
+
+    private get address(): string {
+        return `${this.options.host}:${this.options.port}`;
+    }
+
+    /**
+     * Sends a command on a new connection and resolves to clamd's reply without its
+     * NUL terminator. clamd may answer before the request is fully sent, e.g. when
+     * a stream exceeds its size limit, so a reply wins over a failed write.
+     */
+    private exchange(send: (socket: Socket) => Promise<void>): Promise<string> {
+        const {host, port, timeoutMs} = this.options;
+        return new Promise((resolve, reject) => {
+            const socket = connect({host, port});
+            const received: Buffer[] = [];
+            let settled = false;
+            const fail = (reason: string) => {
+                if (settled) return;
+                settled = true;
+                socket.destroy();
+                reject(new ScannerUnavailableError(`clamd at ${this.address}: ${reason}`));
+            };
+
+            socket.setTimeout(timeoutMs, () => fail(`no reply within ${timeoutMs}ms`));
+            socket.on('error', error => fail(error.message));
+            socket.on('close', () => fail('connection closed before a reply'));
+            socket.on('data', data => {
+                received.push(data);
+                const reply = Buffer.concat(received);
+                const end = reply.indexOf(0);
+                if (end < 0 || settled) return;
+                settled = true;
+                socket.end();
+                resolve(reply.subarray(0, end).toString('utf8').trim());
+            });
+            socket.once('connect', () => {
+                send(socket).catch(error => fail(error instanceof Error ? error.message : String(error)));
+            });
+        });
+    }
+}
+
+async function write(socket: Socket, data: Uint8Array): Promise<void> {
+    if (!socket.write(data)) {
+        await once(socket, 'drain');
+    }
+}
+
+export function parseClamdReply(reply: string, address = 'clamd'): ScanVerdict {
+    const answer = reply.replace(/^stream: /, '');
+    if (answer === 'OK') return {infected: false};
+
+    const found = answer.match(/^(.+) FOUND$/);
+    if (found) return {infected: true, signature: found[1]!};
+
+    throw new ScannerUnavailableError(`clamd at ${address} could not scan the document: ${answer}`);
+}
+
+/**
+ * The scanner the deployment configures through `CLAMD_HOST`, and optionally
+ * `CLAMD_PORT` and `CLAMD_TIMEOUT_MS`. Without a host, documents are not scanned.
+ */
+export function scannerFromEnv(env: Record<string, string | undefined> = process.env): MalwareScanner | null {
+    const host = env.CLAMD_HOST;
+    if (!host) return null;
+    return new ClamdScanner({
+        host,
+        port: Number(env.CLAMD_PORT || DEFAULT_CLAMD_PORT),
+        timeoutMs: Number(env.CLAMD_TIMEOUT_MS || DEFAULT_CLAMD_TIMEOUT_MS)
+    });
+}
@@ -0,0 +1,32 @@
+import {PutObjectCommand, S3Client} from '@aws-sdk/client-s3';
+import {DocumentMetadata, DocumentMetadataSchema} from './schemas/document-metadata.schema.js';
+
+/**
+ * Sidecars live in the document bucket next to the documents; the validation
+ * handler ignores object-created events under this prefix.
+ */
+export const METADATA_PREFIX = 'metadata/';
+
+export function metadataSidecarKey(documentId: string): string {
+    return `${METADATA_PREFIX}${documentId}.json`;
+}
+
+/**
+ * Writes the `DocumentMetadata` record published at `documentMetadataSchemaS3Url`,
+ * refusing anything the schema would reject.
+ */
+export async function writeMetadataSidecar(s3: S3Client, bucket: string, metadata: DocumentMetadata): Promise<string> {
+    const record = DocumentMetadataSchema.parse(metadata);
+    const key = metadataSidecarKey(record.documentId);
+    await s3.send(new PutObjectCommand({
+        Bucket: bucket,
+        Key: key,
+        Body: JSON.stringify(record, null, 2),
+        ContentType: 'application/json',
+        Metadata: {
+            'document-id': record.documentId,
+            'validation-status': record.validationResult.validationStatus
+        }
+    }));
+    return key;
+}
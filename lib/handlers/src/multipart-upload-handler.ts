@@ -0,0 +1,256 @@
+import {APIGatewayProxyEventV2, APIGatewayProxyResultV2} from 'aws-lambda';
+import {
+    AbortMultipartUploadCommand,
+    CompleteMultipartUploadCommand,
+    CreateMultipartUploadCommand,
+    ListPartsCommand,
+    Part,
+    S3Client,
+    UploadPartCommand
+} from '@aws-sdk/client-s3';
+import {getSignedUrl} from '@aws-sdk/s3-request-presigner';
+import {createResponse, HttpError} from './http.js';
+import {authorize, Caller} from './authorization.js';
+import {createDocumentClient, DocumentRecord, DocumentRegistry} from './document-registry.js';
+import {CollectionRegistry} from './collection-registry.js';
+import {UsageRegistry} from './usage-registry.js';
+import {callerActor, DocumentHistory, uploadDetails} from './document-history.js';
+import {enforceUploadQuotas, loadQuotaLimits} from './quotas.js';
+import {
+    duplicateUploadResponse,
+    findExistingUpload,
+    planRevision,
+    planUpload,
+    registrationFields,
+    resolveCollection,
+    uploaderFields,
+    validateUploadRequest
+} from './upload-request.js';
+import {MultipartUploadResponse, UploadedPart} from './typing.js';
+
+const s3 = new S3Client({});
+const registry = new DocumentRegistry(createDocumentClient(), process.env.DOCUMENT_TABLE!);
+const collections = new CollectionRegistry(createDocumentClient(), process.env.COLLECTION_TABLE!);
+const usage = new UsageRegistry(createDocumentClient(), process.env.USAGE_TABLE!);
+const history = new DocumentHistory(createDocumentClient(), process.env.HISTORY_TABLE!);
+const quotaLimits = loadQuotaLimits();
+
+const DOCUMENT_BUCKET = process.env.DOCUMENT_BUCKET!;
+
+const PART_URL_EXPIRES_IN = 3600;
+const MAX_PART_URLS_PER_REQUEST = 100;
+
+// S3 limits: parts are at least 5 MiB (except the last) and at most 10,000 per upload.
+const MIB = 1024 * 1024;
+const DEFAULT_PART_SIZE = 8 * MIB;
+const MAX_PARTS = 10000;
+
+export function choosePartSize(fileSize: number): number {
+    const minimum = Math.ceil(fileSize / MAX_PARTS / MIB) * MIB;
+    return Math.max(DEFAULT_PART_SIZE, minimum);
+}
+
+/**
+ * Loads the caller's in-progress multipart upload. Documents owned by someone else
+ * are reported as missing, like the status route does.
+ */
+async function loadUpload(documentId: string | undefined, userId: string): Promise<DocumentRecord & {multipartUploadId: string}> {
+    if (!documentId) throw new HttpError(400, 'documentId is required in the path');
+
+    const record = await registry.get(documentId);
+    if (!record || record.userId !== userId || !record.multipartUploadId) {
+        throw new HttpError(404, `Multipart upload ${documentId} not found`);
+    }
+    if (record.state !== 'pending_upload') {
+        throw new HttpError(409, `Document ${documentId} is already ${record.state}`);
+    }
+    return record as DocumentRecord & {multipartUploadId: string};
+}
+
+async function listUploadedParts(record: DocumentRecord & {multipartUploadId: string}): Promise<UploadedPart[]> {
+    const parts: UploadedPart[] = [];
+    let marker: string | undefined;
+    do {
+        const response = await s3.send(new ListPartsCommand({
+            Bucket: record.bucket,
+            Key: record.objectKey,
+            UploadId: record.multipartUploadId,
+            ...(marker && {PartNumberMarker: marker})
+        }));
+        for (const part of response.Parts || []) {
+            parts.push({partNumber: part.PartNumber!, eTag: part.ETag!, size: part.Size ?? 0});
+        }
+        marker = response.IsTruncated ? response.NextPartNumberMarker : undefined;
+    } while (marker);
+    return parts;
+}
+
+async function createUpload(event: APIGatewayProxyEventV2, caller: Caller) {
+    const {userId} = caller;
+    const validated = validateUploadRequest(JSON.parse(event.body || '{}'));
+    const revision = await planRevision(registry, validated, userId);
+    const request = {...validated, collectionId: await resolveCollection(collections, validated, userId, revision)};
+    const existing = await findExistingUpload(registry, request, userId);
+    if (existing) {
+        console.log(`Content already uploaded as ${existing.documentId} (${existing.state}), not starting a multipart upload`);
+        return createResponse(200, duplicateUploadResponse(existing));
+    }
+    await enforceUploadQuotas(usage, quotaLimits, userId, request.collectionId, request.fileSize);
+
+    const {documentId, objectKey, metadata} = planUpload(request, caller);
+    const partSize = choosePartSize(request.fileSize);
+
+    const created = await s3.send(new CreateMultipartUploadCommand({
+        Bucket: DOCUMENT_BUCKET,
+        Key: objectKey,
+        ContentType: request.fileType,
+        Metadata: metadata
+    }));
+
+    const registered = await registry.create({
+        documentId,
+        userId,
+        ...uploaderFields(caller),
+        fileName: request.fileName,
+        fileType: request.fileType,
+        fileSize: request.fileSize,
+        ...registrationFields(request),
+        ...revision,
+        bucket: DOCUMENT_BUCKET,
+        objectKey,
+        uploadMode: 'multipart',
+        multipartUploadId: created.UploadId!,
+        partSize
+    });
+    console.log(`Created multipart upload ${created.UploadId} for ${objectKey} (${Math.ceil(request.fileSize / partSize)} parts of ${partSize} bytes)`);
+    await history.record(documentId, 'upload_url_issued', callerActor(caller), {...uploadDetails(registered), partSize});
+
+    const response: MultipartUploadResponse = {
+        status: 'pending_upload',
+        documentId,
+        objectKey,
+        partSize,
+        partCount: Math.ceil(request.fileSize / partSize)
+    };
+    return createResponse(200, response);
+}
+
+async function presignParts(event: APIGatewayProxyEventV2, userId: string) {
+    const record = await loadUpload(event.pathParameters?.documentId, userId);
+    const {partNumbers} = JSON.parse(event.body || '{}') as {partNumbers?: unknown};
+    const partCount = Math.ceil(record.fileSize / record.partSize!);
+
+    if (!Array.isArray(partNumbers) || partNumbers.length === 0) {
+        throw new HttpError(400, 'partNumbers must be a non-empty array');
+    }
+    if (partNumbers.length > MAX_PART_URLS_PER_REQUEST) {
+        throw new HttpError(400, `At most ${MAX_PART_URLS_PER_REQUEST} part URLs can be requested at once`);
+    }
+    const invalid = partNumbers.find(n => !Number.isInteger(n) || n < 1 || n > partCount);
+    if (invalid !== undefined) {
+        throw new HttpError(400, `Part number ${invalid} is outside 1..${partCount}`);
+    }
+
+    const parts = await Promise.all((partNumbers as number[]).map(async partNumber => ({
+        partNumber,
+        url: await getSignedUrl(s3, new UploadPartCommand({
+            Bucket: record.bucket,
+            Key: record.objectKey,
+            UploadId: record.multipartUploadId,
+            PartNumber: partNumber
+        }), {expiresIn: PART_URL_EXPIRES_IN})
+    })));
+
+    return createResponse(200, {parts, expiresIn: PART_URL_EXPIRES_IN});
+}
+
+async function listParts(event: APIGatewayProxyEventV2, userId: string) {
+    const record = await loadUpload(event.pathParameters?.documentId, userId);
+    const parts = await listUploadedParts(record);
+    return createResponse(200, {
+        documentId: record.documentId,
+        partSize: record.partSize,
+        partCount: Math.ceil(record.fileSize / record.partSize!),
+        parts
+    });
+}
+
+async function completeUpload(event: APIGatewayProxyEventV2, userId: string) {
+    const record = await loadUpload(event.pathParameters?.documentId, userId);
+    const partCount = Math.ceil(record.fileSize / record.partSize!);
+
+    // S3 is the authority on which parts arrived; the client's list is not trusted.
+    const uploaded = await listUploadedParts(record);
+    const missing = Array.from({length: partCount}, (_, i) => i + 1)
+        .filter(partNumber => !uploaded.some(part => part.partNumber === partNumber));
+    if (missing.length > 0) {
+        throw new HttpError(409, `Parts not uploaded yet: ${missing.join(', ')}`);
+    }
+    // Part URLs do not pin a size, and quotas count the declared one.
+    const uploadedSize = uploaded.reduce((total, part) => total + part.size, 0);
+    if (uploadedSize !== record.fileSize) {
+        throw new HttpError(409, `Uploaded parts add up to ${uploadedSize} bytes but the upload declared ${record.fileSize}`);
+    }
+
+    const parts: Part[] = uploaded
+        .sort((a, b) => a.partNumber - b.partNumber)
+        .map(part => ({PartNumber: part.partNumber, ETag: part.eTag}));
+    await s3.send(new CompleteMultipartUploadCommand({
+        Bucket: record.bucket,
+        Key: record.objectKey,
+        UploadId: record.multipartUploadId,
+        MultipartUpload: {Parts: parts}
+    }));
+    console.log(`Completed multipart upload ${record.multipartUploadId} for ${record.objectKey}`);
+
+    return createResponse(200, {documentId: record.documentId, objectKey: record.objectKey});
+}
+
+async function abortUpload(event: APIGatewayProxyEventV2, caller: Caller) {
+    const record = await loadUpload(event.pathParameters?.documentId, caller.userId);
+
+    await s3.send(new AbortMultipartUploadCommand({
+        Bucket: record.bucket,
+        Key: record.objectKey,
+        UploadId: record.multipartUploadId
+    }));
+    await registry.transition(record.documentId, 'aborted');
+    console.log(`Aborted multipart upload ${record.multipartUploadId} for ${record.objectKey}`);
+    await history.record(record.documentId, 'upload_aborted', callerActor(caller));
+
+    return createResponse(200, {documentId: record.documentId, state: 'aborted'});
+}
+
+/**
+ * Multipart upload routes: create, presign part URLs in batches, list uploaded
+ * parts (to resume), complete and abort.
+ */
+export const handler = async (event: APIGatewayProxyEventV2): Promise<APIGatewayProxyResultV2> => {
+    console.log(`[${event.requestContext.requestId}] ${event.routeKey}`, JSON.stringify(event.pathParameters || {}));
+    try {
+        const caller = authorize(event, 'uploader');
+        const {userId} = caller;
+
+        switch (event.routeKey) {
+            case 'POST /uploads/multipart':
+                return await createUpload(event, caller);
+            case 'POST /uploads/multipart/{documentId}/parts':
+                return await presignParts(event, userId);
+            case 'GET /uploads/multipart/{documentId}/parts':
+                return await listParts(event, userId);
+            case 'POST /uploads/multipart/{documentId}/complete':
+                return await completeUpload(event, userId);
+            case 'DELETE /uploads/multipart/{documentId}':
+                return await abortUpload(event, caller);
+            default:
+                return createResponse(404, undefined, `Unsupported route ${event.routeKey}`);
+        }
+    } catch (error) {
+        console.error('Multipart upload handler error:', error);
+        if (error instanceof HttpError) {
+            return createResponse(error.statusCode, undefined, error.message);
+        }
+        const message = error instanceof Error ? error.message : 'Internal server error';
+        return createResponse(400, undefined, message);
+    }
+};
@@ -0,0 +1,32 @@
+import {DeleteObjectCommand, ListObjectVersionsCommand, S3Client} from '@aws-sdk/client-s3';
+import {DeletedObject} from './schemas/document-deleted.schema.js';
+
+/**
+ * Removes every version of a key. The quarantine bucket is versioned, so a plain
+ * delete would only hide the copy behind a delete marker.
+ */
+export async function purgeVersions(s3: S3Client, bucket: string, key: string): Promise<DeletedObject[]> {
+    const deleted: DeletedObject[] = [];
+    let keyMarker: string | undefined;
+    let versionIdMarker: string | undefined;
+    do {
+        const response = await s3.send(new ListObjectVersionsCommand({
+            Bucket: bucket,
+            Prefix: key,
+            ...(keyMarker && {KeyMarker: keyMarker}),
+            ...(versionIdMarker && {VersionIdMarker: versionIdMarker})
+        }));
+        for (const version of response.Versions || []) {
+            if (version.Key !== key) continue;
+            await s3.send(new DeleteObjectCommand({Bucket: bucket, Key: key, VersionId: version.VersionId}));
+            deleted.push({bucketName: bucket, objectKey: key, ...(version.VersionId && {versionId: version.VersionId})});
+        }
+        for (const marker of response.DeleteMarkers || []) {
+            if (marker.Key !== key) continue;
+            await s3.send(new DeleteObjectCommand({Bucket: bucket, Key: key, VersionId: marker.VersionId}));
+        }
+        keyMarker = response.IsTruncated ? response.NextKeyMarker : undefined;
+        versionIdMarker = response.IsTruncated ? response.NextVersionIdMarker : undefined;
+    } while (keyMarker);
+    return deleted;
+}
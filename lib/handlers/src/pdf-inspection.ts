@@ -0,0 +1,295 @@
+/**
+ * Structural inspection of PDF documents.
+ *
+ * The whole file is parsed into its indirect objects, including those packed into
+ * object streams, without rendering anything. Findings are read off the object
+ * dictionaries: encryption, JavaScript and launch actions, embedded files, the
+ * page count, and whether the pages show any text at all or only images.
+ * Only FlateDecode streams are decoded; when a page's content cannot be read, the
+ * inspection does not guess whether it has text.
+ */
+import {constants, inflateSync} from 'zlib';
+import {QuarantineReasonCode} from './typing.js';
+
+export type PdfFinding = 'encrypted' | 'javascript' | 'launch-action' | 'embedded-files' | 'page-limit' | 'needs-ocr';
+
+/** `quarantine` blocks the document, `annotate` approves it with a note, `approve` only logs the finding. */
+export type PdfFindingAction = 'approve' | 'quarantine' | 'annotate';
+
+/**
+ * What the validation handler does with each finding. Both settings can be
+ * overridden per deployment through the environment variable next to them.
+ */
+export interface PdfInspectionPolicy {
+    /** `PDF_MAX_PAGES`: a document with more pages is a `page-limit` finding. */
+    maxPages: number;
+    /** `PDF_FINDING_ACTIONS`, e.g. `embedded-files=quarantine,needs-ocr=approve`; findings left out keep their default. */
+    actions: Record<PdfFinding, PdfFindingAction>;
+}
+
+export interface PdfInspection {
+    pageCount: number;
+    encrypted: boolean;
+    javaScript: boolean;
+    launchActions: boolean;
+    embeddedFiles: number;
+    imageCount: number;
+    /** Whether any page shows text; undefined when some page content could not be decoded. */
+    hasText: boolean | undefined;
+}
+
+export interface PdfFindingResult {
+    finding: PdfFinding;
+    action: PdfFindingAction;
+    reasonCode: QuarantineReasonCode;
+    reason: string;
+}
+
+export const DEFAULT_PDF_INSPECTION_POLICY: PdfInspectionPolicy = {
+    maxPages: 2000,
+    actions: {
+        // Downstream text extraction cannot read an encrypted document.
+        'encrypted': 'quarantine',
+        'javascript': 'quarantine',
+        'launch-action': 'quarantine',
+        'embedded-files': 'annotate',
+        'page-limit': 'quarantine',
+        'needs-ocr': 'annotate'
+    }
+};
+
+const PDF_FINDINGS = Object.keys(DEFAULT_PDF_INSPECTION_POLICY.actions) as PdfFinding[];
+const PDF_FINDING_ACTIONS: PdfFindingAction[] = ['approve', 'quarantine', 'annotate'];
+
+// Decoded size of a single stream beyond which it is treated as undecodable, so a
+// small compression bomb cannot exhaust the function's memory.
+const MAX_INFLATED_BYTES = 32 * 1024 * 1024;
+
+// A PDF name ends at whitespace or a delimiter.
+const NAME_END = String.raw`(?=[\s()<>\[\]{}/%]|$)`;
+
+interface PdfObject {
+    dictionary: string;
+    /** Offsets of the raw stream data in the file, for objects that have one. */
+    stream?: {start: number; end: number};
+}
+
+function limitFromEnv(env: Record<string, string | undefined>, name: string, fallback: number): number {
+    const raw = env[name];
+    if (raw === undefined || raw === '') return fallback;
+    const value = Number(raw);
+    if (!Number.isSafeInteger(value) || value < 1) {
+        throw new Error(`${name} must be a positive integer, got "${raw}"`);
+    }
+    return value;
+}
+
+function actionsFromEnv(env: Record<string, string | undefined>): Record<PdfFinding, PdfFindingAction> {
+    const actions = {...DEFAULT_PDF_INSPECTION_POLICY.actions};
+    for (const entry of (env.PDF_FINDING_ACTIONS ?? '').split(',').map(part => part.trim()).filter(Boolean)) {
+        const [finding, action] = entry.split('=').map(part => part.trim());
+        if (!PDF_FINDINGS.includes(finding as PdfFinding) || !PDF_FINDING_ACTIONS.includes(action as PdfFindingAction)) {
+            throw new Error(`PDF_FINDING_ACTIONS entries must be <${PDF_FINDINGS.join('|')}>=<${PDF_FINDING_ACTIONS.join('|')}>, got "${entry}"`);
+        }
+        actions[finding as PdfFinding] = action as PdfFindingAction;
+    }
+    return actions;
+}
+
+export function loadPdfInspectionPolicy(env: Record<string, string | undefined> = process.env): PdfInspectionPolicy {
+    return {
+        maxPages: limitFromEnv(env, 'PDF_MAX_PAGES', DEFAULT_PDF_INSPECTION_POLICY.maxPages),
+        actions: actionsFromEnv(env)
+    };
+}
+
+/**
+ * Replaces `#xx` escapes in names, which would otherwise hide e.g. `/J#61vaScript`
+ * from the checks.
+ */
+function normalizeNames(text: string): string {
+    return text.replace(/\/[^\s()<>[\]{}/%]*#[0-9a-fA-F]{2}[^\s()<>[\]{}/%]*/g,
+        name => name.replace(/#([0-9a-fA-F]{2})/g, (_match, hex: string) => String.fromCharCode(parseInt(hex, 16))));
+}
+
+function hasName(text: string, name: string): boolean {
+    return new RegExp(`/${name}${NAME_END}`).test(text);
+}
+
+function hasEntry(dictionary: string, key: string, value: string): boolean {
+    return new RegExp(`/${key}\\s*/${value}${NAME_END}`).test(dictionary);
+}
+
+/**
+ * Walks the file's `N G obj … endobj` blocks. Stream data is skipped by its direct
+ * `/Length` when that lands on `endstream`, and by searching for `endstream`
+ * otherwise, so binary data is never mistaken for objects. A later definition of
+ * an object number (an incremental update) replaces the earlier one. Returns the
+ * objects and the text outside stream data, which holds the trailers.
+ */
+function parseObjects(text: string): {objects: Map<number, PdfObject>; structure: string} {
+    const objects = new Map<number, PdfObject>();
+    const structure: string[] = [];
+    const header = /(\d+)\s+\d+\s+obj\b/g;
+    const streamStart = />>\s*stream(?:\r\n|\n|\r)/g;
+    let cursor = 0;
+    let match: RegExpExecArray | null;
+
+    while ((match = header.exec(text))) {
+        const bodyStart = match.index + match[0].length;
+        let end = text.indexOf('endobj', bodyStart);
+        if (end < 0) break;
+
+        streamStart.lastIndex = bodyStart;
+        const stream = streamStart.exec(text);
+        if (stream && stream.index < end) {
+            const dictionary = normalizeNames(text.slice(bodyStart, stream.index + 2));
+            const start = stream.index + stream[0].length;
+            const length = dictionary.match(/\/Length\s+(\d+)(?!\s+\d+\s+R)/);
+            let dataEnd = length ? start + Number(length[1]) : -1;
+            if (dataEnd < 0 || !/^\s*endstream/.test(text.slice(dataEnd, dataEnd + 32))) {
+                dataEnd = text.indexOf('endstream', start);
+                if (dataEnd < 0) break;
+            }
+            end = text.indexOf('endobj', dataEnd);
+            if (end < 0) break;
+            objects.set(Number(match[1]), {dictionary, stream: {start, end: dataEnd}});
+            structure.push(text.slice(cursor, start));
+            cursor = dataEnd;
+        } else {
+            objects.set(Number(match[1]), {dictionary: normalizeNames(text.slice(bodyStart, end))});
+        }
+        header.lastIndex = end + 'endobj'.length;
+    }
+    structure.push(text.slice(cursor));
+    return {objects, structure: normalizeNames(structure.join(''))};
+}
+
+/** The stream's data as latin1 text, or null when it uses a filter other than FlateDecode or does not inflate. */
+function decodeStream(bytes: Buffer, object: PdfObject): string | null {
+    const data = bytes.subarray(object.stream!.start, object.stream!.end);
+    const filter = object.dictionary.match(/\/Filter\s*(?:\/(\w+)|\[([^\]]*)\])/);
+    if (!filter) return data.toString('latin1');
+
+    const filters = filter[1] ? [filter[1]] : [...filter[2]!.matchAll(/\/(\w+)/g)].map(name => name[1]);
+    if (filters.some(name => name !== 'FlateDecode' && name !== 'Fl')) return null;
+    try {
+        let decoded: Buffer = data;
+        for (let i = 0; i < filters.length; i++) {
+            // Tolerates streams whose /Length includes the end-of-line before endstream.
+            decoded = inflateSync(decoded, {finishFlush: constants.Z_SYNC_FLUSH, maxOutputLength: MAX_INFLATED_BYTES});
+        }
+        return decoded.toString('latin1');
+    } catch {
+        return null;
+    }
+}
+
+/** Adds the objects packed into `/Type /ObjStm` streams; they never override a directly defined object. */
+function unpackObjectStreams(bytes: Buffer, objects: Map<number, PdfObject>): string[] {
+    const unpacked: string[] = [];
+    for (const object of [...objects.values()]) {
+        if (!object.stream || !hasEntry(object.dictionary, 'Type', 'ObjStm')) continue;
+        const first = Number(object.dictionary.match(/\/First\s+(\d+)/)?.[1]);
+        const content = decodeStream(bytes, object);
+        if (content === null || !Number.isInteger(first)) continue;
+
+        const offsets = content.slice(0, first).trim().split(/\s+/).map(Number);
+        for (let i = 0; i + 1 < offsets.length; i += 2) {
+            const number = offsets[i]!;
+            const start = first + offsets[i + 1]!;
+            const end = i + 3 < offsets.length ? first + offsets[i + 3]! : content.length;
+            const dictionary = normalizeNames(content.slice(start, end));
+            unpacked.push(dictionary);
+            if (!objects.has(number)) objects.set(number, {dictionary});
+        }
+    }
+    return unpacked;
+}
+
+function references(value: string): number[] {
+    return [...value.matchAll(/(\d+)\s+\d+\s+R/g)].map(reference => Number(reference[1]));
+}
+
+/** Whether a content stream shows text: a `BT` text object with a text-showing operator in it. */
+function showsText(content: string): boolean {
+    return /\bBT\b[\s\S]*?(?:\bT[jJ]\b|['"](?=\s))/.test(content);
+}
+
+export function inspectPdf(content: Uint8Array): PdfInspection {
+    const bytes = Buffer.from(content.buffer, content.byteOffset, content.byteLength);
+    const {objects, structure: outside} = parseObjects(bytes.toString('latin1'));
+    const structure = [outside, ...unpackObjectStreams(bytes, objects)].join('\n');
+    const dictionaries = [...objects.values()].map(object => object.dictionary);
+    const encrypted = hasName(structure, 'Encrypt');
+
+    const pages = dictionaries.filter(dictionary => hasEntry(dictionary, 'Type', 'Page'));
+    const embeddedFiles = dictionaries.filter(dictionary => hasEntry(dictionary, 'Type', 'EmbeddedFile')).length
+        || (hasName(structure, 'EmbeddedFiles') || hasName(structure, 'EF') ? 1 : 0);
+    let imageCount = dictionaries.filter(dictionary => hasEntry(dictionary, 'Subtype', 'Image')).length;
+
+    // Text can be drawn by the page's own content or by form XObjects it paints.
+    const textStreams = new Set<PdfObject>();
+    for (const page of pages) {
+        const contents = page.match(/\/Contents\s*(\[[^\]]*\]|\d+\s+\d+\s+R)/);
+        for (const number of contents ? references(contents[1]!) : []) {
+            const stream = objects.get(number);
+            if (stream?.stream) textStreams.add(stream);
+        }
+    }
+    for (const object of objects.values()) {
+        if (object.stream && hasEntry(object.dictionary, 'Subtype', 'Form')) textStreams.add(object);
+    }
+
+    let hasText: boolean | undefined = false;
+    if (encrypted) {
+        hasText = undefined;
+    } else {
+        for (const stream of textStreams) {
+            const decoded = decodeStream(bytes, stream);
+            if (decoded === null) {
+                hasText = undefined;
+                continue;
+            }
+            if (/\bBI\b[\s\S]*?\bID\b/.test(decoded)) imageCount++;
+            if (showsText(decoded)) {
+                hasText = true;
+                break;
+            }
+        }
+    }
+
+    return {
+        pageCount: pages.length,
+        encrypted,
+        javaScript: hasName(structure, 'JavaScript') || hasName(structure, 'JS'),
+        launchActions: hasName(structure, 'Launch'),
+        embeddedFiles,
+        imageCount,
+        hasText
+    };
+}
+
+/** The inspection's findings and what the policy does with each, in order of severity. */
+export function evaluatePdf(inspection: PdfInspection, policy: PdfInspectionPolicy): PdfFindingResult[] {
+    const findings: {finding: PdfFinding; reasonCode: QuarantineReasonCode; reason: string}[] = [];
+    if (inspection.encrypted) {
+        findings.push({finding: 'encrypted', reasonCode: 'PDF_ENCRYPTED', reason: 'PDF is encrypted or password protected, so its text cannot be extracted'});
+    }
+    if (inspection.javaScript) {
+        findings.push({finding: 'javascript', reasonCode: 'PDF_JAVASCRIPT', reason: 'PDF contains JavaScript'});
+    }
+    if (inspection.launchActions) {
+        findings.push({finding: 'launch-action', reasonCode: 'PDF_LAUNCH_ACTION', reason: 'PDF contains a /Launch action that opens other files or programs'});
+    }
+    if (inspection.embeddedFiles) {
+        findings.push({finding: 'embedded-files', reasonCode: 'PDF_EMBEDDED_FILES', reason: `PDF has ${inspection.embeddedFiles} embedded file(s)`});
+    }
+    if (inspection.pageCount > policy.maxPages) {
+        findings.push({finding: 'page-limit', reasonCode: 'PDF_TOO_MANY_PAGES', reason: `PDF has ${inspection.pageCount} pages, more than the limit of ${policy.maxPages}`});
+    }
+    if (inspection.hasText === false && inspection.imageCount > 0) {
+        findings.push({finding: 'needs-ocr', reasonCode: 'PDF_NEEDS_OCR', reason: `None of the PDF's ${inspection.pageCount} page(s) has text, only images; it needs OCR`});
+    }
+    return findings.map(finding => ({...finding, action: policy.actions[finding.finding]}));
+}
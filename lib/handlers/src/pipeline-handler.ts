@@ -0,0 +1,80 @@
+import {APIGatewayProxyEventV2, APIGatewayProxyResultV2} from 'aws-lambda';
+import {createResponse, HttpError} from './http.js';
+import {authorize, Caller} from './authorization.js';
+import {createDocumentClient, DocumentRegistry} from './document-registry.js';
+import {DocumentStatus, toDocumentStatus} from './document-status.js';
+import {pipelineStatus, StageEndpoints} from './pipeline-status.js';
+import {BatchStatusRequest} from './typing.js';
+
+const registry = new DocumentRegistry(createDocumentClient(), process.env.DOCUMENT_TABLE!);
+
+const MAX_BATCH_STATUS_IDS = 100;
+
+function stageEndpoints(): StageEndpoints {
+    const {PROCESSING_STATUS_ENDPOINT, EMBEDDING_STATUS_ENDPOINT, VECTOR_STORAGE_STATUS_ENDPOINT} = process.env;
+    return {
+        ...(PROCESSING_STATUS_ENDPOINT && {processing: PROCESSING_STATUS_ENDPOINT}),
+        ...(EMBEDDING_STATUS_ENDPOINT && {embedding: EMBEDDING_STATUS_ENDPOINT}),
+        ...(VECTOR_STORAGE_STATUS_ENDPOINT && {'vector-storage': VECTOR_STORAGE_STATUS_ENDPOINT})
+    };
+}
+
+/**
+ * Ingestion status of many documents at once, in request order. IDs that are unknown
+ * or belong to someone else come back as `not_found`, as on `GET /status`.
+ */
+async function getStatuses(event: APIGatewayProxyEventV2, {userId}: Caller): Promise<APIGatewayProxyResultV2> {
+    const {documentIds} = JSON.parse(event.body || '{}') as Partial<BatchStatusRequest>;
+    if (!Array.isArray(documentIds) || documentIds.length === 0 || documentIds.some(id => typeof id !== 'string' || !id)) {
+        throw new HttpError(400, 'documentIds must be a non-empty array of document IDs');
+    }
+    const unique = [...new Set(documentIds)];
+    if (unique.length > MAX_BATCH_STATUS_IDS) {
+        throw new HttpError(400, `At most ${MAX_BATCH_STATUS_IDS} document IDs per request, got ${unique.length}`);
+    }
+
+    const records = await Promise.all(unique.map(documentId => registry.get(documentId)));
+    const statuses: DocumentStatus[] = unique.map((documentId, i) => {
+        const record = records[i];
+        return record && record.userId === userId ? toDocumentStatus(record) : {documentId, status: 'not_found', location: 'unknown'};
+    });
+    return createResponse(200, {statuses});
+}
+
+/**
+ * The document's progress through ingestion, processing, embedding and vector
+ * storage, collected here so clients make one call instead of one per service.
+ */
+async function getPipeline(event: APIGatewayProxyEventV2, {userId}: Caller): Promise<APIGatewayProxyResultV2> {
+    const documentId = event.pathParameters?.documentId;
+    if (!documentId) throw new HttpError(400, 'documentId is required in the path');
+
+    const record = await registry.get(documentId);
+    if (!record || record.userId !== userId) {
+        throw new HttpError(404, `Document ${documentId} not found`);
+    }
+    const authorization = event.headers.authorization ?? event.headers.Authorization ?? '';
+    return createResponse(200, await pipelineStatus(record, stageEndpoints(), authorization));
+}
+
+export const handler = async (event: APIGatewayProxyEventV2): Promise<APIGatewayProxyResultV2> => {
+    console.log(`[${event.requestContext.requestId}] ${event.routeKey}`, JSON.stringify(event.pathParameters || {}));
+    try {
+        const caller = authorize(event, 'reader');
+        switch (event.routeKey) {
+            case 'POST /status/batch':
+                return await getStatuses(event, caller);
+            case 'GET /pipeline/{documentId}':
+                return await getPipeline(event, caller);
+            default:
+                return createResponse(404, undefined, `Unsupported route ${event.routeKey}`);
+        }
+    } catch (error) {
+        console.error('Pipeline handler error:', error);
+        if (error instanceof HttpError) {
+            return createResponse(error.statusCode, undefined, error.message);
+        }
+        const message = error instanceof Error ? error.message : 'Internal server error';
+        return createResponse(400, undefined, message);
+    }
+};
@@ -0,0 +1,164 @@
+import {DocumentRecord} from './document-registry.js';
+import {toDocumentStatus} from './document-status.js';
+
+export type PipelineStage = 'ingestion' | 'processing' | 'embedding' | 'vector-storage';
+export type StageState = 'pending' | 'processing' | 'completed' | 'failed';
+
+export const PIPELINE_STAGES: readonly PipelineStage[] = ['ingestion', 'processing', 'embedding', 'vector-storage'];
+
+/** One stage of the pipeline, normalized from whatever the stage's service answered. */
+export interface StageStatus {
+    stage: PipelineStage;
+    status: StageState;
+    /** The stage's service could not be reached or failed to answer, so `status` is a guess of `pending`. */
+    unavailable?: boolean;
+    timestamp: string;
+    processingTimeMs?: number;
+    errorMessage?: string;
+    /** The service's own response, for anything the normalized fields leave out. */
+    details?: Record<string, unknown>;
+}
+
+export interface PipelineStatus {
+    documentId: string;
+    overallStatus: StageState;
+    /** The first stage that is not completed, or `vector-storage` once all are. */
+    currentStage: PipelineStage;
+    completedStages: PipelineStage[];
+    failedStages: PipelineStage[];
+    totalProcessingTime: number;
+    stageDetails: Record<PipelineStage, StageStatus>;
+}
+
+/** Status routes of the downstream services, each taking `/{documentId}`; a missing one reports its stage unavailable. */
+export type StageEndpoints = Partial<Record<Exclude<PipelineStage, 'ingestion'>, string>>;
+
+const STAGE_TIMEOUT_MS = 5000;
+
+/**
+ * The ingestion stage straight from the registry. Only a validated document moves
+ * on; a superseded one was validated before its newer revision replaced it.
+ */
+export function ingestionStage(record: DocumentRecord): StageStatus {
+    const {status, errorMessage} = toDocumentStatus(record);
+    const timestamp = record.validatedAt ?? record.updatedAt;
+    switch (status) {
+        case 'validated':
+        case 'superseded':
+            return {stage: 'ingestion', status: 'completed', timestamp};
+        case 'pending':
+            return {stage: 'ingestion', status: record.state === 'validating' || record.state === 'released' ? 'processing' : 'pending', timestamp};
+        case 'duplicate':
+            return {stage: 'ingestion', status: 'failed', timestamp, errorMessage: `Duplicate of ${record.duplicateOf}, which is ingested instead`};
+        default:
+            return {stage: 'ingestion', status: 'failed', timestamp, errorMessage: errorMessage ?? `Document is ${status}`};
+    }
+}
+
+function stageState(status: unknown): StageState {
+    return status === 'completed' || status === 'failed' || status === 'processing' ? status : 'pending';
+}
+
+/**
+ * Normalizes a downstream service's report on a document, whether it answered a
+ * status request or published a `Document Stage Changed` event.
+ */
+export function toStageStatus(stage: PipelineStage, body: Record<string, unknown>): StageStatus {
+    const processingTimeMs = body.processingTimeMs ?? body.processingTime ?? body.executionTimeMs;
+    const errorMessage = body.errorMessage ?? body.error;
+    return {
+        stage,
+        status: stageState(body.status),
+        timestamp: typeof body.timestamp === 'string' ? body.timestamp : new Date().toISOString(),
+        ...(typeof processingTimeMs === 'number' && {processingTimeMs}),
+        ...(typeof errorMessage === 'string' && {errorMessage}),
+        details: body
+    };
+}
+
+function unavailable(stage: PipelineStage, errorMessage: string): StageStatus {
+    return {stage, status: 'pending', unavailable: true, timestamp: new Date().toISOString(), errorMessage};
+}
+
+/**
+ * Asks one downstream service for the document's status, passing the caller's own
+ * token on. A 404 means the document has not reached the stage yet; any other
+ * failure, a timeout included, marks the stage unavailable.
+ */
+export async function fetchStageStatus(stage: Exclude<PipelineStage, 'ingestion'>, endpoint: string | undefined,
+                                       documentId: string, authorization: string): Promise<StageStatus> {
+    if (!endpoint) return unavailable(stage, `No ${stage} status endpoint is configured`);
+
+    const base = endpoint.replace(/\/+$/, '');
+    const url = `${base.endsWith('/status') ? base : `${base}/status`}/${encodeURIComponent(documentId)}`;
+    try {
+        const response = await fetch(url, {
+            headers: {Authorization: authorization, 'Content-Type': 'application/json'},
+            signal: AbortSignal.timeout(STAGE_TIMEOUT_MS)
+        });
+        if (response.status === 404) {
+            return {stage, status: 'pending', timestamp: new Date().toISOString()};
+        }
+        if (!response.ok) {
+            return unavailable(stage, `${stage} service answered HTTP ${response.status}`);
+        }
+        return toStageStatus(stage, await response.json() as Record<string, unknown>);
+    } catch (error) {
+        return unavailable(stage, `${stage} service could not be reached: ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
+/**
+ * Walks the stages in order: the pipeline is wherever the first stage that is not
+ * completed is, and has failed if that stage failed.
+ */
+export function summarizePipeline(documentId: string, stageDetails: Record<PipelineStage, StageStatus>): PipelineStatus {
+    const completedStages: PipelineStage[] = [];
+    const failedStages: PipelineStage[] = [];
+    let totalProcessingTime = 0;
+    let current: StageStatus | undefined;
+
+    for (const stage of PIPELINE_STAGES) {
+        const status = stageDetails[stage];
+        if (status.status !== 'completed') {
+            current = status;
+            break;
+        }
+        completedStages.push(stage);
+        totalProcessingTime += status.processingTimeMs ?? 0;
+    }
+
+    let overallStatus: StageState = 'completed';
+    if (current?.status === 'failed') {
+        failedStages.push(current.stage);
+        overallStatus = 'failed';
+    } else if (current) {
+        overallStatus = current.status === 'processing' || completedStages.length > 0 ? 'processing' : 'pending';
+    }
+
+    return {
+        documentId,
+        overallStatus,
+        currentStage: current?.stage ?? 'vector-storage',
+        completedStages,
+        failedStages,
+        totalProcessingTime,
+        stageDetails
+    };
+}
+
+/**
+ * The whole pipeline for a registered document. Downstream services are only asked
+ * once ingestion has completed; until then their stages are pending.
+ */
+export async function pipelineStatus(record: DocumentRecord, endpoints: StageEndpoints, authorization: string): Promise<PipelineStatus> {
+    const ingestion = ingestionStage(record);
+    const downstream = PIPELINE_STAGES.filter((stage): stage is Exclude<PipelineStage, 'ingestion'> => stage !== 'ingestion');
+
+    const statuses = ingestion.status === 'completed'
+        ? await Promise.all(downstream.map(stage => fetchStageStatus(stage, endpoints[stage], record.documentId, authorization)))
+        : downstream.map((stage): StageStatus => ({stage, status: 'pending', timestamp: ingestion.timestamp}));
+
+    const [processing, embedding, vectorStorage] = statuses as [StageStatus, StageStatus, StageStatus];
+    return summarizePipeline(record.documentId, {ingestion, processing, embedding, 'vector-storage': vectorStorage});
+}
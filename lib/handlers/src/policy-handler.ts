@@ -0,0 +1,19 @@
+import {APIGatewayProxyEventV2, APIGatewayProxyResultV2} from 'aws-lambda';
+import {DOCUMENT_POLICY, DocumentPolicy} from './document-policy.js';
+import {createResponse, HttpError} from './http.js';
+import {authorize} from './authorization.js';
+
+/**
+ * Serves the document type policy so the web UI enforces exactly the rules the
+ * deployed upload and validation handlers were built with.
+ */
+export const handler = async (event: APIGatewayProxyEventV2): Promise<APIGatewayProxyResultV2> => {
+    try {
+        authorize(event, 'reader');
+    } catch (error) {
+        if (error instanceof HttpError) return createResponse(error.statusCode, undefined, error.message);
+        throw error;
+    }
+    console.log(`[${event.requestContext.requestId}] Serving document policy v${DOCUMENT_POLICY.version}`);
+    return createResponse<DocumentPolicy>(200, DOCUMENT_POLICY);
+};
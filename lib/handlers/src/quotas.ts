@@ -0,0 +1,92 @@
+import {HttpError} from './http.js';
+import {StorageCounters, UploadRateLimitError, UsageRegistry, UsageSnapshot} from './usage-registry.js';
+import {QuotaUsage, StorageUsage, UsageResponse} from './typing.js';
+
+const GB = 1024 * 1024 * 1024;
+
+export interface StorageLimits {
+    maxBytes: number;
+    maxDocuments: number;
+}
+
+/**
+ * Quotas enforced at upload time. Each limit can be overridden per deployment
+ * through the environment variable next to it.
+ */
+export interface QuotaLimits {
+    /** `QUOTA_MAX_BYTES` / `QUOTA_MAX_DOCUMENTS`: all of a user's collections together. */
+    user: StorageLimits;
+    /** `QUOTA_COLLECTION_MAX_BYTES` / `QUOTA_COLLECTION_MAX_DOCUMENTS`: any one collection. */
+    collection: StorageLimits;
+    /** `QUOTA_UPLOADS_PER_HOUR`: uploads a user may start per clock hour. */
+    uploadsPerHour: number;
+}
+
+function limitFromEnv(name: string, fallback: number): number {
+    const raw = process.env[name];
+    if (raw === undefined || raw === '') return fallback;
+    const value = Number(raw);
+    if (!Number.isSafeInteger(value) || value < 0) {
+        throw new Error(`${name} must be a non-negative integer, got "${raw}"`);
+    }
+    return value;
+}
+
+export function loadQuotaLimits(): QuotaLimits {
+    return {
+        user: {
+            maxBytes: limitFromEnv('QUOTA_MAX_BYTES', 10 * GB),
+            maxDocuments: limitFromEnv('QUOTA_MAX_DOCUMENTS', 10_000)
+        },
+        collection: {
+            maxBytes: limitFromEnv('QUOTA_COLLECTION_MAX_BYTES', 5 * GB),
+            maxDocuments: limitFromEnv('QUOTA_COLLECTION_MAX_DOCUMENTS', 5_000)
+        },
+        uploadsPerHour: limitFromEnv('QUOTA_UPLOADS_PER_HOUR', 200)
+    };
+}
+
+function checkStorage(scope: string, used: StorageCounters, limits: StorageLimits, fileSize: number): void {
+    if (used.documents + 1 > limits.maxDocuments) {
+        throw new HttpError(403, `Document quota exceeded: ${scope} already holds ${used.documents} of ${limits.maxDocuments} documents`);
+    }
+    if (used.bytes + fileSize > limits.maxBytes) {
+        const remaining = Math.max(0, limits.maxBytes - used.bytes);
+        throw new HttpError(403, `Storage quota exceeded: ${scope} has ${remaining} of ${limits.maxBytes} bytes left, the file needs ${fileSize}`);
+    }
+}
+
+/**
+ * Admits an upload of `fileSize` bytes into `collectionId`, or throws: 403 when it
+ * would not fit the user's or the collection's storage quota, 429 when the user has
+ * started too many uploads this hour. Only an admitted upload counts towards the
+ * hourly limit. Stored bytes are only counted once documents are validated, so
+ * uploads in flight at the same time can overshoot the storage quota by their size.
+ */
+export async function enforceUploadQuotas(usage: UsageRegistry, limits: QuotaLimits, userId: string, collectionId: string, fileSize: number): Promise<void> {
+    const snapshot = await usage.get(userId, collectionId);
+    checkStorage('your account', snapshot.storage, limits.user, fileSize);
+    checkStorage(`collection ${collectionId}`, snapshot.collection, limits.collection, fileSize);
+    try {
+        await usage.countUpload(userId, limits.uploadsPerHour);
+    } catch (error) {
+        if (error instanceof UploadRateLimitError) throw new HttpError(429, error.message);
+        throw error;
+    }
+}
+
+function quotaUsage(used: number, limit: number): QuotaUsage {
+    return {used, limit, remaining: Math.max(0, limit - used)};
+}
+
+function storageUsage(used: StorageCounters, limits: StorageLimits): StorageUsage {
+    return {bytes: quotaUsage(used.bytes, limits.maxBytes), documents: quotaUsage(used.documents, limits.maxDocuments)};
+}
+
+export function toUsageResponse(snapshot: UsageSnapshot, limits: QuotaLimits, collectionId: string): UsageResponse {
+    return {
+        storage: storageUsage(snapshot.storage, limits.user),
+        collection: {collectionId, ...storageUsage(snapshot.collection, limits.collection)},
+        uploads: {...quotaUsage(snapshot.uploads, limits.uploadsPerHour), windowEndsAt: snapshot.windowEndsAt}
+    };
+}
@@ -0,0 +1,246 @@
+import {APIGatewayProxyEventV2, APIGatewayProxyResultV2} from 'aws-lambda';
+import {CopyObjectCommand, GetObjectCommand, HeadObjectCommand, S3Client} from '@aws-sdk/client-s3';
+import {getSignedUrl} from '@aws-sdk/s3-request-presigner';
+import {createResponse, HttpError} from './http.js';
+import {authorize, Caller} from './authorization.js';
+import {
+    createDocumentClient,
+    DocumentRecord,
+    DocumentRegistry,
+    DocumentStateConflictError,
+    DocumentTransitionUpdate
+} from './document-registry.js';
+import {toDocumentStatus} from './document-status.js';
+import {defaultCollectionId} from './collection-registry.js';
+import {callerActor, DocumentHistory} from './document-history.js';
+import {purgeVersions} from './object-versions.js';
+import {QuarantineDownloadResponse, QuarantineItem, QuarantineListResponse, RejectRequest, ReleaseRequest} from './typing.js';
+
+const QUARANTINE_BUCKET = process.env.QUARANTINE_BUCKET!;
+const RETENTION_DAYS = Number(process.env.QUARANTINE_RETENTION_DAYS || 14);
+
+const s3 = new S3Client({});
+const registry = new DocumentRegistry(createDocumentClient(), process.env.DOCUMENT_TABLE!);
+const history = new DocumentHistory(createDocumentClient(), process.env.HISTORY_TABLE!);
+
+const DEFAULT_PAGE_SIZE = 25;
+const MAX_PAGE_SIZE = 100;
+const MAX_NOTE_LENGTH = 1000;
+// Long enough to open the file, short enough that a shared link is soon useless.
+const DOWNLOAD_EXPIRES_IN = 300;
+
+// Metadata the validation handler adds to the quarantine copy; none of it belongs on a released document.
+const QUARANTINE_METADATA = ['quarantine-reason', 'quarantine-reason-code', 'quarantine-timestamp', 'original-bucket', 'original-key'];
+
+function toQuarantineItem(record: DocumentRecord): QuarantineItem {
+    const quarantinedAt = record.quarantinedAt ?? record.updatedAt;
+    return {
+        documentId: record.documentId,
+        userId: record.userId,
+        ...(record.uploadedBy && {uploadedBy: record.uploadedBy}),
+        collectionId: record.collectionId ?? defaultCollectionId(record.userId),
+        fileName: record.fileName,
+        fileType: record.fileType,
+        fileSize: record.fileSize,
+        uploadedAt: record.createdAt,
+        quarantinedAt,
+        expiresAt: new Date(Date.parse(quarantinedAt) + RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString(),
+        ...(record.reasonCode && {reasonCode: record.reasonCode}),
+        ...(record.reason && {reason: record.reason})
+    };
+}
+
+function parseLimit(value: string | undefined): number {
+    if (value === undefined) return DEFAULT_PAGE_SIZE;
+    const limit = Number(value);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+        throw new HttpError(400, `limit must be an integer between 1 and ${MAX_PAGE_SIZE}`);
+    }
+    return limit;
+}
+
+/**
+ * Cursors are the opaque, base64url-encoded key of the last item on the previous
+ * page. One that does not point into the quarantined partition of the state index
+ * is refused.
+ */
+function encodeCursor(key: Record<string, unknown>): string {
+    return Buffer.from(JSON.stringify(key), 'utf8').toString('base64url');
+}
+
+function decodeCursor(cursor: string | undefined): Record<string, unknown> | undefined {
+    if (cursor === undefined) return undefined;
+    let key: unknown;
+    try {
+        key = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    } catch {
+        throw new HttpError(400, 'Invalid cursor');
+    }
+    if (!key || typeof key !== 'object' || (key as Record<string, unknown>).state !== 'quarantined') {
+        throw new HttpError(400, 'Invalid cursor');
+    }
+    return key as Record<string, unknown>;
+}
+
+function parseNote(value: unknown, name: string): string {
+    const note = typeof value === 'string' ? value.trim() : '';
+    if (!note) throw new HttpError(400, `${name} is required`);
+    if (note.length > MAX_NOTE_LENGTH) throw new HttpError(400, `${name} must be at most ${MAX_NOTE_LENGTH} characters`);
+    return note;
+}
+
+async function loadQuarantined(documentId: string | undefined): Promise<DocumentRecord & {quarantineKey: string}> {
+    if (!documentId) throw new HttpError(400, 'documentId is required in the path');
+
+    const record = await registry.get(documentId);
+    if (!record) throw new HttpError(404, `Document ${documentId} not found`);
+    if (record.state !== 'quarantined' || !record.quarantineKey) {
+        throw new HttpError(409, `Document ${documentId} is ${record.state}, not quarantined`);
+    }
+    return record as DocumentRecord & {quarantineKey: string};
+}
+
+/** Heads the quarantine copy, which the bucket's lifecycle rule may already have expired. */
+async function headQuarantineCopy(record: DocumentRecord & {quarantineKey: string}) {
+    try {
+        return await s3.send(new HeadObjectCommand({Bucket: QUARANTINE_BUCKET, Key: record.quarantineKey}));
+    } catch (error) {
+        if ((error as Error).name !== 'NotFound') throw error;
+        throw new HttpError(410, `The quarantine copy of ${record.documentId} has expired`);
+    }
+}
+
+async function listQuarantine(event: APIGatewayProxyEventV2) {
+    const params = event.queryStringParameters || {};
+    const page = await registry.listByState('quarantined', parseLimit(params.limit), decodeCursor(params.cursor));
+    const response: QuarantineListResponse = {
+        items: page.records.map(toQuarantineItem),
+        ...(page.lastEvaluatedKey && {nextCursor: encodeCursor(page.lastEvaluatedKey)})
+    };
+    return createResponse(200, response);
+}
+
+/**
+ * A short-lived GET of the quarantine copy. The response headers make browsers
+ * download the file instead of rendering whatever it contains.
+ */
+async function downloadQuarantined(event: APIGatewayProxyEventV2, caller: Caller) {
+    const record = await loadQuarantined(event.pathParameters?.documentId);
+    await headQuarantineCopy(record);
+
+    const downloadUrl = await getSignedUrl(s3, new GetObjectCommand({
+        Bucket: QUARANTINE_BUCKET,
+        Key: record.quarantineKey,
+        ResponseContentType: 'application/octet-stream',
+        ResponseContentDisposition: `attachment; filename="${record.fileName.replace(/[^\w.-]/g, '_')}"`
+    }), {expiresIn: DOWNLOAD_EXPIRES_IN});
+    console.log(`${caller.principal} fetched an inspection URL for ${record.documentId}`);
+
+    const response: QuarantineDownloadResponse = {documentId: record.documentId, downloadUrl, expiresIn: DOWNLOAD_EXPIRES_IN};
+    return createResponse(200, response);
+}
+
+/**
+ * Copies the quarantined document back to its original key with an approval tag.
+ * The copy fires the usual object-created event, and the validation handler takes
+ * a `released` document through the approved path, re-running only the malware scan.
+ * The registry moves first so two reviewers cannot both act on the same document;
+ * a failed copy moves it back to `quarantined`.
+ */
+async function releaseQuarantined(event: APIGatewayProxyEventV2, caller: Caller) {
+    const {justification} = JSON.parse(event.body || '{}') as Partial<ReleaseRequest>;
+    const note = parseNote(justification, 'justification');
+    const record = await loadQuarantined(event.pathParameters?.documentId);
+    const head = await headQuarantineCopy(record);
+
+    const reviewedAt = new Date().toISOString();
+    const released = await claim(record, 'released', {reviewedBy: caller.principal, reviewedAt, reviewNote: note});
+    try {
+        const metadata = Object.fromEntries(Object.entries(head.Metadata || {}).filter(([name]) => !QUARANTINE_METADATA.includes(name)));
+        await s3.send(new CopyObjectCommand({
+            Bucket: record.bucket,
+            Key: record.objectKey,
+            CopySource: `${QUARANTINE_BUCKET}/${record.quarantineKey}`,
+            Metadata: {...metadata, 'reviewed-by': caller.principal},
+            MetadataDirective: 'REPLACE',
+            Tagging: new URLSearchParams({'review-status': 'released', 'reviewed-by': caller.principal}).toString(),
+            TaggingDirective: 'REPLACE'
+        }));
+    } catch (error) {
+        console.error(`Failed to copy ${record.documentId} out of quarantine:`, error);
+        await registry.transition(record.documentId, 'quarantined');
+        throw new HttpError(502, `Document ${record.documentId} could not be copied out of quarantine; it is still quarantined`);
+    }
+    console.log(`${caller.principal} released ${record.documentId} (${record.reasonCode}) from quarantine`);
+
+    await history.record(record.documentId, 'released', callerActor(caller), {
+        justification: note,
+        ...(record.reasonCode && {reasonCode: record.reasonCode})
+    }, new Date(reviewedAt));
+    return createResponse(200, toDocumentStatus(released));
+}
+
+/**
+ * Rejects the document for good and deletes the quarantine copy rather than
+ * waiting for it to expire. The decision stands even if the purge fails; the
+ * lifecycle rule removes the copy in the end.
+ */
+async function rejectQuarantined(event: APIGatewayProxyEventV2, caller: Caller) {
+    const {reason} = JSON.parse(event.body || '{}') as Partial<RejectRequest>;
+    const note = parseNote(reason, 'reason');
+    const record = await loadQuarantined(event.pathParameters?.documentId);
+
+    const reviewedAt = new Date().toISOString();
+    const rejected = await claim(record, 'rejected', {rejectedAt: reviewedAt, reviewedBy: caller.principal, reviewedAt, reviewNote: note});
+    let purged = 0;
+    try {
+        purged = (await purgeVersions(s3, QUARANTINE_BUCKET, record.quarantineKey)).length;
+    } catch (error) {
+        console.error(`Failed to purge the quarantine copy of ${record.documentId}:`, error);
+    }
+    console.log(`${caller.principal} rejected ${record.documentId} (${record.reasonCode}); purged ${purged} version(s)`);
+
+    await history.record(record.documentId, 'rejected', callerActor(caller), {
+        reason: note,
+        ...(record.reasonCode && {reasonCode: record.reasonCode}),
+        purgedVersions: purged
+    }, new Date(reviewedAt));
+    return createResponse(200, toDocumentStatus(rejected));
+}
+
+async function claim(record: DocumentRecord, to: 'released' | 'rejected', update: DocumentTransitionUpdate): Promise<DocumentRecord> {
+    try {
+        return await registry.transition(record.documentId, to, update);
+    } catch (error) {
+        if (error instanceof DocumentStateConflictError) {
+            throw new HttpError(409, `Document ${record.documentId} is no longer quarantined`);
+        }
+        throw error;
+    }
+}
+
+export const handler = async (event: APIGatewayProxyEventV2): Promise<APIGatewayProxyResultV2> => {
+    console.log(`[${event.requestContext.requestId}] ${event.routeKey}`, JSON.stringify(event.pathParameters || event.queryStringParameters || {}));
+    try {
+        const caller = authorize(event, 'reviewer');
+        switch (event.routeKey) {
+            case 'GET /review/quarantine':
+                return await listQuarantine(event);
+            case 'GET /review/quarantine/{documentId}/download':
+                return await downloadQuarantined(event, caller);
+            case 'POST /review/quarantine/{documentId}/release':
+                return await releaseQuarantined(event, caller);
+            case 'POST /review/quarantine/{documentId}/reject':
+                return await rejectQuarantined(event, caller);
+            default:
+                return createResponse(404, undefined, `Unsupported route ${event.routeKey}`);
+        }
+    } catch (error) {
+        console.error('Review handler error:', error);
+        if (error instanceof HttpError) {
+            return createResponse(error.statusCode, undefined, error.message);
+        }
+        const message = error instanceof Error ? error.message : 'Internal server error';
+        return createResponse(400, undefined, message);
+    }
+};
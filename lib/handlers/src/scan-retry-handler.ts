@@ -0,0 +1,106 @@
+import {Context, S3Event, S3EventRecord} from 'aws-lambda';
+import {HeadObjectCommand, S3Client} from '@aws-sdk/client-s3';
+import {createDocumentClient, DocumentRecord, DocumentRegistry, DocumentStateConflictError} from './document-registry.js';
+import {DocumentHistory, HistoryActor} from './document-history.js';
+import {scannerFromEnv, ScannerUnavailableError} from './malware-scanner.js';
+import {handler as validate} from './validation-handler.js';
+
+const s3 = new S3Client({});
+const registry = new DocumentRegistry(createDocumentClient(), process.env.DOCUMENT_TABLE!);
+const history = new DocumentHistory(createDocumentClient(), process.env.HISTORY_TABLE!);
+const scanner = scannerFromEnv();
+
+// Each document is scanned in full; keep a run well inside the function's timeout.
+const BATCH_SIZE = 20;
+
+const SCAN_RETRY_ACTOR: HistoryActor = {type: 'system', id: 'scan-retry-handler'};
+
+/**
+ * The `ObjectCreated` record S3 sent for the document, rebuilt from the registry
+ * and the stored object so the validation handler can take it from the top.
+ */
+async function objectCreatedRecord(record: DocumentRecord): Promise<S3EventRecord | null> {
+    let head;
+    try {
+        head = await s3.send(new HeadObjectCommand({Bucket: record.bucket, Key: record.objectKey}));
+    } catch (error) {
+        if ((error as Error).name !== 'NotFound') throw error;
+        return null;
+    }
+    return {
+        eventVersion: '2.1',
+        eventSource: 'aws:s3',
+        awsRegion: process.env.AWS_REGION ?? '',
+        eventTime: (head.LastModified ?? new Date()).toISOString(),
+        eventName: 'ObjectCreated:ScanRetry',
+        userIdentity: {principalId: 'scan-retry-handler'},
+        requestParameters: {sourceIPAddress: ''},
+        responseElements: {'x-amz-request-id': '', 'x-amz-id-2': ''},
+        s3: {
+            s3SchemaVersion: '1.0',
+            configurationId: 'scan-retry',
+            bucket: {name: record.bucket, ownerIdentity: {principalId: ''}, arn: `arn:aws:s3:::${record.bucket}`},
+            object: {
+                key: encodeURIComponent(record.objectKey),
+                size: head.ContentLength ?? record.fileSize,
+                eTag: head.ETag?.replace(/"/g, '') ?? '',
+                ...(head.VersionId && {versionId: head.VersionId}),
+                sequencer: ''
+            }
+        }
+    };
+}
+
+/**
+ * Takes a document whose object has gone (expired or purged) out of the queue, so
+ * it does not hold a place in every batch from now on.
+ */
+async function rejectMissing(record: DocumentRecord): Promise<void> {
+    const reason = `object-missing: ${record.bucket}/${record.objectKey} no longer exists`;
+    try {
+        await registry.transition(record.documentId, 'rejected', {rejectedAt: new Date().toISOString(), reason});
+    } catch (error) {
+        if (!(error instanceof DocumentStateConflictError)) throw error;
+        console.log(`${record.documentId} left scan_pending in the meantime, leaving it alone`);
+        return;
+    }
+    console.warn(`${record.documentId} is scan_pending but ${record.bucket}/${record.objectKey} no longer exists, rejected it`);
+    await history.record(record.documentId, 'rejected', SCAN_RETRY_ACTOR, {reason});
+}
+
+/**
+ * Runs on a schedule and validates again the documents left in `scan_pending`,
+ * least recently tried first. Nothing is retried until the scanner answers a
+ * ping, so an outage costs one connection attempt per run rather than one per
+ * document. A document the scanner still gives no verdict for goes back to
+ * `scan_pending` and to the end of the queue.
+ */
+export const handler = async (_event: unknown, context: Context): Promise<void> => {
+    if (!scanner) {
+        console.log('No malware scanner is configured, nothing to retry');
+        return;
+    }
+    const {records} = await registry.listByState('scan_pending', BATCH_SIZE);
+    if (!records.length) return;
+
+    try {
+        await scanner.ping();
+    } catch (error) {
+        if (!(error instanceof ScannerUnavailableError)) throw error;
+        console.warn(`${records.length} document(s) wait for a malware scan, but the scanner is still unavailable: ${error.message}`);
+        return;
+    }
+
+    const event: S3Event = {Records: []};
+    for (const record of records) {
+        const objectCreated = await objectCreatedRecord(record);
+        if (objectCreated) {
+            event.Records.push(objectCreated);
+        } else {
+            await rejectMissing(record);
+        }
+    }
+    if (!event.Records.length) return;
+    console.log(`Scanning ${event.Records.length} document(s) again: ${records.map(record => record.documentId).join(', ')}`);
+    await validate(event, context);
+};
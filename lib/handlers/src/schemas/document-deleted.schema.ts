@@ -0,0 +1,22 @@
+import { z } from 'zod';
+
+// An object purged when its document was deleted (deletes are idempotent, so it may already have been gone)
+export const DeletedObjectSchema = z.object({
+  bucketName: z.string(),
+  objectKey: z.string(),
+  versionId: z.string().optional() // Set for versions purged from the versioned quarantine bucket
+});
+
+// Detail of the `Document Deleted` event; downstream services purge chunks and vectors by documentId
+export const DocumentDeletedSchema = z.object({
+  documentId: z.string(),
+  userId: z.string(),
+  collectionId: z.string().optional(), // Absent for documents uploaded before collections
+  previousState: z.string(), // Registry state before deletion, e.g. validated or quarantined
+  deletedAt: z.string().datetime(),
+  deletedObjects: z.array(DeletedObjectSchema)
+});
+
+// Export TypeScript types
+export type DeletedObject = z.infer<typeof DeletedObjectSchema>;
+export type DocumentDeleted = z.infer<typeof DocumentDeletedSchema>;
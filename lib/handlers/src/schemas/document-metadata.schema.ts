@@ -0,0 +1,72 @@
+import { z } from 'zod';
+
+// A policy finding that did not block approval, e.g. PDF_NEEDS_OCR for a scanned PDF
+export const DocumentAnnotationSchema = z.object({
+  reasonCode: z.string(),
+  reason: z.string()
+});
+
+// Document validation result schema
+export const DocumentValidationResultSchema = z.object({
+  isValid: z.boolean(),
+  validationStatus: z.enum(['approved', 'rejected', 'quarantined']),
+  validatedAt: z.string().datetime(),
+  validatedBy: z.string(),
+  validationComments: z.string().optional(),
+  reason: z.string().optional(), // For rejected/quarantined documents
+  annotations: z.array(DocumentAnnotationSchema).optional() // For approved documents the policy annotated
+});
+
+// Document S3 reference schema
+export const DocumentS3ReferenceSchema = z.object({
+  bucketName: z.string(),
+  objectKey: z.string(),
+  contentType: z.string(),
+  contentLength: z.number().int().nonnegative(),
+  lastModified: z.string().datetime().optional(),
+  eTag: z.string().optional(),
+  versionId: z.string().optional(),
+  checksumSha256: z.string().optional() // Base64 SHA-256 of the stored bytes, verified during validation
+});
+
+// Document S3 tags schema (what's stored in S3 object tags)
+export const DocumentS3TagsSchema = z.object({
+  'validation-status': z.enum(['approved', 'rejected', 'quarantined']),
+  'download-approved': z.enum(['true', 'false']),
+  'validated-at': z.string(),
+  'validated-by': z.string(),
+  'validation-comments': z.string().optional()
+});
+
+// Metadata the uploader supplies with the upload request; retrieval filters on these fields
+export const DocumentUserMetadataSchema = z.object({
+  title: z.string().trim().min(1).max(256).optional(),
+  tags: z.array(z.string().trim().min(1).max(64)).max(20).optional(), // Free-form
+  collection: z.string().trim().min(1).max(128).optional(), // Collection name, for display and filtering
+  language: z.string().regex(/^[a-zA-Z]{2,3}(-[a-zA-Z0-9]{2,8})*$/, 'must be a BCP 47 language tag such as en or pt-BR').optional(),
+  classification: z.enum(['public', 'internal', 'confidential', 'restricted']).optional(), // Sensitivity
+  source: z.object({
+    url: z.string().url().max(2048).optional(),
+    author: z.string().trim().min(1).max(256).optional()
+  }).strict().optional()
+}).strict();
+
+// Complete document metadata schema (the structure downstream services can expect)
+export const DocumentMetadataSchema = z.object({
+  documentId: z.string(),
+  collectionId: z.string().optional(), // Collection the document belongs to; absent for documents uploaded before collections
+  s3Reference: DocumentS3ReferenceSchema,
+  validationResult: DocumentValidationResultSchema,
+  s3Tags: DocumentS3TagsSchema,
+  ingestedAt: z.string().datetime(),
+  processingEligible: z.boolean(), // Derived from validation-status === 'approved'
+  userMetadata: DocumentUserMetadataSchema.optional() // As supplied at upload; absent when none was given
+});
+
+// Export TypeScript types
+export type DocumentAnnotation = z.infer<typeof DocumentAnnotationSchema>;
+export type DocumentValidationResult = z.infer<typeof DocumentValidationResultSchema>;
+export type DocumentS3Reference = z.infer<typeof DocumentS3ReferenceSchema>;
+export type DocumentS3Tags = z.infer<typeof DocumentS3TagsSchema>;
+export type DocumentUserMetadata = z.infer<typeof DocumentUserMetadataSchema>;
+export type DocumentMetadata = z.infer<typeof DocumentMetadataSchema>; 
\ No newline at end of file
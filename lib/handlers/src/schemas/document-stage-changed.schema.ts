@@ -0,0 +1,15 @@
+import { z } from 'zod';
+
+// Detail of the `Document Stage Changed` event that downstream services put on the ingestion bus
+// when a document moves through their stage, so subscribed clients hear about it without polling
+export const DocumentStageChangedSchema = z.object({
+  documentId: z.string(),
+  stage: z.enum(['processing', 'embedding', 'vector-storage']),
+  status: z.enum(['pending', 'processing', 'completed', 'failed']),
+  timestamp: z.string().datetime().optional(), // Defaults to when the event is received
+  processingTimeMs: z.number().optional(),
+  errorMessage: z.string().optional() // Set when status is failed
+}).passthrough(); // Anything else the service reports is pushed on as stage details
+
+// Export TypeScript types
+export type DocumentStageChanged = z.infer<typeof DocumentStageChangedSchema>;
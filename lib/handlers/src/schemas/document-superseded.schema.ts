@@ -0,0 +1,19 @@
+import { z } from 'zod';
+
+// Detail of the `Document Superseded` event, published for the old revision once its replacement is validated
+export const DocumentSupersededSchema = z.object({
+  documentId: z.string(), // The revision being retired
+  supersededBy: z.string(), // The newly validated revision
+  lineageId: z.string(), // Document ID of the first revision, shared by the whole chain
+  revision: z.number().int().positive(),
+  userId: z.string(),
+  collectionId: z.string().optional(), // Shared by every revision; absent for documents uploaded before collections
+  supersededAt: z.string().datetime(),
+  s3Reference: z.object({
+    bucketName: z.string(),
+    objectKey: z.string()
+  })
+});
+
+// Export TypeScript types
+export type DocumentSuperseded = z.infer<typeof DocumentSupersededSchema>;
@@ -0,0 +1,18 @@
+import {EventBridgeEvent} from 'aws-lambda';
+import {createDocumentClient} from './document-registry.js';
+import {DocumentHistory} from './document-history.js';
+import {DocumentStageChangedSchema} from './schemas/document-stage-changed.schema.js';
+
+const history = new DocumentHistory(createDocumentClient(), process.env.HISTORY_TABLE!);
+
+/**
+ * Appends each `Document Stage Changed` event a downstream service puts on the
+ * ingestion bus to the document's history, with the service's event source as
+ * the actor. Failures throw so EventBridge retries the event.
+ */
+export const handler = async (event: EventBridgeEvent<string, Record<string, unknown>>): Promise<void> => {
+    const {documentId, stage, status, timestamp, ...report} = DocumentStageChangedSchema.parse(event.detail);
+    const entry = await history.append(documentId, 'stage_changed', {type: 'system', id: event.source},
+        {stage, status, ...report}, new Date(timestamp ?? event.time));
+    console.log(`Recorded ${stage} ${status} in the history of ${documentId} (${entry.entryKey})`);
+};
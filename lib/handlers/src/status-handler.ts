@@ -1,215 +1,58 @@
 import {APIGatewayProxyEventV2, APIGatewayProxyResultV2} from 'aws-lambda';
-import {S3Client, HeadObjectCommand, GetObjectTaggingCommand} from '@aws-sdk/client-s3';
 import * as console from "node:console";
-import {JWTClaims} from "./typing.js";
+import {createResponse, HttpError} from "./http.js";
+import {authorize} from "./authorization.js";
+import {createDocumentClient, DocumentRegistry} from "./document-registry.js";
+import {DocumentStatus, toDocumentStatus, withRevisions} from "./document-status.js";
 
-const s3Client = new S3Client({region: process.env.AWS_REGION || 'us-east-1'});
-
-const DOCUMENT_BUCKET = process.env.DOCUMENT_BUCKET!;
-const QUARANTINE_BUCKET = process.env.QUARANTINE_BUCKET!;
+const DOCUMENT_TABLE = process.env.DOCUMENT_TABLE!;
 const IDENTITY_POOL_ID = process.env.IDENTITY_POOL_ID!;
 
-interface DocumentStatus {
-    documentId: string;
-    status: 'pending' | 'validated' | 'rejected' | 'quarantined' | 'not_found';
-    fileName?: string;
-    fileSize?: number;
-    uploadedAt?: string;
-    validatedAt?: string;
-    rejectedAt?: string;
-    quarantinedAt?: string;
-    errorMessage?: string;
-    location: 'documents' | 'quarantine' | 'unknown';
-    userIdentityId?: string;
-}
-
-
-async function getDocumentMetadata(bucket: string, key: string, requestId: string): Promise<any> {
-    const startTime = Date.now();
-    console.log(`[${requestId}] Fetching metadata for s3://${bucket}/${key}`);
-
-    try {
-        const headCommand = new HeadObjectCommand({
-            Bucket: bucket,
-            Key: key
-        });
-
-        const headResult = await s3Client.send(headCommand);
-        const headDuration = Date.now() - startTime;
-        console.log(`[${requestId}] ✅ Head object completed in ${headDuration}ms`);
-        console.log(`[${requestId}] Object metadata:`);
-        console.log(`[${requestId}]   Content-Type: ${headResult.ContentType}`);
-        console.log(`[${requestId}]   Content-Length: ${headResult.ContentLength}`);
-        console.log(`[${requestId}]   Last-Modified: ${headResult.LastModified}`);
-        console.log(`[${requestId}]   ETag: ${headResult.ETag}`);
-        console.log(`[${requestId}]   Custom Metadata:`, JSON.stringify(headResult.Metadata, null, 2));
-
-        let tags = {};
-        try {
-            console.log(`[${requestId}] Fetching object tags...`);
-            const tagsStartTime = Date.now();
-            const tagsCommand = new GetObjectTaggingCommand({
-                Bucket: bucket,
-                Key: key
-            });
-            const tagsResult = await s3Client.send(tagsCommand);
-            const tagsDuration = Date.now() - tagsStartTime;
-
-            tags = tagsResult.TagSet?.reduce((acc, tag) => {
-                acc[tag.Key!] = tag.Value!;
-                return acc;
-            }, {} as Record<string, string>) || {};
-
-            console.log(`[${requestId}] ✅ Tags fetched in ${tagsDuration}ms:`, JSON.stringify(tags, null, 2));
-        } catch (error) {
-            console.log(`[${requestId}] ℹ️  No tags found for object: ${key}`);
-        }
-
-        const totalDuration = Date.now() - startTime;
-        console.log(`[${requestId}] ✅ Metadata retrieval completed in ${totalDuration}ms`);
-
-        return {
-            ...headResult,
-            Tags: tags
-        };
-    } catch (error) {
-        const duration = Date.now() - startTime;
-        if ((error as any).name === 'NotFound') {
-            console.log(`[${requestId}] ℹ️  Object not found after ${duration}ms: s3://${bucket}/${key}`);
-            return null;
-        }
-        console.error(`[${requestId}] ❌ Failed to get metadata after ${duration}ms:`, error);
-        throw error;
-    }
-}
+const registry = new DocumentRegistry(createDocumentClient(), DOCUMENT_TABLE);
 
 async function checkDocumentStatus(documentId: string, userIdentityId: string, requestId: string): Promise<DocumentStatus> {
     const startTime = Date.now();
     console.log(`[${requestId}] Starting document status check...`);
     console.log(`[${requestId}] Document ID: ${documentId}`);
     console.log(`[${requestId}] User Identity ID: ${userIdentityId}`);
+    console.log(`[${requestId}] Reading registry item from ${DOCUMENT_TABLE}`);
 
-    const result: DocumentStatus = {
-        documentId,
-        status: 'not_found',
-        location: 'unknown'
-    };
-
-    console.log(`[${requestId}] Searching in main documents bucket: ${DOCUMENT_BUCKET}`);
-    console.log(`[${requestId}] Checking key: ${documentId}`);
-    
-    const metadata = await getDocumentMetadata(DOCUMENT_BUCKET, documentId, requestId);
-    if (metadata) {
-        console.log(`[${requestId}] ✅ Document found in main bucket!`);
-        
-        const documentUserId = metadata.Metadata?.['user-id'];
-        if (documentUserId !== userIdentityId) {
-            console.log(`[${requestId}] ❌ Access denied: Document belongs to different user`);
-            console.log(`[${requestId}] Document user: ${documentUserId}, Request user: ${userIdentityId}`);
-            const duration = Date.now() - startTime;
-            console.log(`[${requestId}] Document status check completed in ${duration}ms: ACCESS_DENIED`);
-            return {
-                documentId,
-                status: 'not_found',
-                location: 'unknown'
-            };
-        }
-        
-        const validationStatus = metadata.Tags?.['validation-status'];
-        
-        console.log(`[${requestId}] Validation tag check:`);
-        console.log(`[${requestId}]   validation-status: ${validationStatus}`);
-        
-        let status: DocumentStatus['status'];
-        if (validationStatus === 'approved') {
-            status = 'validated';
-            console.log(`[${requestId}] ✅ Document status determined: VALIDATED`);
-        } else if (validationStatus === 'rejected') {
-            status = 'rejected';
-            console.log(`[${requestId}] ❌ Document status determined: REJECTED`);
-        } else {
-            status = 'pending';
-            console.log(`[${requestId}] ⏳ Document status determined: PENDING (validation-status tag not set)`);
-        }
-        
-        result.status = status;
-        result.location = 'documents';
-        result.fileName = metadata.Metadata?.['original-filename'];
-        result.fileSize = metadata.ContentLength;
-        result.uploadedAt = metadata.Metadata?.['upload-timestamp'];
-        result.userIdentityId = documentUserId;
-        
-        if (status === 'validated') {
-            result.validatedAt = metadata.Tags?.['validated-at'] || metadata.LastModified?.toISOString();
-        } else if (status === 'rejected') {
-            result.rejectedAt = metadata.Tags?.['rejected-at'] || metadata.LastModified?.toISOString();
-            result.errorMessage = metadata.Tags?.['rejection-reason'];
-        }
+    const record = await registry.get(documentId);
+    const duration = Date.now() - startTime;
 
-        const duration = Date.now() - startTime;
-        console.log(`[${requestId}] Document status check completed in ${duration}ms: ${status.toUpperCase()}`);
-        return result;
+    if (!record) {
+        console.log(`[${requestId}] ❌ Document not found in registry after ${duration}ms`);
+        return {documentId, status: 'not_found', location: 'unknown'};
     }
 
-    console.log(`[${requestId}] Document not found in main bucket, checking quarantine: ${QUARANTINE_BUCKET}`);
-    console.log(`[${requestId}] Checking quarantine key: ${documentId}`);
-    
-    const quarantineMetadata = await getDocumentMetadata(QUARANTINE_BUCKET, documentId, requestId);
-    if (quarantineMetadata) {
-        console.log(`[${requestId}] ✅ Document found in quarantine bucket!`);
-        
-        const documentUserId = quarantineMetadata.Metadata?.['user-id'];
-        if (documentUserId !== userIdentityId) {
-            console.log(`[${requestId}] ❌ Access denied: Quarantined document belongs to different user`);
-            const duration = Date.now() - startTime;
-            console.log(`[${requestId}] Document status check completed in ${duration}ms: ACCESS_DENIED`);
-            return {
-                documentId,
-                status: 'not_found',
-                location: 'unknown'
-            };
-        }
-        
-        result.status = 'quarantined';
-        result.location = 'quarantine';
-        result.fileName = quarantineMetadata.Metadata?.['original-filename'];
-        result.fileSize = quarantineMetadata.ContentLength;
-        result.uploadedAt = quarantineMetadata.Metadata?.['upload-timestamp'];
-        result.quarantinedAt = quarantineMetadata.LastModified?.toISOString();
-        result.errorMessage = quarantineMetadata.Metadata?.['quarantine-reason'];
-        result.userIdentityId = documentUserId;
-
-        const duration = Date.now() - startTime;
-        console.log(`[${requestId}] Document status check completed in ${duration}ms: QUARANTINED`);
-        return result;
+    if (record.userId !== userIdentityId) {
+        console.log(`[${requestId}] ❌ Access denied: Document belongs to different user`);
+        console.log(`[${requestId}] Document user: ${record.userId}, Request user: ${userIdentityId}`);
+        console.log(`[${requestId}] Document status check completed in ${duration}ms: ACCESS_DENIED`);
+        return {documentId, status: 'not_found', location: 'unknown'};
     }
 
-    const duration = Date.now() - startTime;
-    console.log(`[${requestId}] ❌ Document not found in any location after ${duration}ms`);
-    return result;
+    console.log(`[${requestId}] Document status check completed in ${duration}ms: ${record.state.toUpperCase()}`);
+    if (!record.lineageId) {
+        return toDocumentStatus(record);
+    }
+    // Loaded even for a first revision: it does not know about a successor still being validated.
+    const chain = await registry.listRevisions(record.lineageId);
+    return chain.length > 1 ? withRevisions(toDocumentStatus(record), chain, true) : toDocumentStatus(record);
 }
 
 
-function getUserClaims(event: APIGatewayProxyEventV2): JWTClaims {
-    const claims = (event.requestContext as any).authorizer?.jwt?.claims;
-    if (!claims?.sub) throw new Error('No valid JWT claims found');
-    return claims as JWTClaims;
-}
-
 export const handler = async (event: APIGatewayProxyEventV2): Promise<APIGatewayProxyResultV2> => {
     console.log(JSON.stringify(event, null, 2));
 
     const startTime = Date.now();
     const requestId = event.requestContext.requestId;
 
-    const {sub: userId} = getUserClaims(event);
-
     console.log(`[${requestId}] === Document Status Handler Started ===`);
     console.log(`[${requestId}] Stage: ${event.requestContext.stage}`);
 
     console.log(`[${requestId}] Configuration:`);
-    console.log(`[${requestId}]   DOCUMENT_BUCKET: ${DOCUMENT_BUCKET}`);
-    console.log(`[${requestId}]   QUARANTINE_BUCKET: ${QUARANTINE_BUCKET}`);
+    console.log(`[${requestId}]   DOCUMENT_TABLE: ${DOCUMENT_TABLE}`);
     console.log(`[${requestId}]   IDENTITY_POOL_ID: ${IDENTITY_POOL_ID}`);
     console.log(`[${requestId}]   AWS_REGION: ${process.env.AWS_REGION}`);
 
@@ -225,6 +68,8 @@ export const handler = async (event: APIGatewayProxyEventV2): Promise<APIGateway
     });
 
     try {
+        const {userId} = authorize(event, 'reader');
+
         const documentId = event.pathParameters?.documentId;
         if (!documentId) {
             const duration = Date.now() - startTime;
@@ -306,6 +151,10 @@ export const handler = async (event: APIGatewayProxyEventV2): Promise<APIGateway
 
     } catch (error) {
         const totalDuration = Date.now() - startTime;
+        if (error instanceof HttpError) {
+            console.error(`[${requestId}] ❌ Rejected with ${error.statusCode} after ${totalDuration}ms: ${error.message}`);
+            return createResponse(error.statusCode, undefined, error.message);
+        }
         console.error(`[${requestId}] ❌ Document Status Handler Failed after ${totalDuration}ms`);
         console.error(`[${requestId}] Error type: ${error instanceof Error ? error.constructor.name : typeof error}`);
         console.error(`[${requestId}] Error message: ${error instanceof Error ? error.message : 'Unknown error'}`);
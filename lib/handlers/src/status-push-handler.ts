@@ -0,0 +1,48 @@
+import {EventBridgeEvent} from 'aws-lambda';
+import {createDocumentClient, DocumentRegistry} from './document-registry.js';
+import {toDocumentStatus} from './document-status.js';
+import {ConnectionRegistry} from './connection-registry.js';
+import {DOCUMENT_DELETED, DOCUMENT_STAGE_CHANGED} from './document-events.js';
+import {toStageStatus} from './pipeline-status.js';
+import {StatusPushMessage, StatusPusher} from './status-push.js';
+import {DocumentStageChangedSchema} from './schemas/document-stage-changed.schema.js';
+
+const client = createDocumentClient();
+const registry = new DocumentRegistry(client, process.env.DOCUMENT_TABLE!);
+const pusher = new StatusPusher(process.env.WEBSOCKET_CALLBACK_URL!, new ConnectionRegistry(client, process.env.CONNECTION_TABLE!));
+
+/**
+ * A lifecycle event of this service is pushed as the document's status, read
+ * from the registry so subscribers see what `GET /status` would answer. The
+ * registry only moves to `deleted` once `Document Deleted` is out, so that one
+ * is reported as deleted already.
+ */
+async function toMessage(event: EventBridgeEvent<string, Record<string, unknown>>): Promise<Extract<StatusPushMessage, {documentId: string}> | undefined> {
+    if (event['detail-type'] === DOCUMENT_STAGE_CHANGED) {
+        const {documentId, stage, ...report} = DocumentStageChangedSchema.parse(event.detail);
+        return {type: 'pipeline.stage', documentId, stage: toStageStatus(stage, {timestamp: event.time, ...report})};
+    }
+
+    const {documentId} = event.detail;
+    if (typeof documentId !== 'string') return undefined;
+    const record = await registry.get(documentId);
+    if (!record) return undefined;
+    const deleted = event['detail-type'] === DOCUMENT_DELETED && record.state !== 'deleted';
+    const status = toDocumentStatus(deleted ? {...record, state: 'deleted', deletedAt: String(event.detail.deletedAt ?? event.time)} : record);
+    return {type: 'document.status', documentId, status};
+}
+
+/**
+ * Pushes document lifecycle events from the ingestion bus, and stage changes the
+ * downstream services put on it, to the WebSocket connections subscribed to the
+ * document.
+ */
+export const handler = async (event: EventBridgeEvent<string, Record<string, unknown>>): Promise<void> => {
+    const message = await toMessage(event);
+    if (!message) {
+        console.log(`Nothing to push for ${event['detail-type']} ${event.id}`);
+        return;
+    }
+    const delivered = await pusher.broadcast(message.documentId, message);
+    console.log(`Pushed ${event['detail-type']} for ${message.documentId} to ${delivered} connection(s)`);
+};
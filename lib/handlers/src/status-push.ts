@@ -0,0 +1,58 @@
+import {ApiGatewayManagementApiClient, GoneException, PostToConnectionCommand} from '@aws-sdk/client-apigatewaymanagementapi';
+import {ConnectionRegistry} from './connection-registry.js';
+import {DocumentStatus} from './document-status.js';
+import {StageStatus} from './pipeline-status.js';
+
+/** Messages the WebSocket API sends to clients. */
+export type StatusPushMessage =
+    | {type: 'subscribed'; documentIds: string[]; notFound: string[]}
+    | {type: 'unsubscribed'; documentIds: string[]}
+    /** The document's ingestion status changed, or its current status right after subscribing. */
+    | {type: 'document.status'; documentId: string; status: DocumentStatus}
+    /** A downstream service reported progress on the document. */
+    | {type: 'pipeline.stage'; documentId: string; stage: StageStatus}
+    | {type: 'error'; error: string};
+
+/**
+ * Sends status messages to WebSocket connections through the API Gateway
+ * management API. A connection that has gone away without a `$disconnect`
+ * answers 410; its subscriptions are dropped so nothing is sent to it again.
+ */
+export class StatusPusher {
+    private readonly client: ApiGatewayManagementApiClient;
+
+    /** `endpoint` is the stage's callback URL, `https://{api-id}.execute-api.{region}.amazonaws.com/{stage}`. */
+    constructor(endpoint: string, private readonly connections: ConnectionRegistry) {
+        this.client = new ApiGatewayManagementApiClient({endpoint});
+    }
+
+    /** Whether the message was delivered; false when the connection is gone. */
+    async send(connectionId: string, message: StatusPushMessage): Promise<boolean> {
+        try {
+            await this.client.send(new PostToConnectionCommand({ConnectionId: connectionId, Data: JSON.stringify(message)}));
+            return true;
+        } catch (error) {
+            if (error instanceof GoneException || (error as Error).name === 'GoneException') {
+                console.log(`Connection ${connectionId} is gone; dropping its subscriptions`);
+                await this.connections.disconnect(connectionId);
+                return false;
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Sends the message to every connection subscribed to the document and returns
+     * how many received it. One failing connection does not keep it from the others.
+     */
+    async broadcast(documentId: string, message: StatusPushMessage): Promise<number> {
+        const subscribers = await this.connections.subscribers(documentId);
+        const results = await Promise.allSettled(subscribers.map(({connectionId}) => this.send(connectionId, message)));
+        results.forEach((result, i) => {
+            if (result.status === 'rejected') {
+                console.error(`Failed to push ${message.type} for ${documentId} to ${subscribers[i]!.connectionId}:`, result.reason);
+            }
+        });
+        return results.filter(result => result.status === 'fulfilled' && result.value).length;
+    }
+}
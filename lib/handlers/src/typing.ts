@@ -1,3 +1,5 @@
+import {DocumentUserMetadata} from './schemas/document-metadata.schema.js';
+
 /**
  * Essential types for RAG Document Ingestion
  */
@@ -6,25 +8,213 @@ export interface JWTClaims {
   sub: string;
   email?: string;
   name?: string;
-  'cognito:groups'?: string[];
+  /** An array, or a string such as `[a b]` when flattened by the HTTP API JWT authorizer. */
+  'cognito:groups'?: string[] | string;
+  /** Present on access tokens; `id` tokens from the web UI carry the user's profile instead. */
+  token_use?: 'id' | 'access';
+  client_id?: string;
+  username?: string;
+  /** Space-separated OAuth scopes granted to an access token. */
+  scope?: string;
   exp: number;
   iat: number;
 }
 
+export type UploadMethod = 'PUT' | 'POST';
+
+export type DuplicateScope = 'user' | 'collection';
+
 export interface UploadRequest {
   fileName: string;
   fileType: string;
   fileSize: number;
+  /** Base64 SHA-256 of the file, computed by the client before upload. */
+  checksumSha256: string;
+  /** Collection to upload into, the user's default when omitted. */
+  collectionId?: string;
+  /** Where to look for the same content: all of the user's documents (the default), or only this collection. */
+  duplicateScope?: DuplicateScope;
+  /** Upload even when the user already has a document with the same content. */
+  force?: boolean;
+  /** Uploads a new revision of this validated document; it is superseded once the revision validates. */
+  replacesDocumentId?: string;
+  /** Title, tags, classification and so on; checked against `DocumentUserMetadataSchema`. */
+  metadata?: DocumentUserMetadata;
 }
 
 export interface UploadResponse {
+  status: 'pending_upload';
+  documentId: string;
   uploadId: string;
   uploadUrl: string;
+  uploadMethod: UploadMethod;
+  /** Form fields to send ahead of the file when `uploadMethod` is POST. */
+  fields?: Record<string, string>;
   objectKey: string;
   userEmail?: string;
   expiresIn: number;
 }
 
+/** One file of a batch upload: the same fields as a single upload request. */
+export type BatchUploadFile = UploadRequest & { uploadMethod?: UploadMethod };
+
+export interface BatchUploadRequest {
+  files: BatchUploadFile[];
+}
+
+/** Why one file of a batch got no upload URL; the other files are unaffected. */
+export interface BatchUploadError {
+  status: 'error';
+  statusCode: number;
+  error: string;
+}
+
+/** The outcome for the file at `index` of the request. */
+export type BatchUploadResult = { index: number; fileName?: string } & (UploadResponse | DuplicateUploadResponse | BatchUploadError);
+
+export interface BatchUploadResponse {
+  /** Pass to `GET /uploads/batch/{batchId}` for the status of every file that got an upload URL. */
+  batchId: string;
+  results: BatchUploadResult[];
+  accepted: number;
+  failed: number;
+}
+
+/** Body of `POST /status/batch`. */
+export interface BatchStatusRequest {
+  documentIds: string[];
+}
+
+/** A message on the status WebSocket API; `action` selects the route. */
+export interface SubscriptionRequest {
+  action: 'subscribe' | 'unsubscribe';
+  documentIds: string[];
+}
+
+/** Body of `POST /review/quarantine/{documentId}/release`. */
+export interface ReleaseRequest {
+  /** Why the reviewer considers the document safe; kept on the document and in its history. */
+  justification: string;
+}
+
+/** Body of `POST /review/quarantine/{documentId}/reject`. */
+export interface RejectRequest {
+  reason: string;
+}
+
+/** A quarantined document as reviewers see it. */
+export interface QuarantineItem {
+  documentId: string;
+  /** The owner's user ID, and who requested the upload. */
+  userId: string;
+  uploadedBy?: string;
+  collectionId: string;
+  fileName: string;
+  fileType: string;
+  fileSize: number;
+  uploadedAt: string;
+  quarantinedAt: string;
+  /** When the bucket's lifecycle rule removes the quarantine copy. */
+  expiresAt: string;
+  reasonCode?: QuarantineReasonCode;
+  reason?: string;
+}
+
+/** One page of `GET /review/quarantine`, oldest quarantine first; `nextCursor` is absent on the last page. */
+export interface QuarantineListResponse {
+  items: QuarantineItem[];
+  nextCursor?: string;
+}
+
+/** A presigned GET of the quarantine copy, served as a download rather than rendered. */
+export interface QuarantineDownloadResponse {
+  documentId: string;
+  downloadUrl: string;
+  expiresIn: number;
+}
+
+export interface MultipartUploadResponse {
+  status: 'pending_upload';
+  documentId: string;
+  objectKey: string;
+  partSize: number;
+  partCount: number;
+}
+
+/** Returned instead of an upload URL when the content is already ingested. */
+export interface DuplicateUploadResponse {
+  status: 'duplicate';
+  documentId: string;
+  objectKey: string;
+  fileName: string;
+  state: string;
+  uploadedAt: string;
+}
+
+export interface CreateCollectionRequest {
+  name: string;
+  description?: string;
+}
+
+export interface CollectionSummary {
+  collectionId: string;
+  name: string;
+  description?: string;
+  /** The collection uploads go into when they name none; it cannot be deleted. */
+  isDefault: boolean;
+  createdAt: string;
+}
+
+export interface CollectionListResponse {
+  collections: CollectionSummary[];
+}
+
+export interface QuotaUsage {
+  used: number;
+  limit: number;
+  remaining: number;
+}
+
+export interface StorageUsage {
+  bytes: QuotaUsage;
+  documents: QuotaUsage;
+}
+
+/** `GET /usage`: what the caller has stored and uploaded against their quotas. */
+export interface UsageResponse {
+  /** Validated and superseded documents across all of the user's collections. */
+  storage: StorageUsage;
+  collection: StorageUsage & {collectionId: string};
+  /** Uploads started in the current clock hour; the count resets at `windowEndsAt`. */
+  uploads: QuotaUsage & {windowEndsAt: string};
+}
+
+export interface UploadedPart {
+  partNumber: number;
+  eTag: string;
+  size: number;
+}
+
+export type QuarantineReasonCode =
+  | 'FILE_TOO_LARGE'
+  | 'EMPTY_DOCUMENT'
+  | 'DISALLOWED_CONTENT_TYPE'
+  | 'EXECUTABLE_CONTENT'
+  | 'UNRECOGNIZED_CONTENT'
+  | 'CONTENT_TYPE_MISMATCH'
+  | 'EXTENSION_MISMATCH'
+  | 'MALFORMED_CONTENT'
+  | 'CHECKSUM_MISMATCH'
+  | 'SIZE_MISMATCH'
+  | 'PDF_ENCRYPTED'
+  | 'PDF_JAVASCRIPT'
+  | 'PDF_LAUNCH_ACTION'
+  | 'PDF_EMBEDDED_FILES'
+  | 'PDF_TOO_MANY_PAGES'
+  | 'PDF_NEEDS_OCR'
+  // A malware detection is quarantined under the scanner's signature name, e.g. `Win.Test.EICAR_HDB-1`.
+  | (string & {});
+
 export interface ApiResponse<T> {
   success: boolean;
   data?: T;
@@ -0,0 +1,232 @@
+import {createHash} from 'crypto';
+import {DuplicateScope, DuplicateUploadResponse, UploadRequest} from './typing.js';
+import {isSha256Base64} from './checksum.js';
+import {DocumentRecord, DocumentRegistry, DocumentState} from './document-registry.js';
+import {findPolicyByExtension, findPolicyByMimeType, getFileExtension} from './document-policy.js';
+import {HttpError} from './http.js';
+import {DocumentUserMetadata, DocumentUserMetadataSchema} from './schemas/document-metadata.schema.js';
+import {CollectionRegistry, collectionObjectKey, defaultCollectionId} from './collection-registry.js';
+import {Caller} from './authorization.js';
+
+const COLLECTION_ID = /^[A-Za-z0-9_-]{1,64}$/;
+
+/**
+ * States that count as "already have it" when a new upload arrives: content still
+ * being validated, or waiting for a malware scan, or already validated. Quarantined and rejected copies do not
+ * block a retry.
+ */
+const DUPLICATE_STATES: DocumentState[] = ['validating', 'scan_pending', 'validated'];
+
+const DUPLICATE_SCOPES: DuplicateScope[] = ['user', 'collection'];
+
+/**
+ * Checks an upload request against the document policy. Shared by the single-PUT
+ * and multipart upload routes so both accept exactly the same documents.
+ */
+export function validateUploadRequest(request: Partial<UploadRequest>): UploadRequest {
+    const {fileName, fileType, fileSize, checksumSha256, collectionId, duplicateScope, force, replacesDocumentId, metadata} = request;
+
+    if (!fileName?.trim()) throw new Error('fileName is required');
+    if (!fileType?.trim()) throw new Error('fileType is required');
+    if (typeof fileSize !== 'number' || fileSize <= 0) throw new Error('fileSize must be a positive number');
+
+    const policy = findPolicyByMimeType(fileType);
+    if (!policy) throw new Error(`File type ${fileType} not allowed`);
+    if (fileSize > policy.maxFileSize) throw new Error(`File size exceeds ${policy.maxFileSize} bytes allowed for ${policy.label} documents`);
+
+    const fileExtension = getFileExtension(fileName);
+    const extensionPolicy = findPolicyByExtension(fileExtension);
+    if (!extensionPolicy) throw new Error(`File extension .${fileExtension} is not supported`);
+    if (extensionPolicy.mimeType !== fileType) {
+        throw new Error(`File extension .${fileExtension} does not match declared content type ${fileType}. Expected: ${extensionPolicy.mimeType}`);
+    }
+
+    // Validation hashes the stored bytes against it, multipart uploads included.
+    if (!checksumSha256) throw new Error('checksumSha256 is required');
+    if (!isSha256Base64(checksumSha256)) {
+        throw new Error('checksumSha256 must be the base64-encoded SHA-256 digest of the file');
+    }
+
+    if (collectionId !== undefined && (typeof collectionId !== 'string' || !COLLECTION_ID.test(collectionId))) {
+        throw new Error('collectionId must be 1-64 letters, digits, hyphens or underscores');
+    }
+    if (duplicateScope !== undefined && !DUPLICATE_SCOPES.includes(duplicateScope)) {
+        throw new Error(`duplicateScope must be one of ${DUPLICATE_SCOPES.join(', ')}`);
+    }
+    if (force !== undefined && typeof force !== 'boolean') {
+        throw new Error('force must be a boolean');
+    }
+    if (replacesDocumentId !== undefined && (typeof replacesDocumentId !== 'string' || !replacesDocumentId.trim())) {
+        throw new Error('replacesDocumentId must be a document ID');
+    }
+    const userMetadata = metadata === undefined ? undefined : parseUserMetadata(metadata);
+
+    return {
+        fileName,
+        fileType,
+        fileSize,
+        checksumSha256,
+        ...(collectionId && {collectionId}),
+        ...(duplicateScope && {duplicateScope}),
+        ...(force && {force}),
+        ...(replacesDocumentId && {replacesDocumentId}),
+        ...(userMetadata && {metadata: userMetadata})
+    };
+}
+
+/**
+ * Reports the first schema violation with its path, e.g. `metadata.source.url: Invalid url`.
+ */
+function parseUserMetadata(metadata: unknown): DocumentUserMetadata | undefined {
+    const parsed = DocumentUserMetadataSchema.safeParse(metadata);
+    if (!parsed.success) {
+        const [issue] = parsed.error.issues;
+        const path = ['metadata', ...issue!.path].join('.');
+        throw new Error(`${path}: ${issue!.message}`);
+    }
+    return Object.keys(parsed.data).length ? parsed.data : undefined;
+}
+
+/**
+ * The collection duplicates are looked for in, or undefined for all of the user's
+ * documents. Shared by the upload routes and the validation handler so both apply
+ * the scope the upload asked for.
+ */
+export function duplicateCollection(scope: DuplicateScope | undefined, collectionId: string | undefined): string | undefined {
+    return scope === 'collection' ? collectionId : undefined;
+}
+
+/**
+ * Looks for a document the user already has with the same content, in any of their
+ * collections or, with `duplicateScope: 'collection'`, only in the upload's one.
+ * Skipped when the request sets `force`.
+ */
+export async function findExistingUpload(registry: DocumentRegistry, request: UploadRequest & {collectionId: string},
+                                         userId: string): Promise<DocumentRecord | null> {
+    if (request.force) return null;
+    const [existing] = await registry.findByContent(userId, request.checksumSha256, DUPLICATE_STATES,
+        duplicateCollection(request.duplicateScope, request.collectionId));
+    return existing ?? null;
+}
+
+export function duplicateUploadResponse(existing: DocumentRecord): DuplicateUploadResponse {
+    return {
+        status: 'duplicate',
+        documentId: existing.documentId,
+        objectKey: existing.objectKey,
+        fileName: existing.fileName,
+        state: existing.state,
+        uploadedAt: existing.createdAt
+    };
+}
+
+/**
+ * Registry fields derived from the request beyond the basic file description.
+ */
+export function registrationFields(request: UploadRequest): Pick<DocumentRecord, 'checksumSha256' | 'collectionId' | 'allowDuplicate' | 'duplicateScope' | 'userMetadata'> {
+    return {
+        checksumSha256: request.checksumSha256,
+        ...(request.collectionId && {collectionId: request.collectionId}),
+        ...(request.force && {allowDuplicate: true}),
+        ...(request.duplicateScope === 'collection' && {duplicateScope: request.duplicateScope}),
+        ...(request.metadata && {userMetadata: request.metadata})
+    };
+}
+
+/**
+ * Registry fields recording who asked for the upload, a person or a service client.
+ */
+export function uploaderFields(caller: Caller): Pick<DocumentRecord, 'userEmail' | 'uploadedBy' | 'uploaderType'> {
+    return {
+        ...(caller.email && {userEmail: caller.email}),
+        uploadedBy: caller.principal,
+        uploaderType: caller.principalType
+    };
+}
+
+/**
+ * Places the upload in the revision chain of the document it replaces. Only the
+ * caller's own validated documents can be replaced, which also keeps the chain
+ * linear: a revision that is already superseded cannot be replaced again.
+ */
+export async function planRevision(registry: DocumentRegistry, request: UploadRequest, userId: string): Promise<Pick<DocumentRecord, 'lineageId' | 'revision' | 'replacesDocumentId' | 'collectionId'>> {
+    if (!request.replacesDocumentId) return {};
+
+    const previous = await registry.get(request.replacesDocumentId);
+    if (!previous || previous.userId !== userId) {
+        throw new HttpError(404, `Document ${request.replacesDocumentId} not found`);
+    }
+    if (previous.state !== 'validated') {
+        const current = previous.supersededBy ? ` by ${previous.supersededBy}` : '';
+        throw new HttpError(409, `Document ${previous.documentId} is ${previous.state}${current} and cannot be replaced`);
+    }
+    const collectionId = previous.collectionId ?? defaultCollectionId(userId);
+    if (request.collectionId && request.collectionId !== collectionId) {
+        throw new HttpError(400, `A revision stays in the collection of the document it replaces (${collectionId})`);
+    }
+    return {
+        lineageId: previous.lineageId ?? previous.documentId,
+        revision: (previous.revision ?? 1) + 1,
+        replacesDocumentId: previous.documentId,
+        collectionId
+    };
+}
+
+/**
+ * The collection the upload goes into: the one the revision inherits, the caller's
+ * own collection named in the request, or else their default collection.
+ */
+export async function resolveCollection(collections: CollectionRegistry, request: UploadRequest, userId: string,
+                                        revision: Pick<DocumentRecord, 'collectionId'>): Promise<string> {
+    if (revision.collectionId) return revision.collectionId;
+    if (!request.collectionId || request.collectionId === defaultCollectionId(userId)) {
+        return (await collections.ensureDefault(userId)).collectionId;
+    }
+    if (!await collections.get(userId, request.collectionId)) {
+        throw new HttpError(404, `Collection ${request.collectionId} not found`);
+    }
+    return request.collectionId;
+}
+
+export interface PlannedUpload {
+    documentId: string;
+    objectKey: string;
+    metadata: Record<string, string>;
+}
+
+/**
+ * Derives the document ID, the object key that places it in its collection, and the
+ * user metadata the validation handler reads back from the object. The metadata names
+ * the uploading principal, so objects from service clients are attributable too.
+ */
+export function planUpload(request: UploadRequest & {collectionId: string}, caller: Caller): PlannedUpload {
+    const {fileName, fileType, fileSize, collectionId} = request;
+    const timestamp = new Date().toISOString();
+    const hashInput = timestamp + fileName + caller.principal;
+    const fileHash = createHash('sha256').update(hashInput).digest('hex');
+
+    const fileExtension = getFileExtension(fileName);
+    const documentId = fileExtension ? `${timestamp}-${fileHash}.${fileExtension}` : `${timestamp}-${fileHash}`;
+
+    return {
+        documentId,
+        objectKey: collectionObjectKey(collectionId, documentId),
+        metadata: {
+            'user-id': caller.userId,
+            'collection-id': collectionId,
+            'uploaded-by': caller.principal,
+            'uploader-type': caller.principalType,
+            ...(caller.email && {'user-email': caller.email}),
+            'original-filename': fileName,
+            'uploaded-at': timestamp,
+            'file-size': fileSize.toString(),
+            'content-type': fileType,
+            'hash-input': hashInput,
+            'timestamp': timestamp,
+            'validation-status': 'pending',
+            'download-approved': 'false',
+            'validated-at': '',
+            'validated-by': ''
+        }
+    };
+}
@@ -1,161 +1,232 @@
 import {APIGatewayProxyEventV2, APIGatewayProxyResultV2} from 'aws-lambda';
 import {S3Client, PutObjectCommand} from '@aws-sdk/client-s3';
 import {getSignedUrl} from '@aws-sdk/s3-request-presigner';
-import {ApiResponse, JWTClaims, UploadRequest, UploadResponse} from "./typing.js";
+import {createPresignedPost} from '@aws-sdk/s3-presigned-post';
+import {randomUUID} from 'crypto';
+import {
+    BatchUploadError,
+    BatchUploadFile,
+    BatchUploadRequest,
+    BatchUploadResponse,
+    BatchUploadResult,
+    DuplicateUploadResponse,
+    UploadMethod,
+    UploadRequest,
+    UploadResponse
+} from "./typing.js";
 import console from "node:console";
-import {createHash} from 'crypto';
+import {createResponse, HttpError} from './http.js';
+import {authorize, Caller} from './authorization.js';
+import {createDocumentClient, DocumentRegistry} from './document-registry.js';
+import {CollectionRegistry} from './collection-registry.js';
+import {toBatchStatus} from './document-status.js';
+import {UsageRegistry} from './usage-registry.js';
+import {enforceUploadQuotas, loadQuotaLimits} from './quotas.js';
+import {callerActor, DocumentHistory, uploadDetails} from './document-history.js';
+import {
+    duplicateUploadResponse,
+    findExistingUpload,
+    planRevision,
+    planUpload,
+    registrationFields,
+    resolveCollection,
+    uploaderFields,
+    validateUploadRequest
+} from './upload-request.js';
 
 
 const s3 = new S3Client({});
+const registry = new DocumentRegistry(createDocumentClient(), process.env.DOCUMENT_TABLE!);
+const collections = new CollectionRegistry(createDocumentClient(), process.env.COLLECTION_TABLE!);
+const usage = new UsageRegistry(createDocumentClient(), process.env.USAGE_TABLE!);
+const history = new DocumentHistory(createDocumentClient(), process.env.HISTORY_TABLE!);
+const quotaLimits = loadQuotaLimits();
 
 const UPLOAD_EXPIRES_IN = 900;
-const MAX_FILE_SIZE = 100 * 1024 * 1024;
-const ALLOWED_TYPES = [
-    'text/plain',
-    'text/markdown',
-    'text/csv',
-    'text/tab-separated-values',
-    'application/json',
-    'application/xml',
-    'text/html',
-    
-    'application/pdf',
-    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-    'application/msword',
-    'application/vnd.openxmlformats-officedocument.presentationml.presentation',
-    'application/vnd.ms-powerpoint',
-    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
-    'application/vnd.ms-excel',
-    'application/vnd.oasis.opendocument.text',
-    'application/vnd.oasis.opendocument.presentation',
-    'application/vnd.oasis.opendocument.spreadsheet',
-    'application/rtf',
-    'application/x-iwork-pages-sffpages',
-    'application/x-iwork-numbers-sffnumbers',
-    'application/x-iwork-keynote-sffkey'
-];
-
-function getUserClaims(event: APIGatewayProxyEventV2): JWTClaims {
-    const claims = (event.requestContext as any).authorizer?.jwt?.claims;
-    if (!claims?.sub) throw new Error('No valid JWT claims found');
-    return claims as JWTClaims;
+const UPLOAD_METHODS: UploadMethod[] = ['PUT', 'POST'];
+const MAX_BATCH_FILES = 50;
+
+/**
+ * Presigned POST whose policy pins the key, the exact size, the content type, the
+ * checksum and every metadata field, so S3 refuses any upload that differs from
+ * the request.
+ */
+async function presignPost(objectKey: string, request: UploadRequest, metadata: Record<string, string>) {
+    const fields: Record<string, string> = {
+        'Content-Type': request.fileType,
+        'x-amz-checksum-algorithm': 'SHA256',
+        'x-amz-checksum-sha256': request.checksumSha256
+    };
+    for (const [name, value] of Object.entries(metadata)) {
+        fields[`x-amz-meta-${name}`] = value;
+    }
+
+    return createPresignedPost(s3, {
+        Bucket: process.env.DOCUMENT_BUCKET!,
+        Key: objectKey,
+        Conditions: [
+            ['content-length-range', request.fileSize, request.fileSize],
+            ['eq', '$Content-Type', request.fileType]
+        ],
+        Fields: fields,
+        Expires: UPLOAD_EXPIRES_IN
+    });
 }
 
-function validateRequest(request: Partial<UploadRequest>): UploadRequest {
-    const {fileName, fileType, fileSize} = request;
+/**
+ * Validates one upload request and issues its URL, or returns the document that
+ * already holds the same content. Shared by the single and batch routes, so a file
+ * in a batch passes exactly the checks a single upload does.
+ */
+async function issueUpload(caller: Caller, body: Partial<BatchUploadFile>, batchId?: string): Promise<UploadResponse | DuplicateUploadResponse> {
+    const {userId, email} = caller;
+
+    const validated = validateUploadRequest(body);
+    const {fileName, fileType, fileSize, checksumSha256} = validated;
+    // Everything is checked before the quotas charge this request to the hourly upload counter.
+    const uploadMethod: UploadMethod = body.uploadMethod ?? 'PUT';
+    if (!UPLOAD_METHODS.includes(uploadMethod)) {
+        throw new Error(`uploadMethod must be one of ${UPLOAD_METHODS.join(', ')}`);
+    }
+    const revision = await planRevision(registry, validated, userId);
+    const request = {...validated, collectionId: await resolveCollection(collections, validated, userId, revision)};
+
+    const existing = await findExistingUpload(registry, request, userId);
+    if (existing) {
+        console.log(`Content already uploaded as ${existing.documentId} (${existing.state}), returning it instead of a new upload URL`);
+        return duplicateUploadResponse(existing);
+    }
+    await enforceUploadQuotas(usage, quotaLimits, userId, request.collectionId, fileSize);
 
-    if (!fileName?.trim()) throw new Error('fileName is required');
-    if (!fileType?.trim()) throw new Error('fileType is required');
-    if (typeof fileSize !== 'number' || fileSize <= 0) throw new Error('fileSize must be a positive number');
-    if (fileSize > MAX_FILE_SIZE) throw new Error(`File size exceeds ${MAX_FILE_SIZE} bytes`);
-    if (!ALLOWED_TYPES.includes(fileType)) throw new Error(`File type ${fileType} not allowed`);
+    const {documentId, objectKey, metadata} = planUpload(request, caller);
 
-    const fileExtension = fileName.split('.').pop()?.toLowerCase() || '';
-    const expectedContentType = getExpectedContentType(fileExtension);
-    if (expectedContentType && expectedContentType !== fileType) {
-        throw new Error(`File extension .${fileExtension} does not match declared content type ${fileType}. Expected: ${expectedContentType}`);
+    let uploadUrl: string;
+    let fields: Record<string, string> | undefined;
+    if (uploadMethod === 'POST') {
+        ({url: uploadUrl, fields} = await presignPost(objectKey, {fileName, fileType, fileSize, checksumSha256}, metadata));
+    } else {
+        const command = new PutObjectCommand({
+            Bucket: process.env.DOCUMENT_BUCKET!,
+            Key: objectKey,
+            ContentType: fileType,
+            ContentLength: fileSize,
+            ChecksumSHA256: checksumSha256,
+            Metadata: metadata
+        });
+        // Keep the checksum a signed header rather than a query parameter: the
+        // client must send it, and S3 rejects a body that does not hash to it.
+        uploadUrl = await getSignedUrl(s3, command, {
+            expiresIn: UPLOAD_EXPIRES_IN,
+            unhoistableHeaders: new Set(['x-amz-checksum-sha256'])
+        });
     }
 
-    return {fileName, fileType, fileSize};
-}
+    const registered = await registry.create({
+        documentId,
+        userId,
+        ...uploaderFields(caller),
+        fileName,
+        fileType,
+        fileSize,
+        ...registrationFields(request),
+        ...revision,
+        ...(batchId && {batchId}),
+        bucket: process.env.DOCUMENT_BUCKET!,
+        objectKey,
+        uploadMode: 'single'
+    });
+    await history.record(documentId, 'upload_url_issued', callerActor(caller), {...uploadDetails(registered), uploadMethod});
 
-function getExpectedContentType(extension: string): string | null {
-    const contentTypeMap: { [key: string]: string } = {
-        'txt': 'text/plain',
-        'md': 'text/markdown',
-        'csv': 'text/csv',
-        'tsv': 'text/tab-separated-values',
-        'json': 'application/json',
-        'xml': 'application/xml',
-        'html': 'text/html',
-        'htm': 'text/html',
-        
-        'pdf': 'application/pdf',
-        'docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-        'doc': 'application/msword',
-        'pptx': 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
-        'ppt': 'application/vnd.ms-powerpoint',
-        'xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
-        'xls': 'application/vnd.ms-excel',
-        'odt': 'application/vnd.oasis.opendocument.text',
-        'odp': 'application/vnd.oasis.opendocument.presentation',
-        'ods': 'application/vnd.oasis.opendocument.spreadsheet',
-        'rtf': 'application/rtf',
-        'pages': 'application/x-iwork-pages-sffpages',
-        'numbers': 'application/x-iwork-numbers-sffnumbers',
-        'key': 'application/x-iwork-keynote-sffkey'
+    return {
+        status: 'pending_upload',
+        documentId,
+        uploadId: documentId,
+        uploadUrl,
+        uploadMethod,
+        ...(fields && {fields}),
+        objectKey,
+        ...(email && {userEmail: email}),
+        expiresIn: UPLOAD_EXPIRES_IN
     };
-    
-    return contentTypeMap[extension] || null;
 }
 
-function createResponse<T>(statusCode: number, data?: T, error?: string): APIGatewayProxyResultV2 {
-    const response: ApiResponse<T> = {
-        success: statusCode < 400,
-        timestamp: new Date().toISOString(),
-        ...(data && {data}),
-        ...(error && {error})
-    };
+async function requestUpload(event: APIGatewayProxyEventV2, caller: Caller): Promise<APIGatewayProxyResultV2> {
+    return createResponse(200, await issueUpload(caller, JSON.parse(event.body || '{}')));
+}
 
+function batchError(error: unknown): BatchUploadError {
     return {
-        statusCode,
-        headers: {'Content-Type': 'application/json'},
-        body: JSON.stringify(response)
+        status: 'error',
+        statusCode: error instanceof HttpError ? error.statusCode : 400,
+        error: error instanceof Error ? error.message : 'Internal server error'
     };
 }
 
-export const handler = async (event: APIGatewayProxyEventV2): Promise<APIGatewayProxyResultV2> => {
-    console.log(JSON.stringify(event, null, 2));
-    try {
-        const {sub: userId, email} = getUserClaims(event);
-
-        const body = JSON.parse(event.body || '{}');
-        const {fileName, fileType, fileSize} = validateRequest(body);
-
-        const timestamp = new Date().toISOString();
-        const hashInput = timestamp + fileName + (email || 'unknown');
-        const fileHash = createHash('sha256').update(hashInput).digest('hex');
-        
-        const fileExtension = fileName.split('.').pop()?.toLowerCase() || '';
-        const objectKey = fileExtension ? `${timestamp}-${fileHash}.${fileExtension}` : `${timestamp}-${fileHash}`;
-        const uploadId = objectKey;
-
-        const command = new PutObjectCommand({
-            Bucket: process.env.DOCUMENT_BUCKET!,
-            Key: objectKey,
-            ContentType: fileType,
-            ContentLength: fileSize,
-            Metadata: {
-                'user-id': userId,
-                'user-email': email || 'unknown',
-                'original-filename': fileName,
-                'uploaded-at': timestamp,
-                'file-size': fileSize.toString(),
-                'content-type': fileType,
-                'hash-input': hashInput,
-                'timestamp': timestamp,
-                'validation-status': 'pending',
-                'download-approved': 'false',
-                'validated-at': '',
-                'validated-by': ''
-            }
-        });
+/**
+ * Issues upload URLs for up to MAX_BATCH_FILES files, one file after another. A file
+ * that fails gets its error in its own result and the rest still go through, so the
+ * response is a 200 even when some, or all, of the files were refused.
+ */
+async function requestBatchUpload(event: APIGatewayProxyEventV2, caller: Caller): Promise<APIGatewayProxyResultV2> {
+    const {files} = JSON.parse(event.body || '{}') as Partial<BatchUploadRequest>;
+    if (!Array.isArray(files) || files.length === 0) {
+        throw new HttpError(400, 'files must be a non-empty array of upload requests');
+    }
+    if (files.length > MAX_BATCH_FILES) {
+        throw new HttpError(400, `A batch holds at most ${MAX_BATCH_FILES} files, got ${files.length}`);
+    }
 
-        const uploadUrl = await getSignedUrl(s3, command, {expiresIn: UPLOAD_EXPIRES_IN});
+    const batchId = randomUUID();
+    const results: BatchUploadResult[] = [];
+    for (const [index, file] of files.entries()) {
+        const fileName = typeof file?.fileName === 'string' ? file.fileName : undefined;
+        try {
+            results.push({index, ...(fileName && {fileName}), ...await issueUpload(caller, file ?? {}, batchId)});
+        } catch (error) {
+            console.warn(`Batch ${batchId}: file ${index} refused:`, error instanceof Error ? error.message : error);
+            results.push({index, ...(fileName && {fileName}), ...batchError(error)});
+        }
+    }
 
-        const responseData: UploadResponse = {
-            uploadId,
-            uploadUrl,
-            objectKey,
-            ...(email && {userEmail: email}),
-            expiresIn: UPLOAD_EXPIRES_IN
-        };
+    const failed = results.filter(result => result.status === 'error').length;
+    console.log(`Batch ${batchId}: ${results.length - failed} of ${files.length} files accepted`);
+    const response: BatchUploadResponse = {batchId, results, accepted: results.length - failed, failed};
+    return createResponse(200, response);
+}
 
-        return createResponse(200, responseData);
+/**
+ * Aggregated status of the files a batch registered. Duplicates returned in the
+ * batch response keep their own document and are not part of it; a batch nobody
+ * got an upload URL from, or someone else's, is reported as missing.
+ */
+async function getBatchStatus(event: APIGatewayProxyEventV2, caller: Caller): Promise<APIGatewayProxyResultV2> {
+    const batchId = event.pathParameters?.batchId;
+    if (!batchId) throw new HttpError(400, 'batchId is required in the path');
+
+    const records = (await registry.listBatch(batchId)).filter(record => record.userId === caller.userId);
+    if (!records.length) throw new HttpError(404, `Batch ${batchId} not found`);
+    return createResponse(200, toBatchStatus(batchId, records));
+}
 
+export const handler = async (event: APIGatewayProxyEventV2): Promise<APIGatewayProxyResultV2> => {
+    console.log(JSON.stringify(event, null, 2));
+    try {
+        switch (event.routeKey) {
+            case 'POST /upload':
+                return await requestUpload(event, authorize(event, 'uploader'));
+            case 'POST /uploads/batch':
+                return await requestBatchUpload(event, authorize(event, 'uploader'));
+            case 'GET /uploads/batch/{batchId}':
+                return await getBatchStatus(event, authorize(event, 'reader'));
+            default:
+                return createResponse(404, undefined, `Unsupported route ${event.routeKey}`);
+        }
     } catch (error) {
         console.error('Upload handler error:', error);
+        if (error instanceof HttpError) {
+            return createResponse(error.statusCode, undefined, error.message);
+        }
         const message = error instanceof Error ? error.message : 'Internal server error';
         return createResponse(400, undefined, message);
     }
-};
\ No newline at end of file
+};
@@ -0,0 +1,33 @@
+import {APIGatewayProxyEventV2, APIGatewayProxyResultV2} from 'aws-lambda';
+import {createResponse, HttpError} from './http.js';
+import {authorize} from './authorization.js';
+import {createDocumentClient} from './document-registry.js';
+import {defaultCollectionId} from './collection-registry.js';
+import {UsageRegistry} from './usage-registry.js';
+import {loadQuotaLimits, toUsageResponse} from './quotas.js';
+
+const usage = new UsageRegistry(createDocumentClient(), process.env.USAGE_TABLE!);
+const limits = loadQuotaLimits();
+
+/**
+ * Reports the caller's usage against their quotas, so the web UI can show what is
+ * left before an upload is refused. `collectionId` selects the collection to report
+ * on; the default collection when omitted.
+ */
+export const handler = async (event: APIGatewayProxyEventV2): Promise<APIGatewayProxyResultV2> => {
+    console.log(`[${event.requestContext.requestId}] ${event.routeKey}`, JSON.stringify(event.queryStringParameters || {}));
+    try {
+        const {userId} = authorize(event, 'reader');
+        const collectionId = event.queryStringParameters?.collectionId || defaultCollectionId(userId);
+
+        const snapshot = await usage.get(userId, collectionId);
+        return createResponse(200, toUsageResponse(snapshot, limits, collectionId));
+    } catch (error) {
+        console.error('Usage handler error:', error);
+        if (error instanceof HttpError) {
+            return createResponse(error.statusCode, undefined, error.message);
+        }
+        const message = error instanceof Error ? error.message : 'Internal server error';
+        return createResponse(400, undefined, message);
+    }
+};
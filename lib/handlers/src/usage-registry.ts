@@ -0,0 +1,124 @@
+import {DynamoDBDocumentClient, GetCommand, UpdateCommand} from '@aws-sdk/lib-dynamodb';
+import {DocumentState} from './document-registry.js';
+
+/** States whose object counts towards storage: validated, and kept after being superseded. */
+export const STORED_STATES: readonly DocumentState[] = ['validated', 'superseded'];
+
+/** Bytes and documents currently stored for a user or one of their collections. */
+export interface StorageCounters {
+    bytes: number;
+    documents: number;
+}
+
+export interface UsageSnapshot {
+    storage: StorageCounters;
+    collection: StorageCounters;
+    /** Uploads started in the current hour. */
+    uploads: number;
+    /** End of the current hourly window, when `uploads` starts again from zero. */
+    windowEndsAt: string;
+}
+
+const TOTAL_KEY = 'total';
+const HOUR_MS = 60 * 60 * 1000;
+
+function collectionKey(collectionId: string): string {
+    return `collection#${collectionId}`;
+}
+
+/** Start of the fixed one-hour window containing `now`, e.g. `uploads#2025-01-15T10`. */
+function windowOf(now: Date): {key: string; endsAt: Date} {
+    const start = Math.floor(now.getTime() / HOUR_MS) * HOUR_MS;
+    return {key: `uploads#${new Date(start).toISOString().slice(0, 13)}`, endsAt: new Date(start + HOUR_MS)};
+}
+
+export class UploadRateLimitError extends Error {
+    constructor(readonly limit: number, readonly windowEndsAt: string) {
+        super(`Upload rate limit reached: at most ${limit} uploads per hour; try again after ${windowEndsAt}`);
+        this.name = 'UploadRateLimitError';
+    }
+}
+
+/**
+ * Usage counters, keyed by user ID and `usageKey`: `total` and `collection#{id}`
+ * hold what is stored, `uploads#{hour}` counts uploads started in that hour and
+ * expires through the table's TTL. Stored counters move when a document is
+ * validated and when it is deleted, so pending, quarantined and duplicate uploads
+ * never count.
+ */
+export class UsageRegistry {
+    constructor(private readonly client: DynamoDBDocumentClient, private readonly tableName: string) {
+    }
+
+    async get(userId: string, collectionId: string, now = new Date()): Promise<UsageSnapshot> {
+        const window = windowOf(now);
+        const [storage, collection, uploads] = await Promise.all([
+            this.item(userId, TOTAL_KEY),
+            this.item(userId, collectionKey(collectionId)),
+            this.item(userId, window.key)
+        ]);
+        return {
+            storage: {bytes: storage?.bytes ?? 0, documents: storage?.documents ?? 0},
+            collection: {bytes: collection?.bytes ?? 0, documents: collection?.documents ?? 0},
+            uploads: uploads?.uploads ?? 0,
+            windowEndsAt: window.endsAt.toISOString()
+        };
+    }
+
+    /** Counts a validated document against the user's and the collection's storage. */
+    async recordStored(userId: string, collectionId: string, bytes: number): Promise<void> {
+        await this.adjust(userId, collectionId, bytes, 1);
+    }
+
+    /** Releases the storage of a deleted document that had been counted by `recordStored`. */
+    async recordRemoved(userId: string, collectionId: string, bytes: number): Promise<void> {
+        await this.adjust(userId, collectionId, -bytes, -1);
+    }
+
+    /**
+     * Counts one upload in the current hour, unless `limit` uploads were already
+     * started in it. The check and the increment are one conditional update, so
+     * concurrent requests cannot overshoot the limit.
+     */
+    async countUpload(userId: string, limit: number, now = new Date()): Promise<void> {
+        const window = windowOf(now);
+        try {
+            await this.client.send(new UpdateCommand({
+                TableName: this.tableName,
+                Key: {userId, usageKey: window.key},
+                UpdateExpression: 'ADD #uploads :one SET #expiresAt = :expiresAt',
+                ConditionExpression: 'attribute_not_exists(#uploads) OR #uploads < :limit',
+                ExpressionAttributeNames: {'#uploads': 'uploads', '#expiresAt': 'expiresAt'},
+                ExpressionAttributeValues: {
+                    ':one': 1,
+                    ':limit': limit,
+                    // Kept a little past the window so GET /usage never reads a half-expired count.
+                    ':expiresAt': Math.floor(window.endsAt.getTime() / 1000) + 3600
+                }
+            }));
+        } catch (error) {
+            if ((error as any).name !== 'ConditionalCheckFailedException') throw error;
+            throw new UploadRateLimitError(limit, window.endsAt.toISOString());
+        }
+    }
+
+    private async adjust(userId: string, collectionId: string, bytes: number, documents: number): Promise<void> {
+        const now = new Date().toISOString();
+        await Promise.all([TOTAL_KEY, collectionKey(collectionId)].map(usageKey => this.client.send(new UpdateCommand({
+            TableName: this.tableName,
+            Key: {userId, usageKey},
+            UpdateExpression: 'ADD #bytes :bytes, #documents :documents SET #updatedAt = :updatedAt',
+            ExpressionAttributeNames: {'#bytes': 'bytes', '#documents': 'documents', '#updatedAt': 'updatedAt'},
+            ExpressionAttributeValues: {':bytes': bytes, ':documents': documents, ':updatedAt': now}
+        }))));
+    }
+
+    private async item(userId: string, usageKey: string): Promise<Record<string, any> | undefined> {
+        const response = await this.client.send(new GetCommand({
+            TableName: this.tableName,
+            Key: {userId, usageKey},
+            ConsistentRead: true
+        }));
+        return response.Item;
+    }
+}
@@ -1,36 +1,39 @@
 import { S3Event, Context } from 'aws-lambda';
-import { S3Client, GetObjectCommand, CopyObjectCommand, DeleteObjectCommand, PutObjectTaggingCommand } from '@aws-sdk/client-s3';
-import * as mime from 'mime-types';
+import { EventBridgeClient } from '@aws-sdk/client-eventbridge';
+import { S3Client, GetObjectCommand, HeadObjectCommand, CopyObjectCommand, DeleteObjectCommand, PutObjectTaggingCommand } from '@aws-sdk/client-s3';
+import {QuarantineReasonCode} from './typing.js';
+import {isSignatureCompatible, SNIFF_BYTES, sniffContent} from './file-signature.js';
+import {DOCUMENT_POLICY, findPolicyByExtension, findPolicyByMimeType, getFileExtension} from './document-policy.js';
+import {runDocumentValidators, ValidationCheck} from './document-validators.js';
+import {contentKey, createDocumentClient, DocumentRecord, DocumentRegistry, DocumentState, DocumentStateConflictError, DocumentTransitionUpdate} from './document-registry.js';
+import {buildDocumentMetadata, DEFAULT_EVENT_SOURCE, DocumentEventInput, DocumentEventPublisher, DocumentEventType} from './document-events.js';
+import {METADATA_PREFIX, writeMetadataSidecar} from './metadata-sidecar.js';
+import {sha256Base64} from './checksum.js';
+import {defaultCollectionId, parseObjectKey} from './collection-registry.js';
+import {UsageRegistry} from './usage-registry.js';
+import {DocumentHistory, HistoryEvent, uploaderActor, VALIDATION_ACTOR} from './document-history.js';
+import {scannerFromEnv, ScannerUnavailableError} from './malware-scanner.js';
+import {evaluatePdf, inspectPdf, loadPdfInspectionPolicy, PdfFindingResult} from './pdf-inspection.js';
+import {DocumentAnnotation} from './schemas/document-metadata.schema.js';
+import {duplicateCollection} from './upload-request.js';
 
 const s3Client = new S3Client({});
 
 const QUARANTINE_BUCKET = process.env.QUARANTINE_BUCKET!;
+const DOCUMENT_TABLE = process.env.DOCUMENT_TABLE!;
+const EVENT_BUS_NAME = process.env.EVENT_BUS_NAME!;
+const EVENT_SOURCE = process.env.EVENT_SOURCE || DEFAULT_EVENT_SOURCE;
 
-const MAX_FILE_SIZE = 100 * 1024 * 1024;
-const ALLOWED_MIME_TYPES = [
-    'text/plain',
-    'text/markdown',
-    'text/csv',
-    'text/tab-separated-values',
-    'application/json',
-    'application/xml',
-    'text/html',
-    
-    'application/pdf',
-    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-    'application/msword',
-    'application/vnd.openxmlformats-officedocument.presentationml.presentation',
-    'application/vnd.ms-powerpoint',
-    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
-    'application/vnd.ms-excel',
-    'application/vnd.oasis.opendocument.text',
-    'application/vnd.oasis.opendocument.presentation',
-    'application/vnd.oasis.opendocument.spreadsheet',
-    'application/rtf',
-    'application/x-iwork-pages-sffpages',
-    'application/x-iwork-numbers-sffnumbers',
-    'application/x-iwork-keynote-sffkey'
-];
+// Objects the service writes into the document bucket itself: metadata sidecars and
+// the deployed JSON schemas.
+const RESERVED_PREFIXES = [METADATA_PREFIX, 'schemas/'];
+
+const registry = new DocumentRegistry(createDocumentClient(), DOCUMENT_TABLE);
+const events = new DocumentEventPublisher(new EventBridgeClient({}), EVENT_BUS_NAME, EVENT_SOURCE);
+const usage = new UsageRegistry(createDocumentClient(), process.env.USAGE_TABLE!);
+const history = new DocumentHistory(createDocumentClient(), process.env.HISTORY_TABLE!);
+const scanner = scannerFromEnv();
+const pdfPolicy = loadPdfInspectionPolicy();
 
 export async function handler(event: S3Event, context: Context): Promise<void> {
     const startTime = Date.now();
@@ -45,13 +48,21 @@ export async function handler(event: S3Event, context: Context): Promise<void> {
 
     console.log(`[${requestId}] Configuration:`);
     console.log(`[${requestId}]   QUARANTINE_BUCKET: ${QUARANTINE_BUCKET}`);
-    console.log(`[${requestId}]   MAX_FILE_SIZE: ${MAX_FILE_SIZE} bytes (${Math.round(MAX_FILE_SIZE / 1024 / 1024)}MB)`);
-    console.log(`[${requestId}]   ALLOWED_MIME_TYPES: ${ALLOWED_MIME_TYPES.join(', ')}`);
+    console.log(`[${requestId}]   DOCUMENT_TABLE: ${DOCUMENT_TABLE}`);
+    console.log(`[${requestId}]   EVENT_BUS_NAME: ${EVENT_BUS_NAME} (source ${EVENT_SOURCE})`);
+    console.log(`[${requestId}]   DOCUMENT_POLICY: v${DOCUMENT_POLICY.version}, ${DOCUMENT_POLICY.types.length} types, max ${DOCUMENT_POLICY.maxFileSize} bytes`);
+    console.log(`[${requestId}]   MALWARE_SCANNER: ${scanner?.name ?? 'none (CLAMD_HOST not set)'}`);
+    console.log(`[${requestId}]   PDF_INSPECTION: max ${pdfPolicy.maxPages} pages, ${Object.entries(pdfPolicy.actions).map(([finding, action]) => `${finding}=${action}`).join(', ')}`);
 
     let processedCount = 0;
     let validatedCount = 0;
     let quarantinedCount = 0;
     let rejectedCount = 0;
+    let skippedCount = 0;
+    let duplicateCount = 0;
+    let supersededCount = 0;
+    let scanPendingCount = 0;
+    let announceFailedCount = 0;
 
     for (const [index, record] of event.Records.entries()) {
         const recordStartTime = Date.now();
@@ -69,35 +80,173 @@ export async function handler(event: S3Event, context: Context): Promise<void> {
         console.log(`[${requestId}] File Extension: ${key.split('.').pop()}`);
         console.log(`[${requestId}] S3 ETag: ${record.s3.object.eTag}`);
 
+        if (RESERVED_PREFIXES.some(prefix => key.startsWith(prefix))) {
+            console.log(`[${requestId}] ℹ️ ${key} is a service-owned object, skipping validation`);
+            skippedCount++;
+            continue;
+        }
+
+        const {documentId, collectionId: keyCollectionId} = parseObjectKey(key);
+        const registration = await beginValidation(bucket, key, documentId, requestId);
+        if (registration.status === 'redelivered') {
+            skippedCount++;
+            continue;
+        }
+        const tracked = registration.status === 'tracked';
+        // Only a reviewer's release out of quarantine sets `reviewedBy` on a document that is validated again.
+        const released = registration.status === 'tracked' && registration.record.reviewedBy ? registration.record : undefined;
+        const expectedChecksum = registration.status === 'tracked' ? registration.record.checksumSha256 : undefined;
+        const expectedSize = registration.status === 'tracked' ? registration.record.fileSize : undefined;
+        const collectionId = (registration.status === 'tracked' && registration.record.collectionId) || keyCollectionId;
+        const eventInput = {
+            documentId,
+            bucketName: bucket,
+            objectKey: key,
+            contentLength: size,
+            ingestedAt: eventTime,
+            ...(record.s3.object.eTag && {eTag: record.s3.object.eTag}),
+            ...(record.s3.object.versionId && {versionId: record.s3.object.versionId}),
+            ...(collectionId && {collectionId}),
+            ...(registration.status === 'tracked' && registration.record.userMetadata && {userMetadata: registration.record.userMetadata})
+        };
+        let outcome: {type: DocumentEventType; input: DocumentEventInput} | null;
+        const checks: ValidationCheck[] = [];
+        let decision: {event: HistoryEvent; details: Record<string, unknown>};
+        // A document scanned again after `scan_pending` already has its upload recorded.
+        if (registration.status === 'tracked' && !released && !registration.record.scanAttempts) {
+            await history.record(documentId, 'upload_completed', uploaderActor(registration.record), {
+                size,
+                ...(record.s3.object.eTag && {eTag: record.s3.object.eTag}),
+                ...(record.s3.object.versionId && {versionId: record.s3.object.versionId})
+            }, new Date(eventTime));
+        }
+        if (tracked) {
+            await history.record(documentId, 'validation_started', VALIDATION_ACTOR);
+        }
+
         try {
             console.log(`[${requestId}] Starting document validation for: ${key}`);
-            const validationResult = await validateDocument(bucket, key, size, requestId);
-            
-            if (validationResult.isValid) {
+            const validationResult = released
+                ? await acceptReleased(bucket, key, size, released, requestId, checks)
+                : await validateDocument(bucket, key, size, expectedSize, expectedChecksum, requestId, checks);
+            const checksumSha256 = validationResult.checksumSha256;
+            // The registry keeps the declared checksum; a computed one is only filled
+            // in for documents that arrived without one.
+            const checksumUpdate: DocumentTransitionUpdate = registration.status === 'tracked' && checksumSha256 && !expectedChecksum
+                ? {checksumSha256, contentKey: contentKey(registration.record.userId, checksumSha256)}
+                : {};
+            const original = validationResult.isValid && registration.status === 'tracked' && checksumSha256
+                ? await findOriginal(registration.record, checksumSha256, requestId)
+                : null;
+
+            if (original) {
+                await discardDuplicate(bucket, key, requestId);
+                await recordTransition(tracked, documentId, 'duplicate', {duplicateOf: original.documentId, ...checksumUpdate}, requestId);
+                decision = {event: 'duplicate', details: {duplicateOf: original.documentId}};
+                outcome = null;
+                duplicateCount++;
+            } else if (validationResult.isValid) {
                 console.log(`[${requestId}] ✅ Document validation PASSED for: ${key}`);
                 console.log(`[${requestId}] MIME Type: ${validationResult.metadata?.mimeType}`);
                 console.log(`[${requestId}] Last Modified: ${validationResult.metadata?.lastModified}`);
                 
-                await approveDocument(bucket, key, requestId);
+                const validatedAt = await approveDocument(bucket, key, requestId, !!released);
+                const annotations = validationResult.annotations;
+                const registered = await recordTransition(tracked, documentId, 'validated', {
+                    validatedAt,
+                    ...checksumUpdate,
+                    ...(validationResult.metadata?.detectedType && {detectedType: validationResult.metadata.detectedType}),
+                    ...(annotations && {annotations})
+                }, requestId, released ? ['reason', 'reasonCode'] : []);
+                if (registered) await countStorage(registered, requestId);
+                decision = {event: 'validated', details: {
+                    ...(validationResult.metadata?.detectedType && {detectedType: validationResult.metadata.detectedType}),
+                    ...(released && {releasedBy: released.reviewedBy}),
+                    ...(annotations && {annotations})
+                }};
+                outcome = {type: 'Document Validated', input: {
+                    ...eventInput,
+                    ...(checksumSha256 && {checksumSha256}),
+                    ...(annotations && {annotations}),
+                    contentType: validationResult.metadata!.mimeType!,
+                    decidedAt: validatedAt,
+                    ...(validationResult.metadata?.lastModified && {lastModified: validationResult.metadata.lastModified})
+                }};
                 validatedCount++;
                 console.log(`[${requestId}] Document metadata updated to approved for: ${key}`);
             } else {
                 console.log(`[${requestId}] ❌ Document validation FAILED for: ${key}`);
-                console.log(`[${requestId}] Reason: ${validationResult.reason}`);
+                console.log(`[${requestId}] Reason: ${validationResult.reason} (${validationResult.reasonCode})`);
                 
-                await quarantineDocument(bucket, key, validationResult.reason!, requestId);
+                const quarantined = await quarantineDocument(bucket, key, validationResult.reasonCode!, validationResult.reason!, requestId);
+                const {quarantineKey, quarantinedAt} = quarantined;
+                const registered = await recordTransition(tracked, documentId, 'quarantined', {
+                    quarantineKey,
+                    quarantinedAt,
+                    ...checksumUpdate,
+                    reasonCode: validationResult.reasonCode!,
+                    reason: validationResult.reason!
+                }, requestId);
+                decision = {event: 'quarantined', details: {reasonCode: validationResult.reasonCode, reason: validationResult.reason, quarantineKey}};
+                // The quarantined copy has its own ETag and version, not the original's.
+                outcome = {type: 'Document Quarantined', input: {
+                    documentId,
+                    bucketName: QUARANTINE_BUCKET,
+                    objectKey: quarantineKey,
+                    contentLength: size,
+                    ingestedAt: eventTime,
+                    ...(quarantined.eTag && {eTag: quarantined.eTag}),
+                    ...(quarantined.versionId && {versionId: quarantined.versionId}),
+                    ...(checksumSha256 && {checksumSha256}),
+                    contentType: declaredContentType(registered),
+                    decidedAt: quarantinedAt,
+                    reason: `${validationResult.reasonCode}: ${validationResult.reason}`,
+                    ...(collectionId && {collectionId})
+                }};
                 quarantinedCount++;
                 console.log(`[${requestId}] Document quarantined for: ${key}`);
             }
         } catch (error) {
-            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-            console.error(`[${requestId}] 💥 ERROR processing document: ${key}`);
-            console.error(`[${requestId}] Error type: ${error instanceof Error ? error.constructor.name : typeof error}`);
-            console.error(`[${requestId}] Error message: ${errorMessage}`);
-            console.error(`[${requestId}] Stack trace:`, error instanceof Error ? error.stack : 'No stack trace');
+            if (error instanceof ScannerUnavailableError) {
+                // No verdict is not an approval: the document waits, untagged and unannounced, for the scan retry.
+                const scanAttempts = (registration.status === 'tracked' ? registration.record.scanAttempts ?? 0 : 0) + 1;
+                console.warn(`[${requestId}] ⏳ Malware scan of ${key} unavailable (attempt ${scanAttempts}): ${error.message}`);
+                if (!tracked) {
+                    console.warn(`[${requestId}] ⚠️ ${documentId} is not in the document registry and will not be scanned again`);
+                }
+                await recordTransition(tracked, documentId, 'scan_pending', {scanAttempts}, requestId);
+                decision = {event: 'scan_pending', details: {scanner: scanner!.name, reason: error.message, scanAttempts}};
+                outcome = null;
+                scanPendingCount++;
+            } else {
+                const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+                console.error(`[${requestId}] 💥 ERROR processing document: ${key}`);
+                console.error(`[${requestId}] Error type: ${error instanceof Error ? error.constructor.name : typeof error}`);
+                console.error(`[${requestId}] Error message: ${errorMessage}`);
+                console.error(`[${requestId}] Stack trace:`, error instanceof Error ? error.stack : 'No stack trace');
             
-            await rejectDocument(bucket, key, errorMessage, requestId);
-            rejectedCount++;
+                const rejectedAt = await rejectDocument(bucket, key, errorMessage, requestId);
+                const registered = await recordTransition(tracked, documentId, 'rejected', {rejectedAt, reason: errorMessage}, requestId);
+                decision = {event: 'rejected', details: {reason: errorMessage}};
+                outcome = {type: 'Document Rejected', input: {
+                    ...eventInput,
+                    contentType: declaredContentType(registered),
+                    decidedAt: rejectedAt,
+                    reason: errorMessage
+                }};
+                rejectedCount++;
+            }
+        }
+
+        if (tracked) {
+            await recordValidation(documentId, checks, decision);
+        }
+        if (outcome && !await announceDocument(bucket, outcome.type, outcome.input, requestId)) {
+            announceFailedCount++;
+        }
+        if (outcome?.type === 'Document Validated' && registration.status === 'tracked' && registration.record.replacesDocumentId
+            && await supersedePrevious(registration.record, requestId)) {
+            supersededCount++;
         }
 
         processedCount++;
@@ -113,83 +262,419 @@ export async function handler(event: S3Event, context: Context): Promise<void> {
     console.log(`[${requestId}] Successfully validated: ${validatedCount}`);
     console.log(`[${requestId}] Quarantined: ${quarantinedCount}`);
     console.log(`[${requestId}] Rejected: ${rejectedCount}`);
+    console.log(`[${requestId}] Skipped (already validated): ${skippedCount}`);
+    console.log(`[${requestId}] Duplicates of existing documents: ${duplicateCount}`);
+    console.log(`[${requestId}] Earlier revisions superseded: ${supersededCount}`);
+    console.log(`[${requestId}] Waiting for a malware scan: ${scanPendingCount}`);
+    console.log(`[${requestId}] Metadata sidecar / event failures: ${announceFailedCount}`);
     console.log(`[${requestId}] Average processing time per record: ${Math.round(totalDuration / processedCount)}ms`);
     console.log(`[${requestId}] Final remaining time: ${context.getRemainingTimeInMillis()}ms`);
 }
 
+type Registration =
+    | {status: 'tracked'; record: DocumentRecord}
+    | {status: 'untracked'}
+    | {status: 'redelivered'};
+
+/**
+ * Claims the registry row for validation. Objects the upload handler never
+ * registered are still validated but left untracked; a row that has already left
+ * `pending_upload` means S3 redelivered the event, so the record is skipped. An
+ * upload deleted before it finished can still arrive through its URL; that object
+ * is removed rather than left behind untracked.
+ */
+async function beginValidation(bucket: string, key: string, documentId: string, requestId: string): Promise<Registration> {
+    try {
+        const record = await registry.transition(documentId, 'validating');
+        console.log(`[${requestId}] Registry: ${documentId} → validating`);
+        return {status: 'tracked', record};
+    } catch (error) {
+        if (!(error instanceof DocumentStateConflictError)) throw error;
+
+        const existing = await registry.get(documentId);
+        if (!existing) {
+            console.warn(`[${requestId}] ⚠️ ${documentId} is not in the document registry, validating untracked`);
+            return {status: 'untracked'};
+        }
+        if (existing.state === 'deleted') {
+            await s3Client.send(new DeleteObjectCommand({Bucket: bucket, Key: key}));
+            console.log(`[${requestId}] 🗑️ ${documentId} is deleted, removing ${bucket}/${key} in case its upload arrived late`);
+            return {status: 'redelivered'};
+        }
+        console.log(`[${requestId}] ℹ️ ${documentId} is already ${existing.state}, skipping redelivered event`);
+        return {status: 'redelivered'};
+    }
+}
+
+/**
+ * The user's earlier validated document with the same content, if any, looked for
+ * in the scope the upload asked for. Only
+ * validated documents count, so two copies validating at once are both kept
+ * rather than each discarding the other.
+ */
+async function findOriginal(record: DocumentRecord, checksumSha256: string, requestId: string): Promise<DocumentRecord | null> {
+    if (record.allowDuplicate) {
+        console.log(`[${requestId}] ℹ️ Upload was forced, skipping duplicate detection`);
+        return null;
+    }
+    const matches = await registry.findByContent(record.userId, checksumSha256, ['validated'],
+        duplicateCollection(record.duplicateScope, record.collectionId));
+    const original = matches.find(match => match.documentId !== record.documentId) ?? null;
+    if (original) {
+        console.log(`[${requestId}] ♻️ Content already ingested as ${original.documentId}`);
+    }
+    return original;
+}
+
+/**
+ * Removes the redundant copy; the registry item keeps pointing at the original.
+ */
+async function discardDuplicate(bucket: string, key: string, requestId: string): Promise<void> {
+    await s3Client.send(new DeleteObjectCommand({Bucket: bucket, Key: key}));
+    console.log(`[${requestId}] 🗑️ Deleted duplicate object ${bucket}/${key}`);
+}
+
+/**
+ * Adds each validation step and then the decision to the document's history, in
+ * the order they happened.
+ */
+async function recordValidation(documentId: string, checks: ValidationCheck[], decision: {event: HistoryEvent; details: Record<string, unknown>}): Promise<void> {
+    for (const check of checks) {
+        await history.record(documentId, 'validator_result', VALIDATION_ACTOR, {...check});
+    }
+    await history.record(documentId, decision.event, VALIDATION_ACTOR, decision.details);
+}
+
+async function recordTransition(tracked: boolean, documentId: string, to: DocumentState, update: DocumentTransitionUpdate, requestId: string,
+                                remove: (keyof DocumentTransitionUpdate)[] = []): Promise<DocumentRecord | null> {
+    if (!tracked) return null;
+    const record = await registry.transition(documentId, to, update, remove);
+    console.log(`[${requestId}] Registry: ${documentId} → ${to}`);
+    return record;
+}
+
+/**
+ * Retires the revision a newly validated upload replaces, once the replacement has
+ * been announced. Like announcing, this runs after the decision and only logs a
+ * failure. A previous revision that is no longer validated (deleted in the
+ * meantime, or replaced by a concurrent upload) is left alone.
+ */
+async function supersedePrevious(record: DocumentRecord, requestId: string): Promise<boolean> {
+    const previousId = record.replacesDocumentId!;
+    try {
+        const supersededAt = new Date().toISOString();
+        const previous = await registry.transition(previousId, 'superseded', {
+            supersededBy: record.documentId,
+            supersededAt,
+            // Backfills the chain on documents registered before revisions were tracked.
+            lineageId: record.lineageId!,
+            revision: record.revision! - 1
+        });
+        console.log(`[${requestId}] Registry: ${previousId} → superseded by ${record.documentId}`);
+        await history.record(previousId, 'superseded', VALIDATION_ACTOR, {supersededBy: record.documentId});
+
+        const eventId = await events.publishSuperseded({
+            documentId: previousId,
+            supersededBy: record.documentId,
+            lineageId: record.lineageId!,
+            revision: previous.revision!,
+            userId: previous.userId,
+            ...(previous.collectionId && {collectionId: previous.collectionId}),
+            supersededAt,
+            s3Reference: {bucketName: previous.bucket, objectKey: previous.objectKey}
+        });
+        console.log(`[${requestId}] 📣 Published "Document Superseded" for ${previousId} (event ${eventId})`);
+        return true;
+    } catch (error) {
+        if (error instanceof DocumentStateConflictError) {
+            console.warn(`[${requestId}] ⚠️ ${previousId} is no longer validated, not superseding it`);
+        } else {
+            console.error(`[${requestId}] ❌ Failed to supersede ${previousId}:`, error);
+        }
+        return false;
+    }
+}
+
+/**
+ * Counts a newly validated document against its owner's storage quotas. Like
+ * announcing, this runs after the decision, so a failure is only logged.
+ */
+async function countStorage(record: DocumentRecord, requestId: string): Promise<void> {
+    try {
+        await usage.recordStored(record.userId, record.collectionId ?? defaultCollectionId(record.userId), record.fileSize);
+        console.log(`[${requestId}] 📊 Counted ${record.fileSize} bytes towards ${record.userId}'s storage quota`);
+    } catch (error) {
+        console.error(`[${requestId}] ❌ Failed to count ${record.documentId} towards ${record.userId}'s storage quota:`, error);
+    }
+}
+
+function declaredContentType(record: DocumentRecord | null): string {
+    return record?.fileType || 'application/octet-stream';
+}
+
+/**
+ * Writes the metadata sidecar, then publishes the event so subscribers can read the
+ * sidecar straight away. This runs after the S3 and registry updates; a failure is
+ * logged rather than turning an already-decided document into a rejection.
+ */
+async function announceDocument(documentBucket: string, type: DocumentEventType, input: DocumentEventInput, requestId: string): Promise<boolean> {
+    try {
+        const metadata = buildDocumentMetadata(type, input);
+        const sidecarKey = await writeMetadataSidecar(s3Client, documentBucket, metadata);
+        console.log(`[${requestId}] 📝 Metadata sidecar written: ${documentBucket}/${sidecarKey}`);
+
+        const eventId = await events.publish(type, metadata);
+        console.log(`[${requestId}] 📣 Published "${type}" for ${input.documentId} (event ${eventId})`);
+        return true;
+    } catch (error) {
+        console.error(`[${requestId}] ❌ Failed to record metadata or publish "${type}" for ${input.documentId}:`, error);
+        return false;
+    }
+}
+
 interface ValidationResult {
     isValid: boolean;
     reason?: string;
+    reasonCode?: QuarantineReasonCode;
+    checksumSha256?: string;
+    /** Findings the policy annotates an approved document with; absent when there are none. */
+    annotations?: DocumentAnnotation[];
     metadata?: {
         mimeType?: string;
+        detectedType?: string;
         contentLength: number;
         lastModified?: Date;
     };
 }
 
-async function validateDocument(bucket: string, key: string, size: number, requestId: string): Promise<ValidationResult> {
+function invalid(requestId: string, reasonCode: QuarantineReasonCode, reason: string): ValidationResult {
+    console.log(`[${requestId}] ❌ Validation failed [${reasonCode}]: ${reason}`);
+    return {
+        isValid: false,
+        reason,
+        reasonCode
+    };
+}
+
+interface StoredDocument {
+    content: Uint8Array;
+    /** The declared type stamped into user metadata, else the Content-Type header. */
+    declaredType: string;
+    lastModified?: Date;
+}
+
+/**
+ * Reads the whole stored object once; the checksum, file signature, PDF inspection
+ * and malware scan all work from this copy. The size checks have already capped it
+ * at the largest size any policy allows.
+ */
+async function readDocument(bucket: string, key: string, requestId: string): Promise<StoredDocument> {
+    const startTime = Date.now();
+    const response = await s3Client.send(new GetObjectCommand({Bucket: bucket, Key: key}));
+    if (!response.Body) {
+        throw new Error(`No body returned for ${bucket}/${key}`);
+    }
+    const content = await response.Body.transformToByteArray();
+    console.log(`[${requestId}] Read ${content.length} bytes of ${bucket}/${key} in ${Date.now() - startTime}ms`);
+    console.log(`[${requestId}]   Content-Type: ${response.ContentType}`);
+    console.log(`[${requestId}]   Last-Modified: ${response.LastModified}`);
+    console.log(`[${requestId}]   ETag: ${response.ETag}`);
+
+    // The upload URL handler stamps the declared type into user metadata; the
+    // Content-Type header is only a fallback for objects written some other way.
+    return {
+        content,
+        declaredType: response.Metadata?.['content-type'] || response.ContentType || 'application/octet-stream',
+        ...(response.LastModified && {lastModified: response.LastModified})
+    };
+}
+
+/**
+ * Hashes the whole stored object. The result is recorded for every document and,
+ * when the uploader declared a checksum, must match it.
+ */
+function computeChecksum(content: Uint8Array, requestId: string): string {
+    const checksum = sha256Base64(content);
+    console.log(`[${requestId}] SHA-256: ${checksum}`);
+    return checksum;
+}
+
+/**
+ * A document a reviewer released from quarantine skips the checks that put it
+ * there, but not the malware scan: a reviewer judges why a document was held, not
+ * whether it carries a virus. Its checksum is computed again for the sidecar and
+ * event, and the declared content type stands.
+ */
+async function acceptReleased(bucket: string, key: string, size: number, record: DocumentRecord, requestId: string,
+                              checks: ValidationCheck[]): Promise<ValidationResult> {
+    console.log(`[${requestId}] ℹ️ ${record.documentId} was released from quarantine by ${record.reviewedBy}, skipping content checks`);
+    const stored = await readDocument(bucket, key, requestId);
+    const checksumSha256 = computeChecksum(stored.content, requestId);
+    checks.push({check: 'review', passed: true});
+    if (scanner) {
+        const verdict = await scanDocument(stored.content, requestId);
+        if (verdict.infected) {
+            const reason = `${scanner.name} detected ${verdict.signature}`;
+            checks.push({check: 'malware-scan', passed: false, reasonCode: verdict.signature, reason});
+            return {...invalid(requestId, verdict.signature, reason), checksumSha256};
+        }
+        checks.push({check: 'malware-scan', passed: true});
+    }
+    return {
+        isValid: true,
+        checksumSha256,
+        metadata: {
+            mimeType: record.fileType,
+            contentLength: size,
+            ...(record.detectedType && {detectedType: record.detectedType}),
+            ...(stored.lastModified && {lastModified: stored.lastModified})
+        }
+    };
+}
+
+async function* streamOf(content: Uint8Array): AsyncIterable<Uint8Array> {
+    yield content;
+}
+
+/**
+ * Streams the whole document through the malware scanner. Runs last, after the
+ * cheap checks have had their chance to quarantine the document.
+ */
+async function scanDocument(content: Uint8Array, requestId: string) {
+    const startTime = Date.now();
+    const verdict = await scanner!.scan(streamOf(content));
+    console.log(`[${requestId}] ${verdict.infected ? `🦠 ${scanner!.name} found ${verdict.signature}` : `✅ ${scanner!.name} found nothing`} in ${Date.now() - startTime}ms`);
+    return verdict;
+}
+
+/**
+ * Parses the whole PDF and weighs its findings against the inspection policy.
+ * Findings the policy approves are only logged.
+ */
+function inspectPdfDocument(content: Uint8Array, requestId: string): PdfFindingResult[] {
+    const startTime = Date.now();
+    const inspection = inspectPdf(content);
+    console.log(`[${requestId}] PDF inspected in ${Date.now() - startTime}ms:`, JSON.stringify(inspection));
+
+    const findings = evaluatePdf(inspection, pdfPolicy);
+    for (const finding of findings.filter(finding => finding.action === 'approve')) {
+        console.log(`[${requestId}] ℹ️ ${finding.reasonCode} approved by policy: ${finding.reason}`);
+    }
+    return findings;
+}
+
+/**
+ * Runs the checks in order and stops at the first failure. Each check that ran is
+ * appended to `checks`, passed or not.
+ */
+async function validateDocument(bucket: string, key: string, size: number, expectedSize: number | undefined, expectedChecksum: string | undefined, requestId: string,
+                                checks: ValidationCheck[]): Promise<ValidationResult> {
     const startTime = Date.now();
     console.log(`[${requestId}] Starting document validation for ${key}`);
+    const passed = (check: string) => {
+        checks.push({check, passed: true});
+    };
+    const failed = (check: string, reasonCode: QuarantineReasonCode, reason: string): ValidationResult => {
+        checks.push({check, passed: false, reasonCode, reason});
+        return invalid(requestId, reasonCode, reason);
+    };
     
-    console.log(`[${requestId}] Checking file size: ${size} bytes vs max ${MAX_FILE_SIZE} bytes`);
-    if (size > MAX_FILE_SIZE) {
-        const reason = `File size ${size} bytes exceeds maximum allowed size of ${MAX_FILE_SIZE} bytes`;
-        console.log(`[${requestId}] ❌ Size validation failed: ${reason}`);
-        return {
-            isValid: false,
-            reason
-        };
+    console.log(`[${requestId}] Checking file size: ${size} bytes vs policy max ${DOCUMENT_POLICY.maxFileSize} bytes`);
+    if (size > DOCUMENT_POLICY.maxFileSize) {
+        return failed('size', 'FILE_TOO_LARGE', `File size ${size} bytes exceeds maximum allowed size of ${DOCUMENT_POLICY.maxFileSize} bytes`);
     }
+    if (size === 0) {
+        return failed('size', 'EMPTY_DOCUMENT', 'Document has no content');
+    }
+    // Quotas count the declared size, so the stored object must be exactly that large.
+    if (expectedSize !== undefined && size !== expectedSize) {
+        return failed('size', 'SIZE_MISMATCH', `Stored object is ${size} bytes but the upload declared ${expectedSize}`);
+    }
+    passed('size');
     console.log(`[${requestId}] ✅ Size validation passed`);
 
     try {
-        console.log(`[${requestId}] Fetching S3 object metadata for ${bucket}/${key}`);
-        const getObjectCommand = new GetObjectCommand({
-            Bucket: bucket,
-            Key: key
-        });
-        const response = await s3Client.send(getObjectCommand);
-        
-        console.log(`[${requestId}] S3 object metadata retrieved:`);
-        console.log(`[${requestId}]   Content-Type: ${response.ContentType}`);
-        console.log(`[${requestId}]   Content-Length: ${response.ContentLength}`);
-        console.log(`[${requestId}]   Last-Modified: ${response.LastModified}`);
-        console.log(`[${requestId}]   ETag: ${response.ETag}`);
-
-        const mimeType = response.ContentType || mime.lookup(key) || 'application/octet-stream';
-/*
-        console.log(`[${requestId}] Detected MIME type: ${mimeType}`);
-        console.log(`[${requestId}] Checking against allowed types: ${ALLOWED_MIME_TYPES.join(', ')}`);
-        
-        if (!ALLOWED_MIME_TYPES.includes(mimeType)) {
-            const reason = `MIME type ${mimeType} is not allowed. Allowed types: ${ALLOWED_MIME_TYPES.join(', ')}`;
-            console.log(`[${requestId}] ❌ MIME type validation failed: ${reason}`);
-            return {
-                isValid: false,
-                reason
-            };
+        const stored = await readDocument(bucket, key, requestId);
+        const checksumSha256 = computeChecksum(stored.content, requestId);
+        const fail = (check: string, reasonCode: QuarantineReasonCode, reason: string): ValidationResult =>
+            ({...failed(check, reasonCode, reason), checksumSha256});
+
+        if (expectedChecksum && checksumSha256 !== expectedChecksum) {
+            return fail('checksum', 'CHECKSUM_MISMATCH', `Stored bytes hash to ${checksumSha256} but the upload declared ${expectedChecksum}`);
+        }
+        if (expectedChecksum) {
+            passed('checksum');
+            console.log(`[${requestId}] ✅ Checksum matches the declared SHA-256`);
+        }
+
+        const head = stored.content.subarray(0, SNIFF_BYTES);
+        const declaredType = stored.declaredType;
+        console.log(`[${requestId}] Declared MIME type: ${declaredType}`);
+
+        const policy = findPolicyByMimeType(declaredType);
+        if (!policy) {
+            return fail('content-type', 'DISALLOWED_CONTENT_TYPE', `MIME type ${declaredType} is not allowed`);
+        }
+        if (size > policy.maxFileSize) {
+            return fail('content-type', 'FILE_TOO_LARGE', `File size ${size} bytes exceeds the ${policy.label} limit of ${policy.maxFileSize} bytes`);
+        }
+        passed('content-type');
+        console.log(`[${requestId}] ✅ Policy checks passed for ${policy.label} (validators: ${policy.validators.join(', ')})`);
+
+        const sniffed = sniffContent(head);
+        console.log(`[${requestId}] Detected file signature: ${sniffed.kind} (${sniffed.description})`);
+
+        if (sniffed.kind === 'executable') {
+            return fail('file-signature', 'EXECUTABLE_CONTENT', `Document content is a ${sniffed.description}`);
+        }
+        if (sniffed.kind === 'unknown' || sniffed.kind === 'empty') {
+            return fail('file-signature', 'UNRECOGNIZED_CONTENT', `Document content could not be identified (${sniffed.description})`);
+        }
+        passed('file-signature');
+
+        const finding = runDocumentValidators({policy, sniffed, head, size}, passed);
+        if (finding) {
+            return fail(finding.validator, finding.reasonCode, finding.reason);
         }
-        console.log(`[${requestId}] ✅ MIME type validation passed`);
-*/
-
-        const bodyStream = response.Body;
-        if (!bodyStream) {
-            const reason = 'Document has no content';
-            console.log(`[${requestId}] ❌ Content validation failed: ${reason}`);
-            return {
-                isValid: false,
-                reason
-            };
+        console.log(`[${requestId}] ✅ Content validators passed`);
+
+        const extension = getFileExtension(key);
+        const extensionPolicy = findPolicyByExtension(extension);
+        if (!extensionPolicy || !isSignatureCompatible(sniffed, extensionPolicy)) {
+            return fail('extension', 'EXTENSION_MISMATCH',
+                `Document content (${sniffed.mimeType || sniffed.description}) does not match file extension .${extension}`);
+        }
+        passed('extension');
+        console.log(`[${requestId}] ✅ Content matches file extension .${extension}`);
+
+        let annotations: DocumentAnnotation[] = [];
+        if (policy.inspection === 'pdf') {
+            const findings = inspectPdfDocument(stored.content, requestId);
+            const blocking = findings.filter(finding => finding.action === 'quarantine');
+            if (blocking.length) {
+                return fail('pdf-structure', blocking[0]!.reasonCode, blocking.map(finding => finding.reason).join('; '));
+            }
+            annotations = findings.filter(finding => finding.action === 'annotate').map(({reasonCode, reason}) => ({reasonCode, reason}));
+            checks.push({check: 'pdf-structure', passed: true, ...(annotations.length > 0 && {annotations})});
+            console.log(`[${requestId}] ✅ PDF structure passed${annotations.length ? ` with ${annotations.map(annotation => annotation.reasonCode).join(', ')}` : ''}`);
+        }
+
+        if (scanner) {
+            const verdict = await scanDocument(stored.content, requestId);
+            if (verdict.infected) {
+                return fail('malware-scan', verdict.signature, `${scanner.name} detected ${verdict.signature}`);
+            }
+            passed('malware-scan');
         }
-        console.log(`[${requestId}] ✅ Content validation passed`);
 
         const metadata: ValidationResult['metadata'] = {
-            mimeType,
+            mimeType: declaredType,
+            detectedType: sniffed.mimeType || sniffed.kind,
             contentLength: size,
         };
         
-        if (response.LastModified) {
-            metadata.lastModified = response.LastModified;
+        if (stored.lastModified) {
+            metadata.lastModified = stored.lastModified;
         }
 
         const duration = Date.now() - startTime;
@@ -198,9 +683,12 @@ async function validateDocument(bucket: string, key: string, size: number, reque
 
         return {
             isValid: true,
+            checksumSha256,
+            ...(annotations.length > 0 && {annotations}),
             metadata
         };
     } catch (error) {
+        if (error instanceof ScannerUnavailableError) throw error;
         const duration = Date.now() - startTime;
         const errorMessage = `Failed to retrieve document metadata: ${error instanceof Error ? error.message : 'Unknown error'}`;
         console.error(`[${requestId}] ❌ Document validation failed after ${duration}ms`);
@@ -209,22 +697,32 @@ async function validateDocument(bucket: string, key: string, size: number, reque
     }
 }
 
-async function quarantineDocument(bucket: string, key: string, reason: string, requestId: string): Promise<void> {
+async function quarantineDocument(bucket: string, key: string, reasonCode: QuarantineReasonCode, reason: string, requestId: string): Promise<{quarantineKey: string; quarantinedAt: string; eTag?: string; versionId?: string}> {
     const startTime = Date.now();
     const timestamp = new Date().toISOString();
     const quarantineKey = `quarantine/${timestamp}/${key}`;
     
     console.log(`[${requestId}] Starting quarantine process for ${key}`);
-    console.log(`[${requestId}] Quarantine reason: ${reason}`);
+    console.log(`[${requestId}] Quarantine reason: ${reasonCode} - ${reason}`);
     console.log(`[${requestId}] Quarantine destination: ${QUARANTINE_BUCKET}/${quarantineKey}`);
     
     try {
+        // REPLACE drops the source metadata, so carry the upload metadata (owner,
+        // original filename) over explicitly.
+        const source = await s3Client.send(new HeadObjectCommand({
+            Bucket: bucket,
+            Key: key
+        }));
+        const originalMetadata = source.Metadata || {};
+
         const copyCommand = new CopyObjectCommand({
             Bucket: QUARANTINE_BUCKET,
             Key: quarantineKey,
             CopySource: `${bucket}/${key}`,
             Metadata: {
+                ...originalMetadata,
                 'quarantine-reason': reason,
+                'quarantine-reason-code': reasonCode,
                 'quarantine-timestamp': timestamp,
                 'original-bucket': bucket,
                 'original-key': key
@@ -246,6 +744,12 @@ async function quarantineDocument(bucket: string, key: string, reason: string, r
         
         const duration = Date.now() - startTime;
         console.log(`[${requestId}] ✅ Quarantine process completed in ${duration}ms`);
+        return {
+            quarantineKey,
+            quarantinedAt: timestamp,
+            ...(copyResult.CopyObjectResult?.ETag && {eTag: copyResult.CopyObjectResult.ETag}),
+            ...(copyResult.VersionId && {versionId: copyResult.VersionId})
+        };
     } catch (error) {
         const duration = Date.now() - startTime;
         console.error(`[${requestId}] ❌ Quarantine process failed after ${duration}ms`);
@@ -255,9 +759,10 @@ async function quarantineDocument(bucket: string, key: string, reason: string, r
 }
 
 /**
- * Approve a document by updating its validation status using S3 tags
+ * Approve a document by updating its validation status using S3 tags. A document
+ * released from quarantine keeps a `review-status` tag saying so.
  */
-async function approveDocument(bucket: string, key: string, requestId: string): Promise<void> {
+async function approveDocument(bucket: string, key: string, requestId: string, released = false): Promise<string> {
     const startTime = Date.now();
     const validatedAt = new Date().toISOString();
     
@@ -272,14 +777,21 @@ async function approveDocument(bucket: string, key: string, requestId: string):
                     { Key: 'validation-status', Value: 'approved' },
                     { Key: 'download-approved', Value: 'true' },
                     { Key: 'validated-at', Value: validatedAt },
-                    { Key: 'validated-by', Value: 'auto-validation' },
-                    { Key: 'validation-comments', Value: 'Automatically approved after passing all validation checks' }
+                    ...(released ? [
+                        { Key: 'validated-by', Value: 'quarantine-review' },
+                        { Key: 'validation-comments', Value: 'Released from quarantine after manual review' },
+                        { Key: 'review-status', Value: 'released' }
+                    ] : [
+                        { Key: 'validated-by', Value: 'auto-validation' },
+                        { Key: 'validation-comments', Value: 'Automatically approved after passing all validation checks' }
+                    ])
                 ]
             }
         }));
 
         const duration = Date.now() - startTime;
         console.log(`[${requestId}] ✅ Document approved and tags updated in ${duration}ms`);
+        return validatedAt;
         
     } catch (error) {
         const duration = Date.now() - startTime;
@@ -291,7 +803,7 @@ async function approveDocument(bucket: string, key: string, requestId: string):
 /**
  * Reject a document by updating its validation status using S3 tags
  */
-async function rejectDocument(bucket: string, key: string, reason: string, requestId: string): Promise<void> {
+async function rejectDocument(bucket: string, key: string, reason: string, requestId: string): Promise<string> {
     const startTime = Date.now();
     const rejectedAt = new Date().toISOString();
     
@@ -314,6 +826,7 @@ async function rejectDocument(bucket: string, key: string, reason: string, reque
 
         const duration = Date.now() - startTime;
         console.log(`[${requestId}] ✅ Document rejected and tags updated in ${duration}ms`);
+        return rejectedAt;
         
     } catch (error) {
         const duration = Date.now() - startTime;
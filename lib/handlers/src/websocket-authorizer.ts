@@ -0,0 +1,55 @@
+import {APIGatewayAuthorizerResult, APIGatewayRequestAuthorizerEvent} from 'aws-lambda';
+import {callerFromClaims} from './authorization.js';
+import {InvalidTokenError, JwtVerifier} from './jwt-verifier.js';
+
+/** What the authorizer passes on to every route of the connection as `requestContext.authorizer`. */
+export interface SocketAuthorizerContext {
+    userId: string;
+    principal: string;
+}
+
+// Same issuer and audiences as the HTTP API's JWT authorizer.
+const verifier = new JwtVerifier(process.env.JWT_ISSUER!, (process.env.JWT_AUDIENCE ?? '').split(',').filter(Boolean));
+
+function policy(principalId: string, effect: 'Allow' | 'Deny', resource: string, context?: SocketAuthorizerContext): APIGatewayAuthorizerResult {
+    return {
+        principalId,
+        policyDocument: {
+            Version: '2012-10-17',
+            Statement: [{Action: 'execute-api:Invoke', Effect: effect, Resource: resource}]
+        },
+        ...(context && {context: {...context}})
+    };
+}
+
+/**
+ * Authorizes `$connect` on the status WebSocket API. Browsers cannot set headers
+ * on a WebSocket, so the web UI passes its ID token as the `token` query
+ * parameter; an `Authorization` header works too. Any caller with the reader
+ * role may connect; which documents they can follow is checked on subscribe.
+ */
+export const handler = async (event: APIGatewayRequestAuthorizerEvent): Promise<APIGatewayAuthorizerResult> => {
+    const header = event.headers?.Authorization ?? event.headers?.authorization;
+    const token = event.queryStringParameters?.token ?? header?.replace(/^Bearer\s+/i, '');
+    if (!token) {
+        // API Gateway answers 401 for exactly this message.
+        throw new Error('Unauthorized');
+    }
+
+    let caller;
+    try {
+        caller = callerFromClaims(await verifier.verify(token));
+    } catch (error) {
+        if (error instanceof InvalidTokenError) {
+            console.warn(`Rejected WebSocket connection: ${error.message}`);
+            throw new Error('Unauthorized');
+        }
+        throw error;
+    }
+
+    if (!caller.roles.has('reader')) {
+        console.warn(`Denied WebSocket connection to ${caller.principal}: groups [${caller.groups.join(', ')}] grant no reader role`);
+        return policy(caller.userId, 'Deny', event.methodArn);
+    }
+    return policy(caller.userId, 'Allow', event.methodArn, {userId: caller.userId, principal: caller.principal});
+};
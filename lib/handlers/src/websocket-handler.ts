@@ -0,0 +1,110 @@
+import {APIGatewayEventWebsocketRequestContextV2, APIGatewayProxyResultV2, APIGatewayProxyWebsocketEventV2WithRequestContext} from 'aws-lambda';
+import {HttpError} from './http.js';
+import {createDocumentClient, DocumentRecord, DocumentRegistry} from './document-registry.js';
+import {toDocumentStatus} from './document-status.js';
+import {ConnectionRegistry} from './connection-registry.js';
+import {StatusPusher} from './status-push.js';
+import {SocketAuthorizerContext} from './websocket-authorizer.js';
+import {SubscriptionRequest} from './typing.js';
+
+export type SocketEvent = APIGatewayProxyWebsocketEventV2WithRequestContext<APIGatewayEventWebsocketRequestContextV2 & {
+    authorizer?: Partial<SocketAuthorizerContext>;
+}>;
+
+const client = createDocumentClient();
+const registry = new DocumentRegistry(client, process.env.DOCUMENT_TABLE!);
+const connections = new ConnectionRegistry(client, process.env.CONNECTION_TABLE!);
+
+const MAX_SUBSCRIBE_IDS = 100;
+
+/** Replies go back through the management API of the stage the message came in on. */
+function pusherFor({requestContext}: SocketEvent): StatusPusher {
+    return new StatusPusher(`https://${requestContext.domainName}/${requestContext.stage}`, connections);
+}
+
+function userIdOf(event: SocketEvent): string {
+    const userId = event.requestContext.authorizer?.userId;
+    if (!userId) throw new HttpError(401, 'Unauthorized');
+    return userId;
+}
+
+function documentIdsOf(event: SocketEvent): string[] {
+    let body: Partial<SubscriptionRequest>;
+    try {
+        body = JSON.parse(event.body || '{}') as Partial<SubscriptionRequest>;
+    } catch {
+        throw new HttpError(400, 'Messages must be JSON');
+    }
+    const {documentIds} = body;
+    if (!Array.isArray(documentIds) || documentIds.length === 0 || documentIds.some(id => typeof id !== 'string' || !id)) {
+        throw new HttpError(400, 'documentIds must be a non-empty array of document IDs');
+    }
+    const unique = [...new Set(documentIds)];
+    if (unique.length > MAX_SUBSCRIBE_IDS) {
+        throw new HttpError(400, `At most ${MAX_SUBSCRIBE_IDS} document IDs per message, got ${unique.length}`);
+    }
+    return unique;
+}
+
+/**
+ * Subscribes the connection to the caller's own documents among those asked for,
+ * then sends each one's current status so the client starts from a known state.
+ * Unknown IDs and other users' documents come back as `notFound`.
+ */
+async function subscribe(event: SocketEvent, pusher: StatusPusher): Promise<void> {
+    const userId = userIdOf(event);
+    const {connectionId} = event.requestContext;
+    const documentIds = documentIdsOf(event);
+
+    const records = await Promise.all(documentIds.map(documentId => registry.get(documentId)));
+    const owned = records.filter((record): record is DocumentRecord => record?.userId === userId);
+    const notFound = documentIds.filter((_, i) => records[i]?.userId !== userId);
+
+    await connections.subscribe(connectionId, userId, owned.map(({documentId}) => documentId));
+    await pusher.send(connectionId, {type: 'subscribed', documentIds: owned.map(({documentId}) => documentId), notFound});
+    for (const record of owned) {
+        await pusher.send(connectionId, {type: 'document.status', documentId: record.documentId, status: toDocumentStatus(record)});
+    }
+}
+
+async function unsubscribe(event: SocketEvent, pusher: StatusPusher): Promise<void> {
+    const {connectionId} = event.requestContext;
+    const documentIds = documentIdsOf(event);
+    await connections.unsubscribe(connectionId, documentIds);
+    await pusher.send(connectionId, {type: 'unsubscribed', documentIds});
+}
+
+/**
+ * Routes of the status WebSocket API, selected by the message's `action`:
+ * `subscribe` and `unsubscribe` take `{documentIds}`. Errors are sent back on
+ * the connection as `{type: 'error'}` messages.
+ */
+export const handler = async (event: SocketEvent): Promise<APIGatewayProxyResultV2> => {
+    const {routeKey, connectionId, requestId} = event.requestContext;
+    console.log(`[${requestId}] ${routeKey} ${connectionId}`);
+    const pusher = pusherFor(event);
+    try {
+        switch (routeKey) {
+            case '$connect':
+                return {statusCode: 200};
+            case '$disconnect':
+                await connections.disconnect(connectionId);
+                return {statusCode: 200};
+            case 'subscribe':
+                await subscribe(event, pusher);
+                return {statusCode: 200};
+            case 'unsubscribe':
+                await unsubscribe(event, pusher);
+                return {statusCode: 200};
+            default:
+                throw new HttpError(400, 'Unsupported action; send {"action": "subscribe" | "unsubscribe", "documentIds": [...]}');
+        }
+    } catch (error) {
+        console.error('WebSocket handler error:', error);
+        const message = error instanceof Error ? error.message : 'Internal server error';
+        await pusher.send(connectionId, {type: 'error', error: message}).catch(sendError => {
+            console.error(`Could not report the error to ${connectionId}:`, sendError);
+        });
+        return {statusCode: error instanceof HttpError ? error.statusCode : 400};
+    }
+};
@@ -10,9 +10,12 @@ import {DocumentMetadataSchema} from './schemas/document-metadata.schema';
 import * as s3Notifications from 'aws-cdk-lib/aws-s3-notifications';
 import * as lambda from 'aws-cdk-lib/aws-lambda';
 import * as iam from 'aws-cdk-lib/aws-iam';
+import * as dynamodb from 'aws-cdk-lib/aws-dynamodb';
+import * as events from 'aws-cdk-lib/aws-events';
+import * as eventsTargets from 'aws-cdk-lib/aws-events-targets';
 import * as apigatewayv2 from 'aws-cdk-lib/aws-apigatewayv2';
 import * as apigatewayv2Integrations from 'aws-cdk-lib/aws-apigatewayv2-integrations';
-import {HttpJwtAuthorizer} from 'aws-cdk-lib/aws-apigatewayv2-authorizers';
+import {HttpJwtAuthorizer, WebSocketLambdaAuthorizer} from 'aws-cdk-lib/aws-apigatewayv2-authorizers';
 import {NodejsFunction} from 'aws-cdk-lib/aws-lambda-nodejs';
 import {RagContracts, RagDocumentIngestionEnver} from '@odmd-rag/contracts-lib-rag';
 import {Certificate, CertificateValidation} from "aws-cdk-lib/aws-certificatemanager";
@@ -23,11 +26,47 @@ import {OdmdShareOut} from "@ondemandenv/contracts-lib-base";
 export class RagDocumentIngestionStack extends cdk.Stack {
     readonly httpApi: apigatewayv2.HttpApi;
     readonly apiDomain: string;
+    /** `wss://` URL of the status WebSocket API, for the web UI's config. */
+    readonly webSocketUrl: string;
 
     constructor(scope: Construct, myEnver: RagDocumentIngestionEnver, props: cdk.StackProps & {
         zoneName: string;
         hostedZoneId: string;
         webUiDomain: string;
+        /**
+         * App clients of the user pool that call the API with the OAuth client-credentials
+         * grant, e.g. CI and bulk ingestion jobs. Their tokens need `ingest:read` and/or
+         * `ingest:write` scopes; the handlers check them.
+         */
+        serviceClientIds?: string[];
+        /** Overrides of the upload quotas; the handlers' defaults apply to anything left out. */
+        quotas?: {
+            maxBytes?: number;
+            maxDocuments?: number;
+            collectionMaxBytes?: number;
+            collectionMaxDocuments?: number;
+            uploadsPerHour?: number;
+        };
+        /**
+         * clamd that the validation handler streams every document through (INSTREAM,
+         * port 3310 by default). It must be reachable from the validation functions.
+         * Without it documents are not scanned for malware.
+         */
+        malwareScanner?: {
+            host: string;
+            port?: number;
+            timeoutMs?: number;
+        };
+        /**
+         * Overrides of the PDF inspection policy: the page limit, and per finding
+         * whether it quarantines, annotates or simply approves the document. The
+         * handler's defaults apply to anything left out.
+         */
+        pdfInspection?: {
+            maxPages?: number;
+            actions?: Partial<Record<'encrypted' | 'javascript' | 'launch-action' | 'embedded-files' | 'page-limit' | 'needs-ocr',
+                'approve' | 'quarantine' | 'annotate'>>;
+        };
     }) {
         const id = myEnver.getRevStackNames()[0];
         super(scope, id, {...props, crossRegionReferences: props.env!.region !== 'us-east-1'});
@@ -44,6 +83,7 @@ export class RagDocumentIngestionStack extends cdk.Stack {
             autoDeleteObjects: true,
             lifecycleRules: [{
                 expiration: cdk.Duration.days(14),
+                abortIncompleteMultipartUploadAfter: cdk.Duration.days(2),
             }],
         });
 
@@ -80,30 +120,164 @@ export class RagDocumentIngestionStack extends cdk.Stack {
         // 6. Construct the final S3 URL for the contract
         const schemaS3Url = `s3://${documentBucket.bucketName}/schemas/${schemaName}/${schemaFileName}`;
 
+        // Reviewers see when each quarantine copy expires, so the review handler gets the same period.
+        const quarantineRetention = cdk.Duration.days(14);
         const quarantineBucket = new s3.Bucket(this, 'QuarantineBucket', {
             versioned: true,
             removalPolicy: cdk.RemovalPolicy.DESTROY,
             autoDeleteObjects: true,
             lifecycleRules: [{
-                expiration: cdk.Duration.days(14),
+                expiration: quarantineRetention,
             }],
         });
 
+        // Document registry: one item per document ID holding its lifecycle state.
+        const documentTable = new dynamodb.Table(this, 'DocumentRegistryTable', {
+            partitionKey: {name: 'documentId', type: dynamodb.AttributeType.STRING},
+            billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+            removalPolicy: cdk.RemovalPolicy.DESTROY,
+        });
+
+        documentTable.addGlobalSecondaryIndex({
+            indexName: 'userId-createdAt-index',
+            partitionKey: {name: 'userId', type: dynamodb.AttributeType.STRING},
+            sortKey: {name: 'createdAt', type: dynamodb.AttributeType.STRING},
+        });
+        // Duplicate detection: a user's documents by content hash (`${userId}#${sha256}`).
+        documentTable.addGlobalSecondaryIndex({
+            indexName: 'contentKey-createdAt-index',
+            partitionKey: {name: 'contentKey', type: dynamodb.AttributeType.STRING},
+            sortKey: {name: 'createdAt', type: dynamodb.AttributeType.STRING},
+        });
+        // Revision chains: every revision of a document shares the first revision's ID.
+        documentTable.addGlobalSecondaryIndex({
+            indexName: 'lineageId-revision-index',
+            partitionKey: {name: 'lineageId', type: dynamodb.AttributeType.STRING},
+            sortKey: {name: 'revision', type: dynamodb.AttributeType.NUMBER},
+        });
+        // Batch uploads: the documents one `POST /uploads/batch` request registered.
+        documentTable.addGlobalSecondaryIndex({
+            indexName: 'batchId-createdAt-index',
+            partitionKey: {name: 'batchId', type: dynamodb.AttributeType.STRING},
+            sortKey: {name: 'createdAt', type: dynamodb.AttributeType.STRING},
+        });
+        // Quarantine review: every user's documents in one state, least recently updated first.
+        documentTable.addGlobalSecondaryIndex({
+            indexName: 'state-updatedAt-index',
+            partitionKey: {name: 'state', type: dynamodb.AttributeType.STRING},
+            sortKey: {name: 'updatedAt', type: dynamodb.AttributeType.STRING},
+        });
+
+        // Collections: a user's named groups of documents, keyed by user and collection ID.
+        const collectionTable = new dynamodb.Table(this, 'CollectionTable', {
+            partitionKey: {name: 'userId', type: dynamodb.AttributeType.STRING},
+            sortKey: {name: 'collectionId', type: dynamodb.AttributeType.STRING},
+            billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+            removalPolicy: cdk.RemovalPolicy.DESTROY,
+        });
+
+        // Usage counters behind the quotas: stored bytes and documents per user and per
+        // collection, plus hourly upload counts that expire through TTL.
+        const usageTable = new dynamodb.Table(this, 'UsageTable', {
+            partitionKey: {name: 'userId', type: dynamodb.AttributeType.STRING},
+            sortKey: {name: 'usageKey', type: dynamodb.AttributeType.STRING},
+            billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+            timeToLiveAttribute: 'expiresAt',
+            removalPolicy: cdk.RemovalPolicy.DESTROY,
+        });
+
+        // WebSocket subscriptions to document status, keyed by connection and document;
+        // the index finds a document's subscribers and TTL clears abandoned connections.
+        const connectionTable = new dynamodb.Table(this, 'ConnectionTable', {
+            partitionKey: {name: 'connectionId', type: dynamodb.AttributeType.STRING},
+            sortKey: {name: 'documentId', type: dynamodb.AttributeType.STRING},
+            billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+            timeToLiveAttribute: 'expiresAt',
+            removalPolicy: cdk.RemovalPolicy.DESTROY,
+        });
+        connectionTable.addGlobalSecondaryIndex({
+            indexName: 'documentId-connectionId-index',
+            partitionKey: {name: 'documentId', type: dynamodb.AttributeType.STRING},
+            sortKey: {name: 'connectionId', type: dynamodb.AttributeType.STRING},
+        });
+
+        // Append-only history of each document, sorted by `{at}#{sequence}` entry keys.
+        // Entries outlive the document so its history still explains a deletion.
+        const historyTable = new dynamodb.Table(this, 'HistoryTable', {
+            partitionKey: {name: 'documentId', type: dynamodb.AttributeType.STRING},
+            sortKey: {name: 'entryKey', type: dynamodb.AttributeType.STRING},
+            billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+            removalPolicy: cdk.RemovalPolicy.DESTROY,
+        });
+
+        const quotas = props.quotas ?? {};
+        const quotaEnvironment: Record<string, string> = Object.fromEntries(Object.entries({
+            QUOTA_MAX_BYTES: quotas.maxBytes,
+            QUOTA_MAX_DOCUMENTS: quotas.maxDocuments,
+            QUOTA_COLLECTION_MAX_BYTES: quotas.collectionMaxBytes,
+            QUOTA_COLLECTION_MAX_DOCUMENTS: quotas.collectionMaxDocuments,
+            QUOTA_UPLOADS_PER_HOUR: quotas.uploadsPerHour,
+        }).filter(([, value]) => value !== undefined).map(([name, value]) => [name, String(value)]));
+
+        // Custom bus for document lifecycle events; the processing service subscribes with rules.
+        const eventBus = new events.EventBus(this, 'DocumentValidationEventBus', {
+            description: 'RAG document ingestion lifecycle events (Document Validated / Quarantined / Rejected / Superseded / Deleted)',
+        });
+
+        const scanner = props.malwareScanner;
+        const pdfInspection = props.pdfInspection ?? {};
+        const pdfActions = Object.entries(pdfInspection.actions ?? {}).map(([finding, action]) => `${finding}=${action}`);
+        const validationEnvironment: Record<string, string> = {
+            DOCUMENT_BUCKET: documentBucket.bucketName,
+            QUARANTINE_BUCKET: quarantineBucket.bucketName,
+            DOCUMENT_TABLE: documentTable.tableName,
+            USAGE_TABLE: usageTable.tableName,
+            HISTORY_TABLE: historyTable.tableName,
+            EVENT_BUS_NAME: eventBus.eventBusName,
+            EVENT_SOURCE: 'rag.document-ingestion',
+            ...(scanner && {CLAMD_HOST: scanner.host}),
+            ...(scanner?.port !== undefined && {CLAMD_PORT: String(scanner.port)}),
+            ...(scanner?.timeoutMs !== undefined && {CLAMD_TIMEOUT_MS: String(scanner.timeoutMs)}),
+            ...(pdfInspection.maxPages !== undefined && {PDF_MAX_PAGES: String(pdfInspection.maxPages)}),
+            ...(pdfActions.length > 0 && {PDF_FINDING_ACTIONS: pdfActions.join(',')}),
+        };
+
         const validationHandler = new NodejsFunction(this, 'ValidationHandler', {
             entry: __dirname + '/handlers/src/validation-handler.ts',
             runtime: lambda.Runtime.NODEJS_22_X,
             timeout: cdk.Duration.minutes(5),
-            memorySize: 512,
+            // Each document is read into memory once for all of its checks, up to the policy's 100 MB.
+            memorySize: 1024,
             projectRoot: __dirname + '/handlers',
             depsLockFilePath: __dirname + '/handlers/package-lock.json',
-            environment: {
-                DOCUMENT_BUCKET: documentBucket.bucketName,
-                QUARANTINE_BUCKET: quarantineBucket.bucketName,
-            },
+            environment: validationEnvironment,
         });
 
-        documentBucket.grantReadWrite(validationHandler);
-        quarantineBucket.grantReadWrite(validationHandler);
+        // Validates documents left in scan_pending again once the malware scanner is back.
+        const scanRetryHandler = new NodejsFunction(this, 'ScanRetryHandler', {
+            entry: __dirname + '/handlers/src/scan-retry-handler.ts',
+            runtime: lambda.Runtime.NODEJS_22_X,
+            timeout: cdk.Duration.minutes(10),
+            memorySize: 1024,
+            projectRoot: __dirname + '/handlers',
+            depsLockFilePath: __dirname + '/handlers/package-lock.json',
+            environment: validationEnvironment,
+        });
+
+        for (const handler of [validationHandler, scanRetryHandler]) {
+            documentBucket.grantReadWrite(handler);
+            quarantineBucket.grantReadWrite(handler);
+            documentTable.grantReadWriteData(handler);
+            usageTable.grantReadWriteData(handler);
+            historyTable.grantWriteData(handler);
+            eventBus.grantPutEventsTo(handler);
+        }
+
+        new events.Rule(this, 'ScanRetrySchedule', {
+            description: 'Scans documents waiting in scan_pending again',
+            schedule: events.Schedule.rate(cdk.Duration.minutes(15)),
+            targets: [new eventsTargets.LambdaFunction(scanRetryHandler)],
+        });
 
         const consumingSchema = RagContracts.inst.ragDocumentProcessingBuild.envers.find(e =>
             e.documentMetadataSchemaS3Url.producer == myEnver.documentStorageResources.documentMetadataSchemaS3Url
@@ -173,10 +347,46 @@ export class RagDocumentIngestionStack extends cdk.Stack {
             depsLockFilePath: __dirname + '/handlers/package-lock.json',
             environment: {
                 DOCUMENT_BUCKET: documentBucket.bucketName,
+                DOCUMENT_TABLE: documentTable.tableName,
+                COLLECTION_TABLE: collectionTable.tableName,
+                USAGE_TABLE: usageTable.tableName,
+                HISTORY_TABLE: historyTable.tableName,
+                ...quotaEnvironment,
             },
         });
 
         documentBucket.grantPut(uploadUrlHandler);
+        documentTable.grantReadWriteData(uploadUrlHandler);
+        collectionTable.grantReadWriteData(uploadUrlHandler);
+        usageTable.grantReadWriteData(uploadUrlHandler);
+        historyTable.grantWriteData(uploadUrlHandler);
+
+        const multipartUploadHandler = new NodejsFunction(this, 'MultipartUploadHandler', {
+            entry: __dirname + '/handlers/src/multipart-upload-handler.ts',
+            runtime: lambda.Runtime.NODEJS_22_X,
+            timeout: cdk.Duration.seconds(30),
+            memorySize: 256,
+            projectRoot: __dirname + '/handlers',
+            depsLockFilePath: __dirname + '/handlers/package-lock.json',
+            environment: {
+                DOCUMENT_BUCKET: documentBucket.bucketName,
+                DOCUMENT_TABLE: documentTable.tableName,
+                COLLECTION_TABLE: collectionTable.tableName,
+                USAGE_TABLE: usageTable.tableName,
+                HISTORY_TABLE: historyTable.tableName,
+                ...quotaEnvironment,
+            },
+        });
+
+        documentBucket.grantPut(multipartUploadHandler);
+        multipartUploadHandler.addToRolePolicy(new iam.PolicyStatement({
+            actions: ['s3:ListMultipartUploadParts'],
+            resources: [`${documentBucket.bucketArn}/*`],
+        }));
+        documentTable.grantReadWriteData(multipartUploadHandler);
+        collectionTable.grantReadWriteData(multipartUploadHandler);
+        usageTable.grantReadWriteData(multipartUploadHandler);
+        historyTable.grantWriteData(multipartUploadHandler);
 
         const statusHandler = new NodejsFunction(this, 'StatusHandler', {
             entry: __dirname + '/handlers/src/status-handler.ts',
@@ -185,14 +395,124 @@ export class RagDocumentIngestionStack extends cdk.Stack {
             memorySize: 256,
             projectRoot: __dirname + '/handlers',
             depsLockFilePath: __dirname + '/handlers/package-lock.json',
+            environment: {
+                DOCUMENT_TABLE: documentTable.tableName,
+            },
+        });
+
+        documentTable.grantReadData(statusHandler);
+
+        // Aggregates the downstream services' status routes, so it gets their endpoints from the contracts.
+        const pipelineHandler = new NodejsFunction(this, 'PipelineHandler', {
+            entry: __dirname + '/handlers/src/pipeline-handler.ts',
+            runtime: lambda.Runtime.NODEJS_22_X,
+            timeout: cdk.Duration.seconds(30),
+            memorySize: 256,
+            projectRoot: __dirname + '/handlers',
+            depsLockFilePath: __dirname + '/handlers/package-lock.json',
+            environment: {
+                DOCUMENT_TABLE: documentTable.tableName,
+                PROCESSING_STATUS_ENDPOINT: myEnver.processingStatusApiEndpoint.getSharedValue(this),
+                EMBEDDING_STATUS_ENDPOINT: myEnver.embeddingStatusApiEndpoint.getSharedValue(this),
+                VECTOR_STORAGE_STATUS_ENDPOINT: myEnver.vectorStorageStatusApiEndpoint.getSharedValue(this),
+            },
+        });
+
+        documentTable.grantReadData(pipelineHandler);
+
+        const documentsHandler = new NodejsFunction(this, 'DocumentsHandler', {
+            entry: __dirname + '/handlers/src/documents-handler.ts',
+            runtime: lambda.Runtime.NODEJS_22_X,
+            timeout: cdk.Duration.seconds(30),
+            memorySize: 256,
+            projectRoot: __dirname + '/handlers',
+            depsLockFilePath: __dirname + '/handlers/package-lock.json',
             environment: {
                 DOCUMENT_BUCKET: documentBucket.bucketName,
                 QUARANTINE_BUCKET: quarantineBucket.bucketName,
+                DOCUMENT_TABLE: documentTable.tableName,
+                USAGE_TABLE: usageTable.tableName,
+                HISTORY_TABLE: historyTable.tableName,
+                EVENT_BUS_NAME: eventBus.eventBusName,
+                EVENT_SOURCE: 'rag.document-ingestion',
+            },
+        });
+
+        // Deletion reads the owner metadata, then purges the upload, its sidecar and
+        // every version of a quarantine copy.
+        documentBucket.grantRead(documentsHandler);
+        documentBucket.grantDelete(documentsHandler);
+        quarantineBucket.grantRead(documentsHandler);
+        quarantineBucket.grantDelete(documentsHandler);
+        documentTable.grantReadWriteData(documentsHandler);
+        usageTable.grantReadWriteData(documentsHandler);
+        historyTable.grantReadWriteData(documentsHandler);
+        eventBus.grantPutEventsTo(documentsHandler);
+
+        const collectionsHandler = new NodejsFunction(this, 'CollectionsHandler', {
+            entry: __dirname + '/handlers/src/collections-handler.ts',
+            runtime: lambda.Runtime.NODEJS_22_X,
+            timeout: cdk.Duration.seconds(30),
+            memorySize: 256,
+            projectRoot: __dirname + '/handlers',
+            depsLockFilePath: __dirname + '/handlers/package-lock.json',
+            environment: {
+                DOCUMENT_TABLE: documentTable.tableName,
+                COLLECTION_TABLE: collectionTable.tableName,
+            },
+        });
+
+        // Deleting a collection first checks the registry for documents still in it.
+        documentTable.grantReadData(collectionsHandler);
+        collectionTable.grantReadWriteData(collectionsHandler);
+
+        // Reviewer-only: inspects quarantined documents, and releases or rejects them.
+        const reviewHandler = new NodejsFunction(this, 'ReviewHandler', {
+            entry: __dirname + '/handlers/src/review-handler.ts',
+            runtime: lambda.Runtime.NODEJS_22_X,
+            timeout: cdk.Duration.seconds(30),
+            memorySize: 256,
+            projectRoot: __dirname + '/handlers',
+            depsLockFilePath: __dirname + '/handlers/package-lock.json',
+            environment: {
+                QUARANTINE_BUCKET: quarantineBucket.bucketName,
+                QUARANTINE_RETENTION_DAYS: String(quarantineRetention.toDays()),
+                DOCUMENT_TABLE: documentTable.tableName,
+                HISTORY_TABLE: historyTable.tableName,
+            },
+        });
+
+        // A release copies the quarantine copy back to its original key with tags; a
+        // rejection purges every version of it.
+        quarantineBucket.grantRead(reviewHandler);
+        quarantineBucket.grantDelete(reviewHandler);
+        documentBucket.grantPut(reviewHandler);
+        documentTable.grantReadWriteData(reviewHandler);
+        historyTable.grantWriteData(reviewHandler);
+
+        const usageHandler = new NodejsFunction(this, 'UsageHandler', {
+            entry: __dirname + '/handlers/src/usage-handler.ts',
+            runtime: lambda.Runtime.NODEJS_22_X,
+            timeout: cdk.Duration.seconds(10),
+            memorySize: 128,
+            projectRoot: __dirname + '/handlers',
+            depsLockFilePath: __dirname + '/handlers/package-lock.json',
+            environment: {
+                USAGE_TABLE: usageTable.tableName,
+                ...quotaEnvironment,
             },
         });
 
-        documentBucket.grantRead(statusHandler);
-        quarantineBucket.grantRead(statusHandler);
+        usageTable.grantReadData(usageHandler);
+
+        const policyHandler = new NodejsFunction(this, 'PolicyHandler', {
+            entry: __dirname + '/handlers/src/policy-handler.ts',
+            runtime: lambda.Runtime.NODEJS_22_X,
+            timeout: cdk.Duration.seconds(10),
+            memorySize: 128,
+            projectRoot: __dirname + '/handlers',
+            depsLockFilePath: __dirname + '/handlers/package-lock.json',
+        });
 
         const allowedOrigins = ['http://localhost:5173'];
         allowedOrigins.push(`https://${props.webUiDomain}`);
@@ -214,6 +534,7 @@ export class RagDocumentIngestionStack extends cdk.Stack {
                 'X-Amz-Credential',
                 'X-Amz-Expires',
                 'x-amz-checksum-crc32',
+                'x-amz-checksum-sha256',
                 'x-amz-meta-*',
                 'x-amz-sdk-checksum-algorithm',
                 'Authorization'
@@ -231,9 +552,10 @@ export class RagDocumentIngestionStack extends cdk.Stack {
         this.httpApi = new apigatewayv2.HttpApi(this, 'DocumentIngestionApi', {
             apiName: 'RAG Document Ingestion Service',
             description: 'HTTP API for RAG document ingestion operations with IAM authentication',
+            // Client-credentials tokens carry no `aud`; the authorizer matches their `client_id` against the same list.
             defaultAuthorizer: new HttpJwtAuthorizer('Auth',
                 `https://${providerName}`,
-                {jwtAudience: [clientId]}
+                {jwtAudience: [clientId, ...(props.serviceClientIds ?? [])]}
             ),
             corsPreflight: {
                 allowOrigins: allowedOrigins,
@@ -263,10 +585,50 @@ export class RagDocumentIngestionStack extends cdk.Stack {
 
         });
 
+        const uploadIntegration = new apigatewayv2Integrations.HttpLambdaIntegration('UploadIntegration', uploadUrlHandler);
+
         this.httpApi.addRoutes({
             path: '/upload',
             methods: [apigatewayv2.HttpMethod.POST],
-            integration: new apigatewayv2Integrations.HttpLambdaIntegration('UploadIntegration', uploadUrlHandler),
+            integration: uploadIntegration,
+        });
+
+        this.httpApi.addRoutes({
+            path: '/uploads/batch',
+            methods: [apigatewayv2.HttpMethod.POST],
+            integration: uploadIntegration,
+        });
+
+        this.httpApi.addRoutes({
+            path: '/uploads/batch/{batchId}',
+            methods: [apigatewayv2.HttpMethod.GET],
+            integration: uploadIntegration,
+        });
+
+        const multipartIntegration = new apigatewayv2Integrations.HttpLambdaIntegration('MultipartUploadIntegration', multipartUploadHandler);
+
+        this.httpApi.addRoutes({
+            path: '/uploads/multipart',
+            methods: [apigatewayv2.HttpMethod.POST],
+            integration: multipartIntegration,
+        });
+
+        this.httpApi.addRoutes({
+            path: '/uploads/multipart/{documentId}/parts',
+            methods: [apigatewayv2.HttpMethod.GET, apigatewayv2.HttpMethod.POST],
+            integration: multipartIntegration,
+        });
+
+        this.httpApi.addRoutes({
+            path: '/uploads/multipart/{documentId}/complete',
+            methods: [apigatewayv2.HttpMethod.POST],
+            integration: multipartIntegration,
+        });
+
+        this.httpApi.addRoutes({
+            path: '/uploads/multipart/{documentId}',
+            methods: [apigatewayv2.HttpMethod.DELETE],
+            integration: multipartIntegration,
         });
 
         this.httpApi.addRoutes({
@@ -275,6 +637,215 @@ export class RagDocumentIngestionStack extends cdk.Stack {
             integration: new apigatewayv2Integrations.HttpLambdaIntegration('StatusIntegration', statusHandler),
         });
 
+        const pipelineIntegration = new apigatewayv2Integrations.HttpLambdaIntegration('PipelineIntegration', pipelineHandler);
+
+        this.httpApi.addRoutes({
+            path: '/status/batch',
+            methods: [apigatewayv2.HttpMethod.POST],
+            integration: pipelineIntegration,
+        });
+
+        this.httpApi.addRoutes({
+            path: '/pipeline/{documentId}',
+            methods: [apigatewayv2.HttpMethod.GET],
+            integration: pipelineIntegration,
+        });
+
+        const documentsIntegration = new apigatewayv2Integrations.HttpLambdaIntegration('DocumentsIntegration', documentsHandler);
+
+        this.httpApi.addRoutes({
+            path: '/documents',
+            methods: [apigatewayv2.HttpMethod.GET],
+            integration: documentsIntegration,
+        });
+
+        this.httpApi.addRoutes({
+            path: '/documents/{documentId}',
+            methods: [apigatewayv2.HttpMethod.DELETE],
+            integration: documentsIntegration,
+        });
+
+        this.httpApi.addRoutes({
+            path: '/documents/{documentId}/history',
+            methods: [apigatewayv2.HttpMethod.GET],
+            integration: documentsIntegration,
+        });
+
+        const collectionsIntegration = new apigatewayv2Integrations.HttpLambdaIntegration('CollectionsIntegration', collectionsHandler);
+
+        this.httpApi.addRoutes({
+            path: '/collections',
+            methods: [apigatewayv2.HttpMethod.GET, apigatewayv2.HttpMethod.POST],
+            integration: collectionsIntegration,
+        });
+
+        this.httpApi.addRoutes({
+            path: '/collections/{collectionId}',
+            methods: [apigatewayv2.HttpMethod.DELETE],
+            integration: collectionsIntegration,
+        });
+
+        this.httpApi.addRoutes({
+            path: '/usage',
+            methods: [apigatewayv2.HttpMethod.GET],
+            integration: new apigatewayv2Integrations.HttpLambdaIntegration('UsageIntegration', usageHandler),
+        });
+
+        const reviewIntegration = new apigatewayv2Integrations.HttpLambdaIntegration('ReviewIntegration', reviewHandler);
+
+        this.httpApi.addRoutes({
+            path: '/review/quarantine',
+            methods: [apigatewayv2.HttpMethod.GET],
+            integration: reviewIntegration,
+        });
+
+        this.httpApi.addRoutes({
+            path: '/review/quarantine/{documentId}/download',
+            methods: [apigatewayv2.HttpMethod.GET],
+            integration: reviewIntegration,
+        });
+
+        this.httpApi.addRoutes({
+            path: '/review/quarantine/{documentId}/release',
+            methods: [apigatewayv2.HttpMethod.POST],
+            integration: reviewIntegration,
+        });
+
+        this.httpApi.addRoutes({
+            path: '/review/quarantine/{documentId}/reject',
+            methods: [apigatewayv2.HttpMethod.POST],
+            integration: reviewIntegration,
+        });
+
+        this.httpApi.addRoutes({
+            path: '/policy',
+            methods: [apigatewayv2.HttpMethod.GET],
+            integration: new apigatewayv2Integrations.HttpLambdaIntegration('PolicyIntegration', policyHandler),
+        });
+
+        // Status push: clients subscribe to documents over a WebSocket API instead of polling.
+        // Browsers cannot send an Authorization header on a WebSocket, so a Lambda authorizer
+        // verifies the same JWT from the `token` query parameter.
+        const webSocketAuthorizerHandler = new NodejsFunction(this, 'WebSocketAuthorizerHandler', {
+            entry: __dirname + '/handlers/src/websocket-authorizer.ts',
+            runtime: lambda.Runtime.NODEJS_22_X,
+            timeout: cdk.Duration.seconds(10),
+            memorySize: 256,
+            projectRoot: __dirname + '/handlers',
+            depsLockFilePath: __dirname + '/handlers/package-lock.json',
+            environment: {
+                JWT_ISSUER: `https://${providerName}`,
+                JWT_AUDIENCE: [clientId, ...(props.serviceClientIds ?? [])].join(','),
+            },
+        });
+
+        const webSocketHandler = new NodejsFunction(this, 'WebSocketHandler', {
+            entry: __dirname + '/handlers/src/websocket-handler.ts',
+            runtime: lambda.Runtime.NODEJS_22_X,
+            timeout: cdk.Duration.seconds(30),
+            memorySize: 256,
+            projectRoot: __dirname + '/handlers',
+            depsLockFilePath: __dirname + '/handlers/package-lock.json',
+            environment: {
+                DOCUMENT_TABLE: documentTable.tableName,
+                CONNECTION_TABLE: connectionTable.tableName,
+            },
+        });
+
+        documentTable.grantReadData(webSocketHandler);
+        connectionTable.grantReadWriteData(webSocketHandler);
+
+        const webSocketIntegration = new apigatewayv2Integrations.WebSocketLambdaIntegration('WebSocketIntegration', webSocketHandler);
+
+        const webSocketApi = new apigatewayv2.WebSocketApi(this, 'DocumentStatusWebSocketApi', {
+            apiName: 'RAG Document Ingestion Status',
+            description: 'Pushes document status changes to subscribed clients',
+            routeSelectionExpression: '$request.body.action',
+            connectRouteOptions: {
+                integration: webSocketIntegration,
+                authorizer: new WebSocketLambdaAuthorizer('WebSocketAuth', webSocketAuthorizerHandler, {
+                    identitySource: ['route.request.querystring.token'],
+                }),
+            },
+            disconnectRouteOptions: {integration: webSocketIntegration},
+            defaultRouteOptions: {integration: webSocketIntegration},
+        });
+        webSocketApi.addRoute('subscribe', {integration: webSocketIntegration});
+        webSocketApi.addRoute('unsubscribe', {integration: webSocketIntegration});
+
+        const webSocketStage = new apigatewayv2.WebSocketStage(this, 'DocumentStatusWebSocketStage', {
+            webSocketApi,
+            stageName: 'live',
+            autoDeploy: true,
+        });
+        webSocketApi.grantManageConnections(webSocketHandler);
+        this.webSocketUrl = webSocketStage.url;
+
+        const statusPushHandler = new NodejsFunction(this, 'StatusPushHandler', {
+            entry: __dirname + '/handlers/src/status-push-handler.ts',
+            runtime: lambda.Runtime.NODEJS_22_X,
+            timeout: cdk.Duration.seconds(30),
+            memorySize: 256,
+            projectRoot: __dirname + '/handlers',
+            depsLockFilePath: __dirname + '/handlers/package-lock.json',
+            environment: {
+                DOCUMENT_TABLE: documentTable.tableName,
+                CONNECTION_TABLE: connectionTable.tableName,
+                WEBSOCKET_CALLBACK_URL: webSocketStage.callbackUrl,
+            },
+        });
+
+        documentTable.grantReadData(statusPushHandler);
+        connectionTable.grantReadWriteData(statusPushHandler);
+        webSocketApi.grantManageConnections(statusPushHandler);
+
+        // Appends the downstream stage changes to the document histories.
+        const stageHistoryHandler = new NodejsFunction(this, 'StageHistoryHandler', {
+            entry: __dirname + '/handlers/src/stage-history-handler.ts',
+            runtime: lambda.Runtime.NODEJS_22_X,
+            timeout: cdk.Duration.seconds(30),
+            memorySize: 256,
+            projectRoot: __dirname + '/handlers',
+            depsLockFilePath: __dirname + '/handlers/package-lock.json',
+            environment: {
+                HISTORY_TABLE: historyTable.tableName,
+            },
+        });
+
+        historyTable.grantWriteData(stageHistoryHandler);
+
+        // This service's own lifecycle events, and the stage changes the downstream services report.
+        new events.Rule(this, 'DocumentLifecyclePushRule', {
+            eventBus,
+            eventPattern: {source: ['rag.document-ingestion']},
+            targets: [new eventsTargets.LambdaFunction(statusPushHandler)],
+        });
+        new events.Rule(this, 'DocumentStagePushRule', {
+            eventBus,
+            eventPattern: {detailType: ['Document Stage Changed']},
+            targets: [
+                new eventsTargets.LambdaFunction(statusPushHandler),
+                new eventsTargets.LambdaFunction(stageHistoryHandler),
+            ],
+        });
+
+        eventBus.addToResourcePolicy(new iam.PolicyStatement({
+            sid: 'DownstreamStageEvents',
+            effect: iam.Effect.ALLOW,
+            principals: [new iam.AccountPrincipal(this.account)],
+            actions: ['events:PutEvents'],
+            resources: [eventBus.eventBusArn],
+            conditions: {
+                'StringLike': {
+                    'aws:PrincipalArn': [
+                        `arn:aws:iam::${this.account}:role/RagDocumentProcessingStack-*`,
+                        `arn:aws:iam::${this.account}:role/RagEmbeddingStack-*`,
+                        `arn:aws:iam::${this.account}:role/RagVectorStorageStack-*`
+                    ]
+                }
+            }
+        }));
+
         new cdk.CfnOutput(this, 'CorsAllowedOrigins', {
             value: allowedOrigins.join(', '),
             description: 'CORS allowed origins for API Gateway',
@@ -326,6 +897,42 @@ export class RagDocumentIngestionStack extends cdk.Stack {
             exportName: `${this.stackName}-QuarantineBucket`,
         });
 
+        new cdk.CfnOutput(this, 'DocumentTableName', {
+            value: documentTable.tableName,
+            exportName: `${this.stackName}-DocumentTable`,
+        });
+
+        new cdk.CfnOutput(this, 'CollectionTableName', {
+            value: collectionTable.tableName,
+            exportName: `${this.stackName}-CollectionTable`,
+        });
+
+        new cdk.CfnOutput(this, 'UsageTableName', {
+            value: usageTable.tableName,
+            exportName: `${this.stackName}-UsageTable`,
+        });
+
+        new cdk.CfnOutput(this, 'DocumentEventBusName', {
+            value: eventBus.eventBusName,
+            exportName: `${this.stackName}-DocumentEventBus`,
+        });
+
+        new cdk.CfnOutput(this, 'ConnectionTableName', {
+            value: connectionTable.tableName,
+            exportName: `${this.stackName}-ConnectionTable`,
+        });
+
+        new cdk.CfnOutput(this, 'HistoryTableName', {
+            value: historyTable.tableName,
+            exportName: `${this.stackName}-HistoryTable`,
+        });
+
+        new cdk.CfnOutput(this, 'WebSocketUrl', {
+            value: this.webSocketUrl,
+            exportName: `${this.stackName}-WebSocketUrl`,
+            description: 'Status WebSocket API; connect with ?token=<JWT> and send {"action": "subscribe", "documentIds": [...]}',
+        });
+
         new cdk.CfnOutput(this, 'ApiEndpoint-out', {
             value: `https://${this.apiDomain}`,
             exportName: `${this.stackName}-ApiEndpoint`,
@@ -365,6 +972,7 @@ export class RagDocumentIngestionStack extends cdk.Stack {
                 [myEnver.documentStorageResources.documentBucket, documentBucket.bucketName],
                 [myEnver.documentStorageResources.quarantineBucket, quarantineBucket.bucketName],
                 [myEnver.documentStorageResources.documentMetadataSchemaS3Url, schemaS3Url],
+                [myEnver.documentValidationEvents.eventBridge, eventBus.eventBusName],
 
                 [myEnver.authCallbackUrl, `https://${props.webUiDomain}/index.html?callback`],
                 [myEnver.logoutUrl, `https://${props.webUiDomain}/index.html?logout`],
@@ -48,6 +48,7 @@ export class RagDocumentIngestionWebUiStack extends cdk.Stack {
             aws: {
                 region: this.region,
                 apiEndpoint: `https://${this.mainStack.apiDomain}`,
+                webSocketEndpoint: this.mainStack.webSocketUrl,
             },
             google: {
                 clientId: clientId,
@@ -0,0 +1,198 @@
+import { createHash } from 'crypto';
+import { APIGatewayProxyEventV2, APIGatewayProxyResultV2 } from 'aws-lambda';
+import { documentRegistryTable, InMemoryDynamoDB, withCollectionTable, withUsageTable } from './helpers/in-memory-dynamodb';
+import { apiEvent } from './helpers/events';
+import { authorize, callerFromClaims, parseGroups, rolesFromGroups, rolesFromScopes } from '../../lib/handlers/src/authorization';
+import { HttpError } from '../../lib/handlers/src/http';
+
+type Result = Exclude<APIGatewayProxyResultV2, string>;
+type Handler = (event: APIGatewayProxyEventV2) => Promise<APIGatewayProxyResultV2>;
+
+describe('Authorization', () => {
+    describe('parseGroups', () => {
+        it.each([
+            ['an array', ['odmd-rag-uploader', 'odmd-rag-admin'], ['odmd-rag-uploader', 'odmd-rag-admin']],
+            ['the JWT authorizer\'s flattened form', '[odmd-rag-uploader odmd-rag-admin]', ['odmd-rag-uploader', 'odmd-rag-admin']],
+            ['a single flattened group', '[odmd-rag-uploader]', ['odmd-rag-uploader']],
+            ['a JSON array string', '["odmd-rag-uploader","odmd-rag-admin"]', ['odmd-rag-uploader', 'odmd-rag-admin']],
+            ['a comma-separated list', 'odmd-rag-uploader, odmd-rag-admin', ['odmd-rag-uploader', 'odmd-rag-admin']],
+            ['a bare group name', 'odmd-rag-uploader', ['odmd-rag-uploader']],
+            ['an empty flattened array', '[]', []],
+            ['a missing claim', undefined, []],
+            ['a non-string claim', 42, []],
+            ['an array with non-strings', ['odmd-rag-uploader', 7, ''], ['odmd-rag-uploader']]
+        ])('reads %s', (_, claim, expected) => {
+            expect(parseGroups(claim)).toEqual(expected);
+        });
+    });
+
+    it('maps groups to roles, with admin holding every role and uploaders able to read', () => {
+        expect(rolesFromGroups(['odmd-rag-uploader'])).toEqual(new Set(['uploader', 'reader']));
+        expect([...rolesFromGroups(['odmd-rag-reviewer', 'other-group'])]).toEqual(['reviewer']);
+        expect(rolesFromGroups(['odmd-rag-admin'])).toEqual(new Set(['admin', 'uploader', 'reviewer', 'reader']));
+        expect(rolesFromGroups(['odmd-rag-uploaders', 'ODMD-RAG-ADMIN']).size).toBe(0);
+    });
+
+    it('maps ingest scopes to roles, with or without the resource server prefix', () => {
+        expect(rolesFromScopes(['rag-ingestion/ingest:read'])).toEqual(new Set(['reader']));
+        expect(rolesFromScopes(['ingest:write'])).toEqual(new Set(['uploader', 'reader']));
+        expect(rolesFromScopes(['openid', 'rag-ingestion/ingest:admin']).size).toBe(0);
+    });
+
+    it('builds a user caller from ID token claims', () => {
+        const caller = callerFromClaims({ sub: 'user-1', email: 'a@example.com', 'cognito:groups': '[odmd-rag-reviewer]', exp: 0, iat: 0 });
+
+        expect(caller).toEqual({
+            userId: 'user-1', email: 'a@example.com', principalType: 'user', principal: 'a@example.com',
+            groups: ['odmd-rag-reviewer'], scopes: [], roles: new Set(['reviewer'])
+        });
+        expect(callerFromClaims({ sub: 'user-1', exp: 0, iat: 0 }).principal).toBe('user-1');
+    });
+
+    it('builds a service caller from a client-credentials access token, ignoring groups', () => {
+        const caller = callerFromClaims({
+            sub: 'ci-client', client_id: 'ci-client', token_use: 'access', scope: 'rag-ingestion/ingest:read rag-ingestion/ingest:write',
+            'cognito:groups': ['odmd-rag-admin'], exp: 0, iat: 0
+        });
+
+        expect(caller).toEqual({
+            userId: 'ci-client', principalType: 'service', principal: 'service:ci-client', groups: [],
+            scopes: ['rag-ingestion/ingest:read', 'rag-ingestion/ingest:write'], roles: new Set(['uploader', 'reader'])
+        });
+    });
+
+    it('treats a user\'s access token as the user', () => {
+        const caller = callerFromClaims({
+            sub: 'user-1', client_id: 'web-client', token_use: 'access', username: 'alice', scope: 'openid',
+            'cognito:groups': ['odmd-rag-uploader'], exp: 0, iat: 0
+        });
+
+        expect(caller).toMatchObject({ principalType: 'user', roles: new Set(['uploader', 'reader']) });
+    });
+
+    describe('authorize', () => {
+        beforeEach(() => {
+            jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+        });
+
+        afterEach(() => {
+            jest.restoreAllMocks();
+        });
+
+        it('accepts a caller holding any of the allowed roles', () => {
+            const event = apiEvent({ userId: 'user-1', groups: '[odmd-rag-reviewer]' });
+
+            expect(authorize(event, 'uploader', 'reviewer').userId).toBe('user-1');
+            expect(authorize(apiEvent({ userId: 'user-1', groups: ['odmd-rag-admin'] }), 'reviewer').roles.has('admin')).toBe(true);
+        });
+
+        it.each([
+            ['no groups claim', null],
+            ['no groups', []],
+            ['only unrelated groups', '[some-other-app]'],
+            ['a different role', ['odmd-rag-reviewer']]
+        ])('rejects a caller with %s with a 403', (_, groups) => {
+            const event = apiEvent({ userId: 'user-1', groups });
+
+            expect(() => authorize(event, 'uploader')).toThrow(new HttpError(403, 'Forbidden: this action requires the uploader role'));
+        });
+    });
+
+    describe('handlers', () => {
+        let dynamo: InMemoryDynamoDB;
+
+        beforeEach(() => {
+            dynamo = withUsageTable(withCollectionTable(documentRegistryTable(process.env.DOCUMENT_TABLE!), process.env.COLLECTION_TABLE!), process.env.USAGE_TABLE!);
+            dynamo.install();
+            jest.spyOn(console, 'log').mockImplementation(() => undefined);
+            jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+            jest.spyOn(console, 'error').mockImplementation(() => undefined);
+        });
+
+        afterEach(() => {
+            jest.restoreAllMocks();
+        });
+
+        const routes: [string, string, string, Record<string, string>, string, () => Handler][] = [
+            ['upload-url-handler', 'POST', '/upload', {}, 'uploader', () => require('../../lib/handlers/src/upload-url-handler').handler],
+            ['upload-url-handler', 'POST', '/uploads/batch', {}, 'uploader', () => require('../../lib/handlers/src/upload-url-handler').handler],
+            ['upload-url-handler', 'GET', '/uploads/batch/{batchId}', { batchId: 'batch-1' }, 'reader', () => require('../../lib/handlers/src/upload-url-handler').handler],
+            ['multipart-upload-handler', 'POST', '/uploads/multipart', {}, 'uploader', () => require('../../lib/handlers/src/multipart-upload-handler').handler],
+            ['documents-handler', 'GET', '/documents', {}, 'reader', () => require('../../lib/handlers/src/documents-handler').handler],
+            ['documents-handler', 'DELETE', '/documents/{documentId}', { documentId: 'doc-1' }, 'uploader', () => require('../../lib/handlers/src/documents-handler').handler],
+            ['documents-handler', 'GET', '/documents/{documentId}/history', { documentId: 'doc-1' }, 'reader', () => require('../../lib/handlers/src/documents-handler').handler],
+            ['collections-handler', 'GET', '/collections', {}, 'reader', () => require('../../lib/handlers/src/collections-handler').handler],
+            ['collections-handler', 'POST', '/collections', {}, 'uploader', () => require('../../lib/handlers/src/collections-handler').handler],
+            ['status-handler', 'GET', '/status/{documentId}', { documentId: 'doc-1' }, 'reader', () => require('../../lib/handlers/src/status-handler').handler],
+            ['pipeline-handler', 'POST', '/status/batch', {}, 'reader', () => require('../../lib/handlers/src/pipeline-handler').handler],
+            ['pipeline-handler', 'GET', '/pipeline/{documentId}', { documentId: 'doc-1' }, 'reader', () => require('../../lib/handlers/src/pipeline-handler').handler],
+            ['policy-handler', 'GET', '/policy', {}, 'reader', () => require('../../lib/handlers/src/policy-handler').handler],
+            ['usage-handler', 'GET', '/usage', {}, 'reader', () => require('../../lib/handlers/src/usage-handler').handler]
+        ];
+
+        it.each(routes)('%s answers %s %s from a caller without the role with 403 and touches nothing', async (_, method, path, pathParameters, role, load) => {
+            const send = jest.spyOn(dynamo, 'send');
+
+            const result = await load()(apiEvent({
+                userId: 'user-1',
+                groups: '[odmd-rag-reviewer]',
+                method,
+                path,
+                body: {},
+                pathParameters
+            })) as Result;
+
+            expect(result.statusCode).toBe(403);
+            expect(JSON.parse(result.body!)).toEqual({
+                success: false,
+                timestamp: expect.any(String),
+                error: `Forbidden: this action requires the ${role} role`
+            });
+            expect(send).not.toHaveBeenCalled();
+        });
+
+        it('lets an admin through', async () => {
+            const { handler } = require('../../lib/handlers/src/collections-handler');
+
+            const result = await handler(apiEvent({ userId: 'user-1', groups: '[odmd-rag-admin]', method: 'GET', path: '/collections' })) as Result;
+
+            expect(result.statusCode).toBe(200);
+        });
+
+        function serviceEvent(scope: string, method: string, path: string, body?: unknown) {
+            return apiEvent({
+                userId: 'ci-client',
+                groups: null,
+                claims: { token_use: 'access', client_id: 'ci-client', scope },
+                method,
+                path,
+                ...(body !== undefined && { body })
+            });
+        }
+
+        it('lets a service client with ingest:write upload and records it as the uploader', async () => {
+            const { handler } = require('../../lib/handlers/src/upload-url-handler');
+            const checksumSha256 = createHash('sha256').update('generated').digest('base64');
+
+            const result = await handler(serviceEvent('rag-ingestion/ingest:write', 'POST', '/upload', {
+                fileName: 'generated.md', fileType: 'text/markdown', fileSize: 64, checksumSha256
+            })) as Result;
+
+            expect(result.statusCode).toBe(200);
+            const [item] = dynamo.items(process.env.DOCUMENT_TABLE!);
+            expect(item).toMatchObject({ userId: 'ci-client', uploadedBy: 'service:ci-client', uploaderType: 'service' });
+            expect(item!.userEmail).toBeUndefined();
+        });
+
+        it('keeps a service client with only ingest:read to the read routes', async () => {
+            const upload = require('../../lib/handlers/src/upload-url-handler').handler;
+            const documents = require('../../lib/handlers/src/documents-handler').handler;
+
+            const denied = await upload(serviceEvent('rag-ingestion/ingest:read', 'POST', '/upload', {})) as Result;
+            const listed = await documents(serviceEvent('rag-ingestion/ingest:read', 'GET', '/documents')) as Result;
+
+            expect(denied.statusCode).toBe(403);
+            expect(listed.statusCode).toBe(200);
+        });
+    });
+});
@@ -0,0 +1,103 @@
+import { PutCommand } from '@aws-sdk/lib-dynamodb';
+import { APIGatewayProxyResultV2 } from 'aws-lambda';
+import { documentRegistryTable, InMemoryDynamoDB, withCollectionTable } from './helpers/in-memory-dynamodb';
+import { apiEvent } from './helpers/events';
+import { handler } from '../../lib/handlers/src/collections-handler';
+import { defaultCollectionId } from '../../lib/handlers/src/collection-registry';
+
+const DOCUMENT_TABLE = process.env.DOCUMENT_TABLE!;
+const COLLECTION_TABLE = process.env.COLLECTION_TABLE!;
+
+type Result = Exclude<APIGatewayProxyResultV2, string>;
+
+describe('Collections Handler', () => {
+    let dynamo: InMemoryDynamoDB;
+
+    beforeEach(() => {
+        dynamo = withCollectionTable(documentRegistryTable(DOCUMENT_TABLE), COLLECTION_TABLE);
+        dynamo.install();
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    async function call(method: string, path: string, options: { body?: unknown; collectionId?: string; userId?: string } = {}) {
+        const result = await handler(apiEvent({
+            userId: options.userId ?? 'user-1',
+            method,
+            path,
+            ...(options.body !== undefined && { body: options.body }),
+            ...(options.collectionId && { pathParameters: { collectionId: options.collectionId } })
+        })) as Result;
+        return { statusCode: result.statusCode, body: JSON.parse(result.body!) };
+    }
+
+    const create = (name: string, userId = 'user-1') => call('POST', '/collections', { body: { name }, userId });
+    const remove = (collectionId: string, userId = 'user-1') => call('DELETE', '/collections/{collectionId}', { collectionId, userId });
+
+    async function seedDocument(collectionId: string | undefined, state: string) {
+        await dynamo.send(new PutCommand({
+            TableName: DOCUMENT_TABLE,
+            Item: {
+                documentId: `doc-${state}`, userId: 'user-1', state, fileName: 'a.pdf', fileType: 'application/pdf', fileSize: 1,
+                createdAt: '2025-01-01T00:00:00.000Z', updatedAt: '2025-01-01T00:00:00.000Z', bucket: 'b', objectKey: 'k',
+                ...(collectionId && { collectionId })
+            }
+        }));
+    }
+
+    it('lists the default collection first, creating it on first use', async () => {
+        await create('Research');
+        await create('Onboarding');
+
+        const { statusCode, body } = await call('GET', '/collections');
+
+        expect(statusCode).toBe(200);
+        expect(body.data.collections).toEqual([
+            { collectionId: defaultCollectionId('user-1'), name: 'Default', isDefault: true, createdAt: expect.any(String) },
+            expect.objectContaining({ name: 'Onboarding', isDefault: false }),
+            expect.objectContaining({ name: 'Research', isDefault: false })
+        ]);
+        expect((await call('GET', '/collections', { userId: 'user-2' })).body.data.collections).toHaveLength(1);
+    });
+
+    it('validates names and keeps them unique per user', async () => {
+        const { statusCode, body } = await call('POST', '/collections', { body: { name: ' Research ', description: 'Papers' } });
+        expect(statusCode).toBe(200);
+        expect(body.data).toMatchObject({ collectionId: expect.any(String), name: 'Research', description: 'Papers', isDefault: false });
+
+        expect((await create('research')).body.error).toBe('A collection named research already exists');
+        expect((await create('Research', 'user-2')).statusCode).toBe(200);
+        expect((await create('')).body.error).toBe('name is required');
+        expect((await create('x'.repeat(129))).statusCode).toBe(400);
+    });
+
+    it('deletes an empty collection', async () => {
+        const { body } = await create('Research');
+
+        expect((await remove(body.data.collectionId)).statusCode).toBe(200);
+        expect(dynamo.items(COLLECTION_TABLE).map(item => item.name)).toEqual(['Default']);
+    });
+
+    it('keeps collections that still hold documents, counting deleted ones as gone', async () => {
+        const { body } = await create('Research');
+        const { collectionId } = body.data;
+        await seedDocument(collectionId, 'deleted');
+        await seedDocument(collectionId, 'quarantined');
+
+        expect(await remove(collectionId)).toMatchObject({
+            statusCode: 409, body: { error: `Collection ${collectionId} still contains documents; delete them first` }
+        });
+    });
+
+    it('refuses to delete the default collection or another user\'s', async () => {
+        await call('GET', '/collections');
+        const { body } = await create('Research', 'user-2');
+
+        expect((await remove(defaultCollectionId('user-1'))).body.error).toBe('The default collection cannot be deleted');
+        expect((await remove(body.data.collectionId)).statusCode).toBe(404);
+    });
+});
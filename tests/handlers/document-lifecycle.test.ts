@@ -0,0 +1,902 @@
+import { createHash } from 'crypto';
+import { APIGatewayProxyResultV2, EventBridgeEvent } from 'aws-lambda';
+import { EventBridgeClient, PutEventsCommand } from '@aws-sdk/client-eventbridge';
+import { PutCommand } from '@aws-sdk/lib-dynamodb';
+import { DocumentMetadataSchema } from '../../lib/schemas/document-metadata.schema';
+import { InMemoryS3 } from './helpers/in-memory-s3';
+import { documentRegistryTable, InMemoryDynamoDB, withCollectionTable, withHistoryTable, withUsageTable } from './helpers/in-memory-dynamodb';
+import { apiEvent, lambdaContext, s3Event } from './helpers/events';
+
+const DOCUMENT_BUCKET = 'lifecycle-documents';
+const QUARANTINE_BUCKET = 'lifecycle-quarantine';
+const DOCUMENT_TABLE = 'lifecycle-registry';
+const COLLECTION_TABLE = 'lifecycle-collections';
+const USAGE_TABLE = 'lifecycle-usage';
+const HISTORY_TABLE = 'lifecycle-history';
+
+process.env.DOCUMENT_BUCKET = DOCUMENT_BUCKET;
+process.env.QUARANTINE_BUCKET = QUARANTINE_BUCKET;
+process.env.DOCUMENT_TABLE = DOCUMENT_TABLE;
+process.env.COLLECTION_TABLE = COLLECTION_TABLE;
+process.env.USAGE_TABLE = USAGE_TABLE;
+process.env.HISTORY_TABLE = HISTORY_TABLE;
+
+type Handlers = {
+    upload: typeof import('../../lib/handlers/src/upload-url-handler').handler;
+    validate: typeof import('../../lib/handlers/src/validation-handler').handler;
+    status: typeof import('../../lib/handlers/src/status-handler').handler;
+    documents: typeof import('../../lib/handlers/src/documents-handler').handler;
+    stageHistory: typeof import('../../lib/handlers/src/stage-history-handler').handler;
+    review: typeof import('../../lib/handlers/src/review-handler').handler;
+};
+
+type Result = Exclude<APIGatewayProxyResultV2, string>;
+
+describe('document lifecycle: upload → validation → status', () => {
+    let s3: InMemoryS3;
+    let dynamo: InMemoryDynamoDB;
+    let eventBridge: jest.SpyInstance;
+    let handlers: Handlers;
+
+    beforeAll(() => {
+        // The handlers read their bucket and table names at import time.
+        handlers = {
+            upload: require('../../lib/handlers/src/upload-url-handler').handler,
+            validate: require('../../lib/handlers/src/validation-handler').handler,
+            status: require('../../lib/handlers/src/status-handler').handler,
+            documents: require('../../lib/handlers/src/documents-handler').handler,
+            stageHistory: require('../../lib/handlers/src/stage-history-handler').handler,
+            review: require('../../lib/handlers/src/review-handler').handler
+        };
+    });
+
+    beforeEach(() => {
+        s3 = new InMemoryS3();
+        s3.install();
+        dynamo = withHistoryTable(withUsageTable(withCollectionTable(documentRegistryTable(DOCUMENT_TABLE), COLLECTION_TABLE), USAGE_TABLE), HISTORY_TABLE);
+        dynamo.install();
+        eventBridge = jest.spyOn(EventBridgeClient.prototype, 'send')
+            .mockResolvedValue({ FailedEntryCount: 0, Entries: [{ EventId: 'event-1' }] } as never);
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+        jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    function sha256(body: string | Buffer): string {
+        return createHash('sha256').update(body).digest('base64');
+    }
+
+    /** Requests an upload URL, then stores the object the way the presigned PUT would. */
+    async function upload(fileName: string, body: string | Buffer, fileType: string, userId = 'user-1', checksumSha256 = sha256(body)): Promise<string> {
+        const result = await handlers.upload(apiEvent({
+            userId,
+            method: 'POST',
+            path: '/upload',
+            body: { fileName, fileType, fileSize: Buffer.byteLength(body), checksumSha256 }
+        })) as Result;
+        expect(result.statusCode).toBe(200);
+        const { documentId, objectKey } = JSON.parse(result.body!).data;
+
+        s3.put(DOCUMENT_BUCKET, objectKey, body, {
+            contentType: fileType,
+            metadata: {
+                'user-id': userId,
+                'original-filename': fileName,
+                'content-type': fileType
+            }
+        });
+        return documentId;
+    }
+
+    async function requestUpload(body: Record<string, unknown>, userId = 'user-1') {
+        const result = await handlers.upload(apiEvent({ userId, method: 'POST', path: '/upload', body })) as Result;
+        return JSON.parse(result.body!).data;
+    }
+
+    /** Where the document's bytes live; unregistered objects are addressed by key directly. */
+    function objectKeyOf(documentId: string): string {
+        return dynamo.items(DOCUMENT_TABLE).find(item => item.documentId === documentId)?.objectKey ?? documentId;
+    }
+
+    function validate(documentId: string) {
+        const key = objectKeyOf(documentId);
+        return handlers.validate(s3Event(DOCUMENT_BUCKET, key, s3.get(DOCUMENT_BUCKET, key)!.body.length), lambdaContext);
+    }
+
+    function createCollection(collectionId: string, userId = 'user-1') {
+        const now = new Date().toISOString();
+        return dynamo.send(new PutCommand({
+            TableName: COLLECTION_TABLE,
+            Item: { userId, collectionId, name: collectionId, createdAt: now, updatedAt: now }
+        }));
+    }
+
+    function publishedEvents() {
+        return eventBridge.mock.calls.map(([command]) => {
+            const [entry] = (command as PutEventsCommand).input.Entries!;
+            return { ...entry!, detail: JSON.parse(entry!.Detail!) };
+        });
+    }
+
+    async function status(documentId: string, userId = 'user-1') {
+        const result = await handlers.status(apiEvent({ userId, pathParameters: { documentId } })) as Result;
+        return { statusCode: result.statusCode, body: JSON.parse(result.body!) };
+    }
+
+    it('registers a pending_upload row when the upload URL is issued', async () => {
+        const documentId = await upload('report.pdf', '%PDF-1.7\n', 'application/pdf');
+
+        expect(dynamo.items(DOCUMENT_TABLE)).toEqual([expect.objectContaining({
+            documentId,
+            userId: 'user-1',
+            fileName: 'report.pdf',
+            state: 'pending_upload'
+        })]);
+        const { body } = await status(documentId);
+        expect(body).toMatchObject({ status: 'pending', state: 'pending_upload' });
+    });
+
+    it('reports an approved document as validated', async () => {
+        const documentId = await upload('report.pdf', '%PDF-1.7\n1 0 obj\n', 'application/pdf');
+        await validate(documentId);
+
+        const { statusCode, body } = await status(documentId);
+
+        expect(statusCode).toBe(200);
+        expect(body).toMatchObject({ status: 'validated', state: 'validated', location: 'documents', fileName: 'report.pdf' });
+        expect(body.validatedAt).toEqual(expect.any(String));
+    });
+
+    it('finds a quarantined document by its original ID and reports the reason', async () => {
+        const documentId = await upload('report.pdf', 'definitely not a pdf', 'application/pdf');
+        await validate(documentId);
+
+        expect(s3.get(DOCUMENT_BUCKET, objectKeyOf(documentId))).toBeUndefined();
+        const [quarantineKey] = s3.keys(QUARANTINE_BUCKET);
+        expect(quarantineKey).toMatch(new RegExp(`^quarantine/.+/${documentId.replace(/\./g, '\\.')}$`));
+        expect(s3.get(QUARANTINE_BUCKET, quarantineKey!)!.metadata['user-id']).toBe('user-1');
+
+        const { statusCode, body } = await status(documentId);
+
+        expect(statusCode).toBe(200);
+        expect(body).toMatchObject({
+            documentId,
+            status: 'quarantined',
+            state: 'quarantined',
+            location: 'quarantine',
+            reasonCode: 'CONTENT_TYPE_MISMATCH',
+            fileName: 'report.pdf'
+        });
+        expect(body.quarantinedAt).toEqual(expect.any(String));
+        expect(body.errorMessage).toContain('does not match declared content type');
+        expect(dynamo.items(DOCUMENT_TABLE)[0]).toMatchObject({ quarantineKey });
+    });
+
+    it('verifies the declared checksum and carries it into the sidecar', async () => {
+        const documentId = await upload('report.pdf', '%PDF-1.7\n1 0 obj\n', 'application/pdf');
+        await validate(documentId);
+
+        const sidecar = JSON.parse(s3.get(DOCUMENT_BUCKET, `metadata/${documentId}.json`)!.body.toString());
+        expect(sidecar.s3Reference.checksumSha256).toBe(sha256('%PDF-1.7\n1 0 obj\n'));
+        expect(dynamo.items(DOCUMENT_TABLE)[0]).toMatchObject({ state: 'validated', checksumSha256: sha256('%PDF-1.7\n1 0 obj\n') });
+    });
+
+    it('quarantines a document whose stored bytes do not hash to the declared checksum', async () => {
+        const declared = sha256('%PDF-1.7\nthe bytes the user chose\n');
+        const documentId = await upload('report.pdf', '%PDF-1.7\n1 0 obj\n', 'application/pdf', 'user-1', declared);
+        await validate(documentId);
+
+        const { body } = await status(documentId);
+
+        expect(body).toMatchObject({ status: 'quarantined', reasonCode: 'CHECKSUM_MISMATCH' });
+        expect(dynamo.items(DOCUMENT_TABLE)[0]).toMatchObject({ checksumSha256: declared });
+        expect(publishedEvents()[0]!.detail.s3Reference.checksumSha256).toBe(sha256('%PDF-1.7\n1 0 obj\n'));
+    });
+
+    it('quarantines a document whose stored object is larger than the size its quota was charged for', async () => {
+        const body = '%PDF-1.7\n1 0 obj\n' + 'x'.repeat(1024);
+        const { documentId, objectKey } = await requestUpload({ fileName: 'report.pdf', fileType: 'application/pdf', fileSize: 17, checksumSha256: sha256(body) });
+        s3.put(DOCUMENT_BUCKET, objectKey, body, { contentType: 'application/pdf', metadata: { 'user-id': 'user-1', 'content-type': 'application/pdf' } });
+        await validate(documentId);
+
+        const { body: reported } = await status(documentId);
+
+        expect(reported).toMatchObject({ status: 'quarantined', reasonCode: 'SIZE_MISMATCH' });
+        expect(reported.errorMessage).toBe('Stored object is 1041 bytes but the upload declared 17');
+    });
+
+    it('removes an upload that arrives after its document was deleted', async () => {
+        const body = '%PDF-1.7\n1 0 obj\n';
+        const { documentId, objectKey } = await requestUpload({ fileName: 'report.pdf', fileType: 'application/pdf', fileSize: body.length, checksumSha256: sha256(body) });
+        const deleted = await handlers.documents(apiEvent({
+            userId: 'user-1', method: 'DELETE', path: '/documents/{documentId}', pathParameters: { documentId }
+        })) as Result;
+        expect(deleted.statusCode).toBe(200);
+
+        s3.put(DOCUMENT_BUCKET, objectKey, body, { contentType: 'application/pdf', metadata: { 'user-id': 'user-1', 'content-type': 'application/pdf' } });
+        await validate(documentId);
+
+        expect(s3.get(DOCUMENT_BUCKET, objectKey)).toBeUndefined();
+        expect((await status(documentId)).body).toMatchObject({ status: 'deleted', state: 'deleted' });
+    });
+
+    describe('duplicate content', () => {
+        const handbook = '%PDF-1.7\nEmployee handbook\n';
+        const request = { fileName: 'handbook.pdf', fileType: 'application/pdf', fileSize: Buffer.byteLength(handbook), checksumSha256: sha256(handbook) };
+
+        it('returns the existing document instead of an upload URL', async () => {
+            const originalId = await upload('handbook.pdf', handbook, 'application/pdf');
+            await validate(originalId);
+
+            const response = await requestUpload(request);
+
+            expect(response).toMatchObject({ status: 'duplicate', documentId: originalId, state: 'validated', fileName: 'handbook.pdf' });
+            expect(response.uploadUrl).toBeUndefined();
+            expect(dynamo.items(DOCUMENT_TABLE)).toHaveLength(1);
+        });
+
+        it('issues a new upload when forced, and keeps the forced copy through validation', async () => {
+            const originalId = await upload('handbook.pdf', handbook, 'application/pdf');
+            await validate(originalId);
+
+            const response = await requestUpload({ ...request, force: true });
+            expect(response).toMatchObject({ status: 'pending_upload', uploadUrl: expect.any(String) });
+
+            s3.put(DOCUMENT_BUCKET, response.objectKey, handbook, { contentType: 'application/pdf', metadata: { 'content-type': 'application/pdf' } });
+            await validate(response.documentId);
+            expect((await status(response.documentId)).body).toMatchObject({ status: 'validated' });
+        });
+
+        it('matches the user\'s documents in every collection by default', async () => {
+            const originalId = await upload('handbook.pdf', handbook, 'application/pdf');
+            await validate(originalId);
+            await createCollection('onboarding');
+
+            expect(await requestUpload({ ...request, collectionId: 'onboarding' })).toMatchObject({ status: 'duplicate', documentId: originalId });
+        });
+
+        it('only matches within the upload\'s collection when asked to', async () => {
+            const originalId = await upload('handbook.pdf', handbook, 'application/pdf');
+            await validate(originalId);
+            await createCollection('onboarding');
+
+            expect(await requestUpload({ ...request, collectionId: 'onboarding', duplicateScope: 'collection' })).toMatchObject({ status: 'pending_upload' });
+            expect(await requestUpload({ ...request, duplicateScope: 'collection' })).toMatchObject({ status: 'duplicate', documentId: originalId });
+        });
+
+        it('refuses an unknown duplicate scope', async () => {
+            const result = await handlers.upload(apiEvent({ userId: 'user-1', method: 'POST', path: '/upload', body: { ...request, duplicateScope: 'team' } })) as Result;
+
+            expect(result.statusCode).toBe(400);
+            expect(JSON.parse(result.body!).error).toBe('duplicateScope must be one of user, collection');
+        });
+
+        it('does not match another user\'s documents', async () => {
+            const originalId = await upload('handbook.pdf', handbook, 'application/pdf');
+            await validate(originalId);
+
+            expect(await requestUpload(request, 'user-2')).toMatchObject({ status: 'pending_upload' });
+        });
+
+        it('catches a duplicate at validation time and does not ingest it again', async () => {
+            // Both URLs are issued before either upload lands, so /upload cannot tell.
+            const originalId = await upload('handbook.pdf', handbook, 'application/pdf');
+            const copyId = await upload('handbook-copy.pdf', handbook, 'application/pdf');
+            await validate(originalId);
+            eventBridge.mockClear();
+
+            await validate(copyId);
+
+            expect(s3.get(DOCUMENT_BUCKET, objectKeyOf(copyId))).toBeUndefined();
+            expect(s3.get(DOCUMENT_BUCKET, `metadata/${copyId}.json`)).toBeUndefined();
+            expect(publishedEvents()).toEqual([]);
+            expect((await status(copyId)).body).toMatchObject({ status: 'duplicate', state: 'duplicate', duplicateOf: originalId });
+        });
+
+        it.each([
+            ['the user\'s documents', {}, 'duplicate'],
+            ['only its collection', { duplicateScope: 'collection' }, 'validated']
+        ])('applies the same scope at validation time when the upload searched %s', async (_scope, scope, expected) => {
+            await createCollection('onboarding');
+            const copy = await requestUpload({ ...request, collectionId: 'onboarding', ...scope });
+            const originalId = await upload('handbook.pdf', handbook, 'application/pdf');
+            await validate(originalId);
+
+            s3.put(DOCUMENT_BUCKET, copy.objectKey, handbook, { contentType: 'application/pdf', metadata: { 'user-id': 'user-1', 'content-type': 'application/pdf' } });
+            await validate(copy.documentId);
+
+            expect((await status(copy.documentId)).body).toMatchObject({ status: expected });
+        });
+    });
+
+    describe('collections', () => {
+        const pdf = '%PDF-1.7\n1 0 obj\n';
+        const request = { fileName: 'guide.pdf', fileType: 'application/pdf', fileSize: Buffer.byteLength(pdf), checksumSha256: sha256(pdf) };
+
+        it('files uploads under their collection and carries its ID into the sidecar and event', async () => {
+            await createCollection('onboarding');
+            const { documentId, objectKey } = await requestUpload({ ...request, collectionId: 'onboarding' });
+            expect(objectKey).toBe(`collections/onboarding/${documentId}`);
+            s3.put(DOCUMENT_BUCKET, objectKey, pdf, { contentType: 'application/pdf', metadata: { 'user-id': 'user-1' } });
+
+            await validate(documentId);
+
+            const sidecar = JSON.parse(s3.get(DOCUMENT_BUCKET, `metadata/${documentId}.json`)!.body.toString());
+            expect(sidecar).toMatchObject({ documentId, collectionId: 'onboarding', s3Reference: { objectKey } });
+            expect(publishedEvents()[0]!.detail).toEqual(sidecar);
+            expect((await status(documentId)).body).toMatchObject({ status: 'validated', collectionId: 'onboarding' });
+        });
+
+        it('puts uploads that name no collection into the user\'s default collection', async () => {
+            const documentId = await upload('guide.pdf', pdf, 'application/pdf');
+
+            const [collection] = dynamo.items(COLLECTION_TABLE);
+            expect(collection).toMatchObject({ userId: 'user-1', name: 'Default', isDefault: true });
+            expect(objectKeyOf(documentId)).toBe(`collections/${collection!.collectionId}/${documentId}`);
+        });
+
+        it('refuses collections the caller does not own', async () => {
+            await createCollection('onboarding', 'user-2');
+
+            const result = await handlers.upload(apiEvent({ userId: 'user-1', method: 'POST', path: '/upload', body: { ...request, collectionId: 'onboarding' } })) as Result;
+
+            expect(result.statusCode).toBe(404);
+            expect(dynamo.items(DOCUMENT_TABLE)).toEqual([]);
+        });
+    });
+
+    describe('quotas', () => {
+        const pdf = '%PDF-1.7\n1 0 obj\n';
+
+        function usageItem(usageKey: string) {
+            return dynamo.items(USAGE_TABLE).find(item => item.userId === 'user-1' && item.usageKey === usageKey);
+        }
+
+        it('counts validated documents towards the user\'s and the collection\'s storage', async () => {
+            await createCollection('research');
+            await validate(await upload('report.pdf', pdf, 'application/pdf'));
+            const notes = `${pdf}notes`;
+            const second = await requestUpload({ fileName: 'notes.pdf', fileType: 'application/pdf', fileSize: notes.length, checksumSha256: sha256(notes), collectionId: 'research' });
+            s3.put(DOCUMENT_BUCKET, second.objectKey, notes, { contentType: 'application/pdf' });
+            await validate(second.documentId);
+
+            expect(usageItem('total')).toMatchObject({ bytes: pdf.length + notes.length, documents: 2 });
+            expect(usageItem('collection#research')).toMatchObject({ bytes: notes.length, documents: 1 });
+        });
+
+        it('does not count quarantined or pending uploads', async () => {
+            await validate(await upload('report.pdf', 'definitely not a pdf', 'application/pdf'));
+            await upload('pending.pdf', pdf, 'application/pdf');
+
+            expect(usageItem('total')).toBeUndefined();
+            expect(dynamo.items(USAGE_TABLE).filter(item => item.usageKey.startsWith('uploads#'))).toEqual([
+                expect.objectContaining({ uploads: 2, expiresAt: expect.any(Number) })
+            ]);
+        });
+
+        it('refuses an upload that would not fit the remaining storage', async () => {
+            await dynamo.send(new PutCommand({ TableName: USAGE_TABLE, Item: { userId: 'user-1', usageKey: 'total', bytes: 10 * 1024 ** 3 - 10, documents: 3 } }));
+
+            const result = await handlers.upload(apiEvent({
+                userId: 'user-1', method: 'POST', path: '/upload',
+                body: { fileName: 'report.pdf', fileType: 'application/pdf', fileSize: 11, checksumSha256: sha256('x') }
+            })) as Result;
+
+            expect(result.statusCode).toBe(403);
+            expect(JSON.parse(result.body!).error).toBe(`Storage quota exceeded: your account has 10 of ${10 * 1024 ** 3} bytes left, the file needs 11`);
+            expect(dynamo.items(DOCUMENT_TABLE)).toEqual([]);
+        });
+    });
+
+    describe('revisions', () => {
+        /** Uploads a new revision of `replacesDocumentId` and stores its bytes. */
+        async function uploadRevision(replacesDocumentId: string, fileName: string, body: string, userId = 'user-1') {
+            const response = await requestUpload({
+                fileName, fileType: 'application/pdf', fileSize: Buffer.byteLength(body), checksumSha256: sha256(body), replacesDocumentId
+            }, userId);
+            if (response?.objectKey) {
+                s3.put(DOCUMENT_BUCKET, response.objectKey, body, { contentType: 'application/pdf', metadata: { 'user-id': userId } });
+            }
+            return response;
+        }
+
+        async function uploadError(body: Record<string, unknown>, userId = 'user-1') {
+            const result = await handlers.upload(apiEvent({ userId, method: 'POST', path: '/upload', body })) as Result;
+            return { statusCode: result.statusCode, error: JSON.parse(result.body!).error };
+        }
+
+        it('supersedes the previous revision once the new one is validated', async () => {
+            const firstId = await upload('policy.pdf', '%PDF-1.7\nPolicy 2024\n', 'application/pdf');
+            await validate(firstId);
+            const { documentId: secondId } = await uploadRevision(firstId, 'policy-2025.pdf', '%PDF-1.7\nPolicy 2025\n');
+
+            // Until the new revision is validated, the old one stays current.
+            expect((await status(secondId)).body).toMatchObject({ status: 'pending', revision: 2, previousRevisionId: firstId, currentRevisionId: firstId });
+            eventBridge.mockClear();
+
+            await validate(secondId);
+
+            expect((await status(firstId)).body).toMatchObject({
+                status: 'superseded', revision: 1, supersededBy: secondId, currentRevisionId: secondId,
+                revisions: [
+                    { documentId: firstId, revision: 1, status: 'superseded', uploadedAt: expect.any(String) },
+                    { documentId: secondId, revision: 2, status: 'validated', uploadedAt: expect.any(String) }
+                ]
+            });
+            expect(publishedEvents().map(event => event.DetailType)).toEqual(['Document Validated', 'Document Superseded']);
+            expect(publishedEvents()[1]!.detail).toMatchObject({
+                documentId: firstId, supersededBy: secondId, lineageId: firstId, revision: 1, userId: 'user-1',
+                s3Reference: { bucketName: DOCUMENT_BUCKET, objectKey: objectKeyOf(firstId) }
+            });
+        });
+
+        it('keeps the previous revision current when the new one is quarantined', async () => {
+            const firstId = await upload('policy.pdf', '%PDF-1.7\nPolicy 2024\n', 'application/pdf');
+            await validate(firstId);
+            const { documentId: secondId } = await uploadRevision(firstId, 'policy-2025.pdf', 'not a pdf at all');
+            eventBridge.mockClear();
+
+            await validate(secondId);
+
+            expect((await status(firstId)).body).toMatchObject({ status: 'validated', currentRevisionId: firstId });
+            expect(publishedEvents().map(event => event.DetailType)).toEqual(['Document Quarantined']);
+        });
+
+        it('only replaces the caller\'s own validated, current revisions', async () => {
+            const firstId = await upload('policy.pdf', '%PDF-1.7\nPolicy 2024\n', 'application/pdf');
+            const pdf = { fileName: 'policy-2025.pdf', fileType: 'application/pdf', fileSize: 21, checksumSha256: sha256('%PDF-1.7\nPolicy 2025\n') };
+
+            expect(await uploadError({ ...pdf, replacesDocumentId: firstId })).toEqual({
+                statusCode: 409, error: `Document ${firstId} is pending_upload and cannot be replaced`
+            });
+
+            await validate(firstId);
+            expect((await uploadError({ ...pdf, replacesDocumentId: firstId }, 'user-2')).statusCode).toBe(404);
+
+            const { documentId: secondId } = await uploadRevision(firstId, 'policy-2025.pdf', '%PDF-1.7\nPolicy 2025\n');
+            await validate(secondId);
+            expect(await uploadError({ ...pdf, fileName: 'policy-2026.pdf', replacesDocumentId: firstId })).toEqual({
+                statusCode: 409, error: `Document ${firstId} is superseded by ${secondId} and cannot be replaced`
+            });
+        });
+    });
+
+    describe('history', () => {
+        async function history(documentId: string, userId = 'user-1') {
+            const result = await handlers.documents(apiEvent({
+                userId, path: '/documents/{documentId}/history', pathParameters: { documentId }
+            })) as Result;
+            return { statusCode: result.statusCode, body: JSON.parse(result.body!) };
+        }
+
+        async function events(documentId: string) {
+            return (await history(documentId)).body.data.entries.map((entry: { event: string }) => entry.event);
+        }
+
+        it('records an upload from the issued URL through each validator to the decision', async () => {
+            const documentId = await upload('report.pdf', '%PDF-1.7\n1 0 obj\n', 'application/pdf');
+            await validate(documentId);
+
+            const { statusCode, body } = await history(documentId);
+
+            expect(statusCode).toBe(200);
+            expect(body.data.documentId).toBe(documentId);
+            expect(body.data.entries).toEqual([
+                {
+                    documentId, at: expect.any(String), event: 'upload_url_issued', actor: { type: 'user', id: 'user-1' },
+                    details: expect.objectContaining({ fileName: 'report.pdf', fileType: 'application/pdf', uploadMethod: 'PUT' })
+                },
+                expect.objectContaining({ event: 'upload_completed', actor: { type: 'user', id: 'user-1' }, details: expect.objectContaining({ size: 17 }) }),
+                expect.objectContaining({ event: 'validation_started', actor: { type: 'system', id: 'validation-handler' } }),
+                ...['size', 'checksum', 'content-type', 'file-signature', 'signature', 'extension', 'pdf-structure'].map(check =>
+                    expect.objectContaining({ event: 'validator_result', details: { check, passed: true } })),
+                expect.objectContaining({ event: 'validated', actor: { type: 'system', id: 'validation-handler' } })
+            ]);
+            expect(body.data.entries[0]).not.toHaveProperty('entryKey');
+        });
+
+        it('records which validator quarantined a document and why', async () => {
+            const documentId = await upload('report.pdf', 'definitely not a pdf', 'application/pdf');
+            await validate(documentId);
+
+            const entries = (await history(documentId)).body.data.entries;
+
+            expect(entries.filter((entry: { event: string }) => entry.event === 'validator_result').map((entry: { details: unknown }) => entry.details)).toEqual([
+                { check: 'size', passed: true },
+                { check: 'checksum', passed: true },
+                { check: 'content-type', passed: true },
+                { check: 'file-signature', passed: true },
+                { check: 'signature', passed: false, reasonCode: 'CONTENT_TYPE_MISMATCH', reason: expect.stringContaining('does not match declared content type') }
+            ]);
+            expect(entries.at(-1)).toMatchObject({
+                event: 'quarantined',
+                details: { reasonCode: 'CONTENT_TYPE_MISMATCH', quarantineKey: expect.stringMatching(/^quarantine\//) }
+            });
+        });
+
+        it('records a revision superseding its predecessor and the deletion of the predecessor', async () => {
+            const firstId = await upload('policy.pdf', '%PDF-1.7\nPolicy 2024\n', 'application/pdf');
+            await validate(firstId);
+            const { documentId: secondId, objectKey } = await requestUpload({
+                fileName: 'policy-2025.pdf', fileType: 'application/pdf', fileSize: 21,
+                checksumSha256: sha256('%PDF-1.7\nPolicy 2025\n'), replacesDocumentId: firstId
+            });
+            s3.put(DOCUMENT_BUCKET, objectKey, '%PDF-1.7\nPolicy 2025\n', { contentType: 'application/pdf', metadata: { 'user-id': 'user-1' } });
+            await validate(secondId);
+
+            const deleted = await handlers.documents(apiEvent({
+                userId: 'user-1', email: 'owner@example.com', method: 'DELETE', path: '/documents/{documentId}', pathParameters: { documentId: firstId }
+            })) as Result;
+            expect(deleted.statusCode).toBe(200);
+
+            const entries = (await history(firstId)).body.data.entries;
+            expect(entries.slice(-2)).toEqual([
+                expect.objectContaining({ event: 'superseded', details: { supersededBy: secondId } }),
+                expect.objectContaining({
+                    event: 'deleted', actor: { type: 'user', id: 'owner@example.com' }, details: { previousState: 'superseded', deletedObjects: 2 }
+                })
+            ]);
+            expect((await history(secondId)).body.data.entries[0].details).toMatchObject({ replacesDocumentId: firstId, revision: 2 });
+        });
+
+        it('records the stage changes downstream services report, at the time they report', async () => {
+            const documentId = await upload('report.pdf', '%PDF-1.7\n1 0 obj\n', 'application/pdf');
+            await validate(documentId);
+            const stageChanged = (detail: Record<string, unknown>): EventBridgeEvent<string, Record<string, unknown>> => ({
+                id: 'event-2', version: '0', account: '123456789012', time: '2099-01-01T00:00:00Z', region: 'us-east-1',
+                resources: [], source: 'rag.embedding', 'detail-type': 'Document Stage Changed', detail
+            });
+
+            await handlers.stageHistory(stageChanged({ documentId, stage: 'embedding', status: 'completed', processingTimeMs: 800, embeddingCount: 12 }));
+            await handlers.stageHistory(stageChanged({ documentId, stage: 'vector-storage', status: 'failed', timestamp: '2098-01-01T00:00:00.000Z', errorMessage: 'Index unavailable' }));
+
+            const entries = (await history(documentId)).body.data.entries;
+            expect(entries.slice(-2)).toEqual([
+                {
+                    documentId, at: '2098-01-01T00:00:00.000Z', event: 'stage_changed', actor: { type: 'system', id: 'rag.embedding' },
+                    details: { stage: 'vector-storage', status: 'failed', errorMessage: 'Index unavailable' }
+                },
+                {
+                    documentId, at: '2099-01-01T00:00:00.000Z', event: 'stage_changed', actor: { type: 'system', id: 'rag.embedding' },
+                    details: { stage: 'embedding', status: 'completed', processingTimeMs: 800, embeddingCount: 12 }
+                }
+            ]);
+            await expect(handlers.stageHistory(stageChanged({ documentId, stage: 'chunking', status: 'completed' }))).rejects.toThrow();
+        });
+
+        it('shows a history to the document\'s owner only', async () => {
+            jest.spyOn(console, 'error').mockImplementation(() => undefined);
+            const documentId = await upload('report.pdf', 'definitely not a pdf', 'application/pdf');
+
+            expect(await events(documentId)).toEqual(['upload_url_issued']);
+            expect(await history(documentId, 'user-2')).toEqual({ statusCode: 404, body: expect.objectContaining({ error: `Document ${documentId} not found` }) });
+            expect((await history('never-uploaded.pdf')).statusCode).toBe(404);
+        });
+    });
+
+    describe('quarantine review', () => {
+        const reviewer = { userId: 'reviewer-1', email: 'reviewer@example.com', groups: ['odmd-rag-reviewer'] };
+
+        async function review(method: string, path: string, options: { documentId?: string; body?: unknown; queryStringParameters?: Record<string, string> } = {},
+                              caller: Parameters<typeof apiEvent>[0] = reviewer) {
+            const result = await handlers.review(apiEvent({
+                ...caller,
+                method,
+                path,
+                ...(options.documentId && { pathParameters: { documentId: options.documentId } }),
+                ...(options.queryStringParameters && { queryStringParameters: options.queryStringParameters }),
+                ...(options.body !== undefined && { body: options.body })
+            })) as Result;
+            return { statusCode: result.statusCode, body: JSON.parse(result.body!) };
+        }
+
+        async function quarantined(fileName = 'report.pdf', userId = 'user-1') {
+            const documentId = await upload(fileName, 'definitely not a pdf', 'application/pdf', userId);
+            await validate(documentId);
+            return documentId;
+        }
+
+        it('lists quarantined documents from every user with their reasons, oldest first, a page at a time', async () => {
+            const first = await quarantined('a.pdf');
+            const second = await quarantined('b.pdf', 'user-2');
+            await validate(await upload('fine.pdf', '%PDF-1.7\n1 0 obj\n', 'application/pdf'));
+
+            const page = await review('GET', '/review/quarantine', { queryStringParameters: { limit: '1' } });
+
+            expect(page.statusCode).toBe(200);
+            expect(page.body.data.items).toEqual([{
+                documentId: first, userId: 'user-1', uploadedBy: 'user-1', collectionId: expect.stringMatching(/^default-/), fileName: 'a.pdf', fileType: 'application/pdf',
+                fileSize: 20, uploadedAt: expect.any(String), quarantinedAt: expect.any(String), expiresAt: expect.any(String),
+                reasonCode: 'CONTENT_TYPE_MISMATCH', reason: expect.stringContaining('does not match declared content type')
+            }]);
+            const { quarantinedAt, expiresAt } = page.body.data.items[0];
+            expect(Date.parse(expiresAt) - Date.parse(quarantinedAt)).toBe(14 * 24 * 60 * 60 * 1000);
+
+            const next = await review('GET', '/review/quarantine', { queryStringParameters: { limit: '1', cursor: page.body.data.nextCursor } });
+            expect(next.body.data.items.map((item: { documentId: string }) => item.documentId)).toEqual([second]);
+            expect(next.body.data.nextCursor).toBeUndefined();
+        });
+
+        it('hands out a short-lived download of the quarantine copy', async () => {
+            const documentId = await quarantined();
+
+            const { statusCode, body } = await review('GET', '/review/quarantine/{documentId}/download', { documentId });
+
+            expect(statusCode).toBe(200);
+            expect(body.data).toEqual({ documentId, downloadUrl: expect.any(String), expiresIn: 300 });
+            const url = new URL(body.data.downloadUrl);
+            expect(url.pathname).toContain(encodeURIComponent(documentId).replace(/%2F/g, '/'));
+            expect(url.searchParams.get('X-Amz-Expires')).toBe('300');
+            expect(url.searchParams.get('response-content-disposition')).toBe('attachment; filename="report.pdf"');
+        });
+
+        it('releases a document to its original key, where it is validated without the checks that quarantined it', async () => {
+            const documentId = await quarantined();
+            const quarantineKey = s3.keys(QUARANTINE_BUCKET)[0]!;
+
+            const released = await review('POST', '/review/quarantine/{documentId}/release', {
+                documentId, body: { justification: 'Plain-text export the customer confirmed' }
+            });
+
+            expect(released.statusCode).toBe(200);
+            expect(released.body.data).toMatchObject({ status: 'pending', state: 'released', reviewNote: 'Plain-text export the customer confirmed' });
+            const copy = s3.get(DOCUMENT_BUCKET, objectKeyOf(documentId))!;
+            expect(copy.tags).toEqual({ 'review-status': 'released', 'reviewed-by': 'reviewer@example.com' });
+            expect(copy.metadata).toEqual({ 'user-id': 'user-1', 'original-filename': 'report.pdf', 'content-type': 'application/pdf', 'reviewed-by': 'reviewer@example.com' });
+            expect(s3.keys(QUARANTINE_BUCKET)).toEqual([quarantineKey]);
+
+            eventBridge.mockClear();
+            await validate(documentId);
+
+            expect((await status(documentId)).body).toMatchObject({ status: 'validated', state: 'validated', reviewNote: 'Plain-text export the customer confirmed' });
+            expect((await status(documentId)).body).not.toHaveProperty('reasonCode');
+            expect(copy.tags).toMatchObject({ 'validation-status': 'approved', 'validated-by': 'quarantine-review', 'review-status': 'released' });
+            const [event] = publishedEvents();
+            expect(event!.DetailType).toBe('Document Validated');
+            expect(DocumentMetadataSchema.safeParse(event!.detail).success).toBe(true);
+
+            const entries = (await handlers.documents(apiEvent({
+                userId: 'user-1', path: '/documents/{documentId}/history', pathParameters: { documentId }
+            })) as Result).body!;
+            expect(JSON.parse(entries).data.entries.slice(-5)).toEqual([
+                expect.objectContaining({ event: 'quarantined' }),
+                expect.objectContaining({
+                    event: 'released', actor: { type: 'user', id: 'reviewer@example.com' },
+                    details: { justification: 'Plain-text export the customer confirmed', reasonCode: 'CONTENT_TYPE_MISMATCH' }
+                }),
+                expect.objectContaining({ event: 'validation_started' }),
+                expect.objectContaining({ event: 'validator_result', details: { check: 'review', passed: true } }),
+                expect.objectContaining({ event: 'validated', details: { releasedBy: 'reviewer@example.com' } })
+            ]);
+        });
+
+        it('rejects a document for good and purges its quarantine copy', async () => {
+            const documentId = await quarantined();
+
+            const rejected = await review('POST', '/review/quarantine/{documentId}/reject', { documentId, body: { reason: 'Executable disguised as a PDF' } });
+
+            expect(rejected.statusCode).toBe(200);
+            expect(rejected.body.data).toMatchObject({ status: 'rejected', state: 'rejected', reviewNote: 'Executable disguised as a PDF' });
+            expect(s3.keys(QUARANTINE_BUCKET)).toEqual([]);
+            expect((await review('GET', '/review/quarantine')).body.data.items).toEqual([]);
+            expect(dynamo.items(HISTORY_TABLE).at(-1)).toMatchObject({
+                event: 'rejected', actor: { type: 'user', id: 'reviewer@example.com' },
+                details: { reason: 'Executable disguised as a PDF', reasonCode: 'CONTENT_TYPE_MISMATCH', purgedVersions: 1 }
+            });
+        });
+
+        it('acts on a quarantined document only once', async () => {
+            const documentId = await quarantined();
+            await review('POST', '/review/quarantine/{documentId}/reject', { documentId, body: { reason: 'Malware' } });
+
+            const release = await review('POST', '/review/quarantine/{documentId}/release', { documentId, body: { justification: 'Looks fine' } });
+
+            expect(release).toEqual({ statusCode: 409, body: expect.objectContaining({ error: `Document ${documentId} is rejected, not quarantined` }) });
+            expect(s3.get(DOCUMENT_BUCKET, objectKeyOf(documentId))).toBeUndefined();
+        });
+
+        it('keeps a document quarantined when the copy out of quarantine fails', async () => {
+            jest.spyOn(console, 'error').mockImplementation(() => undefined);
+            const documentId = await quarantined();
+            const send = s3.send.bind(s3);
+            jest.spyOn(s3, 'send').mockImplementation(async command => {
+                if ((command as object).constructor.name === 'CopyObjectCommand') throw new Error('AccessDenied');
+                return send(command);
+            });
+
+            const release = await review('POST', '/review/quarantine/{documentId}/release', { documentId, body: { justification: 'Looks fine' } });
+
+            expect(release.statusCode).toBe(502);
+            expect((await status(documentId)).body).toMatchObject({ status: 'quarantined', reasonCode: 'CONTENT_TYPE_MISMATCH' });
+        });
+
+        it('reports a quarantine copy the lifecycle rule already removed as gone', async () => {
+            const documentId = await quarantined();
+            s3.buckets.get(QUARANTINE_BUCKET)!.clear();
+
+            expect((await review('GET', '/review/quarantine/{documentId}/download', { documentId })).statusCode).toBe(410);
+            expect((await review('POST', '/review/quarantine/{documentId}/release', { documentId, body: { justification: 'Looks fine' } })).statusCode).toBe(410);
+            expect((await status(documentId)).body.state).toBe('quarantined');
+        });
+
+        it.each([
+            ['release without a justification', 'release', {}, 'justification is required'],
+            ['reject with a blank reason', 'reject', { reason: '   ' }, 'reason is required'],
+            ['reject with an overlong reason', 'reject', { reason: 'x'.repeat(1001) }, 'reason must be at most 1000 characters']
+        ])('refuses to %s', async (_, action, body, error) => {
+            const documentId = await quarantined();
+
+            const result = await review('POST', `/review/quarantine/{documentId}/${action}`, { documentId, body });
+
+            expect(result).toEqual({ statusCode: 400, body: expect.objectContaining({ error }) });
+            expect((await status(documentId)).body.state).toBe('quarantined');
+        });
+
+        it('refuses documents that are not quarantined, and cursors from outside the quarantine', async () => {
+            const documentId = await upload('fine.pdf', '%PDF-1.7\n1 0 obj\n', 'application/pdf');
+            await validate(documentId);
+            const foreignCursor = Buffer.from(JSON.stringify({ documentId, state: 'validated' })).toString('base64url');
+
+            expect((await review('GET', '/review/quarantine/{documentId}/download', { documentId })).statusCode).toBe(409);
+            expect((await review('GET', '/review/quarantine/{documentId}/download', { documentId: 'missing.pdf' })).statusCode).toBe(404);
+            expect((await review('GET', '/review/quarantine', { queryStringParameters: { cursor: foreignCursor } })).statusCode).toBe(400);
+        });
+
+        it('is for reviewers and admins only', async () => {
+            const documentId = await quarantined();
+
+            const asUploader = await review('GET', '/review/quarantine', {}, { userId: 'user-1' });
+            const asAdmin = await review('POST', '/review/quarantine/{documentId}/reject', { documentId, body: { reason: 'Malware' } },
+                { userId: 'admin-1', groups: ['odmd-rag-admin'] });
+
+            expect(asUploader.statusCode).toBe(403);
+            expect(asAdmin.statusCode).toBe(200);
+        });
+    });
+
+    it('skips redelivered S3 events for documents that already left pending_upload', async () => {
+        const documentId = await upload('notes.txt', 'plain text', 'text/plain');
+        await validate(documentId);
+        const tagged = s3.get(DOCUMENT_BUCKET, objectKeyOf(documentId))!.tags;
+
+        s3.get(DOCUMENT_BUCKET, objectKeyOf(documentId))!.tags = {};
+        await validate(documentId);
+
+        expect(tagged['validation-status']).toBe('approved');
+        expect(s3.get(DOCUMENT_BUCKET, objectKeyOf(documentId))!.tags).toEqual({});
+        expect((await status(documentId)).body).toMatchObject({ status: 'validated' });
+    });
+
+    it('still validates objects that were never registered', async () => {
+        s3.put(DOCUMENT_BUCKET, 'unregistered.pdf', '%PDF-1.4\n', { contentType: 'application/pdf' });
+
+        await validate('unregistered.pdf');
+
+        expect(s3.get(DOCUMENT_BUCKET, 'unregistered.pdf')!.tags['validation-status']).toBe('approved');
+        expect(dynamo.items(DOCUMENT_TABLE)).toEqual([]);
+    });
+
+    it('publishes a Document Validated event whose detail conforms to DocumentMetadataSchema', async () => {
+        const documentId = await upload('report.pdf', '%PDF-1.7\n1 0 obj\n', 'application/pdf');
+        await validate(documentId);
+
+        const [event] = publishedEvents();
+        expect(event).toMatchObject({ EventBusName: 'test-event-bus', Source: 'rag.document-ingestion', DetailType: 'Document Validated' });
+        expect(DocumentMetadataSchema.safeParse(event!.detail).success).toBe(true);
+        expect(event!.detail).toMatchObject({
+            documentId,
+            s3Reference: { bucketName: DOCUMENT_BUCKET, objectKey: objectKeyOf(documentId), contentType: 'application/pdf' },
+            validationResult: { isValid: true, validationStatus: 'approved' },
+            processingEligible: true
+        });
+    });
+
+    it('carries uploader-supplied metadata into the sidecar, the event and the status', async () => {
+        const body = '%PDF-1.7\n1 0 obj\n';
+        const metadata = { title: 'Q1 report', tags: ['finance'], classification: 'confidential', source: { author: 'Finance team' } };
+        const { documentId, objectKey } = await requestUpload({
+            fileName: 'report.pdf', fileType: 'application/pdf', fileSize: Buffer.byteLength(body), checksumSha256: sha256(body), metadata
+        });
+        s3.put(DOCUMENT_BUCKET, objectKey, body, { contentType: 'application/pdf', metadata: { 'user-id': 'user-1' } });
+        await validate(documentId);
+
+        const sidecar = JSON.parse(s3.get(DOCUMENT_BUCKET, `metadata/${documentId}.json`)!.body.toString());
+        const [event] = publishedEvents();
+        expect(sidecar.userMetadata).toEqual(metadata);
+        expect(event!.detail.userMetadata).toEqual(metadata);
+        expect(DocumentMetadataSchema.safeParse(event!.detail).success).toBe(true);
+        expect((await status(documentId)).body.metadata).toEqual(metadata);
+    });
+
+    it('publishes a Document Quarantined event pointing at the quarantined copy', async () => {
+        const documentId = await upload('report.pdf', Buffer.from([0x7f, 0x45, 0x4c, 0x46, 2, 1, 1, 0]), 'application/pdf');
+        await validate(documentId);
+
+        const [event] = publishedEvents();
+        expect(event!.DetailType).toBe('Document Quarantined');
+        expect(DocumentMetadataSchema.safeParse(event!.detail).success).toBe(true);
+        expect(event!.detail).toMatchObject({
+            documentId,
+            s3Reference: { bucketName: QUARANTINE_BUCKET, objectKey: s3.keys(QUARANTINE_BUCKET)[0] },
+            validationResult: { isValid: false, validationStatus: 'quarantined', reason: expect.stringContaining('EXECUTABLE_CONTENT') },
+            processingEligible: false
+        });
+    });
+
+    it('publishes a Document Rejected event when validation itself fails', async () => {
+        const documentId = await upload('report.pdf', '%PDF-1.7\n', 'application/pdf');
+        s3.put(DOCUMENT_BUCKET, documentId, '%PDF-1.7\n', { contentType: 'application/pdf' });
+        jest.spyOn(s3, 'send').mockRejectedValueOnce(new Error('SlowDown'));
+
+        await validate(documentId);
+
+        const [event] = publishedEvents();
+        expect(event!.DetailType).toBe('Document Rejected');
+        expect(event!.detail.validationResult).toMatchObject({ validationStatus: 'rejected', reason: expect.stringContaining('SlowDown') });
+        expect((await status(documentId)).body).toMatchObject({ status: 'rejected' });
+    });
+
+    it('writes a schema-conformant metadata sidecar for every decided document', async () => {
+        const approvedId = await upload('report.pdf', '%PDF-1.7\n', 'application/pdf');
+        const quarantinedId = await upload('notes.txt', Buffer.from([0x7f, 0x45, 0x4c, 0x46, 2, 1, 1, 0]), 'text/plain');
+        await validate(approvedId);
+        await validate(quarantinedId);
+
+        const sidecar = (documentId: string) => JSON.parse(s3.get(DOCUMENT_BUCKET, `metadata/${documentId}.json`)!.body.toString());
+        const approved = sidecar(approvedId);
+        const quarantined = sidecar(quarantinedId);
+
+        expect(DocumentMetadataSchema.safeParse(approved).success).toBe(true);
+        expect(DocumentMetadataSchema.safeParse(quarantined).success).toBe(true);
+        expect(approved).toMatchObject({
+            s3Reference: { bucketName: DOCUMENT_BUCKET, objectKey: objectKeyOf(approvedId), eTag: 'etag' },
+            s3Tags: { 'validation-status': 'approved', 'download-approved': 'true' },
+            processingEligible: true
+        });
+        expect(quarantined).toMatchObject({
+            s3Reference: { bucketName: QUARANTINE_BUCKET, eTag: '"etag"' },
+            s3Tags: { 'validation-status': 'quarantined', 'download-approved': 'false' },
+            processingEligible: false
+        });
+        expect(publishedEvents().map(event => event.detail)).toEqual([approved, quarantined]);
+    });
+
+    it('does not validate the service\'s own sidecar objects', async () => {
+        const documentId = await upload('report.pdf', '%PDF-1.7\n', 'application/pdf');
+        await validate(documentId);
+        const sidecarKey = `metadata/${documentId}.json`;
+
+        await validate(sidecarKey);
+
+        expect(s3.get(DOCUMENT_BUCKET, sidecarKey)!.tags).toEqual({});
+        expect(publishedEvents()).toHaveLength(1);
+    });
+
+    it('keeps the validation decision when publishing the event fails', async () => {
+        eventBridge.mockResolvedValue({ FailedEntryCount: 1, Entries: [{ ErrorCode: 'InternalFailure' }] } as never);
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+        const documentId = await upload('report.pdf', '%PDF-1.7\n', 'application/pdf');
+
+        await validate(documentId);
+
+        expect((await status(documentId)).body).toMatchObject({ status: 'validated' });
+    });
+
+    it('does not reveal a document to another user', async () => {
+        const documentId = await upload('report.pdf', 'definitely not a pdf', 'application/pdf');
+        await validate(documentId);
+
+        const { body } = await status(documentId, 'someone-else');
+
+        expect(body).toMatchObject({ status: 'not_found', location: 'unknown' });
+    });
+
+    it('reports unknown document IDs as not found', async () => {
+        const { body } = await status('never-uploaded.pdf');
+
+        expect(body).toMatchObject({ status: 'not_found' });
+    });
+});
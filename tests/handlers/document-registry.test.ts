@@ -0,0 +1,180 @@
+import { CreateTableCommand, DeleteTableCommand, DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import {
+    allowedSources,
+    CONTENT_INDEX_NAME,
+    createDocumentClient,
+    DocumentRegistry,
+    DocumentStateConflictError,
+    LINEAGE_INDEX_NAME,
+    USER_INDEX_NAME
+} from '../../lib/handlers/src/document-registry';
+import { documentRegistryTable } from './helpers/in-memory-dynamodb';
+
+/**
+ * Runs against DynamoDB Local when DYNAMODB_ENDPOINT is set
+ * (e.g. `docker run -p 8000:8000 amazon/dynamodb-local` and
+ * `DYNAMODB_ENDPOINT=http://localhost:8000`), otherwise against the in-memory fake.
+ */
+const endpoint = process.env.DYNAMODB_ENDPOINT;
+const TABLE = `document-registry-test-${Date.now()}`;
+
+describe(`DocumentRegistry (${endpoint ? 'DynamoDB Local' : 'in-memory'})`, () => {
+    let registry: DocumentRegistry;
+
+    beforeAll(async () => {
+        if (endpoint) {
+            process.env.AWS_REGION ||= 'us-east-1';
+            process.env.AWS_ACCESS_KEY_ID ||= 'local';
+            process.env.AWS_SECRET_ACCESS_KEY ||= 'local';
+            await new DynamoDBClient({ endpoint }).send(new CreateTableCommand({
+                TableName: TABLE,
+                BillingMode: 'PAY_PER_REQUEST',
+                AttributeDefinitions: [
+                    { AttributeName: 'documentId', AttributeType: 'S' },
+                    { AttributeName: 'userId', AttributeType: 'S' },
+                    { AttributeName: 'createdAt', AttributeType: 'S' },
+                    { AttributeName: 'contentKey', AttributeType: 'S' },
+                    { AttributeName: 'lineageId', AttributeType: 'S' },
+                    { AttributeName: 'revision', AttributeType: 'N' }
+                ],
+                KeySchema: [{ AttributeName: 'documentId', KeyType: 'HASH' }],
+                GlobalSecondaryIndexes: [{
+                    IndexName: USER_INDEX_NAME,
+                    KeySchema: [
+                        { AttributeName: 'userId', KeyType: 'HASH' },
+                        { AttributeName: 'createdAt', KeyType: 'RANGE' }
+                    ],
+                    Projection: { ProjectionType: 'ALL' }
+                }, {
+                    IndexName: CONTENT_INDEX_NAME,
+                    KeySchema: [
+                        { AttributeName: 'contentKey', KeyType: 'HASH' },
+                        { AttributeName: 'createdAt', KeyType: 'RANGE' }
+                    ],
+                    Projection: { ProjectionType: 'ALL' }
+                }, {
+                    IndexName: LINEAGE_INDEX_NAME,
+                    KeySchema: [
+                        { AttributeName: 'lineageId', KeyType: 'HASH' },
+                        { AttributeName: 'revision', KeyType: 'RANGE' }
+                    ],
+                    Projection: { ProjectionType: 'ALL' }
+                }]
+            }));
+        } else {
+            documentRegistryTable(TABLE).install();
+        }
+        registry = new DocumentRegistry(createDocumentClient(), TABLE);
+    });
+
+    afterAll(async () => {
+        if (endpoint) {
+            await new DynamoDBClient({ endpoint }).send(new DeleteTableCommand({ TableName: TABLE }));
+        }
+        jest.restoreAllMocks();
+    });
+
+    function register(documentId: string) {
+        return registry.create({
+            documentId,
+            userId: 'user-1',
+            fileName: 'report.pdf',
+            fileType: 'application/pdf',
+            fileSize: 2048,
+            bucket: 'documents',
+            objectKey: documentId
+        });
+    }
+
+    it('creates documents in pending_upload and reads them back', async () => {
+        const created = await register('doc-create');
+
+        expect(created.state).toBe('pending_upload');
+        await expect(registry.get('doc-create')).resolves.toEqual(created);
+    });
+
+    it('refuses to register the same document ID twice', async () => {
+        await register('doc-twice');
+
+        await expect(register('doc-twice')).rejects.toMatchObject({ name: 'ConditionalCheckFailedException' });
+    });
+
+    it('moves a document through validating to a terminal state', async () => {
+        await register('doc-flow');
+
+        await registry.transition('doc-flow', 'validating');
+        const validated = await registry.transition('doc-flow', 'validated', { validatedAt: '2025-01-01T00:00:00.000Z', detectedType: 'application/pdf' });
+
+        expect(validated).toMatchObject({ state: 'validated', validatedAt: '2025-01-01T00:00:00.000Z', detectedType: 'application/pdf', fileName: 'report.pdf' });
+        await expect(registry.get('doc-flow')).resolves.toMatchObject({ state: 'validated' });
+    });
+
+    it('rejects transitions the lifecycle does not allow', async () => {
+        await register('doc-skip');
+
+        await expect(registry.transition('doc-skip', 'validated')).rejects.toBeInstanceOf(DocumentStateConflictError);
+        await registry.transition('doc-skip', 'validating');
+        await registry.transition('doc-skip', 'quarantined', { reasonCode: 'EXECUTABLE_CONTENT', reason: 'PE executable' });
+        await expect(registry.transition('doc-skip', 'validating')).rejects.toBeInstanceOf(DocumentStateConflictError);
+    });
+
+    it('treats transitions on unknown documents as conflicts', async () => {
+        await expect(registry.transition('doc-missing', 'validating')).rejects.toBeInstanceOf(DocumentStateConflictError);
+        await expect(registry.get('doc-missing')).resolves.toBeNull();
+    });
+
+    it('finds a user\'s documents by content, optionally within one collection', async () => {
+        const checksumSha256 = 'n4bQgYhMfWWaL+qgxVrQFaO/TxsrC4Is0V1sFbDwCgg=';
+        const registerContent = (documentId: string, userId: string, collectionId?: string) => registry.create({
+            documentId,
+            userId,
+            fileName: 'handbook.pdf',
+            fileType: 'application/pdf',
+            fileSize: 2048,
+            bucket: 'documents',
+            objectKey: documentId,
+            checksumSha256,
+            ...(collectionId && { collectionId })
+        });
+        await registerContent('doc-content-a', 'content-user', 'hr');
+        await registerContent('doc-content-b', 'content-user', 'legal');
+        await registerContent('doc-content-other-user', 'someone-else', 'hr');
+        for (const documentId of ['doc-content-a', 'doc-content-b', 'doc-content-other-user']) {
+            await registry.transition(documentId, 'validating');
+        }
+
+        const ids = (records: { documentId: string }[]) => records.map(record => record.documentId).sort();
+        expect(ids(await registry.findByContent('content-user', checksumSha256, ['validating']))).toEqual(['doc-content-a', 'doc-content-b']);
+        expect(ids(await registry.findByContent('content-user', checksumSha256, ['validating'], 'legal'))).toEqual(['doc-content-b']);
+        expect(await registry.findByContent('content-user', checksumSha256, ['validated'])).toEqual([]);
+    });
+
+    it('starts each document its own revision chain and lists revisions in order', async () => {
+        const created = await register('doc-rev-1');
+        expect(created).toMatchObject({ lineageId: 'doc-rev-1', revision: 1 });
+
+        for (const revision of [3, 2]) {
+            await registry.create({
+                documentId: `doc-rev-${revision}`,
+                userId: 'user-1',
+                fileName: 'report.pdf',
+                fileType: 'application/pdf',
+                fileSize: 2048,
+                bucket: 'documents',
+                objectKey: `doc-rev-${revision}`,
+                lineageId: 'doc-rev-1',
+                revision,
+                replacesDocumentId: `doc-rev-${revision - 1}`
+            });
+        }
+
+        const chain = await registry.listRevisions('doc-rev-1');
+        expect(chain.map(record => record.documentId)).toEqual(['doc-rev-1', 'doc-rev-2', 'doc-rev-3']);
+    });
+
+    it('derives allowed source states from the transition table', () => {
+        expect(allowedSources('validating')).toEqual(['pending_upload', 'scan_pending', 'released']);
+        expect(allowedSources('quarantined')).toEqual(['validating', 'released']);
+        expect(allowedSources('released')).toEqual(['quarantined']);
+    });
+});
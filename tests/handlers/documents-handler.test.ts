@@ -0,0 +1,250 @@
+import { EventBridgeClient, PutEventsCommand } from '@aws-sdk/client-eventbridge';
+import { PutCommand } from '@aws-sdk/lib-dynamodb';
+import { APIGatewayProxyResultV2 } from 'aws-lambda';
+import { documentRegistryTable, InMemoryDynamoDB, withUsageTable } from './helpers/in-memory-dynamodb';
+import { InMemoryS3 } from './helpers/in-memory-s3';
+import { apiEvent } from './helpers/events';
+import { handler } from '../../lib/handlers/src/documents-handler';
+import { defaultCollectionId } from '../../lib/handlers/src/collection-registry';
+
+const DOCUMENT_BUCKET = process.env.DOCUMENT_BUCKET!;
+const QUARANTINE_BUCKET = process.env.QUARANTINE_BUCKET!;
+const DOCUMENT_TABLE = process.env.DOCUMENT_TABLE!;
+const USAGE_TABLE = process.env.USAGE_TABLE!;
+
+type Result = Exclude<APIGatewayProxyResultV2, string>;
+
+describe('Documents Handler', () => {
+    let dynamo: InMemoryDynamoDB;
+
+    beforeEach(async () => {
+        dynamo = withUsageTable(documentRegistryTable(DOCUMENT_TABLE), USAGE_TABLE);
+        dynamo.install();
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+        jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+        await seed('a', 'user-1', 'validated', 'report-q1.pdf', 'application/pdf', '2025-01-05T10:00:00.000Z');
+        await seed('b', 'user-1', 'quarantined', 'notes.txt', 'text/plain', '2025-01-20T10:00:00.000Z');
+        await seed('c', 'user-1', 'validating', 'report-q2.pdf', 'application/pdf', '2025-02-03T10:00:00.000Z');
+        await seed('d', 'user-1', 'validated', 'summary.pdf', 'application/pdf', '2025-02-10T10:00:00.000Z');
+        await seed('e', 'user-2', 'validated', 'report-q1.pdf', 'application/pdf', '2025-01-06T10:00:00.000Z');
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    async function seed(documentId: string, userId: string, state: string, fileName: string, fileType: string, createdAt: string,
+                        extra: Record<string, unknown> = {}) {
+        await dynamo.send(new PutCommand({
+            TableName: DOCUMENT_TABLE,
+            Item: {
+                documentId, userId, state, fileName, fileType, fileSize: 1024, createdAt, updatedAt: createdAt,
+                bucket: DOCUMENT_BUCKET, objectKey: documentId, ...extra
+            }
+        }));
+    }
+
+    async function list(queryStringParameters?: Record<string, string>, userId = 'user-1') {
+        const result = await handler(apiEvent({
+            userId,
+            path: '/documents',
+            ...(queryStringParameters && { queryStringParameters })
+        })) as Result;
+        return { statusCode: result.statusCode, body: JSON.parse(result.body!) };
+    }
+
+    function ids(body: { data: { documents: { documentId: string }[] } }) {
+        return body.data.documents.map(document => document.documentId);
+    }
+
+    it('lists only the caller\'s documents, newest first, in the status shape', async () => {
+        const { statusCode, body } = await list();
+
+        expect(statusCode).toBe(200);
+        expect(ids(body)).toEqual(['d', 'c', 'b', 'a']);
+        expect(body.data.nextCursor).toBeUndefined();
+        expect(body.data.documents[2]).toMatchObject({
+            documentId: 'b', status: 'quarantined', state: 'quarantined', location: 'quarantine',
+            fileName: 'notes.txt', uploadedAt: '2025-01-20T10:00:00.000Z'
+        });
+    });
+
+    it('filters by status, content type, file name prefix and upload date', async () => {
+        expect(ids((await list({ status: 'pending' })).body)).toEqual(['c']);
+        expect(ids((await list({ status: 'validated,quarantined', order: 'asc' })).body)).toEqual(['a', 'b', 'd']);
+        expect(ids((await list({ contentType: 'application/pdf', fileNamePrefix: 'report-' })).body)).toEqual(['c', 'a']);
+        expect(ids((await list({ from: '2025-01-20', to: '2025-02-03' })).body)).toEqual(['c', 'b']);
+        expect(ids((await list({ from: '2025-02-01T00:00:00Z' })).body)).toEqual(['d', 'c']);
+    });
+
+    it('filters by collection, counting documents from before collections in the default one', async () => {
+        await seed('f', 'user-1', 'validated', 'paper.pdf', 'application/pdf', '2025-02-11T10:00:00.000Z', { collectionId: 'research' });
+        await seed('g', 'user-1', 'validated', 'guide.pdf', 'application/pdf', '2025-02-12T10:00:00.000Z', { collectionId: defaultCollectionId('user-1') });
+
+        expect(ids((await list({ collectionId: 'research' })).body)).toEqual(['f']);
+        expect(ids((await list({ collectionId: defaultCollectionId('user-1') })).body)).toEqual(['g', 'd', 'c', 'b', 'a']);
+        expect((await list({ collectionId: 'research' })).body.data.documents[0].collectionId).toBe('research');
+    });
+
+    it('pages with an opaque cursor, filling each page despite filtered-out items', async () => {
+        const first = await list({ status: 'validated,pending', limit: '2' });
+        expect(ids(first.body)).toEqual(['d', 'c']);
+        expect(first.body.data.nextCursor).toEqual(expect.any(String));
+
+        const second = await list({ status: 'validated,pending', limit: '2', cursor: first.body.data.nextCursor });
+        expect(ids(second.body)).toEqual(['a']);
+        expect(second.body.data.nextCursor).toBeUndefined();
+    });
+
+    it('refuses a cursor issued to another user', async () => {
+        const { body } = await list({ limit: '1' });
+
+        const { statusCode } = await list({ cursor: body.data.nextCursor }, 'user-2');
+
+        expect(statusCode).toBe(400);
+    });
+
+    it.each([
+        [{ status: 'archived' }, 'Unknown status: archived'],
+        [{ limit: '500' }, 'limit must be an integer between 1 and 100'],
+        [{ order: 'sideways' }, 'order must be asc or desc'],
+        [{ from: 'yesterday' }, 'from must be an ISO-8601 date or timestamp'],
+        [{ from: '2025-03-01', to: '2025-01-01' }, 'from must not be later than to'],
+        [{ cursor: 'not-a-cursor' }, 'Invalid cursor']
+    ])('rejects invalid query %j', async (query, error) => {
+        const { statusCode, body } = await list(query);
+
+        expect(statusCode).toBe(400);
+        expect(body.error).toBe(error);
+    });
+
+    describe('deleting documents', () => {
+        let s3: InMemoryS3;
+        let putEvents: jest.SpyInstance;
+
+        beforeEach(() => {
+            s3 = new InMemoryS3();
+            s3.install();
+            putEvents = jest.spyOn(EventBridgeClient.prototype, 'send')
+                .mockResolvedValue({ FailedEntryCount: 0, Entries: [{ EventId: 'event-1' }] } as never);
+
+            s3.put(DOCUMENT_BUCKET, 'a', 'report', { metadata: { 'user-id': 'user-1' } });
+            s3.put(DOCUMENT_BUCKET, 'metadata/a.json', '{}');
+        });
+
+        async function remove(documentId: string, userId = 'user-1') {
+            const result = await handler(apiEvent({
+                userId,
+                method: 'DELETE',
+                path: '/documents/{documentId}',
+                pathParameters: { documentId }
+            })) as Result;
+            return { statusCode: result.statusCode, body: JSON.parse(result.body!) };
+        }
+
+        function publishedDetail() {
+            const command = putEvents.mock.calls[0]![0] as PutEventsCommand;
+            const entry = command.input.Entries![0]!;
+            expect(entry.DetailType).toBe('Document Deleted');
+            return JSON.parse(entry.Detail!);
+        }
+
+        it('removes the object and its sidecar, marks the registry entry deleted and publishes Document Deleted', async () => {
+            const { statusCode, body } = await remove('a');
+
+            expect(statusCode).toBe(200);
+            expect(body.data).toMatchObject({ documentId: 'a', status: 'deleted', deletedAt: expect.any(String) });
+            expect(s3.keys(DOCUMENT_BUCKET)).toEqual([]);
+            expect(dynamo.items(DOCUMENT_TABLE).find(item => item.documentId === 'a')).toMatchObject({ state: 'deleted' });
+            expect(publishedDetail()).toEqual({
+                documentId: 'a',
+                userId: 'user-1',
+                previousState: 'validated',
+                deletedAt: body.data.deletedAt,
+                deletedObjects: [
+                    { bucketName: DOCUMENT_BUCKET, objectKey: 'a' },
+                    { bucketName: DOCUMENT_BUCKET, objectKey: 'metadata/a.json' }
+                ]
+            });
+        });
+
+        it('purges the quarantine copy of a quarantined document', async () => {
+            s3.put(QUARANTINE_BUCKET, 'quarantine/2025-01-20T10:00:01.000Z/b', 'notes', { metadata: { 'user-id': 'user-1' } });
+            await seed('q', 'user-1', 'quarantined', 'notes.txt', 'text/plain', '2025-01-21T10:00:00.000Z', {
+                quarantineKey: 'quarantine/2025-01-20T10:00:01.000Z/b'
+            });
+
+            expect((await remove('q')).statusCode).toBe(200);
+
+            expect(s3.keys(QUARANTINE_BUCKET)).toEqual([]);
+            expect(publishedDetail().deletedObjects).toContainEqual({
+                bucketName: QUARANTINE_BUCKET, objectKey: 'quarantine/2025-01-20T10:00:01.000Z/b', versionId: 'null'
+            });
+        });
+
+        it('gives a stored document\'s bytes back to the quotas, but not a quarantined one\'s', async () => {
+            const collectionKey = `collection#${defaultCollectionId('user-1')}`;
+            for (const usageKey of ['total', collectionKey]) {
+                await dynamo.send(new PutCommand({ TableName: USAGE_TABLE, Item: { userId: 'user-1', usageKey, bytes: 4096, documents: 4 } }));
+            }
+
+            await remove('a');
+            await remove('b');
+
+            expect(dynamo.items(USAGE_TABLE)).toEqual([
+                expect.objectContaining({ usageKey: 'total', bytes: 3072, documents: 3 }),
+                expect.objectContaining({ usageKey: collectionKey, bytes: 3072, documents: 3 })
+            ]);
+        });
+
+        it('reports other users\' documents as missing', async () => {
+            const { statusCode } = await remove('a', 'user-2');
+
+            expect(statusCode).toBe(404);
+            expect(s3.keys(DOCUMENT_BUCKET)).toContain('a');
+            expect(putEvents).not.toHaveBeenCalled();
+        });
+
+        it('refuses when the object\'s user-id metadata names someone else', async () => {
+            s3.put(DOCUMENT_BUCKET, 'a', 'report', { metadata: { 'user-id': 'user-2' } });
+
+            expect((await remove('a')).statusCode).toBe(404);
+            expect(s3.keys(DOCUMENT_BUCKET)).toContain('a');
+        });
+
+        it('deletes an upload that never finished and stops its multipart upload', async () => {
+            await seed('p', 'user-1', 'pending_upload', 'draft.pdf', 'application/pdf', '2025-02-11T10:00:00.000Z');
+            await seed('m', 'user-1', 'pending_upload', 'big.pdf', 'application/pdf', '2025-02-12T10:00:00.000Z', {
+                uploadMode: 'multipart', multipartUploadId: 'upload-m', partSize: 8 * 1024 * 1024
+            });
+            s3.multipartUploads.set('upload-m', { bucket: DOCUMENT_BUCKET, key: 'm', metadata: { 'user-id': 'user-1' }, parts: new Map() });
+
+            expect((await remove('p')).body.data).toMatchObject({ documentId: 'p', status: 'deleted' });
+            expect(publishedDetail().previousState).toBe('pending_upload');
+            expect((await remove('m')).statusCode).toBe(200);
+
+            expect(s3.multipartUploads.size).toBe(0);
+            expect(dynamo.items(DOCUMENT_TABLE).filter(item => ['p', 'm'].includes(item.documentId as string)).map(item => item.state))
+                .toEqual(['deleted', 'deleted']);
+        });
+
+        it('refuses documents that are still being validated or already deleted', async () => {
+            expect((await remove('c')).body.error).toBe('Document c is still validating');
+
+            await remove('a');
+            expect((await remove('a')).body.error).toBe('Document a is already deleted');
+        });
+
+        it('keeps the registry state when the event cannot be published, so the request can be retried', async () => {
+            putEvents.mockResolvedValueOnce({ FailedEntryCount: 1, Entries: [{ ErrorCode: 'InternalFailure' }] } as never);
+
+            expect((await remove('a')).statusCode).toBe(502);
+            expect(dynamo.items(DOCUMENT_TABLE).find(item => item.documentId === 'a')).toMatchObject({ state: 'validated' });
+
+            expect((await remove('a')).statusCode).toBe(200);
+            expect(putEvents).toHaveBeenCalledTimes(2);
+        });
+    });
+});
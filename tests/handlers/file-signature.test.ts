@@ -0,0 +1,107 @@
+import { isSignatureCompatible, sniffContent } from '../../lib/handlers/src/file-signature';
+import { findPolicyByMimeType } from '../../lib/handlers/src/document-policy';
+
+function zip(entries: Array<{ name: string; content?: string }>): Uint8Array {
+    const parts: Buffer[] = [];
+    for (const entry of entries) {
+        const name = Buffer.from(entry.name, 'latin1');
+        const data = Buffer.from(entry.content ?? '', 'latin1');
+        const header = Buffer.alloc(30);
+        header.writeUInt32LE(0x04034b50, 0);
+        header.writeUInt16LE(0, 8);
+        header.writeUInt32LE(data.length, 18);
+        header.writeUInt32LE(data.length, 22);
+        header.writeUInt16LE(name.length, 26);
+        parts.push(header, name, data);
+    }
+    return new Uint8Array(Buffer.concat(parts));
+}
+
+const DOCX = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+const XLSX = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+const ODT = 'application/vnd.oasis.opendocument.text';
+
+function policy(mimeType: string) {
+    return findPolicyByMimeType(mimeType) ?? { mimeType, signatures: [] };
+}
+
+describe('sniffContent', () => {
+    it('detects PDF headers, including ones preceded by junk bytes', () => {
+        expect(sniffContent(Buffer.from('%PDF-1.4\n')).kind).toBe('pdf');
+        expect(sniffContent(Buffer.from('\r\n%PDF-1.7\n')).kind).toBe('pdf');
+    });
+
+    it('identifies OOXML subtypes from their part names', () => {
+        const docx = sniffContent(zip([{ name: '[Content_Types].xml', content: '<Types/>' }, { name: 'word/document.xml' }]));
+        expect(docx).toMatchObject({ kind: 'ooxml', mimeType: DOCX });
+
+        const xlsx = sniffContent(zip([{ name: '[Content_Types].xml' }, { name: '_rels/.rels' }, { name: 'xl/workbook.xml' }]));
+        expect(xlsx.mimeType).toBe(XLSX);
+    });
+
+    it('reads the ODF mimetype entry', () => {
+        const result = sniffContent(zip([{ name: 'mimetype', content: ODT }, { name: 'content.xml' }]));
+        expect(result).toMatchObject({ kind: 'odf', mimeType: ODT });
+    });
+
+    it('falls back to a plain ZIP archive for unknown containers', () => {
+        expect(sniffContent(zip([{ name: 'payload.bin' }])).kind).toBe('zip');
+    });
+
+    it('detects OLE2 compound files and RTF', () => {
+        expect(sniffContent(Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1, 0, 0])).kind).toBe('ole2');
+        expect(sniffContent(Buffer.from('{\\rtf1\\ansi Hello}')).kind).toBe('rtf');
+    });
+
+    it('detects UTF-8 and UTF-16 text', () => {
+        expect(sniffContent(Buffer.from('héllo, wörld\n'))).toMatchObject({ kind: 'text', encoding: 'utf-8' });
+        expect(sniffContent(Buffer.from('﻿hello', 'utf16le'))).toMatchObject({ kind: 'text', encoding: 'utf-16le' });
+        expect(sniffContent(Buffer.from('plain ascii text', 'utf16le'))).toMatchObject({ kind: 'text', encoding: 'utf-16le' });
+    });
+
+    it('tolerates a multi-byte character cut off at the end of the sniffed prefix', () => {
+        const text = Buffer.from('price: €');
+        expect(sniffContent(text.subarray(0, text.length - 1)).kind).toBe('text');
+    });
+
+    it('classifies arbitrary binary as unknown and text starting with "MZ" as text', () => {
+        expect(sniffContent(Buffer.from([0x00, 0x01, 0x02, 0xff, 0xfe, 0x00, 0x10])).kind).toBe('unknown');
+        expect(sniffContent(Buffer.from('MZ Holdings quarterly notes')).kind).toBe('text');
+    });
+
+    it('detects ELF executables', () => {
+        expect(sniffContent(Buffer.from([0x7f, 0x45, 0x4c, 0x46, 2, 1, 1, 0])).kind).toBe('executable');
+    });
+
+    it('classifies a PE with a PDF header in its DOS stub as an executable', () => {
+        const polyglot = Buffer.alloc(256);
+        polyglot.write('MZ', 0, 'latin1');
+        polyglot.write('%PDF-1.7\n', 0x10, 'latin1');
+        polyglot.writeUInt32LE(0x80, 0x3c);
+        polyglot.write('PE\0\0', 0x80, 'latin1');
+
+        expect(sniffContent(polyglot)).toEqual({ kind: 'executable', description: 'Windows PE executable' });
+        expect(isSignatureCompatible(sniffContent(polyglot), policy('application/pdf'))).toBe(false);
+    });
+});
+
+describe('isSignatureCompatible', () => {
+    it('requires an identified container subtype to match exactly', () => {
+        const docx = sniffContent(zip([{ name: '[Content_Types].xml' }, { name: 'word/document.xml' }]));
+        expect(isSignatureCompatible(docx, policy(DOCX))).toBe(true);
+        expect(isSignatureCompatible(docx, policy(XLSX))).toBe(false);
+    });
+
+    it('accepts an OOXML container whose part list was truncated for any OOXML type', () => {
+        const truncated = sniffContent(zip([{ name: '[Content_Types].xml' }]));
+        expect(isSignatureCompatible(truncated, policy(XLSX))).toBe(true);
+        expect(isSignatureCompatible(truncated, policy('application/msword'))).toBe(false);
+    });
+
+    it('rejects text declared as a binary format and unknown MIME types', () => {
+        const text = sniffContent(Buffer.from('hello'));
+        expect(isSignatureCompatible(text, policy('application/pdf'))).toBe(false);
+        expect(isSignatureCompatible(text, policy('text/csv'))).toBe(true);
+        expect(isSignatureCompatible(text, policy('application/x-msdownload'))).toBe(false);
+    });
+});
@@ -0,0 +1,107 @@
+import { APIGatewayProxyEventV2, Context, S3Event } from 'aws-lambda';
+import type { SocketEvent } from '../../../lib/handlers/src/websocket-handler';
+
+export const lambdaContext: Context = {
+    callbackWaitsForEmptyEventLoop: false,
+    functionName: 'test-function',
+    functionVersion: '1',
+    invokedFunctionArn: 'arn:aws:lambda:us-east-1:123456789012:function:test-function',
+    memoryLimitInMB: '512',
+    awsRequestId: 'test-request-id',
+    logGroupName: '/aws/lambda/test-function',
+    logStreamName: '2023/01/01/[$LATEST]test-stream',
+    getRemainingTimeInMillis: () => 30000,
+    done: jest.fn(),
+    fail: jest.fn(),
+    succeed: jest.fn()
+};
+
+export function s3Event(bucket: string, key: string, size: number): S3Event {
+    return {
+        Records: [{
+            eventVersion: '2.1',
+            eventSource: 'aws:s3',
+            awsRegion: 'us-east-1',
+            eventTime: new Date().toISOString(),
+            eventName: 'ObjectCreated:Put',
+            userIdentity: { principalId: 'test-principal' },
+            requestParameters: { sourceIPAddress: '127.0.0.1' },
+            responseElements: { 'x-amz-request-id': 'test-request-id', 'x-amz-id-2': 'test-id-2' },
+            s3: {
+                s3SchemaVersion: '1.0',
+                configurationId: 'test-config',
+                bucket: { name: bucket, ownerIdentity: { principalId: 'test-principal' }, arn: `arn:aws:s3:::${bucket}` },
+                object: { key: encodeURIComponent(key), size, eTag: 'etag', sequencer: 'sequencer' }
+            }
+        }]
+    };
+}
+
+/** Callers are in `odmd-rag-uploader` unless `groups` says otherwise; pass `null` for a token without the claim. */
+export function apiEvent(options: {
+    userId: string;
+    email?: string;
+    groups?: string[] | string | null;
+    /** Extra JWT claims, e.g. `token_use`, `client_id` and `scope` for a service client's access token. */
+    claims?: Record<string, unknown>;
+    method?: string;
+    path?: string;
+    pathParameters?: Record<string, string>;
+    queryStringParameters?: Record<string, string>;
+    body?: unknown;
+}): APIGatewayProxyEventV2 {
+    const claims: Record<string, unknown> = { sub: options.userId, ...options.claims };
+    if (options.email) claims.email = options.email;
+    const groups = options.groups === undefined ? ['odmd-rag-uploader'] : options.groups;
+    if (groups !== null) claims['cognito:groups'] = groups;
+
+    return {
+        version: '2.0',
+        routeKey: `${options.method || 'GET'} ${options.path || '/'}`,
+        rawPath: options.path || '/',
+        rawQueryString: '',
+        headers: { authorization: 'Bearer test-token' },
+        ...(options.pathParameters && { pathParameters: options.pathParameters }),
+        ...(options.queryStringParameters && { queryStringParameters: options.queryStringParameters }),
+        ...(options.body !== undefined && { body: JSON.stringify(options.body) }),
+        isBase64Encoded: false,
+        requestContext: {
+            accountId: '123456789012',
+            apiId: 'test-api',
+            domainName: 'test.example.com',
+            domainPrefix: 'test',
+            http: { method: options.method || 'GET', path: options.path || '/', protocol: 'HTTP/1.1', sourceIp: '127.0.0.1', userAgent: 'jest' },
+            requestId: 'test-api-request-id',
+            routeKey: `${options.method || 'GET'} ${options.path || '/'}`,
+            stage: '$default',
+            time: new Date().toISOString(),
+            timeEpoch: Date.now(),
+            authorizer: { jwt: { claims, scopes: [] } }
+        } as any
+    };
+}
+
+/** A message on the status WebSocket API from a connection the authorizer let in as `userId`; pass `null` for none. */
+export function socketEvent(options: { routeKey: string; connectionId?: string; userId?: string | null; body?: unknown }): SocketEvent {
+    const userId = options.userId === undefined ? 'user-1' : options.userId;
+    return {
+        ...(options.body !== undefined && { body: typeof options.body === 'string' ? options.body : JSON.stringify(options.body) }),
+        isBase64Encoded: false,
+        requestContext: {
+            routeKey: options.routeKey,
+            messageId: 'test-message-id',
+            eventType: options.routeKey === '$connect' ? 'CONNECT' : options.routeKey === '$disconnect' ? 'DISCONNECT' : 'MESSAGE',
+            extendedRequestId: 'test-extended-request-id',
+            requestTime: new Date().toUTCString(),
+            messageDirection: 'IN',
+            stage: 'live',
+            connectedAt: Date.now(),
+            requestTimeEpoch: Date.now(),
+            requestId: 'test-socket-request-id',
+            domainName: 'test-socket.execute-api.us-east-1.amazonaws.com',
+            connectionId: options.connectionId ?? 'conn-1',
+            apiId: 'test-socket',
+            ...(userId !== null && { authorizer: { userId, principal: `${userId}@example.com` } })
+        }
+    };
+}
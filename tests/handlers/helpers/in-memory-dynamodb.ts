@@ -0,0 +1,267 @@
+import { DeleteCommand, DynamoDBDocumentClient, GetCommand, PutCommand, QueryCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { BATCH_INDEX_NAME, CONTENT_INDEX_NAME, LINEAGE_INDEX_NAME, STATE_INDEX_NAME, USER_INDEX_NAME } from '../../../lib/handlers/src/document-registry';
+import { SUBSCRIBER_INDEX_NAME } from '../../../lib/handlers/src/connection-registry';
+
+type Item = Record<string, any>;
+type Names = Record<string, string> | undefined;
+type Values = Record<string, any> | undefined;
+
+function conditionFailed() {
+    return Object.assign(new Error('The conditional request failed'), { name: 'ConditionalCheckFailedException' });
+}
+
+function resolveName(token: string, names: Names): string {
+    return token.startsWith('#') ? names![token]! : token;
+}
+
+function resolveValue(token: string, values: Values): any {
+    if (!(token in values!)) throw new Error(`Missing expression value ${token}`);
+    return values![token];
+}
+
+/** Splits on AND, keeping `x BETWEEN :a AND :b` together. */
+function clausesOf(expression: string): string[] {
+    const clauses: string[] = [];
+    for (const part of expression.split(/\s+AND\s+/i)) {
+        const previous = clauses[clauses.length - 1];
+        if (previous && /\sBETWEEN\s+\S+$/i.test(previous)) {
+            clauses[clauses.length - 1] = `${previous} AND ${part}`;
+        } else {
+            clauses.push(part);
+        }
+    }
+    return clauses;
+}
+
+/**
+ * Evaluates the small condition grammar the handlers use: clauses joined by AND,
+ * each one of attribute_exists/attribute_not_exists, begins_with, BETWEEN,
+ * `=`, `<>`, `<`, `<=`, `>`, `>=`, or IN, or a parenthesised OR of those.
+ */
+function evaluate(expression: string | undefined, item: Item | undefined, names: Names, values: Values): boolean {
+    if (!expression) return true;
+    return clausesOf(expression).every(clause => {
+        const text = clause.trim().replace(/^\((.*)\)$/, '$1');
+        if (/\s+OR\s+/i.test(text)) {
+            return text.split(/\s+OR\s+/i).some(part => evaluate(part, item, names, values));
+        }
+        let match = text.match(/^attribute_(not_)?exists\(\s*(\S+)\s*\)$/);
+        if (match) {
+            const exists = item !== undefined && item[resolveName(match[2]!, names)] !== undefined;
+            return match[1] ? !exists : exists;
+        }
+        match = text.match(/^begins_with\(\s*(\S+)\s*,\s*(\S+)\s*\)$/);
+        if (match) {
+            const actual = item?.[resolveName(match[1]!, names)];
+            return typeof actual === 'string' && actual.startsWith(resolveValue(match[2]!, values));
+        }
+        match = text.match(/^(\S+)\s+BETWEEN\s+(\S+)\s+AND\s+(\S+)$/i);
+        if (match) {
+            const actual = item?.[resolveName(match[1]!, names)];
+            return actual !== undefined && actual >= resolveValue(match[2]!, values) && actual <= resolveValue(match[3]!, values);
+        }
+        match = text.match(/^(\S+)\s+IN\s+\((.*)\)$/i);
+        if (match) {
+            const actual = item?.[resolveName(match[1]!, names)];
+            return match[2]!.split(',').some(token => resolveValue(token.trim(), values) === actual);
+        }
+        match = text.match(/^(\S+)\s*(=|<>|<=|>=|<|>)\s*(\S+)$/);
+        if (match) {
+            const actual = item?.[resolveName(match[1]!, names)];
+            const expected = resolveValue(match[3]!, values);
+            switch (match[2]) {
+                case '=': return actual === expected;
+                case '<>': return actual !== expected;
+                case '<': return actual !== undefined && actual < expected;
+                case '<=': return actual !== undefined && actual <= expected;
+                case '>': return actual !== undefined && actual > expected;
+                default: return actual !== undefined && actual >= expected;
+            }
+        }
+        throw new Error(`InMemoryDynamoDB cannot evaluate condition: ${clause}`);
+    });
+}
+
+function applyUpdate(item: Item, expression: string, names: Names, values: Values): void {
+    const sections = expression.split(/\b(SET|REMOVE|ADD)\b/).map(s => s.trim()).filter(Boolean);
+    for (let i = 0; i < sections.length; i += 2) {
+        const action = sections[i];
+        const clauses = sections[i + 1]!.split(',').map(c => c.trim());
+        for (const clause of clauses) {
+            if (action === 'SET') {
+                const [target, source] = clause.split('=').map(s => s.trim());
+                const ifNotExists = source!.match(/^if_not_exists\(\s*(\S+)\s*,\s*(\S+)\s*\)$/);
+                const arithmetic = source!.match(/^(\S+)\s*([+-])\s*(\S+)$/);
+                const name = resolveName(target!, names);
+                if (ifNotExists) {
+                    item[name] = item[resolveName(ifNotExists[1]!, names)] ?? resolveValue(ifNotExists[2]!, values);
+                } else if (arithmetic) {
+                    const left = arithmetic[1]!.startsWith(':') ? resolveValue(arithmetic[1]!, values) : item[resolveName(arithmetic[1]!, names)] ?? 0;
+                    const right = resolveValue(arithmetic[3]!, values);
+                    item[name] = arithmetic[2] === '+' ? left + right : left - right;
+                } else {
+                    item[name] = resolveValue(source!, values);
+                }
+            } else if (action === 'REMOVE') {
+                delete item[resolveName(clause, names)];
+            } else if (action === 'ADD') {
+                const [target, source] = clause.split(/\s+/);
+                const name = resolveName(target!, names);
+                item[name] = (item[name] ?? 0) + resolveValue(source!, values);
+            } else {
+                throw new Error(`InMemoryDynamoDB cannot apply update: ${expression}`);
+            }
+        }
+    }
+}
+
+interface TableDefinition {
+    partitionKey: string;
+    sortKey?: string;
+    indexes: Record<string, { partitionKey: string; sortKey?: string }>;
+    items: Map<string, Item>;
+}
+
+/**
+ * Minimal DynamoDB stand-in for handler tests, answering the document client
+ * commands the handlers send. Install it with `jest.spyOn(DynamoDBDocumentClient.prototype, 'send')`.
+ */
+export class InMemoryDynamoDB {
+    private readonly tables = new Map<string, TableDefinition>();
+
+    table(name: string, partitionKey: string, options: { sortKey?: string; indexes?: TableDefinition['indexes'] } = {}): this {
+        this.tables.set(name, {
+            partitionKey,
+            ...(options.sortKey && { sortKey: options.sortKey }),
+            indexes: options.indexes || {},
+            items: new Map()
+        });
+        return this;
+    }
+
+    items(name: string): Item[] {
+        return [...this.definition(name).items.values()].map(item => structuredClone(item));
+    }
+
+    install(): jest.SpyInstance {
+        return jest.spyOn(DynamoDBDocumentClient.prototype, 'send').mockImplementation(((command: unknown) => this.send(command)) as any);
+    }
+
+    async send(command: unknown): Promise<any> {
+        if (command instanceof PutCommand) {
+            const { TableName, Item, ConditionExpression, ExpressionAttributeNames, ExpressionAttributeValues } = command.input;
+            const table = this.definition(TableName!);
+            const key = this.keyOf(table, Item!);
+            if (!evaluate(ConditionExpression, table.items.get(key), ExpressionAttributeNames, ExpressionAttributeValues)) throw conditionFailed();
+            table.items.set(key, structuredClone(Item!));
+            return {};
+        }
+        if (command instanceof GetCommand) {
+            const table = this.definition(command.input.TableName!);
+            const item = table.items.get(this.keyOf(table, command.input.Key!));
+            return item ? { Item: structuredClone(item) } : {};
+        }
+        if (command instanceof UpdateCommand) {
+            const { TableName, Key, UpdateExpression, ConditionExpression, ExpressionAttributeNames, ExpressionAttributeValues, ReturnValues } = command.input;
+            const table = this.definition(TableName!);
+            const key = this.keyOf(table, Key!);
+            const existing = table.items.get(key);
+            if (!evaluate(ConditionExpression, existing, ExpressionAttributeNames, ExpressionAttributeValues)) throw conditionFailed();
+            const item = structuredClone(existing || { ...Key });
+            applyUpdate(item, UpdateExpression!, ExpressionAttributeNames, ExpressionAttributeValues);
+            table.items.set(key, item);
+            return ReturnValues === 'ALL_NEW' ? { Attributes: structuredClone(item) } : {};
+        }
+        if (command instanceof DeleteCommand) {
+            const { TableName, Key, ConditionExpression, ExpressionAttributeNames, ExpressionAttributeValues } = command.input;
+            const table = this.definition(TableName!);
+            const key = this.keyOf(table, Key!);
+            if (!evaluate(ConditionExpression, table.items.get(key), ExpressionAttributeNames, ExpressionAttributeValues)) throw conditionFailed();
+            table.items.delete(key);
+            return {};
+        }
+        if (command instanceof QueryCommand) {
+            return this.query(command);
+        }
+        throw new Error(`InMemoryDynamoDB does not support ${(command as object).constructor.name}`);
+    }
+
+    private query(command: QueryCommand) {
+        const { TableName, IndexName, KeyConditionExpression, FilterExpression, ExpressionAttributeNames, ExpressionAttributeValues, ScanIndexForward, Limit, ExclusiveStartKey } = command.input;
+        const table = this.definition(TableName!);
+        const keys = IndexName ? table.indexes[IndexName] : table;
+        if (!keys) throw new Error(`Unknown index ${IndexName}`);
+
+        let matches = [...table.items.values()]
+            .filter(item => item[keys.partitionKey] !== undefined && (!keys.sortKey || item[keys.sortKey] !== undefined))
+            .filter(item => evaluate(KeyConditionExpression, item, ExpressionAttributeNames, ExpressionAttributeValues));
+        if (keys.sortKey) {
+            const sortKey = keys.sortKey;
+            matches.sort((a, b) => (a[sortKey] < b[sortKey] ? -1 : a[sortKey] > b[sortKey] ? 1 : 0) * (ScanIndexForward === false ? -1 : 1));
+        }
+        if (ExclusiveStartKey) {
+            const start = matches.findIndex(item => this.keyOf(table, item) === this.keyOf(table, ExclusiveStartKey));
+            matches = matches.slice(start + 1);
+        }
+
+        const page = Limit ? matches.slice(0, Limit) : matches;
+        const items = page.filter(item => evaluate(FilterExpression, item, ExpressionAttributeNames, ExpressionAttributeValues));
+        const last = page[page.length - 1];
+        const lastEvaluatedKey = Limit && matches.length > Limit && last
+            ? Object.fromEntries([table.partitionKey, table.sortKey, keys.partitionKey, keys.sortKey]
+                .filter((k): k is string => !!k).map(k => [k, last[k]]))
+            : undefined;
+
+        return {
+            Items: items.map(item => structuredClone(item)),
+            Count: items.length,
+            ...(lastEvaluatedKey && { LastEvaluatedKey: lastEvaluatedKey })
+        };
+    }
+
+    private definition(name: string): TableDefinition {
+        const table = this.tables.get(name);
+        if (!table) throw Object.assign(new Error(`Requested resource not found: Table: ${name}`), { name: 'ResourceNotFoundException' });
+        return table;
+    }
+
+    private keyOf(table: TableDefinition, item: Item): string {
+        return JSON.stringify([item[table.partitionKey], table.sortKey ? item[table.sortKey] : undefined]);
+    }
+}
+
+/** Adds the collection table, keyed by user and collection ID, to `dynamo`. */
+export function withCollectionTable(dynamo: InMemoryDynamoDB, name: string): InMemoryDynamoDB {
+    return dynamo.table(name, 'userId', { sortKey: 'collectionId' });
+}
+
+/** Adds the usage table, keyed by user ID and usage key, to `dynamo`. */
+export function withUsageTable(dynamo: InMemoryDynamoDB, name: string): InMemoryDynamoDB {
+    return dynamo.table(name, 'userId', { sortKey: 'usageKey' });
+}
+
+/** Adds the WebSocket connection table, keyed by connection and document ID, to `dynamo`. */
+export function withConnectionTable(dynamo: InMemoryDynamoDB, name: string): InMemoryDynamoDB {
+    return dynamo.table(name, 'connectionId', {
+        sortKey: 'documentId',
+        indexes: { [SUBSCRIBER_INDEX_NAME]: { partitionKey: 'documentId', sortKey: 'connectionId' } }
+    });
+}
+
+/** Adds the document history table, keyed by document ID and entry key, to `dynamo`. */
+export function withHistoryTable(dynamo: InMemoryDynamoDB, name: string): InMemoryDynamoDB {
+    return dynamo.table(name, 'documentId', { sortKey: 'entryKey' });
+}
+
+/** An in-memory document registry table with the indexes the stack defines. */
+export function documentRegistryTable(name: string): InMemoryDynamoDB {
+    return new InMemoryDynamoDB().table(name, 'documentId', {
+        indexes: {
+            [USER_INDEX_NAME]: { partitionKey: 'userId', sortKey: 'createdAt' },
+            [CONTENT_INDEX_NAME]: { partitionKey: 'contentKey', sortKey: 'createdAt' },
+            [LINEAGE_INDEX_NAME]: { partitionKey: 'lineageId', sortKey: 'revision' },
+            [BATCH_INDEX_NAME]: { partitionKey: 'batchId', sortKey: 'createdAt' },
+            [STATE_INDEX_NAME]: { partitionKey: 'state', sortKey: 'updatedAt' }
+        }
+    });
+}
@@ -0,0 +1,204 @@
+import {
+    AbortMultipartUploadCommand,
+    CompleteMultipartUploadCommand,
+    CopyObjectCommand,
+    CreateMultipartUploadCommand,
+    DeleteObjectCommand,
+    GetObjectCommand,
+    GetObjectTaggingCommand,
+    HeadObjectCommand,
+    ListObjectVersionsCommand,
+    ListPartsCommand,
+    PutObjectCommand,
+    PutObjectTaggingCommand,
+    S3Client
+} from '@aws-sdk/client-s3';
+
+export interface StoredObject {
+    body: Buffer;
+    contentType?: string;
+    metadata: Record<string, string>;
+    tags: Record<string, string>;
+    lastModified: Date;
+}
+
+interface MultipartUpload {
+    bucket: string;
+    key: string;
+    contentType?: string;
+    metadata: Record<string, string>;
+    parts: Map<number, { body: Buffer; eTag: string }>;
+}
+
+function notFound(name: 'NotFound' | 'NoSuchKey' | 'NoSuchUpload') {
+    return Object.assign(new Error(name), { name });
+}
+
+/**
+ * Minimal S3 stand-in for handler tests: stores objects per bucket and answers the
+ * commands the handlers send. Install it with `jest.spyOn(S3Client.prototype, 'send')`.
+ */
+export class InMemoryS3 {
+    readonly buckets = new Map<string, Map<string, StoredObject>>();
+    readonly multipartUploads = new Map<string, MultipartUpload>();
+    private uploadCounter = 0;
+
+    put(bucket: string, key: string, body: string | Buffer, options: { contentType?: string; metadata?: Record<string, string> } = {}): void {
+        this.bucket(bucket).set(key, {
+            body: Buffer.isBuffer(body) ? body : Buffer.from(body),
+            ...(options.contentType && { contentType: options.contentType }),
+            metadata: { ...options.metadata },
+            tags: {},
+            lastModified: new Date()
+        });
+    }
+
+    get(bucket: string, key: string): StoredObject | undefined {
+        return this.buckets.get(bucket)?.get(key);
+    }
+
+    keys(bucket: string): string[] {
+        return [...this.bucket(bucket).keys()];
+    }
+
+    /** Stores a part the way a PUT to a presigned UploadPart URL would, returning its ETag. */
+    uploadPart(uploadId: string, partNumber: number, body: string | Buffer): string {
+        const upload = this.multipartUploads.get(uploadId);
+        if (!upload) throw notFound('NoSuchUpload');
+        const eTag = `"${uploadId}-${partNumber}"`;
+        upload.parts.set(partNumber, { body: Buffer.isBuffer(body) ? body : Buffer.from(body), eTag });
+        return eTag;
+    }
+
+    install(): jest.SpyInstance {
+        return jest.spyOn(S3Client.prototype, 'send').mockImplementation(((command: unknown) => this.send(command)) as any);
+    }
+
+    async send(command: unknown): Promise<any> {
+        if (command instanceof PutObjectCommand) {
+            const { Bucket, Key, Body, ContentType, Metadata } = command.input;
+            this.put(Bucket!, Key!, Buffer.from(Body as string | Uint8Array), {
+                ...(ContentType && { contentType: ContentType }),
+                ...(Metadata && { metadata: Metadata })
+            });
+            return { ETag: '"etag"' };
+        }
+        if (command instanceof GetObjectCommand) {
+            const { Bucket, Key, Range } = command.input;
+            const object = this.get(Bucket!, Key!);
+            if (!object) throw notFound('NoSuchKey');
+            let body = object.body;
+            const range = Range?.match(/^bytes=(\d+)-(\d+)$/);
+            if (range) body = body.subarray(Number(range[1]), Number(range[2]) + 1);
+            return {
+                ...this.head(object),
+                Body: {
+                    [Symbol.asyncIterator]: async function* () {
+                        yield new Uint8Array(body);
+                    },
+                    transformToByteArray: async () => new Uint8Array(body),
+                    transformToString: async () => body.toString('utf-8')
+                }
+            };
+        }
+        if (command instanceof HeadObjectCommand) {
+            const object = this.get(command.input.Bucket!, command.input.Key!);
+            if (!object) throw notFound('NotFound');
+            return this.head(object);
+        }
+        if (command instanceof CopyObjectCommand) {
+            const { Bucket, Key, CopySource, Metadata, MetadataDirective, Tagging, TaggingDirective } = command.input;
+            const separator = CopySource!.indexOf('/');
+            const source = this.get(CopySource!.slice(0, separator), CopySource!.slice(separator + 1));
+            if (!source) throw notFound('NoSuchKey');
+            this.bucket(Bucket!).set(Key!, {
+                ...source,
+                metadata: MetadataDirective === 'REPLACE' ? { ...Metadata } : { ...source.metadata },
+                tags: TaggingDirective === 'REPLACE' ? Object.fromEntries(new URLSearchParams(Tagging)) : { ...source.tags },
+                lastModified: new Date()
+            });
+            return { CopyObjectResult: { ETag: '"etag"' } };
+        }
+        if (command instanceof CreateMultipartUploadCommand) {
+            const { Bucket, Key, ContentType, Metadata } = command.input;
+            const uploadId = `upload-${++this.uploadCounter}`;
+            this.multipartUploads.set(uploadId, {
+                bucket: Bucket!,
+                key: Key!,
+                ...(ContentType && { contentType: ContentType }),
+                metadata: { ...Metadata },
+                parts: new Map()
+            });
+            return { Bucket, Key, UploadId: uploadId };
+        }
+        if (command instanceof ListPartsCommand) {
+            const upload = this.multipartUploads.get(command.input.UploadId!);
+            if (!upload) throw notFound('NoSuchUpload');
+            const parts = [...upload.parts.entries()].sort(([a], [b]) => a - b)
+                .map(([PartNumber, part]) => ({ PartNumber, ETag: part.eTag, Size: part.body.length }));
+            return { Parts: parts, IsTruncated: false };
+        }
+        if (command instanceof CompleteMultipartUploadCommand) {
+            const { UploadId, MultipartUpload } = command.input;
+            const upload = this.multipartUploads.get(UploadId!);
+            if (!upload) throw notFound('NoSuchUpload');
+            const bodies = (MultipartUpload?.Parts || []).map(({ PartNumber, ETag }) => {
+                const part = upload.parts.get(PartNumber!);
+                if (!part || part.eTag !== ETag) throw Object.assign(new Error('InvalidPart'), { name: 'InvalidPart' });
+                return part.body;
+            });
+            this.put(upload.bucket, upload.key, Buffer.concat(bodies), {
+                ...(upload.contentType && { contentType: upload.contentType }),
+                metadata: upload.metadata
+            });
+            this.multipartUploads.delete(UploadId!);
+            return { Bucket: upload.bucket, Key: upload.key, ETag: `"${UploadId}-${bodies.length}"` };
+        }
+        if (command instanceof AbortMultipartUploadCommand) {
+            if (!this.multipartUploads.delete(command.input.UploadId!)) throw notFound('NoSuchUpload');
+            return {};
+        }
+        if (command instanceof ListObjectVersionsCommand) {
+            // Unversioned buckets report every object as a single `null` version.
+            const { Bucket, Prefix } = command.input;
+            const versions = this.keys(Bucket!).filter(key => key.startsWith(Prefix || ''))
+                .map(key => ({ Key: key, VersionId: 'null', IsLatest: true }));
+            return { Versions: versions, IsTruncated: false };
+        }
+        if (command instanceof DeleteObjectCommand) {
+            this.buckets.get(command.input.Bucket!)?.delete(command.input.Key!);
+            return {};
+        }
+        if (command instanceof PutObjectTaggingCommand) {
+            const object = this.get(command.input.Bucket!, command.input.Key!);
+            if (!object) throw notFound('NoSuchKey');
+            object.tags = Object.fromEntries((command.input.Tagging?.TagSet || []).map(t => [t.Key!, t.Value!]));
+            return {};
+        }
+        if (command instanceof GetObjectTaggingCommand) {
+            const object = this.get(command.input.Bucket!, command.input.Key!);
+            if (!object) throw notFound('NoSuchKey');
+            return { TagSet: Object.entries(object.tags).map(([Key, Value]) => ({ Key, Value })) };
+        }
+        throw new Error(`InMemoryS3 does not support ${(command as object).constructor.name}`);
+    }
+
+    private head(object: StoredObject) {
+        return {
+            ContentType: object.contentType,
+            ContentLength: object.body.length,
+            LastModified: object.lastModified,
+            ETag: '"etag"',
+            Metadata: { ...object.metadata }
+        };
+    }
+
+    private bucket(name: string): Map<string, StoredObject> {
+        let bucket = this.buckets.get(name);
+        if (!bucket) {
+            bucket = new Map();
+            this.buckets.set(name, bucket);
+        }
+        return bucket;
+    }
+}
@@ -0,0 +1,73 @@
+import { deflateSync } from 'zlib';
+
+export interface PdfObjectSpec {
+    dictionary: string;
+    stream?: string | Buffer;
+    /** FlateDecode the stream and say so in the dictionary. */
+    deflate?: boolean;
+}
+
+/**
+ * Writes a PDF with a cross-reference table. Object `n` is `objects[n - 1]`; the
+ * trailer points `/Root` at object 1 and takes any further entries from `trailer`.
+ */
+export function buildPdf(objects: (string | PdfObjectSpec)[], trailer = ''): Buffer {
+    const parts: Buffer[] = [Buffer.from('%PDF-1.7\n%\xe2\xe3\xcf\xd3\n', 'latin1')];
+    const offsets: number[] = [];
+    let length = parts[0]!.length;
+    const append = (part: Buffer) => {
+        parts.push(part);
+        length += part.length;
+    };
+
+    objects.forEach((spec, index) => {
+        offsets.push(length);
+        const { dictionary, stream, deflate } = typeof spec === 'string' ? { dictionary: spec } : spec;
+        if (stream === undefined) {
+            append(Buffer.from(`${index + 1} 0 obj\n${dictionary}\nendobj\n`, 'latin1'));
+            return;
+        }
+        const raw = Buffer.isBuffer(stream) ? stream : Buffer.from(stream, 'latin1');
+        const data = deflate ? deflateSync(raw) : raw;
+        const entries = dictionary.replace(/^<<|>>$/g, '');
+        append(Buffer.from(`${index + 1} 0 obj\n<<${entries} /Length ${data.length}${deflate ? ' /Filter /FlateDecode' : ''}>>\nstream\n`, 'latin1'));
+        append(data);
+        append(Buffer.from('\nendstream\nendobj\n', 'latin1'));
+    });
+
+    const xref = length;
+    append(Buffer.from([
+        'xref',
+        `0 ${objects.length + 1}`,
+        '0000000000 65535 f ',
+        ...offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n `),
+        'trailer',
+        `<< /Size ${objects.length + 1} /Root 1 0 R ${trailer}>>`,
+        'startxref',
+        String(xref),
+        '%%EOF',
+        ''
+    ].join('\n'), 'latin1'));
+    return Buffer.concat(parts);
+}
+
+/**
+ * A catalog, a page tree and one page per entry of `contents`, each with that
+ * content stream. `extraObjects` are numbered from `3 + 2 * contents.length`.
+ */
+export function pdfWithPages(contents: string[], options: { catalog?: string; extraObjects?: (string | PdfObjectSpec)[]; resources?: string; trailer?: string } = {}): Buffer {
+    const firstPage = 3;
+    const firstContent = firstPage + contents.length;
+    const pages = contents.map((_content, index) =>
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Contents ${firstContent + index} 0 R /Resources ${options.resources ?? '<< >>'} >>`);
+    return buildPdf([
+        `<< /Type /Catalog /Pages 2 0 R ${options.catalog ?? ''}>>`,
+        `<< /Type /Pages /Kids [${contents.map((_content, index) => `${firstPage + index} 0 R`).join(' ')}] /Count ${contents.length} >>`,
+        ...pages,
+        ...contents.map(content => ({ dictionary: '<< >>', stream: content, deflate: true })),
+        ...(options.extraObjects ?? [])
+    ], options.trailer);
+}
+
+export const TEXT_CONTENT = 'BT /F1 12 Tf 72 712 Td (Quarterly report) Tj ET';
+export const SCANNED_PAGE_CONTENT = 'q 612 0 0 792 0 0 cm /Im0 Do Q';
@@ -0,0 +1,71 @@
+import { AddressInfo, createServer, Server, Socket } from 'net';
+
+/** The EICAR anti-virus test file; real scanners report it as `Win.Test.EICAR_HDB-1`. */
+export const EICAR = 'X5O!P%@AP[4\\PZX54(P^)7CC)7}$EICAR-STANDARD-ANTIVIRUS-TEST-FILE!$H+H*';
+
+/**
+ * Local stand-in for clamd: answers `zPING` and `zINSTREAM` on a loopback port the
+ * way clamd does. Streams containing the EICAR string are reported as infected.
+ */
+export class StubClamd {
+    /** The reassembled content of every stream scanned, and the chunk sizes it arrived in. */
+    readonly scanned: { content: Buffer; chunks: number[] }[] = [];
+    /** `down` drops every connection without a reply, `silent` accepts it and never answers, `error` answers with an ERROR line. */
+    mode: 'up' | 'down' | 'silent' | 'error' = 'up';
+    private readonly server: Server = createServer(socket => this.serve(socket));
+    private readonly sockets = new Set<Socket>();
+
+    async start(): Promise<number> {
+        await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+        return (this.server.address() as AddressInfo).port;
+    }
+
+    async stop(): Promise<void> {
+        this.sockets.forEach(socket => socket.destroy());
+        await new Promise(resolve => this.server.close(resolve));
+    }
+
+    private serve(socket: Socket): void {
+        this.sockets.add(socket);
+        socket.on('close', () => this.sockets.delete(socket));
+        socket.on('error', () => undefined);
+        if (this.mode === 'down') {
+            socket.destroy();
+            return;
+        }
+
+        let buffer = Buffer.alloc(0);
+        let command: string | undefined;
+        const chunks: Buffer[] = [];
+        socket.on('data', data => {
+            buffer = Buffer.concat([buffer, data]);
+            if (command === undefined) {
+                const end = buffer.indexOf(0);
+                if (end < 0) return;
+                command = buffer.subarray(0, end).toString();
+                buffer = buffer.subarray(end + 1);
+                if (command === 'zPING') return this.reply(socket, 'PONG');
+            }
+            while (buffer.length >= 4) {
+                const length = buffer.readUInt32BE(0);
+                if (buffer.length < 4 + length) return;
+                if (length === 0) return this.finish(socket, chunks);
+                chunks.push(buffer.subarray(4, 4 + length));
+                buffer = buffer.subarray(4 + length);
+            }
+        });
+    }
+
+    private finish(socket: Socket, chunks: Buffer[]): void {
+        const content = Buffer.concat(chunks);
+        this.scanned.push({ content, chunks: chunks.map(chunk => chunk.length) });
+        if (this.mode === 'silent') return;
+        if (this.mode === 'error') return this.reply(socket, 'INSTREAM size limit exceeded. ERROR');
+        this.reply(socket, content.includes(EICAR) ? 'stream: Win.Test.EICAR_HDB-1 FOUND' : 'stream: OK');
+    }
+
+    private reply(socket: Socket, message: string): void {
+        if (this.mode === 'silent') return;
+        socket.end(`${message}\0`);
+    }
+}
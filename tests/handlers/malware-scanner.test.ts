@@ -0,0 +1,258 @@
+import { createHash } from 'crypto';
+import { EventBridgeClient, PutEventsCommand } from '@aws-sdk/client-eventbridge';
+import { GetObjectCommand, S3Client } from '@aws-sdk/client-s3';
+import { PutCommand } from '@aws-sdk/lib-dynamodb';
+import { ClamdScanner, parseClamdReply, scannerFromEnv, ScannerUnavailableError } from '../../lib/handlers/src/malware-scanner';
+import { InMemoryS3 } from './helpers/in-memory-s3';
+import { documentRegistryTable, InMemoryDynamoDB, withHistoryTable, withUsageTable } from './helpers/in-memory-dynamodb';
+import { lambdaContext, s3Event } from './helpers/events';
+import { EICAR, StubClamd } from './helpers/stub-clamd';
+
+const DOCUMENT_BUCKET = process.env.DOCUMENT_BUCKET!;
+const DOCUMENT_TABLE = process.env.DOCUMENT_TABLE!;
+const USAGE_TABLE = process.env.USAGE_TABLE!;
+const HISTORY_TABLE = process.env.HISTORY_TABLE!;
+
+async function* stream(...parts: (string | Buffer)[]): AsyncIterable<Uint8Array> {
+    for (const part of parts) yield new Uint8Array(Buffer.from(part));
+}
+
+describe('Malware scanning', () => {
+    const clamd = new StubClamd();
+    let port: number;
+
+    beforeAll(async () => {
+        port = await clamd.start();
+    });
+
+    afterAll(async () => {
+        await clamd.stop();
+    });
+
+    beforeEach(() => {
+        clamd.mode = 'up';
+        clamd.scanned.length = 0;
+    });
+
+    describe('ClamdScanner', () => {
+        const scanner = () => new ClamdScanner({ host: '127.0.0.1', port, timeoutMs: 1000 });
+
+        it('streams the content in length-prefixed chunks and reports a clean result', async () => {
+            const large = Buffer.alloc(150 * 1024, 'a');
+
+            expect(await scanner().scan(stream('%PDF-1.7\n', large))).toEqual({ infected: false });
+
+            expect(clamd.scanned).toEqual([{ content: Buffer.concat([Buffer.from('%PDF-1.7\n'), large]), chunks: [9, 65536, 65536, 22528] }]);
+        });
+
+        it('reports the signature of a detection', async () => {
+            expect(await scanner().scan(stream('%PDF-1.7\n', EICAR))).toEqual({ infected: true, signature: 'Win.Test.EICAR_HDB-1' });
+        });
+
+        it('answers a ping', async () => {
+            await expect(scanner().ping()).resolves.toBeUndefined();
+        });
+
+        it.each([
+            ['drops the connection', 'down', /connection closed before a reply|ECONNRESET|EPIPE/],
+            ['never answers', 'silent', /no reply within 1000ms/],
+            ['answers with an error', 'error', /could not scan the document: INSTREAM size limit exceeded\. ERROR/]
+        ] as const)('is unavailable when clamd %s', async (_, mode, message) => {
+            clamd.mode = mode;
+
+            const scan = scanner().scan(stream('%PDF-1.7\n'));
+
+            await expect(scan).rejects.toThrow(ScannerUnavailableError);
+            await expect(scan).rejects.toThrow(message);
+        });
+
+        it('is unavailable when nothing listens on the port', async () => {
+            const closed = new StubClamd();
+            const closedPort = await closed.start();
+            await closed.stop();
+
+            await expect(new ClamdScanner({ host: '127.0.0.1', port: closedPort, timeoutMs: 1000 }).ping()).rejects.toThrow(/ECONNREFUSED/);
+        });
+
+        it('parses clamd replies', () => {
+            expect(parseClamdReply('stream: OK')).toEqual({ infected: false });
+            expect(parseClamdReply('stream: Doc.Exploit.CVE_2017_11882-1 FOUND')).toEqual({ infected: true, signature: 'Doc.Exploit.CVE_2017_11882-1' });
+            expect(() => parseClamdReply('UNKNOWN COMMAND')).toThrow(ScannerUnavailableError);
+        });
+
+        it('is only configured when CLAMD_HOST is set', () => {
+            expect(scannerFromEnv({})).toBeNull();
+            expect(scannerFromEnv({ CLAMD_HOST: 'clamd.internal', CLAMD_PORT: '3311' })).toBeInstanceOf(ClamdScanner);
+        });
+    });
+
+    describe('in the validation pipeline', () => {
+        let s3: InMemoryS3;
+        let dynamo: InMemoryDynamoDB;
+        let eventBridge: jest.SpyInstance;
+        let validate: typeof import('../../lib/handlers/src/validation-handler').handler;
+        let retryScans: typeof import('../../lib/handlers/src/scan-retry-handler').handler;
+
+        beforeAll(() => {
+            // The handlers read the scanner configuration at import time.
+            process.env.CLAMD_HOST = '127.0.0.1';
+            process.env.CLAMD_PORT = String(port);
+            process.env.CLAMD_TIMEOUT_MS = '1000';
+            validate = require('../../lib/handlers/src/validation-handler').handler;
+            retryScans = require('../../lib/handlers/src/scan-retry-handler').handler;
+        });
+
+        beforeEach(() => {
+            s3 = new InMemoryS3();
+            s3.install();
+            dynamo = withHistoryTable(withUsageTable(documentRegistryTable(DOCUMENT_TABLE), USAGE_TABLE), HISTORY_TABLE);
+            dynamo.install();
+            eventBridge = jest.spyOn(EventBridgeClient.prototype, 'send')
+                .mockResolvedValue({ FailedEntryCount: 0, Entries: [{ EventId: 'event-1' }] } as never);
+            jest.spyOn(console, 'log').mockImplementation(() => undefined);
+            jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+        });
+
+        afterEach(() => {
+            jest.restoreAllMocks();
+        });
+
+        async function upload(documentId: string, body: string) {
+            const createdAt = new Date().toISOString();
+            await dynamo.send(new PutCommand({
+                TableName: DOCUMENT_TABLE,
+                Item: {
+                    documentId, userId: 'user-1', state: 'pending_upload', fileName: documentId, fileType: 'application/pdf',
+                    fileSize: body.length, bucket: DOCUMENT_BUCKET, objectKey: documentId, createdAt, updatedAt: createdAt,
+                    checksumSha256: createHash('sha256').update(body).digest('base64')
+                }
+            }));
+            s3.put(DOCUMENT_BUCKET, documentId, body, { contentType: 'application/pdf', metadata: { 'user-id': 'user-1', 'content-type': 'application/pdf' } });
+            await validate(s3Event(DOCUMENT_BUCKET, documentId, body.length), lambdaContext);
+        }
+
+        async function release(documentId: string, body: string) {
+            const now = new Date().toISOString();
+            await dynamo.send(new PutCommand({
+                TableName: DOCUMENT_TABLE,
+                Item: {
+                    documentId, userId: 'user-1', state: 'released', fileName: documentId, fileType: 'application/pdf',
+                    fileSize: body.length, bucket: DOCUMENT_BUCKET, objectKey: documentId, createdAt: now, updatedAt: now,
+                    reasonCode: 'PDF_JAVASCRIPT', reason: 'PDF contains JavaScript', reviewedBy: 'reviewer@example.com', reviewedAt: now
+                }
+            }));
+            s3.put(DOCUMENT_BUCKET, documentId, body, { contentType: 'application/pdf', metadata: { 'user-id': 'user-1', 'content-type': 'application/pdf' } });
+            await validate(s3Event(DOCUMENT_BUCKET, documentId, body.length), lambdaContext);
+        }
+
+        const registered = (documentId: string) => dynamo.items(DOCUMENT_TABLE).find(item => item.documentId === documentId)!;
+        const history = (documentId: string) => dynamo.items(HISTORY_TABLE).filter(entry => entry.documentId === documentId);
+        const published = () => eventBridge.mock.calls.map(([command]) => (command as PutEventsCommand).input.Entries![0]!.DetailType);
+
+        it('scans the whole document last and approves it when clean', async () => {
+            await upload('clean.pdf', '%PDF-1.7\n1 0 obj\n');
+
+            expect(clamd.scanned.map(({ content }) => content.toString())).toEqual(['%PDF-1.7\n1 0 obj\n']);
+            expect(registered('clean.pdf').state).toBe('validated');
+            expect(history('clean.pdf').filter(entry => entry.event === 'validator_result').map(entry => entry.details.check))
+                .toEqual(['size', 'checksum', 'content-type', 'file-signature', 'signature', 'extension', 'pdf-structure', 'malware-scan']);
+            expect(published()).toEqual(['Document Validated']);
+        });
+
+        it('reads the stored object from S3 once for the checksum, signature, PDF inspection and scan', async () => {
+            await upload('clean.pdf', '%PDF-1.7\n1 0 obj\n');
+
+            const reads = jest.mocked(S3Client.prototype.send).mock.calls.filter(([command]) => command instanceof GetObjectCommand);
+            expect(reads).toHaveLength(1);
+            expect(history('clean.pdf').filter(entry => entry.event === 'validator_result').map(entry => entry.details.check))
+                .toEqual(expect.arrayContaining(['checksum', 'file-signature', 'pdf-structure', 'malware-scan']));
+        });
+
+        it('quarantines a detection with the signature name as the reason code', async () => {
+            await upload('infected.pdf', `%PDF-1.7\n${EICAR}\n`);
+
+            expect(registered('infected.pdf')).toMatchObject({
+                state: 'quarantined', reasonCode: 'Win.Test.EICAR_HDB-1', reason: 'clamd detected Win.Test.EICAR_HDB-1'
+            });
+            expect(s3.get(DOCUMENT_BUCKET, 'infected.pdf')).toBeUndefined();
+            expect(published()).toEqual(['Document Quarantined']);
+        });
+
+        it('still scans a document a reviewer released from quarantine', async () => {
+            await release('reviewed.pdf', '%PDF-1.7\n1 0 obj\n');
+
+            expect(clamd.scanned.map(({ content }) => content.toString())).toEqual(['%PDF-1.7\n1 0 obj\n']);
+            expect(registered('reviewed.pdf').state).toBe('validated');
+            expect(history('reviewed.pdf').filter(entry => entry.event === 'validator_result').map(entry => entry.details.check))
+                .toEqual(['review', 'malware-scan']);
+        });
+
+        it('quarantines a released document again when the scan detects malware', async () => {
+            await release('reviewed.pdf', `%PDF-1.7\n${EICAR}\n`);
+
+            expect(registered('reviewed.pdf')).toMatchObject({
+                state: 'quarantined', reasonCode: 'Win.Test.EICAR_HDB-1', reviewedBy: 'reviewer@example.com'
+            });
+            expect(s3.get(DOCUMENT_BUCKET, 'reviewed.pdf')).toBeUndefined();
+            expect(published()).toEqual(['Document Quarantined']);
+        });
+
+        it('does not scan a document the cheaper checks already quarantine', async () => {
+            await upload('fake.pdf', 'definitely not a pdf');
+
+            expect(registered('fake.pdf').reasonCode).toBe('CONTENT_TYPE_MISMATCH');
+            expect(clamd.scanned).toEqual([]);
+        });
+
+        it('leaves a document in scan_pending, neither approved nor announced, while the scanner is unavailable', async () => {
+            clamd.mode = 'down';
+
+            await upload('waiting.pdf', '%PDF-1.7\n1 0 obj\n');
+
+            expect(registered('waiting.pdf')).toMatchObject({ state: 'scan_pending', scanAttempts: 1 });
+            expect(s3.get(DOCUMENT_BUCKET, 'waiting.pdf')!.tags).toEqual({});
+            expect(published()).toEqual([]);
+            expect(history('waiting.pdf').at(-1)).toMatchObject({
+                event: 'scan_pending', details: { scanner: 'clamd', scanAttempts: 1, reason: expect.stringContaining('clamd at 127.0.0.1') }
+            });
+        });
+
+        it('scans pending documents again once the scanner answers, and not before', async () => {
+            clamd.mode = 'down';
+            await upload('waiting.pdf', '%PDF-1.7\n1 0 obj\n');
+            const pendingSince = registered('waiting.pdf').updatedAt;
+
+            await retryScans({}, lambdaContext);
+            expect(registered('waiting.pdf')).toMatchObject({ state: 'scan_pending', updatedAt: pendingSince });
+
+            clamd.mode = 'up';
+            await retryScans({}, lambdaContext);
+
+            expect(registered('waiting.pdf')).toMatchObject({ state: 'validated', scanAttempts: 1 });
+            expect(s3.get(DOCUMENT_BUCKET, 'waiting.pdf')!.tags).toMatchObject({ 'validation-status': 'approved' });
+            expect(published()).toEqual(['Document Validated']);
+            expect(history('waiting.pdf').map(entry => entry.event).filter(event => event !== 'validator_result')).toEqual([
+                'upload_completed', 'validation_started', 'scan_pending', 'validation_started', 'validated'
+            ]);
+        });
+
+        it('rejects a pending document whose object is gone, so it stops holding a place in the queue', async () => {
+            clamd.mode = 'down';
+            await upload('expired.pdf', '%PDF-1.7\n1 0 obj\n');
+            await upload('waiting.pdf', '%PDF-1.7\n2 0 obj\n');
+            s3.buckets.get(DOCUMENT_BUCKET)!.delete('expired.pdf');
+
+            clamd.mode = 'up';
+            await retryScans({}, lambdaContext);
+
+            expect(registered('expired.pdf')).toMatchObject({
+                state: 'rejected', reason: `object-missing: ${DOCUMENT_BUCKET}/expired.pdf no longer exists`, rejectedAt: expect.any(String)
+            });
+            expect(history('expired.pdf').at(-1)).toMatchObject({
+                event: 'rejected', actor: { type: 'system', id: 'scan-retry-handler' }, details: { reason: expect.stringMatching(/^object-missing: /) }
+            });
+            expect(registered('waiting.pdf').state).toBe('validated');
+            expect(published()).toEqual(['Document Validated']);
+        });
+    });
+});
@@ -0,0 +1,202 @@
+import { createHash } from 'crypto';
+import { APIGatewayProxyResultV2 } from 'aws-lambda';
+import { EventBridgeClient } from '@aws-sdk/client-eventbridge';
+import { InMemoryS3 } from './helpers/in-memory-s3';
+import { documentRegistryTable, InMemoryDynamoDB, withCollectionTable, withHistoryTable, withUsageTable } from './helpers/in-memory-dynamodb';
+import { apiEvent, lambdaContext, s3Event } from './helpers/events';
+import { choosePartSize, handler } from '../../lib/handlers/src/multipart-upload-handler';
+import { handler as validate } from '../../lib/handlers/src/validation-handler';
+
+const MIB = 1024 * 1024;
+const DOCUMENT_BUCKET = process.env.DOCUMENT_BUCKET!;
+const DOCUMENT_TABLE = process.env.DOCUMENT_TABLE!;
+const COLLECTION_TABLE = process.env.COLLECTION_TABLE!;
+
+type Result = Exclude<APIGatewayProxyResultV2, string>;
+
+describe('Multipart Upload Handler', () => {
+    let s3: InMemoryS3;
+    let dynamo: InMemoryDynamoDB;
+
+    beforeEach(() => {
+        s3 = new InMemoryS3();
+        s3.install();
+        dynamo = withHistoryTable(withUsageTable(withCollectionTable(documentRegistryTable(DOCUMENT_TABLE), COLLECTION_TABLE), process.env.USAGE_TABLE!), process.env.HISTORY_TABLE!);
+        dynamo.install();
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    async function call(method: string, path: string, options: { userId?: string; documentId?: string; body?: unknown } = {}) {
+        const result = await handler({
+            ...apiEvent({
+                userId: options.userId || 'user-1',
+                method,
+                path,
+                ...(options.documentId && { pathParameters: { documentId: options.documentId } }),
+                ...(options.body !== undefined && { body: options.body })
+            }),
+            routeKey: `${method} ${path}`
+        }) as Result;
+        return { statusCode: result.statusCode, body: JSON.parse(result.body!) };
+    }
+
+    function sha256(body: string | Buffer): string {
+        return createHash('sha256').update(body).digest('base64');
+    }
+
+    async function create(fileSize = 20 * MIB, checksumSha256 = sha256('big-report')) {
+        const { statusCode, body } = await call('POST', '/uploads/multipart', {
+            body: { fileName: 'big-report.pdf', fileType: 'application/pdf', fileSize, checksumSha256 }
+        });
+        expect(statusCode).toBe(200);
+        return body.data as { documentId: string; objectKey: string; partSize: number; partCount: number };
+    }
+
+    function uploadId(documentId: string) {
+        return dynamo.items(DOCUMENT_TABLE).find(item => item.documentId === documentId)!.multipartUploadId;
+    }
+
+    it('sizes parts within S3 limits', () => {
+        expect(choosePartSize(1 * MIB)).toBe(8 * MIB);
+        expect(choosePartSize(100 * 1024 * MIB)).toBe(11 * MIB);
+        expect(Math.ceil(100 * 1024 * MIB / choosePartSize(100 * 1024 * MIB))).toBeLessThanOrEqual(10000);
+    });
+
+    it('creates a multipart upload and registers the document', async () => {
+        const upload = await create();
+
+        expect(upload).toMatchObject({ partSize: 8 * MIB, partCount: 3 });
+        expect(dynamo.items(DOCUMENT_TABLE)).toEqual([expect.objectContaining({
+            documentId: upload.documentId,
+            state: 'pending_upload',
+            uploadMode: 'multipart',
+            multipartUploadId: expect.any(String),
+            partSize: 8 * MIB
+        })]);
+        const [pending] = [...s3.multipartUploads.values()];
+        expect(pending!.metadata).toMatchObject({ 'user-id': 'user-1', 'original-filename': 'big-report.pdf', 'content-type': 'application/pdf' });
+    });
+
+    it('rejects uploads the document policy does not allow', async () => {
+        const { statusCode, body } = await call('POST', '/uploads/multipart', {
+            body: { fileName: 'tool.exe', fileType: 'application/x-msdownload', fileSize: 20 * MIB }
+        });
+
+        expect(statusCode).toBe(400);
+        expect(body.error).toContain('not allowed');
+    });
+
+    it('requires the checksum of the whole file', async () => {
+        const { statusCode, body } = await call('POST', '/uploads/multipart', {
+            body: { fileName: 'big-report.pdf', fileType: 'application/pdf', fileSize: 20 * MIB }
+        });
+
+        expect(statusCode).toBe(400);
+        expect(body.error).toBe('checksumSha256 is required');
+        expect(s3.multipartUploads.size).toBe(0);
+        expect(dynamo.items(DOCUMENT_TABLE)).toEqual([]);
+    });
+
+    it('presigns part URLs in batches and validates part numbers', async () => {
+        const upload = await create();
+        const path = '/uploads/multipart/{documentId}/parts';
+
+        const { body } = await call('POST', path, { documentId: upload.documentId, body: { partNumbers: [1, 2, 3] } });
+        expect(body.data.parts.map((p: { partNumber: number }) => p.partNumber)).toEqual([1, 2, 3]);
+        expect(body.data.parts[1].url).toContain('partNumber=2');
+        expect(body.data.parts[1].url).toContain(`uploadId=${uploadId(upload.documentId)}`);
+
+        expect((await call('POST', path, { documentId: upload.documentId, body: { partNumbers: [4] } })).statusCode).toBe(400);
+        expect((await call('POST', path, { documentId: upload.documentId, body: { partNumbers: [] } })).statusCode).toBe(400);
+    });
+
+    it('lists uploaded parts so an interrupted upload can resume', async () => {
+        const upload = await create();
+        s3.uploadPart(uploadId(upload.documentId), 2, 'second');
+        s3.uploadPart(uploadId(upload.documentId), 1, 'first');
+
+        const { body } = await call('GET', '/uploads/multipart/{documentId}/parts', { documentId: upload.documentId });
+
+        expect(body.data).toMatchObject({ partCount: 3, partSize: 8 * MIB });
+        expect(body.data.parts.map((p: { partNumber: number }) => p.partNumber)).toEqual([1, 2]);
+    });
+
+    it('refuses to complete until every part has arrived, then assembles the object', async () => {
+        const upload = await create();
+        const id = uploadId(upload.documentId);
+        const complete = () => call('POST', '/uploads/multipart/{documentId}/complete', { documentId: upload.documentId });
+
+        const parts = [Buffer.alloc(8 * MIB, 'a'), Buffer.alloc(8 * MIB, 'b'), Buffer.alloc(4 * MIB, 'c')];
+        parts[0]!.write('%PDF-1.7 ');
+
+        s3.uploadPart(id, 1, parts[0]!);
+        s3.uploadPart(id, 3, parts[2]!);
+        const incomplete = await complete();
+        expect(incomplete.statusCode).toBe(409);
+        expect(incomplete.body.error).toContain('2');
+
+        s3.uploadPart(id, 2, parts[1]!);
+        expect((await complete()).statusCode).toBe(200);
+
+        const object = s3.get(DOCUMENT_BUCKET, upload.objectKey)!;
+        expect(object.body.equals(Buffer.concat(parts))).toBe(true);
+        expect(object.metadata['user-id']).toBe('user-1');
+    });
+
+    it('refuses to complete when the parts do not add up to the declared size', async () => {
+        const upload = await create();
+        const id = uploadId(upload.documentId);
+
+        s3.uploadPart(id, 1, '%PDF-1.7 ');
+        s3.uploadPart(id, 2, 'middle ');
+        s3.uploadPart(id, 3, 'end');
+        const { statusCode, body } = await call('POST', '/uploads/multipart/{documentId}/complete', { documentId: upload.documentId });
+
+        expect(statusCode).toBe(409);
+        expect(body.error).toBe(`Uploaded parts add up to 19 bytes but the upload declared ${20 * MIB}`);
+        expect(s3.get(DOCUMENT_BUCKET, upload.objectKey)).toBeUndefined();
+    });
+
+    it('quarantines an assembled object whose bytes do not hash to the declared checksum', async () => {
+        jest.spyOn(EventBridgeClient.prototype, 'send').mockResolvedValue({ FailedEntryCount: 0, Entries: [{ EventId: 'event-1' }] } as never);
+        const parts = [Buffer.alloc(8 * MIB, 'a'), Buffer.alloc(8 * MIB, 'b'), Buffer.alloc(4 * MIB, 'c')];
+        parts[0]!.write('%PDF-1.7\n');
+        const declared = sha256('%PDF-1.7\nthe bytes the user chose\n');
+        const upload = await create(20 * MIB, declared);
+        parts.forEach((part, index) => s3.uploadPart(uploadId(upload.documentId), index + 1, part));
+        expect((await call('POST', '/uploads/multipart/{documentId}/complete', { documentId: upload.documentId })).statusCode).toBe(200);
+
+        await validate(s3Event(DOCUMENT_BUCKET, upload.objectKey, 20 * MIB), lambdaContext);
+
+        expect(dynamo.items(DOCUMENT_TABLE)[0]).toMatchObject({
+            state: 'quarantined', reasonCode: 'CHECKSUM_MISMATCH', checksumSha256: declared
+        });
+        expect(s3.get(DOCUMENT_BUCKET, upload.objectKey)).toBeUndefined();
+    });
+
+    it('aborts an upload and marks the document aborted', async () => {
+        const upload = await create();
+
+        const { statusCode } = await call('DELETE', '/uploads/multipart/{documentId}', { documentId: upload.documentId });
+
+        expect(statusCode).toBe(200);
+        expect(s3.multipartUploads.size).toBe(0);
+        expect(dynamo.items(DOCUMENT_TABLE)[0]).toMatchObject({ state: 'aborted' });
+        expect(dynamo.items(process.env.HISTORY_TABLE!).map(entry => entry.event)).toEqual(['upload_url_issued', 'upload_aborted']);
+        expect(dynamo.items(process.env.HISTORY_TABLE!)[0]!.details).toMatchObject({ uploadMode: 'multipart', partSize: expect.any(Number) });
+        expect((await call('GET', '/uploads/multipart/{documentId}/parts', { documentId: upload.documentId })).statusCode).toBe(409);
+    });
+
+    it('hides other users\' uploads', async () => {
+        const upload = await create();
+
+        const { statusCode } = await call('GET', '/uploads/multipart/{documentId}/parts', { documentId: upload.documentId, userId: 'someone-else' });
+
+        expect(statusCode).toBe(404);
+    });
+});
@@ -0,0 +1,228 @@
+import { deflateSync } from 'zlib';
+import { EventBridgeClient, PutEventsCommand } from '@aws-sdk/client-eventbridge';
+import { PutCommand } from '@aws-sdk/lib-dynamodb';
+import { handler as validate } from '../../lib/handlers/src/validation-handler';
+import {
+    DEFAULT_PDF_INSPECTION_POLICY,
+    evaluatePdf,
+    inspectPdf,
+    loadPdfInspectionPolicy
+} from '../../lib/handlers/src/pdf-inspection';
+import { InMemoryS3 } from './helpers/in-memory-s3';
+import { documentRegistryTable, InMemoryDynamoDB, withHistoryTable, withUsageTable } from './helpers/in-memory-dynamodb';
+import { lambdaContext, s3Event } from './helpers/events';
+import { buildPdf, pdfWithPages, SCANNED_PAGE_CONTENT, TEXT_CONTENT } from './helpers/pdf';
+
+const DOCUMENT_BUCKET = process.env.DOCUMENT_BUCKET!;
+const QUARANTINE_BUCKET = process.env.QUARANTINE_BUCKET!;
+const DOCUMENT_TABLE = process.env.DOCUMENT_TABLE!;
+const USAGE_TABLE = process.env.USAGE_TABLE!;
+const HISTORY_TABLE = process.env.HISTORY_TABLE!;
+
+const IMAGE = { dictionary: '<< /Type /XObject /Subtype /Image /Width 1 /Height 1 /ColorSpace /DeviceGray /BitsPerComponent 8 >>', stream: Buffer.from([0x80]) };
+const scanned = (pages = 1) => pdfWithPages(Array(pages).fill(SCANNED_PAGE_CONTENT), {
+    resources: `<< /XObject << /Im0 ${3 + 2 * pages} 0 R >> >>`,
+    extraObjects: [IMAGE]
+});
+
+const findings = (pdf: Buffer, policy = DEFAULT_PDF_INSPECTION_POLICY) =>
+    evaluatePdf(inspectPdf(pdf), policy).map(({ finding, action, reasonCode }) => ({ finding, action, reasonCode }));
+
+describe('PDF inspection', () => {
+    it('finds nothing in a plain text document', () => {
+        const pdf = pdfWithPages([TEXT_CONTENT, TEXT_CONTENT]);
+
+        expect(inspectPdf(pdf)).toEqual({
+            pageCount: 2, encrypted: false, javaScript: false, launchActions: false, embeddedFiles: 0, imageCount: 0, hasText: true
+        });
+        expect(findings(pdf)).toEqual([]);
+    });
+
+    it('quarantines an encrypted document without judging its unreadable content', () => {
+        const pdf = pdfWithPages([SCANNED_PAGE_CONTENT], {
+            extraObjects: ['<< /Filter /Standard /V 2 /R 3 /O (owner) /U (user) /P -4 >>'],
+            trailer: '/Encrypt 5 0 R /ID [<01> <01>] '
+        });
+
+        expect(inspectPdf(pdf)).toMatchObject({ encrypted: true, hasText: undefined });
+        expect(findings(pdf)).toEqual([{ finding: 'encrypted', action: 'quarantine', reasonCode: 'PDF_ENCRYPTED' }]);
+    });
+
+    it('finds JavaScript, also behind escaped names, and launch actions', () => {
+        const javaScript = pdfWithPages([TEXT_CONTENT], { catalog: '/OpenAction << /S /J#61vaScript /JS (app.alert(1)) >>' });
+        const launch = pdfWithPages([TEXT_CONTENT], { catalog: '/OpenAction << /S /Launch /F (cmd.exe) >>' });
+
+        expect(findings(javaScript)).toEqual([{ finding: 'javascript', action: 'quarantine', reasonCode: 'PDF_JAVASCRIPT' }]);
+        expect(findings(launch)).toEqual([{ finding: 'launch-action', action: 'quarantine', reasonCode: 'PDF_LAUNCH_ACTION' }]);
+    });
+
+    it('counts embedded files and annotates them', () => {
+        const pdf = pdfWithPages([TEXT_CONTENT], {
+            catalog: '/Names << /EmbeddedFiles << /Names [(a.exe) 5 0 R (b.docx) 7 0 R] >> >>',
+            extraObjects: [
+                '<< /Type /Filespec /F (a.exe) /EF << /F 6 0 R >> >>',
+                { dictionary: '<< /Type /EmbeddedFile >>', stream: 'MZ', deflate: true },
+                '<< /Type /Filespec /F (b.docx) /EF << /F 8 0 R >> >>',
+                { dictionary: '<< /Type /EmbeddedFile >>', stream: 'PK' }
+            ]
+        });
+
+        expect(inspectPdf(pdf).embeddedFiles).toBe(2);
+        expect(findings(pdf)).toEqual([{ finding: 'embedded-files', action: 'annotate', reasonCode: 'PDF_EMBEDDED_FILES' }]);
+    });
+
+    it('annotates a document whose pages are only images', () => {
+        expect(inspectPdf(scanned(3))).toMatchObject({ pageCount: 3, imageCount: 1, hasText: false });
+        expect(findings(scanned(3))).toEqual([{ finding: 'needs-ocr', action: 'annotate', reasonCode: 'PDF_NEEDS_OCR' }]);
+    });
+
+    it('finds text drawn by a form XObject and inline images in page content', () => {
+        const form = pdfWithPages([SCANNED_PAGE_CONTENT], {
+            resources: '<< /XObject << /Im0 5 0 R >> >>',
+            extraObjects: [{ dictionary: '<< /Type /XObject /Subtype /Form /BBox [0 0 612 792] >>', stream: TEXT_CONTENT, deflate: true }]
+        });
+        const inline = pdfWithPages(['q 100 0 0 100 0 0 cm BI /W 1 /H 1 /CS /G /BPC 8 ID \x80 EI Q']);
+
+        expect(inspectPdf(form).hasText).toBe(true);
+        expect(inspectPdf(inline)).toMatchObject({ imageCount: 1, hasText: false });
+        expect(findings(inline)).toEqual([{ finding: 'needs-ocr', action: 'annotate', reasonCode: 'PDF_NEEDS_OCR' }]);
+    });
+
+    it('does not claim OCR is needed when page content uses a filter it cannot decode', () => {
+        const pdf = buildPdf([
+            '<< /Type /Catalog /Pages 2 0 R >>',
+            '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+            '<< /Type /Page /Parent 2 0 R /Contents 4 0 R /Resources << /XObject << /Im0 5 0 R >> >> >>',
+            { dictionary: '<< /Filter /LZWDecode >>', stream: Buffer.from([0x80, 0x0b, 0x60, 0x50]) },
+            IMAGE
+        ]);
+
+        expect(inspectPdf(pdf)).toMatchObject({ pageCount: 1, hasText: undefined });
+        expect(findings(pdf)).toEqual([]);
+    });
+
+    it('counts pages packed into object streams against the page limit', () => {
+        const packed = [
+            '<< /Type /Pages /Kids [3 0 R 4 0 R 5 0 R] /Count 3 >>',
+            '<< /Type /Page /Parent 2 0 R >>',
+            '<< /Type /Page /Parent 2 0 R >>',
+            '<< /Type /Page /Parent 2 0 R >>'
+        ];
+        const offsets: string[] = [];
+        let body = '';
+        packed.forEach((object, index) => {
+            offsets.push(`${index + 2} ${body.length}`);
+            body += `${object}\n`;
+        });
+        const header = `${offsets.join(' ')}\n`;
+        const pdf = buildPdf([
+            '<< /Type /Catalog /Pages 2 0 R >>',
+            { dictionary: `<< /Type /ObjStm /N ${packed.length} /First ${header.length} >>`, stream: header + body, deflate: true }
+        ]);
+
+        expect(inspectPdf(pdf).pageCount).toBe(3);
+        expect(findings(pdf, { ...DEFAULT_PDF_INSPECTION_POLICY, maxPages: 2 }))
+            .toEqual([{ finding: 'page-limit', action: 'quarantine', reasonCode: 'PDF_TOO_MANY_PAGES' }]);
+    });
+
+    it('skips stream data by its length, even when the bytes look like objects', () => {
+        const pdf = pdfWithPages([TEXT_CONTENT], {
+            extraObjects: [{ dictionary: '<< /Type /XObject /Subtype /Image >>', stream: 'endobj\n9 0 obj\n<< /Type /Page /S /Launch >>\nendobj\n' }]
+        });
+
+        expect(inspectPdf(pdf)).toMatchObject({ pageCount: 1, launchActions: false });
+    });
+
+    it('gives up on a stream that inflates beyond its limit', () => {
+        const bomb = deflateSync(Buffer.alloc(40 * 1024 * 1024, ' '));
+        const pdf = buildPdf([
+            '<< /Type /Catalog /Pages 2 0 R >>',
+            '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+            '<< /Type /Page /Parent 2 0 R /Contents 4 0 R /Resources << /XObject << /Im0 5 0 R >> >> >>',
+            { dictionary: '<< /Filter /FlateDecode >>', stream: bomb },
+            IMAGE
+        ]);
+
+        expect(inspectPdf(pdf).hasText).toBeUndefined();
+    });
+
+    it('reads the page limit and per-finding actions from the environment', () => {
+        expect(loadPdfInspectionPolicy({})).toEqual(DEFAULT_PDF_INSPECTION_POLICY);
+        expect(loadPdfInspectionPolicy({ PDF_MAX_PAGES: '50', PDF_FINDING_ACTIONS: 'embedded-files=quarantine, needs-ocr=approve' })).toEqual({
+            maxPages: 50,
+            actions: { ...DEFAULT_PDF_INSPECTION_POLICY.actions, 'embedded-files': 'quarantine', 'needs-ocr': 'approve' }
+        });
+        expect(() => loadPdfInspectionPolicy({ PDF_MAX_PAGES: '0' })).toThrow('PDF_MAX_PAGES must be a positive integer, got "0"');
+        expect(() => loadPdfInspectionPolicy({ PDF_FINDING_ACTIONS: 'javascript=ignore' })).toThrow(/got "javascript=ignore"/);
+    });
+
+    describe('in the validation pipeline', () => {
+        let s3: InMemoryS3;
+        let dynamo: InMemoryDynamoDB;
+        let eventBridge: jest.SpyInstance;
+
+        beforeEach(() => {
+            s3 = new InMemoryS3();
+            s3.install();
+            dynamo = withHistoryTable(withUsageTable(documentRegistryTable(DOCUMENT_TABLE), USAGE_TABLE), HISTORY_TABLE);
+            dynamo.install();
+            eventBridge = jest.spyOn(EventBridgeClient.prototype, 'send')
+                .mockResolvedValue({ FailedEntryCount: 0, Entries: [{ EventId: 'event-1' }] } as never);
+            jest.spyOn(console, 'log').mockImplementation(() => undefined);
+        });
+
+        afterEach(() => {
+            jest.restoreAllMocks();
+        });
+
+        async function upload(documentId: string, body: Buffer) {
+            const createdAt = new Date().toISOString();
+            await dynamo.send(new PutCommand({
+                TableName: DOCUMENT_TABLE,
+                Item: {
+                    documentId, userId: 'user-1', state: 'pending_upload', fileName: documentId, fileType: 'application/pdf',
+                    fileSize: body.length, bucket: DOCUMENT_BUCKET, objectKey: documentId, createdAt, updatedAt: createdAt
+                }
+            }));
+            s3.put(DOCUMENT_BUCKET, documentId, body, { contentType: 'application/pdf', metadata: { 'user-id': 'user-1', 'content-type': 'application/pdf' } });
+            await validate(s3Event(DOCUMENT_BUCKET, documentId, body.length), lambdaContext);
+        }
+
+        const registered = (documentId: string) => dynamo.items(DOCUMENT_TABLE).find(item => item.documentId === documentId)!;
+        const checks = (documentId: string) => dynamo.items(HISTORY_TABLE)
+            .filter(entry => entry.documentId === documentId && entry.event === 'validator_result').map(entry => entry.details);
+        const published = () => eventBridge.mock.calls.map(([command]) => {
+            const entry = (command as PutEventsCommand).input.Entries![0]!;
+            return { type: entry.DetailType, detail: JSON.parse(entry.Detail!) };
+        });
+
+        it('quarantines a PDF with a blocking finding under its reason code', async () => {
+            await upload('macro.pdf', pdfWithPages([TEXT_CONTENT], { catalog: '/OpenAction << /S /JavaScript /JS (this.print()) >>' }));
+
+            expect(registered('macro.pdf')).toMatchObject({ state: 'quarantined', reasonCode: 'PDF_JAVASCRIPT', reason: 'PDF contains JavaScript' });
+            expect(s3.keys(QUARANTINE_BUCKET)).toHaveLength(1);
+            expect(checks('macro.pdf').at(-1)).toEqual({ check: 'pdf-structure', passed: false, reasonCode: 'PDF_JAVASCRIPT', reason: 'PDF contains JavaScript' });
+            expect(published().map(event => event.type)).toEqual(['Document Quarantined']);
+        });
+
+        it('approves a scanned PDF and carries the annotation to the registry, history and event', async () => {
+            await upload('scan.pdf', scanned(2));
+
+            const annotations = [{ reasonCode: 'PDF_NEEDS_OCR', reason: "None of the PDF's 2 page(s) has text, only images; it needs OCR" }];
+            expect(registered('scan.pdf')).toMatchObject({ state: 'validated', annotations });
+            expect(checks('scan.pdf').at(-1)).toEqual({ check: 'pdf-structure', passed: true, annotations });
+            const [event] = published();
+            expect(event).toMatchObject({ type: 'Document Validated', detail: { validationResult: { validationStatus: 'approved', annotations } } });
+            expect(JSON.parse(s3.get(DOCUMENT_BUCKET, 'metadata/scan.pdf.json')!.body.toString()).validationResult.annotations).toEqual(annotations);
+        });
+
+        it('approves a clean PDF without annotations', async () => {
+            await upload('report.pdf', pdfWithPages([TEXT_CONTENT]));
+
+            expect(registered('report.pdf').state).toBe('validated');
+            expect(registered('report.pdf').annotations).toBeUndefined();
+            expect(checks('report.pdf').at(-1)).toEqual({ check: 'pdf-structure', passed: true });
+            expect(published()[0]!.detail.validationResult.annotations).toBeUndefined();
+        });
+    });
+});
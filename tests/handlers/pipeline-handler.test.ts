@@ -0,0 +1,164 @@
+import { PutCommand } from '@aws-sdk/lib-dynamodb';
+import { APIGatewayProxyResultV2 } from 'aws-lambda';
+import { documentRegistryTable, InMemoryDynamoDB } from './helpers/in-memory-dynamodb';
+import { apiEvent } from './helpers/events';
+import { handler } from '../../lib/handlers/src/pipeline-handler';
+
+const DOCUMENT_TABLE = process.env.DOCUMENT_TABLE!;
+
+type Result = Exclude<APIGatewayProxyResultV2, string>;
+
+describe('Pipeline Handler', () => {
+    let dynamo: InMemoryDynamoDB;
+    let fetchMock: jest.SpyInstance;
+    let downstream: Record<string, { status: number; body?: unknown } | Error>;
+
+    beforeEach(async () => {
+        process.env.PROCESSING_STATUS_ENDPOINT = 'https://pr-api.example.com/status';
+        process.env.EMBEDDING_STATUS_ENDPOINT = 'https://em-api.example.com';
+        process.env.VECTOR_STORAGE_STATUS_ENDPOINT = 'https://vs-api.example.com/status/';
+        dynamo = documentRegistryTable(DOCUMENT_TABLE);
+        dynamo.install();
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+        downstream = {};
+        fetchMock = jest.spyOn(global, 'fetch').mockImplementation(async input => {
+            const host = new URL(String(input)).host;
+            const answer = downstream[host] ?? { status: 404 };
+            if (answer instanceof Error) throw answer;
+            return new Response(JSON.stringify(answer.body ?? {}), { status: answer.status });
+        });
+
+        await seed('a', 'user-1', 'validated', { validatedAt: '2025-01-05T10:01:00.000Z' });
+        await seed('b', 'user-1', 'validating');
+        await seed('c', 'user-1', 'quarantined', { reason: 'Signature does not match application/pdf', reasonCode: 'SIGNATURE_MISMATCH' });
+        await seed('d', 'user-2', 'validated');
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+        delete process.env.PROCESSING_STATUS_ENDPOINT;
+        delete process.env.EMBEDDING_STATUS_ENDPOINT;
+        delete process.env.VECTOR_STORAGE_STATUS_ENDPOINT;
+    });
+
+    async function seed(documentId: string, userId: string, state: string, extra: Record<string, unknown> = {}) {
+        const createdAt = '2025-01-05T10:00:00.000Z';
+        await dynamo.send(new PutCommand({
+            TableName: DOCUMENT_TABLE,
+            Item: {
+                documentId, userId, state, fileName: `${documentId}.pdf`, fileType: 'application/pdf', fileSize: 1024,
+                createdAt, updatedAt: createdAt, bucket: process.env.DOCUMENT_BUCKET, objectKey: documentId, ...extra
+            }
+        }));
+    }
+
+    async function call(method: string, path: string, options: { body?: unknown; pathParameters?: Record<string, string> } = {}) {
+        const result = await handler(apiEvent({ userId: 'user-1', method, path, ...options })) as Result;
+        return { statusCode: result.statusCode, body: JSON.parse(result.body!) };
+    }
+
+    const pipeline = (documentId: string) => call('GET', '/pipeline/{documentId}', { pathParameters: { documentId } });
+
+    describe('POST /status/batch', () => {
+        it('returns the caller\'s statuses in request order and hides everything else', async () => {
+            const { statusCode, body } = await call('POST', '/status/batch', { body: { documentIds: ['c', 'missing', 'a', 'd', 'a'] } });
+
+            expect(statusCode).toBe(200);
+            expect(body.data.statuses).toEqual([
+                expect.objectContaining({ documentId: 'c', status: 'quarantined', reasonCode: 'SIGNATURE_MISMATCH' }),
+                { documentId: 'missing', status: 'not_found', location: 'unknown' },
+                expect.objectContaining({ documentId: 'a', status: 'validated', fileName: 'a.pdf' }),
+                { documentId: 'd', status: 'not_found', location: 'unknown' }
+            ]);
+        });
+
+        it.each([
+            ['no documentIds', {}],
+            ['an empty list', { documentIds: [] }],
+            ['a non-string ID', { documentIds: ['a', 7] }],
+            ['more than 100 IDs', { documentIds: Array.from({ length: 101 }, (_, i) => `doc-${i}`) }]
+        ])('rejects a request with %s', async (_, requestBody) => {
+            const { statusCode, body } = await call('POST', '/status/batch', { body: requestBody });
+
+            expect(statusCode).toBe(400);
+            expect(body.error).toMatch(/documentIds|At most 100/);
+        });
+    });
+
+    describe('GET /pipeline/{documentId}', () => {
+        it('leaves the downstream stages pending without asking them while ingestion runs', async () => {
+            const { statusCode, body } = await pipeline('b');
+
+            expect(statusCode).toBe(200);
+            expect(body.data).toMatchObject({
+                documentId: 'b', overallStatus: 'processing', currentStage: 'ingestion', completedStages: [], failedStages: []
+            });
+            expect(body.data.stageDetails.embedding).toMatchObject({ stage: 'embedding', status: 'pending' });
+            expect(fetchMock).not.toHaveBeenCalled();
+        });
+
+        it('reports a failed ingestion with its reason', async () => {
+            const { body } = await pipeline('c');
+
+            expect(body.data).toMatchObject({ overallStatus: 'failed', currentStage: 'ingestion', failedStages: ['ingestion'] });
+            expect(body.data.stageDetails.ingestion.errorMessage).toBe('Signature does not match application/pdf');
+        });
+
+        it('asks each downstream service with the caller\'s token and normalizes the answers', async () => {
+            downstream['pr-api.example.com'] = { status: 200, body: { documentId: 'a', status: 'completed', processingTime: 1200, chunkCount: 12 } };
+            downstream['em-api.example.com'] = { status: 200, body: { id: 'a', status: 'processing' } };
+
+            const { body } = await pipeline('a');
+
+            expect(body.data).toMatchObject({
+                overallStatus: 'processing', currentStage: 'embedding', completedStages: ['ingestion', 'processing'], totalProcessingTime: 1200
+            });
+            expect(body.data.stageDetails.processing).toMatchObject({ status: 'completed', processingTimeMs: 1200, details: { chunkCount: 12 } });
+            expect(body.data.stageDetails['vector-storage']).toMatchObject({ status: 'pending' });
+            expect(body.data.stageDetails['vector-storage'].unavailable).toBeUndefined();
+            expect(fetchMock.mock.calls.map(([url]) => url)).toEqual([
+                'https://pr-api.example.com/status/a',
+                'https://em-api.example.com/status/a',
+                'https://vs-api.example.com/status/a'
+            ]);
+            expect(fetchMock.mock.calls[0][1].headers).toMatchObject({ Authorization: 'Bearer test-token' });
+        });
+
+        it('completes once every stage has', async () => {
+            for (const host of ['pr-api.example.com', 'em-api.example.com', 'vs-api.example.com']) {
+                downstream[host] = { status: 200, body: { status: 'completed', processingTimeMs: 100 } };
+            }
+
+            const { body } = await pipeline('a');
+
+            expect(body.data).toMatchObject({
+                overallStatus: 'completed', currentStage: 'vector-storage', totalProcessingTime: 300,
+                completedStages: ['ingestion', 'processing', 'embedding', 'vector-storage']
+            });
+        });
+
+        it('marks a stage whose service fails or cannot be reached as unavailable', async () => {
+            downstream['pr-api.example.com'] = new TypeError('fetch failed');
+            downstream['em-api.example.com'] = { status: 502 };
+            delete process.env.VECTOR_STORAGE_STATUS_ENDPOINT;
+
+            const { body } = await pipeline('a');
+
+            expect(body.data).toMatchObject({ overallStatus: 'processing', currentStage: 'processing' });
+            expect(body.data.stageDetails.processing).toMatchObject({
+                status: 'pending', unavailable: true, errorMessage: 'processing service could not be reached: fetch failed'
+            });
+            expect(body.data.stageDetails.embedding).toMatchObject({ unavailable: true, errorMessage: 'embedding service answered HTTP 502' });
+            expect(body.data.stageDetails['vector-storage']).toMatchObject({ unavailable: true, errorMessage: 'No vector-storage status endpoint is configured' });
+        });
+
+        it('reports another user\'s document as missing', async () => {
+            const { statusCode } = await pipeline('d');
+
+            expect(statusCode).toBe(404);
+            expect(fetchMock).not.toHaveBeenCalled();
+        });
+    });
+});
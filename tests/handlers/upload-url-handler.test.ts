@@ -0,0 +1,229 @@
+import { createHash } from 'crypto';
+import { PutCommand } from '@aws-sdk/lib-dynamodb';
+import { APIGatewayProxyResultV2 } from 'aws-lambda';
+import { documentRegistryTable, InMemoryDynamoDB, withCollectionTable, withUsageTable } from './helpers/in-memory-dynamodb';
+import { apiEvent } from './helpers/events';
+import { handler } from '../../lib/handlers/src/upload-url-handler';
+import { defaultCollectionId } from '../../lib/handlers/src/collection-registry';
+import { createDocumentClient, DocumentRegistry } from '../../lib/handlers/src/document-registry';
+import { UsageRegistry } from '../../lib/handlers/src/usage-registry';
+
+const DOCUMENT_BUCKET = process.env.DOCUMENT_BUCKET!;
+const DOCUMENT_TABLE = process.env.DOCUMENT_TABLE!;
+const COLLECTION_TABLE = process.env.COLLECTION_TABLE!;
+
+type Result = Exclude<APIGatewayProxyResultV2, string>;
+
+describe('Upload URL Handler', () => {
+    let dynamo: InMemoryDynamoDB;
+
+    beforeEach(() => {
+        dynamo = withUsageTable(withCollectionTable(documentRegistryTable(DOCUMENT_TABLE), COLLECTION_TABLE), process.env.USAGE_TABLE!);
+        dynamo.install();
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+        jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    function registryItems() {
+        return dynamo.items(DOCUMENT_TABLE);
+    }
+
+    async function requestUpload(body: Record<string, unknown>) {
+        const result = await handler(apiEvent({
+            userId: 'user-1',
+            email: 'user@example.com',
+            method: 'POST',
+            path: '/upload',
+            body
+        })) as Result;
+        return { statusCode: result.statusCode, body: JSON.parse(result.body!) };
+    }
+
+    const checksumSha256 = createHash('sha256').update('report').digest('base64');
+    const pdf = { fileName: 'report.pdf', fileType: 'application/pdf', fileSize: 2048, checksumSha256 };
+
+    it('issues a presigned PUT by default', async () => {
+        const { statusCode, body } = await requestUpload(pdf);
+
+        expect(statusCode).toBe(200);
+        expect(body.data).toMatchObject({ uploadMethod: 'PUT', objectKey: expect.stringMatching(/\.pdf$/) });
+        expect(body.data.fields).toBeUndefined();
+        expect(body.data.uploadUrl).toContain('X-Amz-Signature=');
+        // The checksum is a signed header the client has to send, not a query parameter.
+        expect(decodeURIComponent(body.data.uploadUrl)).toContain('X-Amz-SignedHeaders=content-length;host;x-amz-checksum-sha256');
+        expect(body.data.uploadUrl).not.toContain('x-amz-checksum-sha256=');
+    });
+
+    it('requires a well-formed SHA-256 checksum', async () => {
+        const { checksumSha256: _, ...withoutChecksum } = pdf;
+
+        expect((await requestUpload(withoutChecksum)).body.error).toBe('checksumSha256 is required');
+        expect((await requestUpload({ ...pdf, checksumSha256: 'abc' })).statusCode).toBe(400);
+    });
+
+    it('records the declared checksum in the registry', async () => {
+        await requestUpload(pdf);
+
+        expect(registryItems()).toEqual([expect.objectContaining({ checksumSha256, state: 'pending_upload' })]);
+    });
+
+    it('limits uploads per hour with a 429, without counting refused requests', async () => {
+        const usage = new UsageRegistry(createDocumentClient(), process.env.USAGE_TABLE!);
+        for (let i = 0; i < 199; i++) await usage.countUpload('user-1', 200);
+
+        expect((await requestUpload(pdf)).statusCode).toBe(200);
+        const { statusCode, body } = await requestUpload({ ...pdf, force: true });
+
+        expect(statusCode).toBe(429);
+        expect(body.error).toMatch(/^Upload rate limit reached: at most 200 uploads per hour; try again after \d{4}-\d\d-\d\dT\d\d:00:00\.000Z$/);
+        expect(registryItems()).toHaveLength(1);
+        expect(dynamo.items(process.env.USAGE_TABLE!)[0]).toMatchObject({ uploads: 200 });
+    });
+
+    it('checks the collection\'s own storage quota', async () => {
+        await dynamo.send(new PutCommand({
+            TableName: process.env.USAGE_TABLE!,
+            Item: { userId: 'user-1', usageKey: `collection#${defaultCollectionId('user-1')}`, bytes: 0, documents: 5000 }
+        }));
+
+        const { statusCode, body } = await requestUpload(pdf);
+
+        expect(statusCode).toBe(403);
+        expect(body.error).toBe(`Document quota exceeded: collection ${defaultCollectionId('user-1')} already holds 5000 of 5000 documents`);
+    });
+
+    it('records the uploading principal in the registry and on the object', async () => {
+        const { body } = await requestUpload(pdf);
+
+        expect(registryItems()[0]).toMatchObject({ userEmail: 'user@example.com', uploadedBy: 'user@example.com', uploaderType: 'user' });
+        expect(decodeURIComponent(body.data.uploadUrl)).toContain('x-amz-meta-uploaded-by');
+    });
+
+    it('records validated user metadata in the registry', async () => {
+        const metadata = { title: '  Q1 report ', tags: ['finance', 'quarterly'], language: 'pt-BR', classification: 'internal' };
+
+        expect((await requestUpload({ ...pdf, metadata })).statusCode).toBe(200);
+
+        expect(registryItems()[0]!.userMetadata).toEqual({ ...metadata, title: 'Q1 report' });
+    });
+
+    it.each([
+        [{ language: 'english' }, 'metadata.language: must be a BCP 47 language tag such as en or pt-BR'],
+        [{ tags: ['ok', ''] }, 'metadata.tags.1'],
+        [{ classification: 'secret' }, 'metadata.classification'],
+        [{ source: { url: 'not a url' } }, 'metadata.source.url'],
+        [{ owner: 'someone' }, 'metadata: Unrecognized key']
+    ])('rejects invalid metadata %j', async (metadata, error) => {
+        const { statusCode, body } = await requestUpload({ ...pdf, metadata });
+
+        expect(statusCode).toBe(400);
+        expect(body.error).toContain(error);
+        expect(registryItems()).toEqual([]);
+    });
+
+    it('issues a presigned POST whose policy pins size, content type, key and metadata', async () => {
+        const { statusCode, body } = await requestUpload({ ...pdf, uploadMethod: 'POST' });
+
+        expect(statusCode).toBe(200);
+        const { uploadUrl, uploadMethod, fields, objectKey } = body.data;
+        expect(uploadMethod).toBe('POST');
+        expect(uploadUrl).toContain(DOCUMENT_BUCKET);
+        expect(fields).toMatchObject({
+            key: objectKey,
+            'Content-Type': 'application/pdf',
+            'x-amz-meta-user-id': 'user-1',
+            'x-amz-meta-original-filename': 'report.pdf',
+            'x-amz-meta-file-size': '2048',
+            'x-amz-checksum-algorithm': 'SHA256',
+            'x-amz-checksum-sha256': checksumSha256
+        });
+
+        const policy = JSON.parse(Buffer.from(fields.Policy, 'base64').toString('utf8'));
+        expect(policy.conditions).toEqual(expect.arrayContaining([
+            ['content-length-range', 2048, 2048],
+            ['eq', '$Content-Type', 'application/pdf'],
+            { key: objectKey },
+            { 'x-amz-checksum-sha256': checksumSha256 },
+            { 'x-amz-meta-user-id': 'user-1' },
+            { 'x-amz-meta-content-type': 'application/pdf' }
+        ]));
+    });
+
+    it('rejects unknown upload methods without counting them against the hourly limit', async () => {
+        const { statusCode, body } = await requestUpload({ ...pdf, uploadMethod: 'PATCH' });
+
+        expect(statusCode).toBe(400);
+        expect(body.error).toContain('uploadMethod');
+        expect(dynamo.items(process.env.USAGE_TABLE!)).toEqual([]);
+        expect(dynamo.items(DOCUMENT_TABLE)).toEqual([]);
+    });
+
+    describe('batch uploads', () => {
+        async function call(method: string, path: string, options: { body?: unknown; pathParameters?: Record<string, string>; userId?: string } = {}) {
+            const result = await handler(apiEvent({ userId: options.userId ?? 'user-1', method, path, ...options })) as Result;
+            return { statusCode: result.statusCode, body: JSON.parse(result.body!) };
+        }
+
+        const notes = { fileName: 'notes.md', fileType: 'text/markdown', fileSize: 64, checksumSha256: createHash('sha256').update('notes').digest('base64') };
+
+        it('issues a URL per file and reports per-file errors without failing the batch', async () => {
+            const { statusCode, body } = await call('POST', '/uploads/batch', {
+                body: { files: [pdf, { ...pdf, fileName: 'report.exe', fileType: 'application/x-msdownload' }, { ...notes, uploadMethod: 'POST' }] }
+            });
+
+            expect(statusCode).toBe(200);
+            expect(body.data).toMatchObject({ batchId: expect.any(String), accepted: 2, failed: 1 });
+            expect(body.data.results).toEqual([
+                expect.objectContaining({ index: 0, fileName: 'report.pdf', status: 'pending_upload', uploadMethod: 'PUT', uploadUrl: expect.any(String) }),
+                { index: 1, fileName: 'report.exe', status: 'error', statusCode: 400, error: 'File type application/x-msdownload not allowed' },
+                expect.objectContaining({ index: 2, fileName: 'notes.md', status: 'pending_upload', uploadMethod: 'POST', fields: expect.any(Object) })
+            ]);
+            expect(registryItems()).toEqual([
+                expect.objectContaining({ fileName: 'report.pdf', batchId: body.data.batchId }),
+                expect.objectContaining({ fileName: 'notes.md', batchId: body.data.batchId })
+            ]);
+        });
+
+        it('applies the quotas to every file', async () => {
+            const usage = new UsageRegistry(createDocumentClient(), process.env.USAGE_TABLE!);
+            for (let i = 0; i < 199; i++) await usage.countUpload('user-1', 200);
+
+            const { body } = await call('POST', '/uploads/batch', { body: { files: [pdf, notes] } });
+
+            expect(body.data).toMatchObject({ accepted: 1, failed: 1 });
+            expect(body.data.results[1]).toMatchObject({ index: 1, status: 'error', statusCode: 429 });
+        });
+
+        it.each([
+            ['no files', {}],
+            ['an empty list', { files: [] }],
+            ['more than 50 files', { files: Array.from({ length: 51 }, () => notes) }]
+        ])('rejects a request with %s as a whole', async (_, requestBody) => {
+            const { statusCode, body } = await call('POST', '/uploads/batch', { body: requestBody });
+
+            expect(statusCode).toBe(400);
+            expect(body.error).toMatch(/files|at most 50/);
+            expect(registryItems()).toEqual([]);
+        });
+
+        it('aggregates the status of the batch\'s documents for their owner only', async () => {
+            const { body: created } = await call('POST', '/uploads/batch', { body: { files: [pdf, notes] } });
+            const { batchId, results } = created.data;
+            const registry = new DocumentRegistry(createDocumentClient(), DOCUMENT_TABLE);
+            await registry.transition(results[0].documentId, 'validating');
+            await registry.transition(results[0].documentId, 'validated');
+
+            const { statusCode, body } = await call('GET', '/uploads/batch/{batchId}', { pathParameters: { batchId } });
+
+            expect(statusCode).toBe(200);
+            expect(body.data).toMatchObject({ batchId, total: 2, counts: { validated: 1, pending: 1 }, complete: false });
+            expect(body.data.documents.map((document: { fileName: string }) => document.fileName)).toEqual(['report.pdf', 'notes.md']);
+            expect((await call('GET', '/uploads/batch/{batchId}', { pathParameters: { batchId }, userId: 'user-2' })).statusCode).toBe(404);
+        });
+    });
+});
@@ -0,0 +1,77 @@
+import { PutCommand } from '@aws-sdk/lib-dynamodb';
+import { APIGatewayProxyResultV2 } from 'aws-lambda';
+import { InMemoryDynamoDB, withUsageTable } from './helpers/in-memory-dynamodb';
+import { apiEvent } from './helpers/events';
+import { handler } from '../../lib/handlers/src/usage-handler';
+import { defaultCollectionId } from '../../lib/handlers/src/collection-registry';
+import { createDocumentClient } from '../../lib/handlers/src/document-registry';
+import { UsageRegistry } from '../../lib/handlers/src/usage-registry';
+
+const USAGE_TABLE = process.env.USAGE_TABLE!;
+const GB = 1024 ** 3;
+
+type Result = Exclude<APIGatewayProxyResultV2, string>;
+
+describe('Usage Handler', () => {
+    let dynamo: InMemoryDynamoDB;
+
+    beforeEach(() => {
+        dynamo = withUsageTable(new InMemoryDynamoDB(), USAGE_TABLE);
+        dynamo.install();
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    async function getUsage(queryStringParameters?: Record<string, string>, userId = 'user-1') {
+        const result = await handler(apiEvent({
+            userId,
+            path: '/usage',
+            ...(queryStringParameters && { queryStringParameters })
+        })) as Result;
+        return { statusCode: result.statusCode, body: JSON.parse(result.body!) };
+    }
+
+    it('reports a new user\'s full quotas against their default collection', async () => {
+        const { statusCode, body } = await getUsage();
+
+        expect(statusCode).toBe(200);
+        expect(body.data).toEqual({
+            storage: {
+                bytes: { used: 0, limit: 10 * GB, remaining: 10 * GB },
+                documents: { used: 0, limit: 10000, remaining: 10000 }
+            },
+            collection: {
+                collectionId: defaultCollectionId('user-1'),
+                bytes: { used: 0, limit: 5 * GB, remaining: 5 * GB },
+                documents: { used: 0, limit: 5000, remaining: 5000 }
+            },
+            uploads: { used: 0, limit: 200, remaining: 200, windowEndsAt: expect.stringMatching(/:00:00\.000Z$/) }
+        });
+    });
+
+    it('reports stored and uploaded counts for the requested collection', async () => {
+        const usage = new UsageRegistry(createDocumentClient(), USAGE_TABLE);
+        await usage.recordStored('user-1', 'research', 1000);
+        await usage.recordStored('user-1', 'other', 500);
+        await usage.countUpload('user-1', 200);
+        await usage.recordStored('user-2', 'research', 7);
+
+        const { body } = await getUsage({ collectionId: 'research' });
+
+        expect(body.data.storage).toMatchObject({ bytes: { used: 1500 }, documents: { used: 2, remaining: 9998 } });
+        expect(body.data.collection).toMatchObject({ collectionId: 'research', bytes: { used: 1000 }, documents: { used: 1 } });
+        expect(body.data.uploads).toMatchObject({ used: 1, remaining: 199 });
+    });
+
+    it('never reports negative remaining quota', async () => {
+        await dynamo.send(new PutCommand({ TableName: USAGE_TABLE, Item: { userId: 'user-1', usageKey: 'total', bytes: 11 * GB, documents: 10001 } }));
+
+        const { body } = await getUsage();
+
+        expect(body.data.storage).toMatchObject({ bytes: { used: 11 * GB, remaining: 0 }, documents: { remaining: 0 } });
+    });
+});
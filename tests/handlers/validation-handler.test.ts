@@ -1,8 +1,39 @@
 import { S3Event, Context } from 'aws-lambda';
+import { EventBridgeClient } from '@aws-sdk/client-eventbridge';
 import { handler } from '../../lib/handlers/src/validation-handler';
+import { documentRegistryTable } from './helpers/in-memory-dynamodb';
 
 jest.mock('@aws-sdk/client-s3');
 
+function mockBody(content: string | Buffer) {
+    const bytes = typeof content === 'string' ? Buffer.from(content) : content;
+    return {
+        [Symbol.asyncIterator]: async function* () {
+            yield new Uint8Array(bytes);
+        },
+        transformToByteArray: async () => new Uint8Array(bytes)
+    };
+}
+
+function s3Record(key: string): S3Event['Records'][number] {
+    return {
+        eventVersion: '2.1',
+        eventSource: 'aws:s3',
+        awsRegion: 'us-east-1',
+        eventTime: '2023-01-01T00:00:00.000Z',
+        eventName: 's3:ObjectCreated:Put',
+        userIdentity: { principalId: 'test-principal' },
+        requestParameters: { sourceIPAddress: '127.0.0.1' },
+        responseElements: { 'x-amz-request-id': 'test-request-id', 'x-amz-id-2': 'test-id-2' },
+        s3: {
+            s3SchemaVersion: '1.0',
+            configurationId: 'test-config',
+            bucket: { name: 'test-bucket', ownerIdentity: { principalId: 'test-principal' }, arn: 'arn:aws:s3:::test-bucket' },
+            object: { key, size: 1024, eTag: 'test-etag', sequencer: 'test-sequencer' }
+        }
+    };
+}
+
 describe('Validation Handler', () => {
     const mockContext: Context = {
         callbackWaitsForEmptyEventLoop: false,
@@ -22,6 +53,8 @@ describe('Validation Handler', () => {
     beforeEach(() => {
         process.env.DOCUMENT_BUCKET = 'test-document-bucket';
         process.env.QUARANTINE_BUCKET = 'test-quarantine-bucket';
+        documentRegistryTable(process.env.DOCUMENT_TABLE!).install();
+        jest.spyOn(EventBridgeClient.prototype, 'send').mockResolvedValue({ FailedEntryCount: 0, Entries: [{ EventId: 'event-1' }] } as never);
     });
 
     afterEach(() => {
@@ -72,7 +105,8 @@ describe('Validation Handler', () => {
             ContentType: 'application/pdf',
             ContentLength: 1024,
             LastModified: new Date(),
-            Body: 'mock-body'
+            Metadata: { 'content-type': 'application/pdf' },
+            Body: mockBody('%PDF-1.7\n%âãÏÓ\n1 0 obj\n')
         };
 
         const { S3Client } = require('@aws-sdk/client-s3');
@@ -126,7 +160,7 @@ describe('Validation Handler', () => {
             ContentType: 'application/octet-stream',
             ContentLength: 1024,
             LastModified: new Date(),
-            Body: 'mock-body'
+            Body: mockBody('MZ')
         };
 
         const { S3Client } = require('@aws-sdk/client-s3');
@@ -134,4 +168,77 @@ describe('Validation Handler', () => {
 
         await expect(handler(s3Event, mockContext)).resolves.toBeUndefined();
     });
-}); 
\ No newline at end of file
+
+    it('should quarantine a renamed executable as executable content, whatever type it declares', async () => {
+        const pe = Buffer.alloc(128);
+        pe.write('MZ', 0, 'latin1');
+        pe.writeUInt32LE(64, 0x3c);
+        pe.write('PE\0\0', 64, 'latin1');
+
+        const { S3Client, CopyObjectCommand, PutObjectTaggingCommand } = require('@aws-sdk/client-s3');
+        S3Client.prototype.send = jest.fn().mockResolvedValue({
+            ContentType: 'application/pdf',
+            Metadata: { 'content-type': 'application/pdf' },
+            Body: mockBody(pe)
+        });
+
+        await handler({ Records: [s3Record('report.pdf')] }, mockContext);
+
+        expect(PutObjectTaggingCommand).not.toHaveBeenCalled();
+        expect(CopyObjectCommand).toHaveBeenCalledTimes(1);
+        expect(CopyObjectCommand.mock.calls[0][0].Metadata['quarantine-reason-code']).toBe('EXECUTABLE_CONTENT');
+    });
+
+    it('should quarantine when the declared type and the file signature disagree', async () => {
+        const { S3Client, CopyObjectCommand } = require('@aws-sdk/client-s3');
+        S3Client.prototype.send = jest.fn().mockResolvedValue({
+            ContentType: 'application/pdf',
+            Metadata: { 'content-type': 'application/pdf' },
+            Body: mockBody('{\\rtf1\\ansi hello}')
+        });
+
+        await handler({ Records: [s3Record('notes.pdf')] }, mockContext);
+
+        expect(CopyObjectCommand.mock.calls[0][0].Metadata['quarantine-reason-code']).toBe('CONTENT_TYPE_MISMATCH');
+    });
+
+    it('should quarantine when the file extension does not match the content', async () => {
+        const { S3Client, CopyObjectCommand } = require('@aws-sdk/client-s3');
+        S3Client.prototype.send = jest.fn().mockResolvedValue({
+            ContentType: 'text/plain',
+            Metadata: { 'content-type': 'text/plain' },
+            Body: mockBody('plain text notes')
+        });
+
+        await handler({ Records: [s3Record('notes.pdf')] }, mockContext);
+
+        expect(CopyObjectCommand.mock.calls[0][0].Metadata['quarantine-reason-code']).toBe('EXTENSION_MISMATCH');
+    });
+
+    it('should approve a document whose signature, declared type and extension agree', async () => {
+        const { S3Client, CopyObjectCommand, PutObjectTaggingCommand } = require('@aws-sdk/client-s3');
+        S3Client.prototype.send = jest.fn().mockResolvedValue({
+            ContentType: 'text/markdown',
+            Metadata: { 'content-type': 'text/markdown' },
+            Body: mockBody('# Handbook\n\nWelcome — café\n')
+        });
+
+        await handler({ Records: [s3Record('handbook.md')] }, mockContext);
+
+        expect(CopyObjectCommand).not.toHaveBeenCalled();
+        expect(PutObjectTaggingCommand).toHaveBeenCalledTimes(1);
+    });
+
+    it('should run the per-type validators named in the document policy', async () => {
+        const { S3Client, CopyObjectCommand } = require('@aws-sdk/client-s3');
+        S3Client.prototype.send = jest.fn().mockResolvedValue({
+            ContentType: 'application/json',
+            Metadata: { 'content-type': 'application/json' },
+            Body: mockBody('this is not json')
+        });
+
+        await handler({ Records: [s3Record('data.json')] }, mockContext);
+
+        expect(CopyObjectCommand.mock.calls[0][0].Metadata['quarantine-reason-code']).toBe('MALFORMED_CONTENT');
+    });
+});
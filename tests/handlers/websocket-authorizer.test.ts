@@ -0,0 +1,88 @@
+import { generateKeyPairSync, KeyObject, sign } from 'crypto';
+import { APIGatewayRequestAuthorizerEvent } from 'aws-lambda';
+import { handler } from '../../lib/handlers/src/websocket-authorizer';
+import { InvalidTokenError, JwtVerifier } from '../../lib/handlers/src/jwt-verifier';
+
+const ISSUER = process.env.JWT_ISSUER!;
+const METHOD_ARN = 'arn:aws:execute-api:us-east-1:123456789012:test-socket/live/$connect';
+
+function keyPair(kid: string) {
+    const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+    return { kid, privateKey, jwk: { ...publicKey.export({ format: 'jwk' }), kid, alg: 'RS256', use: 'sig' } };
+}
+
+function token(claims: Record<string, unknown>, privateKey: KeyObject, header: Record<string, unknown>): string {
+    const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+    const signed = `${encode({ alg: 'RS256', ...header })}.${encode(claims)}`;
+    return `${signed}.${sign('RSA-SHA256', Buffer.from(signed), privateKey).toString('base64url')}`;
+}
+
+describe('WebSocket authorizer', () => {
+    const signing = keyPair('key-1');
+    const rotated = keyPair('key-2');
+    let published: object[];
+    let fetchMock: jest.SpyInstance;
+
+    const idToken = (claims: Record<string, unknown> = {}, key = signing) => token({
+        sub: 'user-1', email: 'a@example.com', token_use: 'id', aud: 'web-client', iss: ISSUER,
+        'cognito:groups': ['odmd-rag-uploader'], iat: Math.floor(Date.now() / 1000), exp: Math.floor(Date.now() / 1000) + 3600,
+        ...claims
+    }, key.privateKey, { kid: key.kid });
+
+    const connect = (queryStringParameters: Record<string, string> | null) =>
+        handler({ type: 'REQUEST', methodArn: METHOD_ARN, headers: null, queryStringParameters } as APIGatewayRequestAuthorizerEvent);
+
+    beforeEach(() => {
+        published = [signing.jwk];
+        fetchMock = jest.spyOn(global, 'fetch').mockImplementation(async () => new Response(JSON.stringify({ keys: published })));
+        jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('allows a reader and passes the caller on to the routes', async () => {
+        const result = await connect({ token: idToken() });
+
+        expect(result).toEqual({
+            principalId: 'user-1',
+            policyDocument: { Version: '2012-10-17', Statement: [{ Action: 'execute-api:Invoke', Effect: 'Allow', Resource: METHOD_ARN }] },
+            context: { userId: 'user-1', principal: 'a@example.com' }
+        });
+        expect(fetchMock).toHaveBeenCalledWith(`${ISSUER}/.well-known/jwks.json`, expect.anything());
+    });
+
+    it('denies a signed-in caller without the reader role', async () => {
+        const result = await connect({ token: idToken({ 'cognito:groups': ['odmd-rag-reviewer'] }) });
+
+        expect(result.policyDocument.Statement[0]).toMatchObject({ Effect: 'Deny' });
+        expect(result.context).toBeUndefined();
+    });
+
+    it.each([
+        ['no token', null],
+        ['a token that is not a JWT', { token: 'not-a-jwt' }],
+        ['an expired token', { token: idToken({ exp: Math.floor(Date.now() / 1000) - 1 }) }],
+        ['another issuer\'s token', { token: idToken({ iss: 'https://cognito-idp.us-east-1.amazonaws.com/us-east-1_other' }) }],
+        ['a token for another app client', { token: idToken({ aud: 'other-client' }) }],
+        ['a token signed with an unpublished key', { token: idToken({}, rotated) }],
+        ['a tampered token', { token: idToken().replace(/\.[^.]+\./, `.${Buffer.from(JSON.stringify({ sub: 'user-2', iss: ISSUER, aud: 'web-client', exp: 9999999999 })).toString('base64url')}.`) }]
+    ])('rejects %s as unauthorized', async (_, queryStringParameters) => {
+        await expect(connect(queryStringParameters)).rejects.toThrow('Unauthorized');
+    });
+
+    it('checks a service\'s access token against its client ID and fetches keys again after a rotation', async () => {
+        const verifier = new JwtVerifier(ISSUER, ['ci-client']);
+        await verifier.verify(idToken({ aud: 'ci-client' }));
+        published = [signing.jwk, rotated.jwk];
+
+        const claims = await verifier.verify(token({
+            sub: 'ci-client', client_id: 'ci-client', token_use: 'access', iss: ISSUER, scope: 'rag-ingestion/ingest:read', iat: 0, exp: 9999999999
+        }, rotated.privateKey, { kid: rotated.kid }));
+
+        expect(claims.client_id).toBe('ci-client');
+        expect(fetchMock).toHaveBeenCalledTimes(2);
+        await expect(verifier.verify(idToken({ aud: 'web-client' }))).rejects.toThrow(InvalidTokenError);
+    });
+});
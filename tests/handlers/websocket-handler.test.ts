@@ -0,0 +1,186 @@
+import { PutCommand } from '@aws-sdk/lib-dynamodb';
+import { ApiGatewayManagementApiClient, GoneException, PostToConnectionCommand } from '@aws-sdk/client-apigatewaymanagementapi';
+import { EventBridgeEvent } from 'aws-lambda';
+import { documentRegistryTable, InMemoryDynamoDB, withConnectionTable } from './helpers/in-memory-dynamodb';
+import { socketEvent } from './helpers/events';
+import { handler } from '../../lib/handlers/src/websocket-handler';
+import { handler as pushHandler } from '../../lib/handlers/src/status-push-handler';
+
+const DOCUMENT_TABLE = process.env.DOCUMENT_TABLE!;
+const CONNECTION_TABLE = process.env.CONNECTION_TABLE!;
+
+describe('Status WebSocket', () => {
+    let dynamo: InMemoryDynamoDB;
+    let posted: { connectionId: string; message: any }[];
+    let gone: Set<string>;
+
+    beforeEach(async () => {
+        dynamo = withConnectionTable(documentRegistryTable(DOCUMENT_TABLE), CONNECTION_TABLE);
+        dynamo.install();
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+        posted = [];
+        gone = new Set();
+        jest.spyOn(ApiGatewayManagementApiClient.prototype, 'send').mockImplementation((async (command: PostToConnectionCommand) => {
+            const { ConnectionId, Data } = command.input;
+            if (gone.has(ConnectionId!)) throw new GoneException({ message: 'Gone', $metadata: {} });
+            posted.push({ connectionId: ConnectionId!, message: JSON.parse(String(Data)) });
+            return {};
+        }) as any);
+
+        await seed('a', 'user-1', 'validating');
+        await seed('b', 'user-1', 'validated', { validatedAt: '2025-01-05T10:01:00.000Z' });
+        await seed('c', 'user-2', 'validated');
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    async function seed(documentId: string, userId: string, state: string, extra: Record<string, unknown> = {}) {
+        const createdAt = '2025-01-05T10:00:00.000Z';
+        await dynamo.send(new PutCommand({
+            TableName: DOCUMENT_TABLE,
+            Item: {
+                documentId, userId, state, fileName: `${documentId}.pdf`, fileType: 'application/pdf', fileSize: 1024,
+                createdAt, updatedAt: createdAt, bucket: process.env.DOCUMENT_BUCKET, objectKey: documentId, ...extra
+            }
+        }));
+    }
+
+    const subscribe = (documentIds: unknown, connectionId = 'conn-1') =>
+        handler(socketEvent({ routeKey: 'subscribe', connectionId, body: { action: 'subscribe', documentIds } }));
+
+    function busEvent(detailType: string, detail: Record<string, unknown>, source = 'rag.document-ingestion'): EventBridgeEvent<string, Record<string, unknown>> {
+        return {
+            id: 'event-1', version: '0', account: '123456789012', time: '2025-01-05T10:02:00Z', region: 'us-east-1',
+            resources: [], source, 'detail-type': detailType, detail
+        };
+    }
+
+    describe('websocket handler', () => {
+        it('accepts a connection the authorizer let in', async () => {
+            expect(await handler(socketEvent({ routeKey: '$connect' }))).toEqual({ statusCode: 200 });
+        });
+
+        it('subscribes to the caller\'s own documents and sends their current status', async () => {
+            const result = await subscribe(['a', 'missing', 'c', 'b', 'a']);
+
+            expect(result).toEqual({ statusCode: 200 });
+            expect(posted.map(({ message }) => message)).toEqual([
+                { type: 'subscribed', documentIds: ['a', 'b'], notFound: ['missing', 'c'] },
+                { type: 'document.status', documentId: 'a', status: expect.objectContaining({ status: 'pending', state: 'validating' }) },
+                { type: 'document.status', documentId: 'b', status: expect.objectContaining({ status: 'validated', validatedAt: '2025-01-05T10:01:00.000Z' }) }
+            ]);
+            expect(dynamo.items(CONNECTION_TABLE)).toEqual([
+                expect.objectContaining({ connectionId: 'conn-1', documentId: 'a', userId: 'user-1', expiresAt: expect.any(Number) }),
+                expect.objectContaining({ connectionId: 'conn-1', documentId: 'b', userId: 'user-1' })
+            ]);
+        });
+
+        it.each([
+            ['a body that is not JSON', 'subscribe me', 'Messages must be JSON'],
+            ['no documentIds', { action: 'subscribe' }, 'documentIds must be a non-empty array of document IDs'],
+            ['more than 100 IDs', { action: 'subscribe', documentIds: Array.from({ length: 101 }, (_, i) => `doc-${i}`) }, 'At most 100 document IDs per message, got 101']
+        ])('answers a message with %s with an error on the connection', async (_, body, error) => {
+            const result = await handler(socketEvent({ routeKey: 'subscribe', body }));
+
+            expect(result).toEqual({ statusCode: 400 });
+            expect(posted).toEqual([{ connectionId: 'conn-1', message: { type: 'error', error } }]);
+            expect(dynamo.items(CONNECTION_TABLE)).toEqual([]);
+        });
+
+        it('refuses to subscribe a connection without an authorized user', async () => {
+            const result = await handler(socketEvent({ routeKey: 'subscribe', userId: null, body: { action: 'subscribe', documentIds: ['a'] } }));
+
+            expect(result).toEqual({ statusCode: 401 });
+            expect(posted[0]!.message).toEqual({ type: 'error', error: 'Unauthorized' });
+        });
+
+        it('answers an unknown action with an error', async () => {
+            const result = await handler(socketEvent({ routeKey: '$default', body: { action: 'poll' } }));
+
+            expect(result).toEqual({ statusCode: 400 });
+            expect(posted[0]!.message.error).toMatch(/^Unsupported action/);
+        });
+
+        it('drops subscriptions on unsubscribe and on disconnect', async () => {
+            await subscribe(['a', 'b']);
+            await subscribe(['a'], 'conn-2');
+
+            await handler(socketEvent({ routeKey: 'unsubscribe', body: { action: 'unsubscribe', documentIds: ['a'] } }));
+            expect(dynamo.items(CONNECTION_TABLE).map(({ connectionId, documentId }) => `${connectionId}/${documentId}`)).toEqual(['conn-1/b', 'conn-2/a']);
+
+            await handler(socketEvent({ routeKey: '$disconnect' }));
+            expect(dynamo.items(CONNECTION_TABLE).map(({ connectionId, documentId }) => `${connectionId}/${documentId}`)).toEqual(['conn-2/a']);
+        });
+    });
+
+    describe('status push handler', () => {
+        beforeEach(async () => {
+            await subscribe(['a']);
+            await subscribe(['a', 'b'], 'conn-2');
+            posted = [];
+        });
+
+        it('pushes a lifecycle event as the document\'s registry status to its subscribers only', async () => {
+            await seed('a', 'user-1', 'quarantined', { reason: 'Signature does not match application/pdf', reasonCode: 'SIGNATURE_MISMATCH' });
+
+            await pushHandler(busEvent('Document Quarantined', { documentId: 'a' }));
+
+            expect(posted).toEqual([
+                { connectionId: 'conn-1', message: { type: 'document.status', documentId: 'a', status: expect.objectContaining({ status: 'quarantined', reasonCode: 'SIGNATURE_MISMATCH' }) } },
+                { connectionId: 'conn-2', message: { type: 'document.status', documentId: 'a', status: expect.objectContaining({ status: 'quarantined' }) } }
+            ]);
+        });
+
+        it('reports a document as deleted before the registry has moved', async () => {
+            await pushHandler(busEvent('Document Deleted', { documentId: 'b', deletedAt: '2025-01-05T10:03:00.000Z' }));
+
+            expect(posted).toEqual([{
+                connectionId: 'conn-2',
+                message: { type: 'document.status', documentId: 'b', status: expect.objectContaining({ status: 'deleted', deletedAt: '2025-01-05T10:03:00.000Z' }) }
+            }]);
+        });
+
+        it('pushes a downstream stage change as a normalized stage', async () => {
+            await pushHandler(busEvent('Document Stage Changed', {
+                documentId: 'b', stage: 'embedding', status: 'completed', processingTimeMs: 800, embeddingCount: 12
+            }, 'rag.embedding'));
+
+            expect(posted).toEqual([{
+                connectionId: 'conn-2',
+                message: {
+                    type: 'pipeline.stage',
+                    documentId: 'b',
+                    stage: {
+                        stage: 'embedding', status: 'completed', timestamp: '2025-01-05T10:02:00Z', processingTimeMs: 800,
+                        details: { timestamp: '2025-01-05T10:02:00Z', status: 'completed', processingTimeMs: 800, embeddingCount: 12 }
+                    }
+                }
+            }]);
+        });
+
+        it('rejects a stage change without a known stage', async () => {
+            await expect(pushHandler(busEvent('Document Stage Changed', { documentId: 'b', stage: 'chunking', status: 'completed' }, 'rag.processing')))
+                .rejects.toThrow();
+            expect(posted).toEqual([]);
+        });
+
+        it('drops the subscriptions of a connection that has gone and still reaches the others', async () => {
+            gone.add('conn-1');
+
+            await pushHandler(busEvent('Document Validated', { documentId: 'a' }));
+
+            expect(posted.map(({ connectionId }) => connectionId)).toEqual(['conn-2']);
+            expect(dynamo.items(CONNECTION_TABLE).map(({ connectionId }) => connectionId)).toEqual(['conn-2', 'conn-2']);
+        });
+
+        it('ignores events about unknown documents', async () => {
+            await pushHandler(busEvent('Document Validated', { documentId: 'missing' }));
+
+            expect(posted).toEqual([]);
+        });
+    });
+});
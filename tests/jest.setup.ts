@@ -0,0 +1,15 @@
+// Environment shared by the handler tests; individual suites may override before requiring a handler.
+process.env.AWS_REGION = 'us-east-1';
+process.env.AWS_ACCESS_KEY_ID = 'test';
+process.env.AWS_SECRET_ACCESS_KEY = 'test';
+process.env.DOCUMENT_BUCKET = 'test-document-bucket';
+process.env.QUARANTINE_BUCKET = 'test-quarantine-bucket';
+process.env.DOCUMENT_TABLE = 'test-document-table';
+process.env.COLLECTION_TABLE = 'test-collection-table';
+process.env.USAGE_TABLE = 'test-usage-table';
+process.env.EVENT_BUS_NAME = 'test-event-bus';
+process.env.CONNECTION_TABLE = 'test-connection-table';
+process.env.WEBSOCKET_CALLBACK_URL = 'https://test-socket.execute-api.us-east-1.amazonaws.com/live';
+process.env.JWT_ISSUER = 'https://cognito-idp.us-east-1.amazonaws.com/us-east-1_test';
+process.env.JWT_AUDIENCE = 'web-client,ci-client';
+process.env.HISTORY_TABLE = 'test-history-table';
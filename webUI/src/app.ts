@@ -1,9 +1,14 @@
-import { AuthService } from './auth.ts';
-import { DocumentService, type PipelineStatus } from './documentService.ts';
+import { AuthService, canReview, canUpload, type UserInfo } from './auth.ts';
+import { DocumentService, type BatchFile, type Collection, type DocumentMetadataInput, type DocumentPolicy, type DocumentSummary, type DocumentTypePolicy, type HistoryEntry, type PipelineStage, type PipelineStatus, type QuarantineItem, type Usage } from './documentService.ts';
 import { loadConfig } from './config.ts';
 
 let authService: AuthService;
 let documentService: DocumentService;
+// Set by a history item's "New revision" button for the next file the user picks.
+let pendingRevisionOf: string | undefined;
+// The collection picked in the upload card; uploads go there and the history shows only its documents.
+let collections: Collection[] = [];
+let selectedCollection: Collection | undefined;
 
 async function initializeApp(): Promise<void> {
   try {
@@ -92,7 +97,7 @@ function showSignInUI(): void {
 
           <div class="info-section">
             <p class="note">
-              <strong>Note:</strong> You must be a member of the "odmd-rag-uploader" group to upload documents.
+              <strong>Note:</strong> You must be a member of the "odmd-rag-uploader" group to upload documents, or of the "odmd-rag-reviewer" group to review quarantined ones.
             </p>
           </div>
         </div>
@@ -146,7 +151,10 @@ function setupSignInEventListeners(): void {
   });
 }
 
-function showMainUI(user: any): void {
+// Reviewers without the uploader group get only the review console; admins get both.
+function showMainUI(user: UserInfo): void {
+  const uploads = canUpload(user);
+  const review = canReview(user);
   const appDiv = document.getElementById('app')!;
   appDiv.innerHTML = `
     <div class="container">
@@ -157,10 +165,17 @@ function showMainUI(user: any): void {
           <button id="signOutBtn" class="sign-out-btn">Sign Out</button>
         </div>
       </div>
-
+      ${uploads ? `
       <div class="upload-section">
         <div class="upload-card">
           <h2>Upload Document</h2>
+          <div class="collection-picker">
+            <label for="collectionSelect">Collection</label>
+            <select id="collectionSelect"></select>
+            <button id="newCollectionBtn" class="secondary-btn">New collection</button>
+            <button id="deleteCollectionBtn" class="secondary-btn">Delete collection</button>
+          </div>
+          <p class="quota-summary" id="quotaSummary"></p>
           <div class="upload-area" id="uploadArea">
             <div class="upload-placeholder">
               <svg width="48" height="48" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
@@ -169,10 +184,31 @@ function showMainUI(user: any): void {
                 <line x1="12" y1="15" x2="12" y2="3"/>
               </svg>
               <p>Drag & drop a document here or click to browse</p>
-              <p class="file-types">Supported: PDF, DOCX, DOC, PPTX, PPT, XLSX, XLS, TXT, MD, CSV, JSON, XML, HTML, RTF, ODT, ODP, ODS, Pages, Numbers, Keynote</p>
+              <p class="file-types" id="supportedFileTypes">Supported: PDF, DOCX, DOC, PPTX, PPT, XLSX, XLS, TXT, MD, CSV, JSON, XML, HTML, RTF, ODT, ODP, ODS, Pages, Numbers, Keynote</p>
             </div>
-            <input type="file" id="fileInput" accept=".pdf,.docx,.doc,.pptx,.ppt,.xlsx,.xls,.txt,.md,.csv,.json,.xml,.html,.htm,.rtf,.odt,.odp,.ods,.pages,.numbers,.key" style="display: none;">
+            <input type="file" id="fileInput" multiple accept=".pdf,.docx,.doc,.pptx,.ppt,.xlsx,.xls,.txt,.md,.csv,.json,.xml,.html,.htm,.rtf,.odt,.odp,.ods,.pages,.numbers,.key" style="display: none;">
           </div>
+
+          <details class="metadata-form">
+            <summary>Document details (optional)</summary>
+            <div class="metadata-fields">
+              <label>Title <input type="text" id="metaTitle" maxlength="256"></label>
+              <label>Tags <input type="text" id="metaTags" placeholder="finance, quarterly"></label>
+              <label>Collection <input type="text" id="metaCollection" maxlength="128"></label>
+              <label>Language <input type="text" id="metaLanguage" placeholder="en"></label>
+              <label>Classification
+                <select id="metaClassification">
+                  <option value="">—</option>
+                  <option value="public">Public</option>
+                  <option value="internal">Internal</option>
+                  <option value="confidential">Confidential</option>
+                  <option value="restricted">Restricted</option>
+                </select>
+              </label>
+              <label>Source URL <input type="url" id="metaSourceUrl"></label>
+              <label>Author <input type="text" id="metaAuthor"></label>
+            </div>
+          </details>
           
           <div id="uploadProgress" class="upload-progress" style="display: none;">
             <div class="progress-bar">
@@ -189,23 +225,48 @@ function showMainUI(user: any): void {
           <div id="uploadHistory" class="upload-history">
             <p class="no-uploads">No uploads yet</p>
           </div>
+          <button id="loadMoreHistory" class="secondary-btn" style="display: none;">Load older uploads</button>
         </div>
-      </div>
+      </div>` : ''}
+      ${review ? `
+      <div class="review-section">
+        <div class="status-card">
+          <h3>Quarantine Review</h3>
+          <p class="review-note">Downloads are the raw quarantined file. Open them only in an isolated environment.</p>
+          <div id="quarantineList" class="upload-history">
+            <p class="no-uploads">Nothing in quarantine</p>
+          </div>
+          <button id="loadMoreQuarantine" class="secondary-btn" style="display: none;">Load more</button>
+        </div>
+      </div>` : ''}
     </div>
   `;
 
-  setupMainUIEventListeners();
-}
-
-function setupMainUIEventListeners(): void {
   document.getElementById('signOutBtn')?.addEventListener('click', () => {
     authService.logout();
   });
+  if (uploads) {
+    setupUploadEventListeners();
+    renderSupportedTypes();
+    loadCollections();
+  }
+  if (review) {
+    loadQuarantine();
+  }
+}
+
+function setupUploadEventListeners(): void {
+  document.getElementById('collectionSelect')?.addEventListener('change', (e) => {
+    selectCollection((e.target as HTMLSelectElement).value);
+  });
+  document.getElementById('newCollectionBtn')?.addEventListener('click', () => createCollection());
+  document.getElementById('deleteCollectionBtn')?.addEventListener('click', () => deleteSelectedCollection());
 
   const uploadArea = document.getElementById('uploadArea')!;
   const fileInput = document.getElementById('fileInput') as HTMLInputElement;
 
   uploadArea.addEventListener('click', () => {
+    pendingRevisionOf = undefined;
     fileInput.click();
   });
 
@@ -221,77 +282,516 @@ function setupMainUIEventListeners(): void {
   uploadArea.addEventListener('drop', (e) => {
     e.preventDefault();
     uploadArea.classList.remove('drag-over');
+    pendingRevisionOf = undefined;
     
     const files = e.dataTransfer?.files;
     if (files && files.length > 0) {
-      handleFileUpload(files[0]);
+      handleFiles(files);
     }
   });
 
   fileInput.addEventListener('change', (e) => {
     const files = (e.target as HTMLInputElement).files;
     if (files && files.length > 0) {
-      handleFileUpload(files[0]);
+      handleFiles(files);
     }
   });
 }
 
+// A new revision replaces one document, so only the first file picked for it is used.
+function handleFiles(files: FileList): void {
+  if (files.length === 1 || pendingRevisionOf) {
+    handleFileUpload(files[0]!);
+  } else {
+    handleBatchUpload(Array.from(files));
+  }
+}
+
+/** Collects the optional details form, leaving out empty fields; undefined when nothing was filled in. */
+function readMetadataForm(): DocumentMetadataInput | undefined {
+  const value = (id: string) => (document.getElementById(id) as HTMLInputElement | HTMLSelectElement).value.trim();
+  const tags = value('metaTags').split(',').map(tag => tag.trim()).filter(Boolean);
+  const url = value('metaSourceUrl');
+  const author = value('metaAuthor');
+  const metadata: DocumentMetadataInput = {
+    ...(value('metaTitle') && {title: value('metaTitle')}),
+    ...(tags.length > 0 && {tags}),
+    ...(value('metaCollection') && {collection: value('metaCollection')}),
+    ...(value('metaLanguage') && {language: value('metaLanguage')}),
+    ...(value('metaClassification') && {classification: value('metaClassification') as DocumentMetadataInput['classification']}),
+    ...((url || author) && {source: {...(url && {url}), ...(author && {author})}})
+  };
+  return Object.keys(metadata).length > 0 ? metadata : undefined;
+}
+
 async function handleFileUpload(file: File): Promise<void> {
+  const replacesDocumentId = pendingRevisionOf;
+  pendingRevisionOf = undefined;
   try {
     console.log('📤 Starting upload for:', file.name);
     
-    const allowedTypes = [
-      'text/plain',
-      'text/markdown',
-      'text/csv',
-      'text/tab-separated-values',
-      'application/json',
-      'application/xml',
-      'text/html',
-      
-      'application/pdf',
-      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-      'application/msword',
-      'application/vnd.openxmlformats-officedocument.presentationml.presentation',
-      'application/vnd.ms-powerpoint',
-      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
-      'application/vnd.ms-excel',
-      'application/vnd.oasis.opendocument.text',
-      'application/vnd.oasis.opendocument.presentation',
-      'application/vnd.oasis.opendocument.spreadsheet',
-      'application/rtf',
-      'application/x-iwork-pages-sffpages',
-      'application/x-iwork-numbers-sffnumbers',
-      'application/x-iwork-keynote-sffkey'
-    ];
-    if (!allowedTypes.includes(file.type)) {
-      throw new Error('Unsupported file type. Please upload a supported document format.');
-    }
+    await documentService.initialize(authService.idToken!);
+
+    const policy = await documentService.getDocumentPolicy();
+    const typePolicy = resolveTypePolicy(policy, file);
 
-    if (file.size > 10 * 1024 * 1024) {
-      throw new Error('File size too large. Please upload files smaller than 10MB.');
+    if (file.size > typePolicy.maxFileSize) {
+      throw new Error(`File size too large. ${typePolicy.label} files must be smaller than ${formatBytes(typePolicy.maxFileSize)}.`);
     }
 
     showUploadProgress(0, 'Preparing upload...');
 
+    const onProgress = (progress: number) => showUploadProgress(progress, 'Uploading...');
+    const metadata = readMetadataForm();
+    // A revision stays in the collection of the document it replaces.
+    const collectionId = replacesDocumentId ? undefined : selectedCollection?.collectionId;
+    const options = {...(replacesDocumentId && {replacesDocumentId}), ...(collectionId && {collectionId}), ...(metadata && {metadata})};
+    let result = await documentService.uploadDocument(file, typePolicy.mimeType, onProgress, options);
+    if (result.duplicate && confirm(`${file.name} has already been uploaded. Upload it again anyway?`)) {
+      result = await documentService.uploadDocument(file, typePolicy.mimeType, onProgress, {...options, force: true});
+    }
+
+    console.log(result.duplicate ? '♻️ Already uploaded, ID:' : '✅ Upload successful, ID:', result.documentId);
+    loadUsage();
+    showUploadProgress(100, result.duplicate ? 'Already uploaded' : 'Upload complete!');
+
+    trackDocumentPipeline(result.documentId, file.name);
+
+  } catch (error) {
+    console.error('❌ Upload failed:', error);
+    hideUploadProgress();
+    showErrorState('Upload failed', error);
+  }
+}
+
+async function handleBatchUpload(files: File[]): Promise<void> {
+  try {
+    console.log(`📤 Starting upload for ${files.length} files`);
+
     await documentService.initialize(authService.idToken!);
+    const policy = await documentService.getDocumentPolicy();
 
-    const uploadId = await documentService.uploadDocument(file, (progress) => {
-      showUploadProgress(progress, 'Uploading...');
-    });
+    // Files the policy refuses are listed as failed up front; the rest still go.
+    const accepted: BatchFile[] = [];
+    for (const file of files) {
+      try {
+        const typePolicy = resolveTypePolicy(policy, file);
+        if (file.size > typePolicy.maxFileSize) {
+          throw new Error(`${typePolicy.label} files must be smaller than ${formatBytes(typePolicy.maxFileSize)}`);
+        }
+        accepted.push({file, contentType: typePolicy.mimeType});
+      } catch (error) {
+        addFailedUpload(file.name, error instanceof Error ? error.message : String(error));
+      }
+    }
+    if (accepted.length === 0) return;
 
-    console.log('✅ Upload successful, ID:', uploadId);
-    showUploadProgress(100, 'Upload complete!');
+    showUploadProgress(0, `Uploading ${accepted.length} files...`);
+    const metadata = readMetadataForm();
+    const collectionId = selectedCollection?.collectionId;
+    const onProgress = (done: number, total: number) => showUploadProgress(Math.round(done / total * 100), `Uploaded ${done} of ${total} files...`);
+    const {results} = await documentService.uploadDocuments(accepted, onProgress, {...(collectionId && {collectionId}), ...(metadata && {metadata})});
 
-    trackDocumentPipeline(uploadId, file.name);
+    const uploaded = results.filter(result => !('error' in result));
+    for (const result of results) {
+      if ('error' in result) {
+        addFailedUpload(result.fileName, result.error);
+      } else {
+        trackDocumentPipeline(result.documentId, result.fileName);
+      }
+    }
+    console.log(`✅ Uploaded ${uploaded.length} of ${files.length} files`);
+    loadUsage();
+    showUploadProgress(100, `Uploaded ${uploaded.length} of ${files.length} files`);
 
   } catch (error) {
-    console.error('❌ Upload failed:', error);
+    console.error('❌ Batch upload failed:', error);
     hideUploadProgress();
     showErrorState('Upload failed', error);
   }
 }
 
+function addFailedUpload(fileName: string, reason: string): void {
+  const historyElement = document.getElementById('uploadHistory')!;
+  if (historyElement.querySelector('.no-uploads')) {
+    historyElement.innerHTML = '';
+  }
+  const item = document.createElement('div');
+  item.className = 'upload-item failed';
+  item.innerHTML = `
+    <div class="upload-item-info">
+      <span class="file-name"></span>
+      <div class="pipeline-details"></div>
+    </div>
+    <span class="upload-status">❌ Not uploaded</span>
+  `;
+  item.querySelector('.file-name')!.textContent = fileName;
+  item.querySelector('.pipeline-details')!.textContent = reason;
+  historyElement.insertBefore(item, historyElement.firstChild);
+}
+
+// Browsers report an empty or vendor-specific type for many document formats
+// (e.g. .md, iWork files), so the extension decides which policy entry applies.
+function resolveTypePolicy(policy: DocumentPolicy, file: File): DocumentTypePolicy {
+  const extension = file.name.includes('.') ? file.name.split('.').pop()!.toLowerCase() : '';
+  const typePolicy = policy.types.find(t => t.extensions.includes(extension));
+  if (!typePolicy) {
+    throw new Error('Unsupported file type. Please upload a supported document format.');
+  }
+  return typePolicy;
+}
+
+function formatBytes(bytes: number): string {
+  return `${Math.round(bytes / 1024 / 1024)}MB`;
+}
+
+async function renderSupportedTypes(): Promise<void> {
+  try {
+    await documentService.initialize(authService.idToken!);
+    const policy = await documentService.getDocumentPolicy();
+
+    const fileTypes = document.getElementById('supportedFileTypes');
+    if (fileTypes) {
+      fileTypes.textContent = `Supported: ${policy.types.map(t => `${t.label} (${formatBytes(t.maxFileSize)})`).join(', ')}`;
+    }
+    const fileInput = document.getElementById('fileInput') as HTMLInputElement | null;
+    if (fileInput) {
+      fileInput.accept = policy.types.flatMap(t => t.extensions.map(ext => `.${ext}`)).join(',');
+    }
+  } catch (error) {
+    console.warn('⚠️ Failed to load document policy:', error);
+  }
+}
+
+const HISTORY_ITEM_CLASS: Record<DocumentSummary['status'], string> = {
+  pending: 'processing',
+  validated: 'completed',
+  duplicate: 'completed',
+  rejected: 'failed',
+  quarantined: 'failed',
+  aborted: 'timeout',
+  superseded: 'timeout',
+  deleted: 'timeout'
+};
+
+// Earlier uploads come from the registry, so the history survives a page refresh.
+// Entries are appended below anything tracked live in this session.
+async function loadCollections(selectId?: string): Promise<void> {
+  try {
+    await documentService.initialize(authService.idToken!);
+    collections = await documentService.listCollections();
+  } catch (error) {
+    console.warn('⚠️ Failed to load collections:', error);
+    collections = [];
+  }
+
+  const select = document.getElementById('collectionSelect') as HTMLSelectElement;
+  select.innerHTML = '';
+  for (const collection of collections) {
+    const option = document.createElement('option');
+    option.value = collection.collectionId;
+    option.textContent = collection.name;
+    select.appendChild(option);
+  }
+  selectCollection(selectId ?? collections.find(collection => collection.isDefault)?.collectionId);
+}
+
+function selectCollection(collectionId: string | undefined): void {
+  selectedCollection = collections.find(collection => collection.collectionId === collectionId);
+  (document.getElementById('collectionSelect') as HTMLSelectElement).value = selectedCollection?.collectionId ?? '';
+  (document.getElementById('deleteCollectionBtn') as HTMLButtonElement).disabled = !selectedCollection || selectedCollection.isDefault;
+
+  document.getElementById('uploadHistory')!.innerHTML = '<p class="no-uploads">No uploads yet</p>';
+  loadUploadHistory();
+  loadUsage();
+}
+
+// Stored bytes only count once a document is validated, so this lags behind uploads still in the pipeline.
+async function loadUsage(): Promise<void> {
+  const summary = document.getElementById('quotaSummary');
+  if (!summary) return;
+  try {
+    await documentService.initialize(authService.idToken!);
+    summary.textContent = describeUsage(await documentService.getUsage(selectedCollection?.collectionId));
+  } catch (error) {
+    console.warn('⚠️ Failed to load usage:', error);
+    summary.textContent = '';
+  }
+}
+
+function describeUsage(usage: Usage): string {
+  const {storage, collection, uploads} = usage;
+  return [
+    `${formatBytes(storage.bytes.remaining)} of ${formatBytes(storage.bytes.limit)} left`,
+    `${storage.documents.remaining} more documents`,
+    `${formatBytes(collection.bytes.remaining)} left in this collection`,
+    `${uploads.remaining} of ${uploads.limit} uploads left this hour`
+  ].join(' · ');
+}
+
+async function createCollection(): Promise<void> {
+  const name = prompt('Name of the new collection')?.trim();
+  if (!name) return;
+  try {
+    const created = await documentService.createCollection(name);
+    await loadCollections(created.collectionId);
+  } catch (error) {
+    alert(`Failed to create collection: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+async function deleteSelectedCollection(): Promise<void> {
+  if (!selectedCollection || selectedCollection.isDefault) return;
+  if (!confirm(`Delete the collection "${selectedCollection.name}"? Only empty collections can be deleted.`)) return;
+  try {
+    await documentService.deleteCollection(selectedCollection.collectionId);
+    await loadCollections();
+  } catch (error) {
+    alert(`Failed to delete collection: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+async function loadUploadHistory(cursor?: string): Promise<void> {
+  const loadMore = document.getElementById('loadMoreHistory') as HTMLButtonElement;
+  try {
+    await documentService.initialize(authService.idToken!);
+    const collectionId = selectedCollection?.collectionId;
+    const page = await documentService.listDocuments({limit: 20, ...(collectionId && {collectionId}), ...(cursor && {cursor})});
+
+    const historyElement = document.getElementById('uploadHistory')!;
+    if (page.documents.length && historyElement.querySelector('.no-uploads')) {
+      historyElement.innerHTML = '';
+    }
+    for (const summary of page.documents) {
+      historyElement.appendChild(renderHistoryItem(summary));
+    }
+
+    loadMore.style.display = page.nextCursor ? 'block' : 'none';
+    loadMore.onclick = page.nextCursor ? () => loadUploadHistory(page.nextCursor) : null;
+  } catch (error) {
+    console.warn('⚠️ Failed to load upload history:', error);
+  }
+}
+
+function renderHistoryItem(summary: DocumentSummary): HTMLElement {
+  const item = document.createElement('div');
+  item.className = `upload-item ${HISTORY_ITEM_CLASS[summary.status]}`;
+
+  const info = document.createElement('div');
+  info.className = 'upload-item-info';
+  const name = document.createElement('span');
+  name.className = 'file-name';
+  name.textContent = summary.metadata?.title ? `${summary.metadata.title} (${summary.fileName})` : summary.fileName;
+  const id = document.createElement('span');
+  id.className = 'upload-id';
+  id.textContent = `ID: ${summary.documentId}`;
+  const details = document.createElement('div');
+  details.className = 'pipeline-details';
+  const revision = summary.revision && summary.revision > 1 ? ` · revision ${summary.revision}` : '';
+  const tags = summary.metadata?.tags?.length ? ` · ${summary.metadata.tags.join(', ')}` : '';
+  const annotations = summary.annotations?.length ? ` · ${summary.annotations.map(annotation => annotation.reason).join('; ')}` : '';
+  details.textContent = `Uploaded ${new Date(summary.uploadedAt).toLocaleString()}${revision}${tags}${annotations}${summary.errorMessage ? ` · ${summary.errorMessage}` : ''}`;
+  info.append(name, id, details);
+
+  if (summary.status === 'validated') {
+    const newRevision = document.createElement('button');
+    newRevision.className = 'secondary-btn';
+    newRevision.textContent = 'New revision';
+    newRevision.addEventListener('click', () => {
+      pendingRevisionOf = summary.documentId;
+      (document.getElementById('fileInput') as HTMLInputElement).click();
+    });
+    info.append(newRevision);
+  }
+
+  const showHistory = document.createElement('button');
+  showHistory.className = 'secondary-btn';
+  showHistory.textContent = 'History';
+  showHistory.addEventListener('click', () => toggleTimeline(info, summary.documentId, showHistory));
+  info.append(showHistory);
+
+  const status = document.createElement('span');
+  status.className = 'upload-status';
+  status.textContent = summary.status;
+
+  item.append(info, status);
+  return item;
+}
+
+const HISTORY_EVENT_LABEL: Record<HistoryEntry['event'], string> = {
+  upload_url_issued: 'Upload URL issued',
+  upload_aborted: 'Upload aborted',
+  upload_completed: 'Upload completed',
+  validation_started: 'Validation started',
+  validator_result: 'Check',
+  scan_pending: 'Waiting for the malware scanner',
+  validated: 'Validated',
+  quarantined: 'Quarantined',
+  released: 'Released from quarantine',
+  rejected: 'Rejected',
+  duplicate: 'Duplicate of an earlier upload',
+  superseded: 'Superseded',
+  deleted: 'Deleted',
+  stage_changed: 'Pipeline stage',
+};
+
+/** What a timeline entry says after its label: the check or stage and its outcome, or the reason. */
+function describeHistoryEntry(entry: HistoryEntry): string {
+  const details = entry.details ?? {};
+  switch (entry.event) {
+    case 'validator_result':
+      if (!details.passed) return `${details.check}: failed (${details.reasonCode})`;
+      return `${details.check}: passed${Array.isArray(details.annotations) ? ` (${details.annotations.map(annotation => annotation.reasonCode).join(', ')})` : ''}`;
+    case 'stage_changed':
+      return `${details.stage} ${details.status}${details.errorMessage ? ` · ${details.errorMessage}` : ''}`;
+    case 'scan_pending':
+      return `attempt ${details.scanAttempts}: ${details.reason}`;
+    case 'quarantined':
+    case 'rejected':
+      return String(details.reason ?? '');
+    case 'released':
+      return String(details.justification ?? '');
+    case 'duplicate':
+      return `of ${details.duplicateOf}`;
+    case 'superseded':
+      return `by ${details.supersededBy}`;
+    default:
+      return '';
+  }
+}
+
+/** Shows the document's history as a timeline under its item, or hides it again. */
+async function toggleTimeline(container: HTMLElement, documentId: string, button: HTMLButtonElement): Promise<void> {
+  const existing = container.querySelector('.timeline');
+  if (existing) {
+    existing.remove();
+    return;
+  }
+
+  button.disabled = true;
+  try {
+    const entries = await documentService.getDocumentHistory(documentId);
+    const timeline = document.createElement('ol');
+    timeline.className = 'timeline';
+    for (const entry of entries) {
+      const step = document.createElement('li');
+      const failed = entry.details?.passed === false || ['quarantined', 'rejected'].includes(entry.event) || entry.details?.status === 'failed';
+      step.className = failed ? 'timeline-entry failed' : 'timeline-entry';
+      const when = document.createElement('time');
+      when.dateTime = entry.at;
+      when.textContent = new Date(entry.at).toLocaleString();
+      const what = document.createElement('span');
+      const description = describeHistoryEntry(entry);
+      what.textContent = `${HISTORY_EVENT_LABEL[entry.event]}${description ? ` · ${description}` : ''}`;
+      const who = document.createElement('span');
+      who.className = 'timeline-actor';
+      who.textContent = entry.actor.id;
+      step.append(when, what, who);
+      timeline.append(step);
+    }
+    container.append(timeline);
+  } catch (error) {
+    console.warn(`⚠️ Failed to load the history of ${documentId}:`, error);
+    alert(`Could not load the history: ${error instanceof Error ? error.message : error}`);
+  } finally {
+    button.disabled = false;
+  }
+}
+
+// The review console pages through every user's quarantined documents, oldest
+// first; an item disappears once it is released or rejected.
+async function loadQuarantine(cursor?: string): Promise<void> {
+  const loadMore = document.getElementById('loadMoreQuarantine') as HTMLButtonElement;
+  try {
+    await documentService.initialize(authService.idToken!);
+    const page = await documentService.listQuarantine(cursor);
+
+    const list = document.getElementById('quarantineList')!;
+    if (page.items.length && list.querySelector('.no-uploads')) {
+      list.innerHTML = '';
+    }
+    for (const item of page.items) {
+      list.appendChild(renderQuarantineItem(item));
+    }
+
+    loadMore.style.display = page.nextCursor ? 'block' : 'none';
+    loadMore.onclick = page.nextCursor ? () => loadQuarantine(page.nextCursor) : null;
+  } catch (error) {
+    console.warn('⚠️ Failed to load the quarantine:', error);
+  }
+}
+
+function renderQuarantineItem(quarantined: QuarantineItem): HTMLElement {
+  const item = document.createElement('div');
+  item.className = 'upload-item failed';
+
+  const info = document.createElement('div');
+  info.className = 'upload-item-info';
+  const name = document.createElement('span');
+  name.className = 'file-name';
+  name.textContent = `${quarantined.fileName} (${quarantined.fileType}, ${formatBytes(quarantined.fileSize)})`;
+  const id = document.createElement('span');
+  id.className = 'upload-id';
+  id.textContent = `ID: ${quarantined.documentId}`;
+  const reason = document.createElement('div');
+  reason.className = 'pipeline-details';
+  reason.textContent = `${quarantined.reasonCode ?? 'Quarantined'}${quarantined.reason ? ` · ${quarantined.reason}` : ''}`;
+  const details = document.createElement('div');
+  details.className = 'pipeline-details';
+  details.textContent = `Uploaded by ${quarantined.uploadedBy ?? quarantined.userId} · quarantined ${new Date(quarantined.quarantinedAt).toLocaleString()}`
+    + ` · deleted ${new Date(quarantined.expiresAt).toLocaleString()} unless released`;
+  info.append(name, id, reason, details);
+
+  const download = document.createElement('button');
+  download.className = 'secondary-btn';
+  download.textContent = 'Download';
+  download.addEventListener('click', async () => {
+    try {
+      window.location.assign(await documentService.getQuarantineDownloadUrl(quarantined.documentId));
+    } catch (error) {
+      alert(`Could not download: ${error instanceof Error ? error.message : error}`);
+    }
+  });
+  const release = document.createElement('button');
+  release.className = 'secondary-btn';
+  release.textContent = 'Release';
+  release.addEventListener('click', () => reviewQuarantined(item, quarantined, 'release'));
+  const reject = document.createElement('button');
+  reject.className = 'secondary-btn';
+  reject.textContent = 'Reject';
+  reject.addEventListener('click', () => reviewQuarantined(item, quarantined, 'reject'));
+  info.append(download, release, reject);
+
+  const status = document.createElement('span');
+  status.className = 'upload-status';
+  status.textContent = 'quarantined';
+
+  item.append(info, status);
+  return item;
+}
+
+/** Asks for the justification or reason the API requires, then releases or rejects the document. */
+async function reviewQuarantined(item: HTMLElement, quarantined: QuarantineItem, action: 'release' | 'reject'): Promise<void> {
+  const note = prompt(action === 'release'
+    ? `Why is ${quarantined.fileName} safe to ingest? It goes through the normal approved flow.`
+    : `Why is ${quarantined.fileName} rejected? The quarantined copy is deleted.`)?.trim();
+  if (!note) return;
+
+  const buttons = item.querySelectorAll('button');
+  buttons.forEach(button => button.disabled = true);
+  try {
+    if (action === 'release') {
+      await documentService.releaseQuarantined(quarantined.documentId, note);
+    } else {
+      await documentService.rejectQuarantined(quarantined.documentId, note);
+    }
+    item.remove();
+  } catch (error) {
+    alert(`Could not ${action} ${quarantined.fileName}: ${error instanceof Error ? error.message : error}`);
+    buttons.forEach(button => button.disabled = false);
+  }
+}
+
 function showUploadProgress(progress: number, text: string): void {
   const progressElement = document.getElementById('uploadProgress')!;
   const progressFill = document.getElementById('progressFill')!;
@@ -307,12 +807,36 @@ function hideUploadProgress(): void {
   progressElement.style.display = 'none';
 }
 
+// While status is pushed, polling only guards against a missed message.
+const PUSH_SAFETY_CHECK_MS = 60000;
+
+/**
+ * Follows a document through the pipeline. With the status WebSocket each pushed
+ * change triggers a refresh; without it, or once it drops, this polls instead.
+ */
 async function trackDocumentPipeline(documentId: string, fileName: string): Promise<void> {
   let attempts = 0;
   let consecutiveErrors = 0;
   const maxConsecutiveErrors = 3;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let stopWatching: (() => void) | null = null;
+  let finished = false;
+
+  const scheduleCheck = (delay: number) => {
+    if (finished) return;
+    clearTimeout(timer);
+    timer = setTimeout(checkPipelineStatus, delay);
+  };
 
-  const addToHistory = (status: string, className: string, details?: string) => {
+  const finish = () => {
+    finished = true;
+    clearTimeout(timer);
+    stopWatching?.();
+    stopWatching = null;
+  };
+
+  // Several uploads are tracked at once, so each tracker only ever touches its own row.
+  const addToHistory = (status: string, className: string, details?: string): HTMLElement => {
     const historyElement = document.getElementById('uploadHistory')!;
     if (historyElement.querySelector('.no-uploads')) {
       historyElement.innerHTML = '';
@@ -329,9 +853,10 @@ async function trackDocumentPipeline(documentId: string, fileName: string): Prom
       <span class="upload-status">${status}</span>
     `;
     historyElement.insertBefore(uploadItem, historyElement.firstChild);
+    return uploadItem;
   };
 
-  addToHistory('Starting comprehensive pipeline processing...', 'processing');
+  const item = addToHistory('Starting comprehensive pipeline processing...', 'processing');
 
   const checkPipelineStatus = async () => {
     try {
@@ -343,41 +868,33 @@ async function trackDocumentPipeline(documentId: string, fileName: string): Prom
 
       consecutiveErrors = 0;
 
-      const historyElement = document.getElementById('uploadHistory')!;
-      const latestItem = historyElement.querySelector('.upload-item');
-      
       const stageProgress = createComprehensiveStageDisplay(pipelineStatus);
       const statusText = getComprehensiveStatusText(pipelineStatus);
       
       if (pipelineStatus.overallStatus === 'completed') {
-        latestItem?.classList.remove('processing');
-        latestItem?.classList.add('completed');
-        latestItem!.querySelector('.upload-status')!.textContent = 'Pipeline Completed ✅ - Ready for RAG queries';
-        updateItemDetails(latestItem, stageProgress);
+        item.classList.remove('processing');
+        item.classList.add('completed');
+        item.querySelector('.upload-status')!.textContent = 'Pipeline Completed ✅ - Ready for RAG queries';
+        updateItemDetails(item, stageProgress);
         hideUploadProgress();
+        finish();
         console.log('🎉 Document pipeline completed successfully');
         return;
       } else if (pipelineStatus.overallStatus === 'failed') {
-        const hasRealFailures = pipelineStatus.failedStages.some(stage => {
-          const stageDetail = pipelineStatus.stageDetails[stage];
-          return stageDetail?.metadata?.errorType !== 'network';
-        });
-        
-        if (hasRealFailures) {
-          latestItem?.classList.remove('processing');
-          latestItem?.classList.add('failed');
-          const failedStages = pipelineStatus.failedStages.join(', ');
-          const errorDetails = getErrorDetailsFromPipeline(pipelineStatus);
-          latestItem!.querySelector('.upload-status')!.textContent = `Pipeline Failed ❌ - Failed stages: ${failedStages}`;
-          updateItemDetails(latestItem, stageProgress + errorDetails);
-          hideUploadProgress();
-          console.error('❌ Document pipeline failed:', pipelineStatus);
-          return;
-        }
+        item.classList.remove('processing');
+        item.classList.add('failed');
+        const failedStages = pipelineStatus.failedStages.join(', ');
+        const errorDetails = getErrorDetailsFromPipeline(pipelineStatus);
+        item.querySelector('.upload-status')!.textContent = `Pipeline Failed ❌ - Failed stages: ${failedStages}`;
+        updateItemDetails(item, stageProgress + errorDetails);
+        hideUploadProgress();
+        finish();
+        console.error('❌ Document pipeline failed:', pipelineStatus);
+        return;
       }
       
-      latestItem!.querySelector('.upload-status')!.textContent = statusText;
-      updateItemDetails(latestItem, stageProgress);
+      item.querySelector('.upload-status')!.textContent = statusText;
+      updateItemDetails(item, stageProgress);
       console.log(`🔄 Pipeline processing: ${pipelineStatus.currentStage} (${pipelineStatus.completedStages.length}/4 stages completed)`);
 
       let nextCheckDelay = 5000;
@@ -385,7 +902,7 @@ async function trackDocumentPipeline(documentId: string, fileName: string): Prom
       if (attempts > 30) nextCheckDelay = 30000;
       if (attempts > 60) nextCheckDelay = 60000;
       
-      setTimeout(checkPipelineStatus, nextCheckDelay);
+      scheduleCheck(stopWatching ? PUSH_SAFETY_CHECK_MS : nextCheckDelay);
       
     } catch (error) {
       consecutiveErrors++;
@@ -396,42 +913,49 @@ async function trackDocumentPipeline(documentId: string, fileName: string): Prom
           console.log('🔄 Falling back to ingestion-only status check...');
           const legacyStatus = await documentService.getUploadStatus(documentId);
           
-          const historyElement = document.getElementById('uploadHistory')!;
-          const latestItem = historyElement.querySelector('.upload-item');
-          
           if (legacyStatus.status === 'completed' || legacyStatus.status === 'validated') {
-            latestItem?.classList.remove('processing');
-            latestItem?.classList.add('partial-success');
-            latestItem!.querySelector('.upload-status')!.textContent = 'Ingestion Completed ✅ - Downstream services unavailable';
+            item.classList.remove('processing');
+            item.classList.add('partial-success');
+            item.querySelector('.upload-status')!.textContent = 'Ingestion Completed ✅ - Downstream services unavailable';
           } else {
-            latestItem?.classList.remove('processing');
-            latestItem?.classList.add('failed');
-            latestItem!.querySelector('.upload-status')!.textContent = 'Pipeline status unavailable ❌ - Services may be down';
+            item.classList.remove('processing');
+            item.classList.add('failed');
+            item.querySelector('.upload-status')!.textContent = 'Pipeline status unavailable ❌ - Services may be down';
           }
           
         } catch (fallbackError) {
           console.error('❌ Fallback status check also failed:', fallbackError);
-          const historyElement = document.getElementById('uploadHistory')!;
-          const latestItem = historyElement.querySelector('.upload-item');
-          latestItem?.classList.remove('processing');
-          latestItem?.classList.add('failed');
-          latestItem!.querySelector('.upload-status')!.textContent = 'All services unavailable ❌';
+          item.classList.remove('processing');
+          item.classList.add('failed');
+          item.querySelector('.upload-status')!.textContent = 'All services unavailable ❌';
         }
         
         hideUploadProgress();
+        finish();
         return;
       }
       
       const retryDelay = Math.min(5000 * Math.pow(2, consecutiveErrors - 1), 30000);
-      setTimeout(checkPipelineStatus, retryDelay);
+      scheduleCheck(retryDelay);
     }
   };
 
-  setTimeout(checkPipelineStatus, 3000);
+  stopWatching = await documentService.watchDocument(documentId, {
+    onMessage: message => {
+      console.log(`📡 Pushed ${message.type} for ${documentId}`);
+      scheduleCheck(0);
+    },
+    onLost: () => {
+      console.log(`🔄 Status push lost for ${documentId}, polling instead`);
+      stopWatching = null;
+      scheduleCheck(5000);
+    },
+  });
+  scheduleCheck(3000);
 }
 
 function createComprehensiveStageDisplay(pipelineStatus: PipelineStatus): string {
-  const stages = [
+  const stages: { key: PipelineStage; name: string; icon: string }[] = [
     { key: 'ingestion', name: 'Document Ingestion', icon: '📤' },
     { key: 'processing', name: 'Content Processing', icon: '⚙️' },
     { key: 'embedding', name: 'Vector Embedding', icon: '🔗' },
@@ -449,27 +973,27 @@ function createComprehensiveStageDisplay(pipelineStatus: PipelineStatus): string
     if (pipelineStatus.completedStages.includes(stage.key)) {
       stageClass = 'completed';
       stageIcon = '✅';
-      if (stageDetail?.metadata) {
-        const processingTime = stageDetail.metadata.processingTime || 0;
-        stageInfo = `<small>(${processingTime}ms)</small>`;
+      if (stageDetail.processingTimeMs !== undefined) {
+        stageInfo = `<small>(${stageDetail.processingTimeMs}ms)</small>`;
       }
     } else if (pipelineStatus.failedStages.includes(stage.key)) {
       stageClass = 'failed';
       stageIcon = '❌';
-      if (stageDetail?.metadata?.errorMessage) {
-        stageInfo = `<small class="error-text">(${stageDetail.metadata.errorMessage})</small>`;
+      if (stageDetail.errorMessage) {
+        stageInfo = `<small class="error-text">(${stageDetail.errorMessage})</small>`;
       }
     } else if (pipelineStatus.currentStage === stage.key) {
       stageClass = 'processing';
       stageIcon = '🔄';
-      if (stageDetail?.metadata) {
-        if (stage.key === 'processing' && stageDetail.metadata.chunkCount) {
-          stageInfo = `<small>(${stageDetail.metadata.chunkCount} chunks)</small>`;
-        } else if (stage.key === 'embedding' && stageDetail.metadata.embeddingCount) {
-          stageInfo = `<small>(${stageDetail.metadata.embeddingCount} embeddings)</small>`;
-        } else if (stage.key === 'vector-storage' && stageDetail.metadata.vectorCount) {
-          stageInfo = `<small>(${stageDetail.metadata.vectorCount} vectors)</small>`;
-        }
+      const details = stageDetail.details;
+      if (stageDetail.unavailable) {
+        stageInfo = '<small>(service unavailable, retrying)</small>';
+      } else if (stage.key === 'processing' && details?.chunkCount) {
+        stageInfo = `<small>(${details.chunkCount} chunks)</small>`;
+      } else if (stage.key === 'embedding' && details?.embeddingCount) {
+        stageInfo = `<small>(${details.embeddingCount} embeddings)</small>`;
+      } else if (stage.key === 'vector-storage' && details?.vectorCount) {
+        stageInfo = `<small>(${details.vectorCount} vectors)</small>`;
       }
     }
     
@@ -528,7 +1052,7 @@ function getErrorDetailsFromPipeline(pipelineStatus: PipelineStatus): string {
   
   pipelineStatus.failedStages.forEach(stage => {
     const stageDetail = pipelineStatus.stageDetails[stage];
-    const errorMessage = stageDetail?.metadata?.errorMessage || 'Unknown error';
+    const errorMessage = stageDetail.errorMessage || 'Unknown error';
     const timestamp = stageDetail?.timestamp ? new Date(stageDetail.timestamp).toLocaleTimeString() : '';
     
     errorDetails += `
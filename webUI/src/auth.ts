@@ -6,6 +6,20 @@ export interface UserInfo {
     groups?: string[];
 }
 
+const UPLOADER_GROUP = 'odmd-rag-uploader';
+const REVIEWER_GROUP = 'odmd-rag-reviewer';
+const ADMIN_GROUP = 'odmd-rag-admin';
+
+/** Uploads and the upload history; admins hold every role. */
+export function canUpload(user: UserInfo): boolean {
+    return !!user.groups?.some(group => group === UPLOADER_GROUP || group === ADMIN_GROUP);
+}
+
+/** The quarantine review console. Reviewers without the uploader group see only that. */
+export function canReview(user: UserInfo): boolean {
+    return !!user.groups?.some(group => group === REVIEWER_GROUP || group === ADMIN_GROUP);
+}
+
 export class AuthService {
     private static _instance: AuthService | null = null;
     private config!: Config;
@@ -118,11 +132,7 @@ export class AuthService {
 
         console.log('🔍 Extracted user info:', this.userInfo);
 
-        if (!this.userInfo.groups?.includes('odmd-rag-uploader')) {
-            console.error('❌ User groups:', this.userInfo.groups);
-            console.error('❌ Required group: odmd-rag-uploader');
-            throw new Error('Access denied: You must be a member of the "odmd-rag-uploader" group to upload documents.');
-        }
+        this.requireAccess(this.userInfo);
 
         localStorage.setItem('id_token', this._idToken);
         localStorage.setItem('user_info', JSON.stringify(this.userInfo));
@@ -162,6 +172,14 @@ export class AuthService {
         }
     }
 
+    private requireAccess(user: UserInfo): void {
+        if (!canUpload(user) && !canReview(user)) {
+            console.error('❌ User groups:', user.groups);
+            console.error(`❌ Required group: ${UPLOADER_GROUP} or ${REVIEWER_GROUP}`);
+            throw new Error(`Access denied: You must be a member of the "${UPLOADER_GROUP}" group to upload documents or the "${REVIEWER_GROUP}" group to review them.`);
+        }
+    }
+
     logout(): void {
         localStorage.removeItem('id_token');
         localStorage.removeItem('user_info');
@@ -201,11 +219,7 @@ export class AuthService {
 
             console.log('🔍 Extracted user info from JWT:', this.userInfo);
 
-            if (!this.userInfo.groups?.includes('odmd-rag-uploader')) {
-                console.error('❌ User groups:', this.userInfo.groups);
-                console.error('❌ Required group: odmd-rag-uploader');
-                throw new Error('Access denied: You must be a member of the "odmd-rag-uploader" group to upload documents.');
-            }
+            this.requireAccess(this.userInfo);
 
             localStorage.setItem('id_token', this._idToken);
             localStorage.setItem('user_info', JSON.stringify(this.userInfo));
@@ -0,0 +1,22 @@
+/**
+ * Computes the base64 SHA-256 of a file in a Web Worker. The upload API requires it
+ * and S3 rejects any upload whose bytes do not hash to the same value.
+ */
+export function computeSha256(file: File): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const worker = new Worker(new URL('./checksumWorker.ts', import.meta.url), {type: 'module'});
+        worker.onmessage = (event: MessageEvent<{ checksumSha256?: string; error?: string }>) => {
+            worker.terminate();
+            if (event.data.checksumSha256) {
+                resolve(event.data.checksumSha256);
+            } else {
+                reject(new Error(`Failed to compute checksum: ${event.data.error}`));
+            }
+        };
+        worker.onerror = (event) => {
+            worker.terminate();
+            reject(new Error(`Failed to compute checksum: ${event.message}`));
+        };
+        worker.postMessage(file);
+    });
+}
@@ -0,0 +1,15 @@
+/**
+ * Hashes a file off the main thread so large uploads do not freeze the page while
+ * the checksum is computed. Replies with the base64 SHA-256 digest S3 expects in
+ * `x-amz-checksum-sha256`.
+ */
+self.onmessage = async (event: MessageEvent<File>) => {
+    try {
+        const digest = await crypto.subtle.digest('SHA-256', await event.data.arrayBuffer());
+        let binary = '';
+        new Uint8Array(digest).forEach(byte => binary += String.fromCharCode(byte));
+        self.postMessage({checksumSha256: btoa(binary)});
+    } catch (error) {
+        self.postMessage({error: error instanceof Error ? error.message : String(error)});
+    }
+};
@@ -2,6 +2,8 @@ export interface Config {
     aws: {
         region: string;
         apiEndpoint: string;
+        /** `wss://` URL of the status WebSocket API; without it the UI polls for status. */
+        webSocketEndpoint?: string;
     };
     google: {
         clientId: string;
@@ -1,12 +1,88 @@
 import {getConfig} from './config.ts';
-import {DocumentTracker} from './documentTracker.ts';
+import {MULTIPART_THRESHOLD, MultipartUploader} from './multipartUpload.ts';
+import {computeSha256} from './checksum.ts';
+import {StatusSocket, type StatusWatcher} from './statusSocket.ts';
+
+/** The most files `POST /uploads/batch` accepts in one request. */
+const MAX_BATCH_FILES = 50;
 
 export interface UploadResponse {
+    status: 'pending_upload' | 'duplicate';
     uploadUrl: string;
+    uploadMethod: 'PUT' | 'POST';
     documentId: string;
     fields: Record<string, string>;
 }
 
+/** The outcome for the file at `index` of a `POST /uploads/batch` request. */
+export type BatchUploadResult = {index: number; fileName?: string} & (
+    | (Omit<UploadResponse, 'status' | 'fields'> & {status: 'pending_upload'; fields?: Record<string, string>})
+    | {status: 'duplicate'; documentId: string; state: string}
+    | {status: 'error'; statusCode: number; error: string}
+);
+
+export interface UploadResult {
+    documentId: string;
+    /** The content was already uploaded; `documentId` is the existing document. */
+    duplicate: boolean;
+}
+
+/** The outcome for one file of `uploadDocuments`; `error` is set when the file was not uploaded. */
+export type BatchFileResult = {fileName: string} & (UploadResult | {error: string});
+
+export interface BatchFile {
+    file: File;
+    contentType: string;
+}
+
+export interface DocumentMetadataInput {
+    title?: string;
+    tags?: string[];
+    collection?: string;
+    language?: string;
+    classification?: 'public' | 'internal' | 'confidential' | 'restricted';
+    source?: { url?: string; author?: string };
+}
+
+export interface UploadOptions {
+    /** Upload even if the same content was uploaded before. */
+    force?: boolean;
+    /** Only treat content as a duplicate within the upload's collection rather than across all of the user's. */
+    duplicateScope?: 'user' | 'collection';
+    /** Upload as a new revision of this validated document. */
+    replacesDocumentId?: string;
+    /** Descriptive metadata; the service rejects the upload if any field is invalid. */
+    metadata?: DocumentMetadataInput;
+    /** Collection to upload into; the user's default collection when omitted. */
+    collectionId?: string;
+}
+
+export interface Collection {
+    collectionId: string;
+    name: string;
+    description?: string;
+    isDefault: boolean;
+    createdAt: string;
+}
+
+export interface QuotaUsage {
+    used: number;
+    limit: number;
+    remaining: number;
+}
+
+export interface StorageUsage {
+    bytes: QuotaUsage;
+    documents: QuotaUsage;
+}
+
+/** The caller's usage against their quotas, from `GET /usage`. */
+export interface Usage {
+    storage: StorageUsage;
+    collection: StorageUsage & {collectionId: string};
+    uploads: QuotaUsage & {windowEndsAt: string};
+}
+
 export interface DocumentStatus {
     documentId: string;
     status: 'pending' | 'processing' | 'completed' | 'failed' | 'uploaded' | 'validated' | 'quarantined';
@@ -16,54 +92,157 @@ export interface DocumentStatus {
     metadata?: any;
 }
 
+export interface DocumentTypePolicy {
+    mimeType: string;
+    label: string;
+    extensions: string[];
+    maxFileSize: number;
+    validators: string[];
+    inspection?: 'pdf';
+}
+
+export interface DocumentPolicy {
+    version: number;
+    maxFileSize: number;
+    types: DocumentTypePolicy[];
+}
+
+/** A registry entry as returned by `GET /documents`, in the status route's shape. */
+export interface DocumentSummary {
+    documentId: string;
+    status: 'pending' | 'aborted' | 'validated' | 'rejected' | 'quarantined' | 'duplicate' | 'superseded' | 'deleted';
+    fileName: string;
+    fileType: string;
+    fileSize: number;
+    uploadedAt: string;
+    errorMessage?: string;
+    /** Findings the policy approved the document with, e.g. a PDF that needs OCR. */
+    annotations?: {reasonCode: string; reason: string}[];
+    revision?: number;
+    previousRevisionId?: string;
+    supersededBy?: string;
+    currentRevisionId?: string;
+    metadata?: DocumentMetadataInput;
+    collectionId?: string;
+}
+
+export interface DocumentListOptions {
+    status?: string[];
+    contentType?: string;
+    fileNamePrefix?: string;
+    collectionId?: string;
+    from?: string;
+    to?: string;
+    order?: 'asc' | 'desc';
+    limit?: number;
+    cursor?: string;
+}
+
+export interface DocumentListPage {
+    documents: DocumentSummary[];
+    nextCursor?: string;
+}
+
+export type PipelineStage = 'ingestion' | 'processing' | 'embedding' | 'vector-storage';
+
+/** One stage of `GET /pipeline/{documentId}`, normalized by the ingestion API. */
+export interface StageStatus {
+    stage: PipelineStage;
+    status: 'pending' | 'processing' | 'completed' | 'failed';
+    /** The stage's service could not be reached, so its status is unknown. */
+    unavailable?: boolean;
+    timestamp: string;
+    processingTimeMs?: number;
+    errorMessage?: string;
+    details?: { chunkCount?: number; embeddingCount?: number; vectorCount?: number; [key: string]: unknown };
+}
+
 export interface PipelineStatus {
     documentId: string;
     overallStatus: 'pending' | 'processing' | 'completed' | 'failed';
-    currentStage: string;
-    completedStages: string[];
-    failedStages: string[];
+    currentStage: PipelineStage;
+    completedStages: PipelineStage[];
+    failedStages: PipelineStage[];
     totalProcessingTime: number;
-    stageDetails: { [stage: string]: DocumentStatus };
+    stageDetails: Record<PipelineStage, StageStatus>;
+}
+
+export type HistoryEvent =
+    | 'upload_url_issued' | 'upload_aborted' | 'upload_completed' | 'validation_started' | 'validator_result'
+    | 'scan_pending' | 'validated' | 'quarantined' | 'released' | 'rejected' | 'duplicate' | 'superseded' | 'deleted' | 'stage_changed';
+
+/** One entry of `GET /documents/{documentId}/history`. */
+export interface HistoryEntry {
+    at: string;
+    event: HistoryEvent;
+    /** A user or service client by principal, or the part of the system that acted. */
+    actor: { type: 'user' | 'service' | 'system'; id: string };
+    details?: Record<string, unknown>;
+}
+
+/** A quarantined document as listed by `GET /review/quarantine`. */
+export interface QuarantineItem {
+    documentId: string;
+    userId: string;
+    uploadedBy?: string;
+    collectionId: string;
+    fileName: string;
+    fileType: string;
+    fileSize: number;
+    uploadedAt: string;
+    quarantinedAt: string;
+    /** When the quarantine bucket's lifecycle rule deletes the copy. */
+    expiresAt: string;
+    reasonCode?: string;
+    reason?: string;
+}
+
+export interface QuarantinePage {
+    items: QuarantineItem[];
+    nextCursor?: string;
 }
 
 export class DocumentService {
     private idToken: string | null = null;
-    private documentTracker: DocumentTracker | null = null;
+    private documentPolicy: DocumentPolicy | null = null;
+    private statusSocket: StatusSocket | null = null;
 
     async initialize(credentials: string): Promise<void> {
         this.idToken = credentials;
-        
+    }
+
+    async getDocumentPolicy(): Promise<DocumentPolicy> {
+        if (this.documentPolicy) {
+            return this.documentPolicy;
+        }
+        if (!this.idToken) {
+            throw new Error('DocumentService not initialized with idToken');
+        }
+
         const config = getConfig();
-        
-        if (!config.services) {
-            console.warn('⚠️ Services configuration not available - using fallback endpoints for development');
-            this.documentTracker = null;
-            return;
+
+        const response = await fetch(`${config.aws.apiEndpoint}/policy`, {
+            method: 'GET',
+            headers: {
+                'Content-Type': 'application/json',
+                'Authorization': `Bearer ${this.idToken}`,
+            },
+        });
+
+        if (!response.ok) {
+            throw new Error(`Failed to load document policy: ${response.statusText}`);
         }
-        
-        if (!config.services?.processing || !config.services?.embedding || !config.services?.vectorStorage) {
-            const missing = [];
-            if (!config.services?.processing) missing.push('processing');
-            if (!config.services?.embedding) missing.push('embedding');
-            if (!config.services?.vectorStorage) missing.push('vectorStorage');
-            
-            console.warn(`⚠️ Missing downstream service endpoints: ${missing.join(', ')} - falling back to legacy tracking`);
-            this.documentTracker = null;
-            return;
+
+        const result = await response.json();
+        if (!result.success || !result.data) {
+            throw new Error('Invalid response format from policy API');
         }
-        
-        const endpoints = {
-            ingestion: config.aws.apiEndpoint,
-            processing: config.services.processing,
-            embedding: config.services.embedding,
-            vectorStorage: config.services.vectorStorage
-        };
-        
-        this.documentTracker = new DocumentTracker(endpoints, credentials);
-        console.log('✅ DocumentTracker initialized with all service endpoints');
+
+        this.documentPolicy = result.data as DocumentPolicy;
+        return this.documentPolicy;
     }
 
-    async requestUploadUrl(fileName: string, fileType: string, fileSize: number): Promise<UploadResponse> {
+    async requestUploadUrl(fileName: string, fileType: string, fileSize: number, checksumSha256: string, options: UploadOptions = {}): Promise<UploadResponse> {
         if (!this.idToken) {
             throw new Error('DocumentService not initialized with idToken');
         }
@@ -79,73 +258,181 @@ export class DocumentService {
             body: JSON.stringify({
                 fileName,
                 fileType,
-                fileSize
+                fileSize,
+                checksumSha256,
+                uploadMethod: 'POST',
+                ...options
             }),
         });
 
+        const result = await response.json().catch(() => ({}));
         if (!response.ok) {
-            throw new Error(`Failed to get upload URL: ${response.statusText}`);
+            throw new Error(result.error || `Failed to get upload URL: ${response.statusText}`);
         }
-
-        const result = await response.json();
         
-        if (result.success && result.data) {
+        if (result.success && result.data?.status === 'duplicate') {
             return {
-                uploadUrl: result.data.uploadUrl,
-                documentId: result.data.uploadId,
+                status: 'duplicate',
+                uploadUrl: '',
+                uploadMethod: 'PUT',
+                documentId: result.data.documentId,
                 fields: {}
             };
+        } else if (result.success && result.data) {
+            return {
+                status: 'pending_upload',
+                uploadUrl: result.data.uploadUrl,
+                uploadMethod: result.data.uploadMethod || 'PUT',
+                documentId: result.data.documentId,
+                fields: result.data.fields || {}
+            };
         } else {
             throw new Error('Invalid response format from upload API');
         }
     }
 
-    async uploadDocument(file: File, progressCallback?: (progress: number) => void): Promise<string> {
+    async uploadDocument(file: File, contentType: string, progressCallback?: (progress: number) => void, options: UploadOptions = {}): Promise<UploadResult> {
         try {
+            progressCallback?.(5);
+
+            const checksumSha256 = await computeSha256(file);
             progressCallback?.(10);
 
-            const uploadResponse = await this.requestUploadUrl(file.name, file.type, file.size);
+            if (file.size >= MULTIPART_THRESHOLD) {
+                if (!this.idToken) {
+                    throw new Error('DocumentService not initialized with idToken');
+                }
+                const uploader = new MultipartUploader(getConfig().aws.apiEndpoint, this.idToken);
+                const result = await uploader.upload(file, contentType, checksumSha256, progressCallback, options);
+                progressCallback?.(95);
+                return result;
+            }
+
+            const uploadResponse = await this.requestUploadUrl(file.name, contentType, file.size, checksumSha256, options);
+            if (uploadResponse.status === 'duplicate') {
+                console.log(`♻️ ${file.name} was already uploaded as ${uploadResponse.documentId}`);
+                return {documentId: uploadResponse.documentId, duplicate: true};
+            }
             progressCallback?.(20);
 
             progressCallback?.(30);
 
-            const uploadResult = await new Promise<Response>((resolve, reject) => {
-                const xhr = new XMLHttpRequest();
+            await this.sendToS3(file, contentType, checksumSha256, uploadResponse, progressCallback);
 
-                xhr.upload.addEventListener('progress', (event) => {
-                    if (event.lengthComputable) {
-                        const uploadProgress = 30 + (event.loaded / event.total) * 60;
-                        progressCallback?.(Math.round(uploadProgress));
-                    }
-                });
+            progressCallback?.(95);
+            return {documentId: uploadResponse.documentId, duplicate: false};
+        } catch (error) {
+            console.error('Error uploading document:', error);
+            throw error;
+        }
+    }
 
-                xhr.addEventListener('load', () => {
-                    if (xhr.status >= 200 && xhr.status < 300) {
-                        resolve(new Response(xhr.response, {status: xhr.status, statusText: xhr.statusText}));
-                    } else {
-                        reject(new Error(`Upload failed: ${xhr.statusText}`));
-                    }
-                });
+    /** Sends the file to the presigned URL, reporting progress from 30% to 90%. */
+    private async sendToS3(file: File, contentType: string, checksumSha256: string, uploadResponse: UploadResponse,
+                           progressCallback?: (progress: number) => void): Promise<void> {
+        const uploadResult = await new Promise<Response>((resolve, reject) => {
+            const xhr = new XMLHttpRequest();
 
-                xhr.addEventListener('error', () => {
-                    reject(new Error('Upload failed due to network error'));
-                });
+            xhr.upload.addEventListener('progress', (event) => {
+                if (event.lengthComputable) {
+                    const uploadProgress = 30 + (event.loaded / event.total) * 60;
+                    progressCallback?.(Math.round(uploadProgress));
+                }
+            });
 
+            xhr.addEventListener('load', () => {
+                if (xhr.status >= 200 && xhr.status < 300) {
+                    resolve(new Response(xhr.response, {status: xhr.status, statusText: xhr.statusText}));
+                } else {
+                    reject(new Error(`Upload failed: ${xhr.statusText}`));
+                }
+            });
+
+            xhr.addEventListener('error', () => {
+                reject(new Error('Upload failed due to network error'));
+            });
+
+            if (uploadResponse.uploadMethod === 'POST') {
+                // S3 checks the signed policy against these fields; the file must come last.
+                const form = new FormData();
+                Object.entries(uploadResponse.fields).forEach(([name, value]) => form.append(name, value));
+                form.append('file', file);
+                xhr.open('POST', uploadResponse.uploadUrl);
+                xhr.send(form);
+            } else {
                 xhr.open('PUT', uploadResponse.uploadUrl);
-                xhr.setRequestHeader('Content-Type', file.type);
+                xhr.setRequestHeader('Content-Type', contentType);
+                xhr.setRequestHeader('x-amz-checksum-sha256', checksumSha256);
                 xhr.send(file);
+            }
+        });
+
+        if (!uploadResult.ok) {
+            throw new Error(`Upload failed: ${uploadResult.statusText}`);
+        }
+    }
+
+    /**
+     * Uploads several files, asking for their URLs with one `POST /uploads/batch`
+     * request per MAX_BATCH_FILES files.
+     * Files at or above the multipart threshold go through `uploadDocument` one by one.
+     * A file the service refuses, or whose upload fails, is reported in its result
+     * without stopping the others.
+     */
+    async uploadDocuments(files: BatchFile[], progressCallback?: (done: number, total: number) => void,
+                          options: UploadOptions = {}): Promise<{batchIds: string[]; results: BatchFileResult[]}> {
+        const results: BatchFileResult[] = [];
+        const report = (result: BatchFileResult) => {
+            results.push(result);
+            progressCallback?.(results.length, files.length);
+        };
+        const errorMessage = (error: unknown) => error instanceof Error ? error.message : String(error);
+
+        const small = files.filter(({file}) => file.size < MULTIPART_THRESHOLD);
+        const large = files.filter(({file}) => file.size >= MULTIPART_THRESHOLD);
+
+        const batchIds: string[] = [];
+        for (let start = 0; start < small.length; start += MAX_BATCH_FILES) {
+            const chunk = small.slice(start, start + MAX_BATCH_FILES);
+            const checksums = await Promise.all(chunk.map(({file}) => computeSha256(file)));
+            const batch = await this.callApi<{batchId: string; results: BatchUploadResult[]}>('POST', '/uploads/batch', {
+                files: chunk.map(({file, contentType}, i) => ({
+                    fileName: file.name,
+                    fileType: contentType,
+                    fileSize: file.size,
+                    checksumSha256: checksums[i],
+                    uploadMethod: 'POST',
+                    ...options
+                }))
             });
+            batchIds.push(batch.batchId);
 
-            if (!uploadResult.ok) {
-                throw new Error(`Upload failed: ${uploadResult.statusText}`);
+            for (const result of batch.results) {
+                const {file, contentType} = chunk[result.index]!;
+                if (result.status === 'error') {
+                    report({fileName: file.name, error: result.error});
+                } else if (result.status === 'duplicate') {
+                    report({fileName: file.name, documentId: result.documentId, duplicate: true});
+                } else {
+                    try {
+                        await this.sendToS3(file, contentType, checksums[result.index]!, {...result, fields: result.fields || {}});
+                        report({fileName: file.name, documentId: result.documentId, duplicate: false});
+                    } catch (error) {
+                        report({fileName: file.name, error: errorMessage(error)});
+                    }
+                }
             }
+        }
 
-            progressCallback?.(95);
-            return uploadResponse.documentId;
-        } catch (error) {
-            console.error('Error uploading document:', error);
-            throw error;
+        for (const {file, contentType} of large) {
+            try {
+                report({fileName: file.name, ...await this.uploadDocument(file, contentType, undefined, options)});
+            } catch (error) {
+                report({fileName: file.name, error: errorMessage(error)});
+            }
         }
+
+        return {batchIds, results};
     }
 
     async getUploadStatus(documentId: string): Promise<DocumentStatus> {
@@ -176,29 +463,123 @@ export class DocumentService {
         }
     }
 
-    async getPipelineStatus(documentId: string): Promise<PipelineStatus> {
-        if (!this.documentTracker) {
-            throw new Error('DocumentService not properly initialized with DocumentTracker');
+    async listDocuments(options: DocumentListOptions = {}): Promise<DocumentListPage> {
+        if (!this.idToken) {
+            throw new Error('DocumentService not initialized with idToken');
         }
+        const config = getConfig();
 
-        try {
-            return await this.documentTracker.getPipelineSummary(documentId);
-        } catch (error) {
-            console.error('Error getting pipeline status:', error);
-            throw error;
+        const params = new URLSearchParams();
+        for (const [name, value] of Object.entries(options)) {
+            if (value === undefined) continue;
+            params.set(name, Array.isArray(value) ? value.join(',') : String(value));
+        }
+        const query = params.toString();
+
+        const response = await fetch(`${config.aws.apiEndpoint}/documents${query ? `?${query}` : ''}`, {
+            method: 'GET',
+            headers: {
+                'Content-Type': 'application/json',
+                'Authorization': `Bearer ${this.idToken}`,
+            },
+        });
+
+        const result = await response.json().catch(() => ({}));
+        if (!response.ok || !result.success) {
+            throw new Error(result.error || `Failed to list documents: ${response.statusText}`);
         }
+        return result.data as DocumentListPage;
     }
 
-    async trackDocument(documentId: string, progressCallback?: (status: any) => void): Promise<any> {
-        if (!this.documentTracker) {
-            throw new Error('DocumentService not properly initialized with DocumentTracker');
+    async listCollections(): Promise<Collection[]> {
+        const data = await this.callApi<{collections: Collection[]}>('GET', '/collections');
+        return data.collections;
+    }
+
+    async createCollection(name: string, description?: string): Promise<Collection> {
+        return this.callApi<Collection>('POST', '/collections', {name, ...(description && {description})});
+    }
+
+    async deleteCollection(collectionId: string): Promise<void> {
+        await this.callApi('DELETE', `/collections/${encodeURIComponent(collectionId)}`);
+    }
+
+    async getUsage(collectionId?: string): Promise<Usage> {
+        const query = collectionId ? `?collectionId=${encodeURIComponent(collectionId)}` : '';
+        return this.callApi<Usage>('GET', `/usage${query}`);
+    }
+
+    /** Sends an authenticated request and unwraps the `{success, data, error}` envelope. */
+    private async callApi<T>(method: string, path: string, body?: unknown): Promise<T> {
+        if (!this.idToken) {
+            throw new Error('DocumentService not initialized with idToken');
         }
+        const config = getConfig();
 
+        const response = await fetch(`${config.aws.apiEndpoint}${path}`, {
+            method,
+            headers: {
+                'Content-Type': 'application/json',
+                'Authorization': `Bearer ${this.idToken}`,
+            },
+            ...(body !== undefined && {body: JSON.stringify(body)}),
+        });
+
+        const result = await response.json().catch(() => ({}));
+        if (!response.ok || !result.success) {
+            throw new Error(result.error || `${method} ${path} failed: ${response.statusText}`);
+        }
+        return result.data as T;
+    }
+
+    /** Quarantined documents from every user, oldest first. Reviewers only. */
+    async listQuarantine(cursor?: string): Promise<QuarantinePage> {
+        const query = new URLSearchParams({limit: '25', ...(cursor && {cursor})});
+        return this.callApi<QuarantinePage>('GET', `/review/quarantine?${query}`);
+    }
+
+    /** A presigned URL that downloads the quarantine copy for inspection; it expires after a few minutes. */
+    async getQuarantineDownloadUrl(documentId: string): Promise<string> {
+        const data = await this.callApi<{downloadUrl: string}>('GET', `/review/quarantine/${encodeURIComponent(documentId)}/download`);
+        return data.downloadUrl;
+    }
+
+    async releaseQuarantined(documentId: string, justification: string): Promise<void> {
+        await this.callApi('POST', `/review/quarantine/${encodeURIComponent(documentId)}/release`, {justification});
+    }
+
+    async rejectQuarantined(documentId: string, reason: string): Promise<void> {
+        await this.callApi('POST', `/review/quarantine/${encodeURIComponent(documentId)}/reject`, {reason});
+    }
+
+    /** Every stage of the pipeline, collected from the downstream services by the ingestion API. */
+    async getPipelineStatus(documentId: string): Promise<PipelineStatus> {
+        return this.callApi<PipelineStatus>('GET', `/pipeline/${encodeURIComponent(documentId)}`);
+    }
+
+    /** The document's audit trail, oldest first. */
+    async getDocumentHistory(documentId: string): Promise<HistoryEntry[]> {
+        const data = await this.callApi<{documentId: string; entries: HistoryEntry[]}>('GET', `/documents/${encodeURIComponent(documentId)}/history`);
+        return data.entries;
+    }
+
+    /**
+     * Pushes the document's status changes to `watcher` over the status WebSocket.
+     * Resolves to a function that stops watching, or to null when push is not
+     * available (no endpoint configured, or the connection failed), in which case
+     * the caller polls `getPipelineStatus` instead.
+     */
+    async watchDocument(documentId: string, watcher: StatusWatcher): Promise<(() => void) | null> {
+        const endpoint = getConfig().aws.webSocketEndpoint;
+        if (!endpoint || !this.idToken) {
+            return null;
+        }
+        this.statusSocket ??= new StatusSocket(endpoint);
         try {
-            return await this.documentTracker.trackDocument(documentId, progressCallback);
+            return await this.statusSocket.watch(documentId, this.idToken, watcher);
         } catch (error) {
-            console.error('Error tracking document:', error);
-            throw error;
+            console.warn('⚠️ Status push unavailable, polling instead:', error);
+            return null;
         }
     }
 
@@ -227,6 +608,18 @@ export class DocumentService {
             case 'pending':
                 mapped.status = 'pending';
                 break;
+            case 'duplicate':
+                mapped.status = 'validated';
+                mapped.message = `Same content as ${ingestionResult.duplicateOf}, which was ingested instead`;
+                break;
+            case 'superseded':
+                mapped.status = 'validated';
+                mapped.message = `Replaced by a newer revision, ${ingestionResult.supersededBy}`;
+                break;
+            case 'deleted':
+                mapped.status = 'failed';
+                mapped.message = 'Document was deleted';
+                break;
             case 'not_found':
                 mapped.status = 'failed';
                 mapped.message = 'Document not found';
@@ -0,0 +1,160 @@
+import type {UploadOptions, UploadResult} from './documentService.ts';
+
+export interface MultipartUploadSession {
+    documentId: string;
+    partSize: number;
+    partCount: number;
+}
+
+interface PartUrl {
+    partNumber: number;
+    url: string;
+}
+
+const SESSION_PREFIX = 'rag-multipart-upload:';
+const CONCURRENCY = 4;
+const URL_BATCH_SIZE = 20;
+const MAX_ATTEMPTS = 4;
+const RETRY_BASE_DELAY_MS = 1000;
+
+/**
+ * Files at or above this size go through the multipart routes; smaller ones use the
+ * single presigned PUT.
+ */
+export const MULTIPART_THRESHOLD = 16 * 1024 * 1024;
+
+/**
+ * Uploads a file in parts with a few parts in flight at once. Each part is retried
+ * on its own, and the upload session is kept in localStorage so a reload picks up
+ * where the previous page left off instead of starting over.
+ */
+export class MultipartUploader {
+    constructor(private readonly apiEndpoint: string, private readonly idToken: string) {
+    }
+
+    async upload(file: File, contentType: string, checksumSha256: string, progressCallback?: (progress: number) => void,
+                 options: UploadOptions = {}): Promise<UploadResult> {
+        const sessionKey = this.sessionKey(file);
+        const session = await this.resumeOrCreate(file, contentType, checksumSha256, options, sessionKey);
+        if (session.duplicate) {
+            console.log(`♻️ ${file.name} was already uploaded as ${session.documentId}`);
+            return {documentId: session.documentId, duplicate: true};
+        }
+
+        const uploaded = new Set(await this.listUploadedParts(session.documentId));
+        const pending = Array.from({length: session.partCount}, (_, i) => i + 1)
+            .filter(partNumber => !uploaded.has(partNumber));
+
+        let doneBytes = uploaded.size * session.partSize;
+        const report = () => progressCallback?.(Math.round(30 + Math.min(doneBytes / file.size, 1) * 60));
+        report();
+
+        const urls = new Map<number, string>();
+        const queue = [...pending];
+        const worker = async () => {
+            for (let partNumber = queue.shift(); partNumber !== undefined; partNumber = queue.shift()) {
+                const start = (partNumber - 1) * session.partSize;
+                const blob = file.slice(start, Math.min(start + session.partSize, file.size));
+                await this.uploadPart(session.documentId, partNumber, blob, urls, queue);
+                doneBytes += blob.size;
+                report();
+            }
+        };
+        await Promise.all(Array.from({length: Math.min(CONCURRENCY, pending.length)}, worker));
+
+        await this.request('POST', `/uploads/multipart/${session.documentId}/complete`);
+        localStorage.removeItem(sessionKey);
+        return {documentId: session.documentId, duplicate: false};
+    }
+
+    private sessionKey(file: File): string {
+        return `${SESSION_PREFIX}${file.name}:${file.size}:${file.lastModified}`;
+    }
+
+    private async resumeOrCreate(file: File, contentType: string, checksumSha256: string, options: UploadOptions,
+                                 sessionKey: string): Promise<MultipartUploadSession & { duplicate?: boolean }> {
+        const stored = localStorage.getItem(sessionKey);
+        if (stored) {
+            const session = JSON.parse(stored) as MultipartUploadSession;
+            try {
+                await this.listUploadedParts(session.documentId);
+                console.log(`🔁 Resuming multipart upload ${session.documentId}`);
+                return session;
+            } catch (error) {
+                console.warn(`⚠️ Stored upload ${session.documentId} can no longer be resumed, starting over:`, error);
+                localStorage.removeItem(sessionKey);
+            }
+        }
+
+        const session = await this.request<MultipartUploadSession & { status: 'pending_upload' | 'duplicate' }>('POST', '/uploads/multipart', {
+            fileName: file.name,
+            fileType: contentType,
+            fileSize: file.size,
+            checksumSha256,
+            ...options
+        });
+        if (session.status === 'duplicate') {
+            return {...session, duplicate: true};
+        }
+        localStorage.setItem(sessionKey, JSON.stringify({
+            documentId: session.documentId,
+            partSize: session.partSize,
+            partCount: session.partCount
+        }));
+        return session;
+    }
+
+    private async listUploadedParts(documentId: string): Promise<number[]> {
+        const result = await this.request<{ parts: { partNumber: number }[] }>('GET', `/uploads/multipart/${documentId}/parts`);
+        return result.parts.map(part => part.partNumber);
+    }
+
+    /**
+     * Presigns URLs for this part and the next few queued ones in a single request,
+     * so a large file costs one API call per batch rather than per part.
+     */
+    private async partUrl(documentId: string, partNumber: number, urls: Map<number, string>, queue: number[]): Promise<string> {
+        const cached = urls.get(partNumber);
+        if (cached) return cached;
+
+        const partNumbers = [partNumber, ...queue.filter(n => !urls.has(n)).slice(0, URL_BATCH_SIZE - 1)];
+        const result = await this.request<{ parts: PartUrl[] }>('POST', `/uploads/multipart/${documentId}/parts`, {partNumbers});
+        result.parts.forEach(part => urls.set(part.partNumber, part.url));
+        return urls.get(partNumber)!;
+    }
+
+    private async uploadPart(documentId: string, partNumber: number, blob: Blob, urls: Map<number, string>, queue: number[]): Promise<void> {
+        for (let attempt = 1; ; attempt++) {
+            try {
+                const url = await this.partUrl(documentId, partNumber, urls, queue);
+                const response = await fetch(url, {method: 'PUT', body: blob});
+                if (response.ok) return;
+                // An expired or rejected URL is presigned again on the next attempt.
+                urls.delete(partNumber);
+                throw new Error(`Part ${partNumber} failed: ${response.status} ${response.statusText}`);
+            } catch (error) {
+                if (attempt >= MAX_ATTEMPTS) throw error;
+                const delay = RETRY_BASE_DELAY_MS * 2 ** (attempt - 1);
+                console.warn(`⚠️ Retrying part ${partNumber} in ${delay}ms (attempt ${attempt + 1}/${MAX_ATTEMPTS})`, error);
+                await new Promise(resolve => setTimeout(resolve, delay));
+            }
+        }
+    }
+
+    private async request<T = unknown>(method: string, path: string, body?: unknown): Promise<T> {
+        const response = await fetch(`${this.apiEndpoint}${path}`, {
+            method,
+            headers: {
+                'Content-Type': 'application/json',
+                'Authorization': `Bearer ${this.idToken}`,
+            },
+            ...(body !== undefined && {body: JSON.stringify(body)}),
+        });
+
+        const result = await response.json().catch(() => ({}));
+        if (!response.ok || !result.success) {
+            throw new Error(result.error || `Multipart upload request failed: ${response.statusText}`);
+        }
+        return result.data as T;
+    }
+}
@@ -0,0 +1,120 @@
+import type { DocumentSummary, StageStatus } from './documentService.ts';
+
+/** Messages the status WebSocket API pushes about one document. */
+export type DocumentPushMessage =
+    | { type: 'document.status'; documentId: string; status: DocumentSummary }
+    | { type: 'pipeline.stage'; documentId: string; stage: StageStatus };
+
+type ServerMessage =
+    | DocumentPushMessage
+    | { type: 'subscribed'; documentIds: string[]; notFound: string[] }
+    | { type: 'unsubscribed'; documentIds: string[] }
+    | { type: 'error'; error: string };
+
+export interface StatusWatcher {
+    onMessage(message: DocumentPushMessage): void;
+    /** The connection closed or the document could not be subscribed to; poll from now on. */
+    onLost(): void;
+}
+
+const CONNECT_TIMEOUT_MS = 5000;
+
+/**
+ * One WebSocket connection to the status API, shared by every document being
+ * watched. It connects on the first watch and is not reopened by itself: when it
+ * closes, every watcher hears `onLost` and falls back to polling, and the next
+ * watch connects again.
+ */
+export class StatusSocket {
+    private socket: WebSocket | null = null;
+    private connecting: Promise<WebSocket> | null = null;
+    private readonly watchers = new Map<string, Set<StatusWatcher>>();
+
+    constructor(private readonly endpoint: string) {}
+
+    /** Resolves to a function that stops watching; rejects when the API cannot be reached. */
+    async watch(documentId: string, token: string, watcher: StatusWatcher): Promise<() => void> {
+        const socket = await this.connect(token);
+        let watchers = this.watchers.get(documentId);
+        if (!watchers) {
+            watchers = new Set();
+            this.watchers.set(documentId, watchers);
+            socket.send(JSON.stringify({ action: 'subscribe', documentIds: [documentId] }));
+        }
+        watchers.add(watcher);
+
+        return () => {
+            watchers.delete(watcher);
+            if (watchers.size > 0 || this.watchers.get(documentId) !== watchers) return;
+            this.watchers.delete(documentId);
+            if (this.socket?.readyState === WebSocket.OPEN) {
+                this.socket.send(JSON.stringify({ action: 'unsubscribe', documentIds: [documentId] }));
+            }
+        };
+    }
+
+    private connect(token: string): Promise<WebSocket> {
+        if (this.socket?.readyState === WebSocket.OPEN) {
+            return Promise.resolve(this.socket);
+        }
+        if (!this.connecting) {
+            this.connecting = new Promise<WebSocket>((resolve, reject) => {
+                const socket = new WebSocket(`${this.endpoint}?token=${encodeURIComponent(token)}`);
+                const timer = setTimeout(() => {
+                    reject(new Error('Timed out connecting to the status WebSocket'));
+                    socket.close();
+                }, CONNECT_TIMEOUT_MS);
+
+                socket.onopen = () => {
+                    clearTimeout(timer);
+                    this.socket = socket;
+                    resolve(socket);
+                };
+                socket.onmessage = event => this.dispatch(event.data);
+                socket.onclose = () => {
+                    clearTimeout(timer);
+                    reject(new Error('The status WebSocket closed'));
+                    this.closed(socket);
+                };
+            }).finally(() => {
+                this.connecting = null;
+            });
+        }
+        return this.connecting;
+    }
+
+    private dispatch(data: unknown): void {
+        let message: ServerMessage;
+        try {
+            message = JSON.parse(String(data));
+        } catch {
+            console.warn('⚠️ Ignoring a status message that is not JSON:', data);
+            return;
+        }
+
+        switch (message.type) {
+            case 'document.status':
+            case 'pipeline.stage':
+                this.watchers.get(message.documentId)?.forEach(watcher => watcher.onMessage(message));
+                break;
+            case 'subscribed':
+                message.notFound.forEach(documentId => this.drop(documentId));
+                break;
+            case 'error':
+                console.warn('⚠️ Status WebSocket error:', message.error);
+                break;
+        }
+    }
+
+    private drop(documentId: string): void {
+        const watchers = this.watchers.get(documentId);
+        this.watchers.delete(documentId);
+        watchers?.forEach(watcher => watcher.onLost());
+    }
+
+    private closed(socket: WebSocket): void {
+        if (this.socket !== socket) return;
+        this.socket = null;
+        [...this.watchers.keys()].forEach(documentId => this.drop(documentId));
+    }
+}